@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { VerificationEditor } from '@/components/training/VerificationEditor';
 import type { TrainingDocument } from '@/lib/types';
 import { getTrainingDocument, fetchTrainingDocuments } from '@/lib/training-api';
+import { getMinimumConfidence } from '@/lib/confidence';
 import { toast } from 'sonner';
 
 export default function VerifyDocumentPage() {
@@ -47,7 +48,17 @@ export default function VerifyDocumentPage() {
         is_verified: false,
         limit: 1000,
       });
-      const ids = response.documents.map(d => d.id);
+      // Review queue: documents with the least confident fields come first,
+      // documents without field confidence (older extractions) keep their order at the end
+      const ids = response.documents
+        .map((d, index) => ({ id: d.id, index, confidence: getMinimumConfidence(d.raw_extraction) }))
+        .sort((a, b) => {
+          if (a.confidence === null || b.confidence === null) {
+            return a.confidence === b.confidence ? a.index - b.index : a.confidence === null ? 1 : -1;
+          }
+          return a.confidence - b.confidence || a.index - b.index;
+        })
+        .map(d => d.id);
       setAllDocumentIds(ids);
     } catch (err) {
       console.error('Failed to load document IDs:', err);
@@ -195,6 +195,14 @@ export async function POST(
       .single();
 
     if (memberError) {
+      // Seat limit enforced by the database (migration 031) - another member was added concurrently
+      if (memberError.code === '23514') {
+        return NextResponse.json(
+          { success: false, error: memberError.message },
+          { status: 400 }
+        );
+      }
+
       console.error('Error adding member:', memberError);
       return NextResponse.json(
         { success: false, error: 'Failed to add member to group' },
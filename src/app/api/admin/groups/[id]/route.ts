@@ -134,7 +134,7 @@ export async function PATCH(
     // Check if group exists
     const { data: existingGroup, error: checkError } = await supabase
       .from('user_groups')
-      .select('id, name')
+      .select('id, name, extra_seats')
       .eq('id', id)
       .single();
 
@@ -179,8 +179,8 @@ export async function PATCH(
         );
       }
       updateData.subscription_type = body.subscription_type;
-      // Update max_members based on new subscription type
-      updateData.max_members = GROUP_MAX_MEMBERS[body.subscription_type as GroupSubscriptionType];
+      // Update max_members based on new subscription type, keeping seats bought on top of it
+      updateData.max_members = GROUP_MAX_MEMBERS[body.subscription_type as GroupSubscriptionType] + (existingGroup.extra_seats || 0);
     }
 
     if (body.subscription_status !== undefined) {
@@ -1,45 +1,100 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { classifyDocument } from '@/lib/anthropic';
+import { CLASSIFICATION_MAX_PAGES } from '@/lib/anthropic';
+import { getExtractionProvider } from '@/lib/extraction-providers';
+import { getSession } from '@/lib/auth-helpers';
 import type { ApiResponse, ClassificationResponse } from '@/lib/types';
 
+// Route segment config - classification renders a few PDF pages and makes one short Claude call
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+/**
+ * Classify an uploaded document into one of the supported document types
+ * Analyzes only the first few pages - no credits are charged for classification
+ *
+ * Accepts multipart/form-data with either `file` or `supabaseUrl`, plus optional `maxPages`
+ */
 export async function POST(request: NextRequest) {
   try {
-    console.warn('DEPRECATED: /api/classify endpoint is deprecated. The application now uses manual document type selection instead of automatic classification.');
+    const session = await getSession();
 
-    // Return deprecation notice with helpful information
-    const response: ApiResponse = {
-      success: false,
-      error: 'This endpoint has been deprecated. Please use manual document type selection with the /api/extract endpoint.',
-      message: 'Auto-classification has been replaced with manual document type selection for improved accuracy and user control. Supported document types: rent_roll, operating_budget, broker_sales_comparables, broker_lease_comparables, broker_listing, offering_memo, lease_agreement, financial_statements.'
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authentication required. Please sign in to classify documents.'
+      }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const supabaseUrl = formData.get('supabaseUrl') as string | null;
+    const maxPagesParam = formData.get('maxPages') as string | null;
+
+    if (!file && !supabaseUrl) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'No file or Supabase URL provided'
+      }, { status: 400 });
+    }
+
+    const maxPages = Math.min(
+      Math.max(parseInt(maxPagesParam || '', 10) || CLASSIFICATION_MAX_PAGES, 1),
+      10
+    );
+
+    // If Supabase URL is provided, fetch the file from there
+    let fileToClassify: File;
+    if (supabaseUrl) {
+      const response = await fetch(supabaseUrl);
+      if (!response.ok) {
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `Failed to fetch file from Supabase: ${response.statusText}`
+        }, { status: 500 });
+      }
+      const arrayBuffer = await response.arrayBuffer();
+      const contentType = response.headers.get('content-type') || 'application/pdf';
+      const urlParts = supabaseUrl.split('/');
+      const filename = urlParts[urlParts.length - 1].split('?')[0] || 'document.pdf';
+      fileToClassify = new File([arrayBuffer], filename, {
+        type: contentType.startsWith('image/') ? contentType : 'application/pdf'
+      });
+    } else {
+      fileToClassify = file as File;
+    }
+
+    console.log(`[Classify API] Classifying ${fileToClassify.name} for user ${session.user.email} (max ${maxPages} pages)`);
+
+    const classificationResult = await getExtractionProvider().classifyDocument(fileToClassify, maxPages);
+
+    const response: ApiResponse<ClassificationResponse> = {
+      success: true,
+      data: classificationResult
     };
 
     return NextResponse.json(response, {
-      status: 410, // Gone - indicates the resource is no longer available
       headers: {
-        'X-API-Deprecated': 'true',
-        'X-Deprecation-Date': '2025-01-15',
-        'X-Replacement-Endpoint': '/api/extract',
-        'X-Supported-Document-Types': 'rent_roll,operating_budget,broker_sales_comparables,broker_lease_comparables,broker_listing,offering_memo,lease_agreement,financial_statements'
+        'Cache-Control': 'no-store, max-age=0',
       }
     });
 
   } catch (error) {
-    console.error('Classification API accessed (deprecated):', error);
+    console.error('Classification API error:', error);
 
     return NextResponse.json<ApiResponse>({
       success: false,
-      error: 'Classification endpoint is deprecated. Use manual document type selection with /api/extract instead.'
-    }, { status: 410 });
+      error: error instanceof Error ? error.message : 'Document classification failed'
+    }, { status: 500 });
   }
 }
 
-export async function OPTIONS(request: NextRequest) {
+export async function OPTIONS() {
   return new NextResponse(null, {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
-}
\ No newline at end of file
+}
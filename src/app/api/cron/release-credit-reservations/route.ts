@@ -0,0 +1,76 @@
+/**
+ * Cron Job: Release Credit Reservations
+ * POST /api/cron/release-credit-reservations
+ *
+ * Refunds credit reservations left open by extractions that crashed or timed out before
+ * committing or releasing them (older than 15 minutes, well past the extract route's maxDuration)
+ * Reservations of extraction jobs that are still saving progress are kept - they are being resumed
+ * Should be triggered hourly by Vercel Cron
+ *
+ * Vercel Cron Configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/release-credit-reservations",
+ *     "schedule": "45 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { releaseExpiredCreditReservations } from '@/middleware/creditCheck';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify this is a legitimate cron request
+    const authHeader = request.headers.get('authorization');
+
+    // For Vercel Cron, check if this is from Vercel's internal system
+    // In development, allow without auth check
+    if (process.env.NODE_ENV === 'production') {
+      const cronSecret = process.env.CRON_SECRET;
+      if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.error('[CRON] Unauthorized release-credit-reservations attempt');
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    console.log('[CRON] Starting credit reservation release job...');
+    const startTime = Date.now();
+
+    const released = await releaseExpiredCreditReservations();
+
+    const duration = Date.now() - startTime;
+    console.log(`[CRON] Credit reservation release completed: ${released} released in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      released,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('[CRON] Error in release-credit-reservations:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error during credit reservation release',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Allow GET for manual testing in development
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV !== 'development') {
+    return NextResponse.json(
+      { error: 'GET method only available in development' },
+      { status: 405 }
+    );
+  }
+
+  console.log('[CRON] Manual trigger of release-credit-reservations (development)');
+  return POST(request);
+}
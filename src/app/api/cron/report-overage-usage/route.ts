@@ -0,0 +1,77 @@
+/**
+ * Cron Job: Report Overage Usage
+ * POST /api/cron/report-overage-usage
+ *
+ * Reports committed overage pages to the Stripe meter when the report right after the
+ * extraction failed (Stripe unavailable, rate limited); gives up on a reservation after
+ * MAX_OVERAGE_REPORT_ATTEMPTS and leaves the last error on it for support
+ * Should be triggered hourly by Vercel Cron
+ *
+ * Vercel Cron Configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/report-overage-usage",
+ *     "schedule": "30 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reportPendingOverageUsage } from '@/lib/overage';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify this is a legitimate cron request
+    const authHeader = request.headers.get('authorization');
+
+    // For Vercel Cron, check if this is from Vercel's internal system
+    // In development, allow without auth check
+    if (process.env.NODE_ENV === 'production') {
+      const cronSecret = process.env.CRON_SECRET;
+      if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.error('[CRON] Unauthorized report-overage-usage attempt');
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    console.log('[CRON] Starting overage usage report job...');
+    const startTime = Date.now();
+
+    const { reported, failed } = await reportPendingOverageUsage();
+
+    const duration = Date.now() - startTime;
+    console.log(`[CRON] Overage usage report completed: ${reported} reported, ${failed} failed in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      reported,
+      failed,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('[CRON] Error in report-overage-usage:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error during overage usage report',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Allow GET for manual testing in development
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV !== 'development') {
+    return NextResponse.json(
+      { error: 'GET method only available in development' },
+      { status: 405 }
+    );
+  }
+
+  console.log('[CRON] Manual trigger of report-overage-usage (development)');
+  return POST(request);
+}
@@ -0,0 +1,81 @@
+/**
+ * Cron Job: Resume Extraction Jobs
+ * POST /api/cron/resume-extraction-jobs
+ *
+ * Resumes extraction jobs that stopped reporting progress (the function running them hit
+ * maxDuration or crashed) when nobody is polling them, and fails the ones that cannot be resumed
+ * A resumed job only extracts the page windows it has not saved yet
+ * Should be triggered every 5 minutes by Vercel Cron
+ *
+ * Vercel Cron Configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/resume-extraction-jobs",
+ *     "schedule": "*\/5 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { recoverStaleExtractionJobs } from '@/lib/extraction-jobs';
+
+// Resumed jobs run in this invocation
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify this is a legitimate cron request
+    const authHeader = request.headers.get('authorization');
+
+    // For Vercel Cron, check if this is from Vercel's internal system
+    // In development, allow without auth check
+    if (process.env.NODE_ENV === 'production') {
+      const cronSecret = process.env.CRON_SECRET;
+      if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.error('[CRON] Unauthorized resume-extraction-jobs attempt');
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    console.log('[CRON] Starting extraction job recovery...');
+    const startTime = Date.now();
+
+    const { resumed, failed } = await recoverStaleExtractionJobs(after);
+
+    const duration = Date.now() - startTime;
+    console.log(`[CRON] Extraction job recovery completed: ${resumed} resumed, ${failed} failed in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      resumed,
+      failed,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('[CRON] Error in resume-extraction-jobs:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error during extraction job recovery',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Allow GET for manual testing in development
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV !== 'development') {
+    return NextResponse.json(
+      { error: 'GET method only available in development' },
+      { status: 405 }
+    );
+  }
+
+  console.log('[CRON] Manual trigger of resume-extraction-jobs (development)');
+  return POST(request);
+}
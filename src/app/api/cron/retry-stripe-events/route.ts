@@ -0,0 +1,75 @@
+/**
+ * Cron Job: Retry Stripe Events
+ * POST /api/cron/retry-stripe-events
+ *
+ * Re-processes Stripe webhook events that failed (or were left in processing by a crashed
+ * attempt), up to MAX_STRIPE_EVENT_ATTEMPTS attempts per event
+ * Should be triggered hourly by Vercel Cron
+ *
+ * Vercel Cron Configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/retry-stripe-events",
+ *     "schedule": "15 * * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { retryFailedStripeEvents } from '@/lib/stripe-webhooks';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify this is a legitimate cron request
+    const authHeader = request.headers.get('authorization');
+
+    // For Vercel Cron, check if this is from Vercel's internal system
+    // In development, allow without auth check
+    if (process.env.NODE_ENV === 'production') {
+      const cronSecret = process.env.CRON_SECRET;
+      if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.error('[CRON] Unauthorized retry-stripe-events attempt');
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+    }
+
+    console.log('[CRON] Starting Stripe event retry job...');
+    const startTime = Date.now();
+
+    const result = await retryFailedStripeEvents();
+
+    const duration = Date.now() - startTime;
+    console.log(`[CRON] Stripe event retry completed: ${result.processed} processed, ${result.failed} still failing in ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      duration,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('[CRON] Error in retry-stripe-events:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error during Stripe event retry',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Allow GET for manual testing in development
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV !== 'development') {
+    return NextResponse.json(
+      { error: 'GET method only available in development' },
+      { status: 405 }
+    );
+  }
+
+  console.log('[CRON] Manual trigger of retry-stripe-events (development)');
+  return POST(request);
+}
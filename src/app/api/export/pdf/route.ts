@@ -0,0 +1,66 @@
+/**
+ * PDF Summary Export API
+ * POST - Branded PDF extraction summary for investment committee packets: property overview,
+ *        key metrics, tenant table, lease expiration profile and validation warnings
+ *        Body: { extractedData } - same extraction payload as /api/export
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateSummaryPdf } from '@/lib/pdf-report';
+import {
+  ExportRequestSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse, ExtractedData } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (hasPrototypePollution(body)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(ExportRequestSchema, body);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const extractedData = validation.data.extractedData as ExtractedData;
+    const buffer = generateSummaryPdf(extractedData);
+
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+    const filename = `RExeli_${extractedData.documentType}_summary_${timestamp}.pdf`;
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': buffer.byteLength.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('PDF summary export API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to generate PDF summary' },
+      { status: 500 }
+    );
+  }
+}
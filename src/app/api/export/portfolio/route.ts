@@ -0,0 +1,96 @@
+/**
+ * Portfolio Export API
+ * POST - Combines saved documents into one workbook: a consolidated "Portfolio" sheet
+ *        (rent, SF, occupancy, merged lease expiration schedule) plus a sheet per property
+ *        Body: { documentIds: string[] } - up to 50 completed documents the user can see
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { generatePortfolioWorkbook, getPortfolioDocuments } from '@/lib/portfolio-export';
+import {
+  PortfolioExportRequestSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (hasPrototypePollution(body)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(PortfolioExportRequestSchema, body);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const documentIds = [...new Set(validation.data.documentIds)];
+    const documents = await getPortfolioDocuments(session.user.id, documentIds);
+
+    if (documents.length < documentIds.length) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `${documentIds.length - documents.length} of the selected documents were not found` },
+        { status: 404 }
+      );
+    }
+
+    const notReady = documents.filter(doc => doc.processing_status !== 'completed' || !doc.extracted_data);
+    if (notReady.length > 0) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Only completed documents can be exported. Not ready: ${notReady.map(doc => doc.file_name).join(', ')}`
+        },
+        { status: 400 }
+      );
+    }
+
+    const workbook = generatePortfolioWorkbook(
+      documents.map(doc => ({ id: doc.id, fileName: doc.file_name, extractedData: doc.extracted_data! }))
+    );
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+    const filename = `RExeli_portfolio_${timestamp}.xlsx`;
+
+    return new NextResponse(buffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': buffer.byteLength.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Portfolio export API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to export portfolio' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Extraction Job Status API
+ * GET /api/extract/jobs/[id]
+ * Returns the stage and progress of an extraction job, and its results once completed
+ * A job that stopped reporting progress is resumed after the response is sent
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { getExtractionJob } from '@/lib/extraction-jobs';
+import type { ApiResponse, ExtractionJob } from '@/lib/types';
+
+// A resumed job runs in this invocation
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const job = await getExtractionJob(id, session.user.id, after);
+
+    if (!job) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Extraction job not found or access denied'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<ExtractionJob>>({
+      success: true,
+      data: job
+    }, {
+      headers: {
+        'Cache-Control': 'no-store, max-age=0',
+      }
+    });
+  } catch (error) {
+    console.error('[Extraction Job API] Error fetching job:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch extraction job'
+    }, { status: 500 });
+  }
+}
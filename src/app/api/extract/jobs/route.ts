@@ -0,0 +1,46 @@
+/**
+ * Extraction Jobs API
+ * GET /api/extract/jobs
+ * Lists the current user's extraction jobs that are still running,
+ * so the tool page can resume a job after a reload or from another tab
+ * Jobs that stopped reporting progress are resumed after the response is sent
+ */
+
+import { NextResponse, after } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { listActiveExtractionJobs } from '@/lib/extraction-jobs';
+import type { ApiResponse, ExtractionJob } from '@/lib/types';
+
+// A resumed job runs in this invocation
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+export async function GET() {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const jobs = await listActiveExtractionJobs(session.user.id, after);
+
+    return NextResponse.json<ApiResponse<ExtractionJob[]>>({
+      success: true,
+      data: jobs
+    }, {
+      headers: {
+        'Cache-Control': 'no-store, max-age=0',
+      }
+    });
+  } catch (error) {
+    console.error('[Extraction Jobs API] Error listing jobs:', error);
+    return NextResponse.json<ApiResponse>({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch extraction jobs'
+    }, { status: 500 });
+  }
+}
@@ -1,10 +1,25 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { extractDocumentData } from '@/lib/anthropic';
-import { transformExtractedData } from '@/lib/data-transformers';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getExtractionProvider } from '@/lib/extraction-providers';
 import { getSession } from '@/lib/auth-helpers';
-import type { ApiResponse, ExtractionResponse, DocumentType, ExtractedData } from '@/lib/types';
+import type { ApiResponse, ExtractionResponse, ExtractionJobSubmission, ClassificationResponse, DocumentType, DocumentTypeSelection } from '@/lib/types';
 import { getPageCount } from '@/lib/pdfUtils';
-import { validateCreditTransaction, deductCredits, logUsage, saveUserDocument } from '@/middleware/creditCheck';
+import {
+  validateCreditTransaction,
+  getEffectiveCredits,
+  reserveCredits,
+  commitCreditReservation,
+  releaseCreditReservation,
+  logUsage,
+  saveUserDocument
+} from '@/middleware/creditCheck';
+import { uploadFileToSupabase } from '@/lib/supabase';
+import {
+  createExtractionJob,
+  createExtractionUserMetadata,
+  extractAndReconcile,
+  isResumableExtraction,
+  runExtractionJob
+} from '@/lib/extraction-jobs';
 
 // Route segment config - optimize for long-running Claude API calls
 export const runtime = 'nodejs';
@@ -15,6 +30,9 @@ export async function POST(request: NextRequest) {
   console.log('[Extract API] Request method:', request.method);
   console.log('[Extract API] Request headers:', Object.fromEntries(request.headers.entries()));
 
+  // Open credit reservation - refunded in the error handler if extraction throws
+  let reservationId: string | null = null;
+
   try {
     // Get user session - REQUIRED for credit system
     const session = await getSession();
@@ -38,8 +56,10 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
     const supabaseUrl = formData.get('supabaseUrl') as string | null;
-    const documentType = formData.get('documentType') as DocumentType;
+    const requestedDocumentType = formData.get('documentType') as DocumentTypeSelection;
     const userInstructions = formData.get('userInstructions') as string | null;
+    // async=true returns a job id immediately - progress is read from /api/extract/jobs/[id]
+    const runAsJob = formData.get('async') === 'true';
 
     // Accept either a file directly or a Supabase URL to fetch from
     if (!file && !supabaseUrl) {
@@ -49,7 +69,7 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    if (!documentType) {
+    if (!requestedDocumentType) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Document type is required'
@@ -66,12 +86,15 @@ export async function POST(request: NextRequest) {
       'offering_memo',
       'lease_agreement',
       'financial_statements',
+      // Mixed-content PDFs, split into per-document segments
+      'document_package',
       // Legacy types for backward compatibility
       'comparable_sales',
       'financial_statement'
     ];
 
-    if (!validTypes.includes(documentType)) {
+    // 'auto' defers the type to classification after credits are validated
+    if (requestedDocumentType !== 'auto' && !validTypes.includes(requestedDocumentType)) {
       return NextResponse.json<ApiResponse>({
         success: false,
         error: 'Invalid document type'
@@ -138,7 +161,57 @@ export async function POST(request: NextRequest) {
 
     console.log(`[CREDIT APPROVED] ${creditValidation.message}`);
 
-    // Extract structured data using Claude Sonnet 4.5 (handles PDF conversion automatically)
+    // ============================================
+    // AUTO-DETECT: Classify first pages before extraction (no credits charged)
+    // ============================================
+    let documentType: DocumentType;
+    let classificationResult: ClassificationResponse | undefined;
+
+    if (requestedDocumentType === 'auto') {
+      classificationResult = await getExtractionProvider().classifyDocument(fileToProcess);
+      const { classification } = classificationResult;
+
+      console.log(`[Extract API] Auto-detect classified document as ${classification.type} (confidence ${classification.confidence})`);
+
+      // Below threshold: return the suggestion so the user can confirm before any credits are spent
+      if (!classificationResult.autoAccepted) {
+        return NextResponse.json<ApiResponse<ClassificationResponse>>({
+          success: false,
+          data: classificationResult,
+          error: 'Document type could not be detected with enough confidence. Please confirm the document type.',
+          message: 'Document type confirmation required'
+        }, { status: 409 });
+      }
+
+      documentType = classification.type;
+    } else {
+      documentType = requestedDocumentType;
+    }
+
+    // ============================================
+    // CREDIT SYSTEM: Reserve credits - committed on success, refunded if extraction fails
+    // ============================================
+    const reservation = await reserveCredits(userId, pageCount, `Document processing: ${fileToProcess.name}`);
+
+    if (!reservation.success || !reservation.reservationId) {
+      if (reservation.error === 'Insufficient credits') {
+        console.log(`[CREDIT DENIED] User ${session.user.email} - reservation of ${pageCount} credits failed, ${reservation.remainingCredits} available`);
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: `Insufficient credits. This document has ${pageCount} ${pageCount === 1 ? 'page' : 'pages'} but only ${reservation.remainingCredits} ${reservation.remainingCredits === 1 ? 'credit is' : 'credits are'} available - other documents may still be processing.`
+        }, { status: 402 });
+      }
+
+      return NextResponse.json<ApiResponse>({
+        success: false,
+        error: 'Unable to reserve credits. Please try again or contact support.'
+      }, { status: 500 });
+    }
+
+    const creditReservationId = reservation.reservationId;
+    reservationId = creditReservationId;
+
+    // Extract structured data with the configured provider (handles PDF conversion automatically)
     const startTime = Date.now();
     console.log(`Processing file for extraction: ${fileToProcess.name}, size: ${fileToProcess.size} bytes, type: ${fileToProcess.type}`);
 
@@ -155,70 +228,115 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    console.log(`Starting data extraction for manually selected document type: ${documentType}`);
+    console.log(`Starting data extraction for ${classificationResult ? 'auto-detected' : 'manually selected'} document type: ${documentType}`);
     if (userInstructions) {
       console.log(`[Extract API] User provided custom instructions: ${userInstructions.substring(0, 100)}...`);
     }
 
     // Create user metadata for extraction
-    const userMetadata = {
-      pdfFileName: fileToProcess.name,
-      rexeliUserName: session?.user?.name || 'Unknown User',
-      rexeliUserEmail: session?.user?.email || 'unknown@rexeli.com',
-      extractionTimestamp: new Date().toISOString(),
-      documentId: `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    };
+    const userMetadata = createExtractionUserMetadata(fileToProcess.name, session.user);
 
     console.log('[Extract API] User metadata:', userMetadata);
 
-    let extractedData;
-    let partialSuccess = false;
-    let warnings: string[] = [];
-
-    try {
-      extractedData = await extractDocumentData(fileToProcess, documentType, userMetadata, userInstructions || undefined);
-      console.log('Raw data extraction completed:', extractedData);
-
-      // Transform the extracted data to match display component expectations
-      extractedData = transformExtractedData(extractedData);
-      console.log('Data transformation completed successfully');
-    } catch (extractionError) {
-      console.error('Extraction error, attempting partial recovery:', extractionError);
-
-      // Try to provide partial results if extraction fails
-      if (extractionError instanceof Error && extractionError.message.includes('Invalid JSON')) {
-        partialSuccess = true;
-        warnings.push('Some data may be incomplete due to parsing errors');
-        // Return a minimal structure for the selected document type with type assertion
-        extractedData = {
-          documentType,
-          metadata: {
-            // Document metadata (failed extraction)
-            extractedDate: new Date().toISOString().split('T')[0],
-            propertyName: 'Unable to extract',
-            propertyAddress: 'Unable to extract',
-            // User metadata (from system)
-            ...userMetadata
-          },
-          data: {} as any // Empty data object with type assertion - client should handle gracefully
-        } as ExtractedData;
-      } else {
-        throw extractionError; // Re-throw if not a parsing error
+    // ============================================
+    // ASYNC JOB: Respond with the job id, extract after the response is sent
+    // ============================================
+    if (runAsJob) {
+      let filePath = supabaseUrl || fileToProcess.name;
+
+      // A resumed job downloads the document again - store a direct upload before queueing it
+      if (!supabaseUrl && isResumableExtraction(documentType, pageCount)) {
+        try {
+          filePath = (await uploadFileToSupabase(fileToProcess)).url;
+        } catch (uploadError) {
+          console.error('[Extract API] Failed to store upload for extraction job:', uploadError);
+          await releaseCreditReservation(creditReservationId, `Upload of ${fileToProcess.name} could not be stored`);
+          return NextResponse.json<ApiResponse>({
+            success: false,
+            error: 'Failed to store the document for processing. Please try again.'
+          }, { status: 500 });
+        }
+      }
+
+      const jobId = await createExtractionJob(userId, {
+        filePath,
+        fileName: fileToProcess.name,
+        documentType,
+        pageCount,
+        creditReservationId,
+        userMetadata,
+        userInstructions: userInstructions || undefined
+      });
+
+      if (!jobId) {
+        await releaseCreditReservation(creditReservationId, `Extraction job for ${fileToProcess.name} could not be created`);
+        return NextResponse.json<ApiResponse>({
+          success: false,
+          error: 'Failed to create extraction job. Please try again.'
+        }, { status: 500 });
       }
+
+      // The job commits or refunds the reservation from here on
+      reservationId = null;
+
+      after(() => runExtractionJob(jobId, {
+        userId,
+        file: fileToProcess,
+        filePath,
+        documentType,
+        pageCount,
+        creditReservationId,
+        userMetadata,
+        userInstructions: userInstructions || undefined
+      }));
+
+      console.log(`[Extract API] Queued extraction job ${jobId} for user ${session.user.email}`);
+
+      return NextResponse.json<ApiResponse<ExtractionJobSubmission>>({
+        success: true,
+        data: {
+          jobId,
+          status: 'processing',
+          ...(classificationResult && { classification: classificationResult })
+        },
+        message: 'Extraction started'
+      }, {
+        status: 202,
+        headers: {
+          'Cache-Control': 'no-store, max-age=0',
+        }
+      });
     }
 
+    const { extractedData, partialSuccess, warnings } = await extractAndReconcile(
+      fileToProcess,
+      documentType,
+      userMetadata,
+      userInstructions || undefined
+    );
+
     const processingTime = Date.now() - startTime;
 
     // ============================================
-    // CREDIT SYSTEM: Deduct credits and log usage (only on success)
+    // CREDIT SYSTEM: Commit the reservation, or refund it for partial results
     // ============================================
-    const deductionResult = await deductCredits(userId, pageCount);
-
-    if (!deductionResult.success) {
-      console.error('[CREDIT DEDUCTION FAILED]', deductionResult.error);
+    let creditsUsed = pageCount;
+    let remainingCredits = reservation.remainingCredits;
+
+    if (partialSuccess) {
+      const refunded = await releaseCreditReservation(creditReservationId, `Partial extraction of ${fileToProcess.name}`);
+      creditsUsed -= refunded;
+      // Refunded pages may include overage, which never came from the balance
+      remainingCredits = await getEffectiveCredits(userId);
+      if (refunded > 0) {
+        warnings.push('No credits were used for this partial result.');
+      }
+    } else if (!(await commitCreditReservation(creditReservationId))) {
+      console.error('[CREDIT COMMIT FAILED] Reservation', creditReservationId, 'was not open');
       // Still return the extracted data but warn about credit issue
       warnings.push('Credit deduction failed. Please contact support.');
     }
+    reservationId = null;
 
     // Log usage - CHECK RETURN VALUE
     const usageLogged = await logUsage(userId, {
@@ -226,6 +344,7 @@ export async function POST(request: NextRequest) {
       fileName: fileToProcess.name,
       filePath: supabaseUrl || fileToProcess.name,
       pageCount,
+      creditsUsed,
       processingStatus: 'success',
       processingTimeMs: processingTime,
     });
@@ -244,6 +363,7 @@ export async function POST(request: NextRequest) {
       documentType,
       extractedData: extractedData,
       pageCount,
+      creditsUsed,
       processingStatus: 'completed',
     });
 
@@ -254,19 +374,20 @@ export async function POST(request: NextRequest) {
       console.log('[DOCUMENT SAVE SUCCESS] Saved document:', documentId, 'for user:', session.user.email);
     }
 
-    console.log(`[CREDIT DEDUCTED] User ${session.user.email} - ${pageCount} credits used. Remaining: ${deductionResult.remainingCredits}`);
+    console.log(`[CREDIT DEDUCTED] User ${session.user.email} - ${creditsUsed} credits used. Remaining: ${remainingCredits}`);
 
     const response: ApiResponse<ExtractionResponse> = {
       success: true,
       data: {
         extractedData,
         processingTime,
-        creditsUsed: pageCount,
-        remainingCredits: deductionResult.remainingCredits,
+        creditsUsed,
+        remainingCredits,
+        ...(classificationResult && { classification: classificationResult }),
       } as any,
       message: partialSuccess
         ? `Data extraction completed with partial results for ${documentType.replace('_', ' ')}`
-        : `Successfully processed! ${pageCount} ${pageCount === 1 ? 'credit' : 'credits'} used. ${deductionResult.remainingCredits} ${deductionResult.remainingCredits === 1 ? 'credit' : 'credits'} remaining.`,
+        : `Successfully processed! ${creditsUsed} ${creditsUsed === 1 ? 'credit' : 'credits'} used. ${remainingCredits} ${remainingCredits === 1 ? 'credit' : 'credits'} remaining.`,
       ...(warnings.length > 0 && { warnings })
     };
 
@@ -280,8 +401,13 @@ export async function POST(request: NextRequest) {
     console.error('Extraction API error:', error);
 
     // ============================================
-    // CREDIT SYSTEM: Log failed processing (NO credit deduction)
+    // CREDIT SYSTEM: Refund the reservation and log failed processing
     // ============================================
+    if (reservationId) {
+      const reason = error instanceof Error ? error.message.slice(0, 200) : 'Unknown error';
+      await releaseCreditReservation(reservationId, `Extraction failed - ${reason}`);
+    }
+
     const session = await getSession();
     if (session?.user?.id) {
       try {
@@ -298,12 +424,13 @@ export async function POST(request: NextRequest) {
           } catch {}
         }
 
-        // Log failed processing (no credit deduction)
+        // Log failed processing (credits refunded above)
         await logUsage(session.user.id, {
           documentType: documentType || 'unknown',
           fileName: file?.name || 'unknown',
           filePath: file?.name || 'unknown',
           pageCount,
+          creditsUsed: 0,
           processingStatus: 'failed',
           errorMessage: error instanceof Error ? error.message : 'Unknown error',
         });
@@ -11,7 +11,7 @@ import type {
   DocumentType
 } from '@/lib/types';
 import { supabase, updateTrainingDocumentExtraction, calculateConfidenceScore } from '@/lib/training-utils';
-import { extractDocumentData } from '@/lib/anthropic';
+import { getExtractionProvider } from '@/lib/extraction-providers';
 import { ProcessBatchRequestSchema, safeValidateInput, formatValidationError, hasPrototypePollution } from '@/lib/validation';
 
 export async function POST(request: NextRequest) {
@@ -141,7 +141,8 @@ export async function POST(request: NextRequest) {
 
         // Extract data using OpenAI
         console.log(`Extracting data for document type: ${document.document_type}`);
-        const extractedData = await extractDocumentData(fileToProcess, document.document_type as DocumentType);
+        const documentType = document.document_type as DocumentType;
+        const extractedData = await getExtractionProvider(documentType).extractDocument(fileToProcess, documentType);
 
         // Calculate confidence score
         const confidence = calculateConfidenceScore(extractedData);
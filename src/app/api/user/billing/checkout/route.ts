@@ -0,0 +1,84 @@
+/**
+ * User API: Checkout
+ * POST /api/user/billing/checkout - Buy a credit pack or start / switch a subscription
+ * Body: { type: 'credit_pack', pack } | { type: 'subscription', plan, interval }
+ * Returns the Stripe Checkout URL to redirect to, or switched: true when an existing
+ * subscription was moved to the new plan in place
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { BillingError, createCheckout, getBillingReturnUrl } from '@/lib/billing';
+import { StripeApiError, isStripeApiConfigured } from '@/lib/stripe';
+import {
+  CheckoutRequestSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isStripeApiConfigured()) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Online payments are not available yet' },
+        { status: 503 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (hasPrototypePollution(body)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(CheckoutRequestSchema, body);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await createCheckout(
+      session.user.id,
+      validation.data,
+      getBillingReturnUrl(request.nextUrl.origin)
+    );
+
+    return NextResponse.json<ApiResponse>({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json<ApiResponse>({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error creating checkout:', error);
+
+    // Stripe's own message is safe to show for card / request errors, not for auth or server errors
+    if (error instanceof StripeApiError && error.status >= 400 && error.status < 500 && error.status !== 401) {
+      return NextResponse.json<ApiResponse>({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to start checkout' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * User API: Group Checkout
+ * POST /api/user/billing/group/checkout - Start or change the subscription of the group the
+ * user owns
+ * Body: { plan: 'professional' | 'business', interval: 'monthly' | 'annual', extraSeats? }
+ * Returns the Stripe Checkout URL to redirect to, or switched: true when the group's existing
+ * subscription was updated in place
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { BillingError, createGroupCheckout, getBillingReturnUrl } from '@/lib/billing';
+import { StripeApiError, isStripeApiConfigured } from '@/lib/stripe';
+import {
+  GroupCheckoutRequestSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isStripeApiConfigured()) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Online payments are not available yet' },
+        { status: 503 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (hasPrototypePollution(body)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(GroupCheckoutRequestSchema, body);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await createGroupCheckout(
+      session.user.id,
+      validation.data,
+      getBillingReturnUrl(request.nextUrl.origin)
+    );
+
+    return NextResponse.json<ApiResponse>({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json<ApiResponse>({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error creating group checkout:', error);
+
+    // Stripe's own message is safe to show for card / request errors, not for auth or server errors
+    if (error instanceof StripeApiError && error.status >= 400 && error.status < 500 && error.status !== 401) {
+      return NextResponse.json<ApiResponse>({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to start group checkout' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * User API: Group Billing Portal
+ * POST /api/user/billing/group/portal - Stripe Customer Portal session for the group the
+ * user owns; returns the portal URL to redirect to
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { BillingError, createGroupBillingPortalSession, getBillingReturnUrl } from '@/lib/billing';
+import { isStripeApiConfigured } from '@/lib/stripe';
+import type { ApiResponse } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isStripeApiConfigured()) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Online payments are not available yet' },
+        { status: 503 }
+      );
+    }
+
+    const url = await createGroupBillingPortalSession(session.user.id, getBillingReturnUrl(request.nextUrl.origin));
+
+    return NextResponse.json<ApiResponse>({ success: true, data: { url } });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json<ApiResponse>({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error creating group billing portal session:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to open billing portal' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * User API: Group Billing
+ * GET /api/user/billing/group - Plan, seats in use and purchase options of the group the
+ * user owns; 403 for users who do not own a group
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { BillingError, getGroupBillingInfo } from '@/lib/billing';
+import { isStripeApiConfigured } from '@/lib/stripe';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const info = await getGroupBillingInfo(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        billingEnabled: isStripeApiConfigured(),
+        ...info,
+      },
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error fetching group billing info:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch group billing information' },
+      { status: 500 }
+    );
+  }
+}
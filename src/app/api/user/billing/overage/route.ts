@@ -0,0 +1,103 @@
+/**
+ * User API: Overage Billing
+ * GET /api/user/billing/overage - Overage settings, this month's overage and the projected bill
+ * PUT /api/user/billing/overage - Turn overage on or off and set the monthly cap
+ * Body: { enabled: boolean, monthlyCap?: number (USD) }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { BillingError } from '@/lib/billing';
+import { getOverageStatus, updateOverageSettings } from '@/lib/overage';
+import { StripeApiError } from '@/lib/stripe';
+import {
+  OverageSettingsSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse } from '@/lib/types';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const status = await getOverageStatus(session.user.id);
+
+    return NextResponse.json<ApiResponse>({ success: true, data: status });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json<ApiResponse>({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error fetching overage status:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to fetch overage information' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (hasPrototypePollution(body)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(OverageSettingsSchema, body);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const status = await updateOverageSettings(session.user.id, validation.data);
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: status,
+      message: status.enabled ? 'Overage billing is on' : 'Overage billing is off',
+    });
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json<ApiResponse>({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error updating overage settings:', error);
+
+    // Stripe's own message is safe to show for request errors, not for auth or server errors
+    if (error instanceof StripeApiError && error.status >= 400 && error.status < 500 && error.status !== 401) {
+      return NextResponse.json<ApiResponse>({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to update overage settings' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * User API: Billing
+ * GET /api/user/billing - Credit packs and plans that can be bought, and whether the user
+ * has a billing account for the Customer Portal
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { getBillingCatalog, hasBillingAccount } from '@/lib/billing';
+import { isStripeApiConfigured } from '@/lib/stripe';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const billingEnabled = isStripeApiConfigured();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        billingEnabled,
+        hasBillingAccount: billingEnabled && await hasBillingAccount(session.user.id),
+        subscriptionType: session.user.subscriptionType,
+        subscriptionStatus: session.user.subscriptionStatus,
+        ...getBillingCatalog(),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching billing info:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch billing information' },
+      { status: 500 }
+    );
+  }
+}
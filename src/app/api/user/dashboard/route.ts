@@ -22,7 +22,7 @@ export async function GET() {
       // User data (include group_id)
       supabase
         .from('users')
-        .select('credits, subscription_type, subscription_status, monthly_usage, lifetime_usage, billing_cycle_end, group_id')
+        .select('credits, subscription_type, subscription_status, monthly_usage, lifetime_usage, billing_cycle_end, group_id, overage_enabled')
         .eq('id', userId)
         .single(),
 
@@ -2,11 +2,13 @@
  * User API: Download Document
  * GET /api/user/documents/[id]/download
  * Allows users to download their processed documents as JSON
+ * (POST /api/user/documents/[id]/export re-exports them as Excel, ODS, CSV, JSON or Parquet)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth-helpers';
 import { supabaseAdmin as supabase } from '@/lib/supabase';
+import { recordDocumentDownload } from '@/lib/document-downloads';
 
 export async function GET(
   request: NextRequest,
@@ -49,12 +51,7 @@ export async function GET(
     }
 
     // Increment download count
-    await supabase
-      .from('user_documents')
-      .update({
-        download_count: (document.download_count || 0) + 1,
-      })
-      .eq('id', id);
+    await recordDocumentDownload(document.id, 'raw');
 
     // Prepare download data
     const downloadData = {
@@ -0,0 +1,130 @@
+/**
+ * User API: Re-export Document
+ * POST /api/user/documents/[id]/export
+ * Regenerates a saved document's export with the current export engine - the same layouts,
+ * formats and templates as /api/export, so older extractions get today's workbooks
+ * Body: { options?: { format, profile, templateId, workbookTemplateId, includeRawData, ... } }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { DocumentExportError, generateDocumentExport } from '@/lib/document-export';
+import { getUserDocument, recordDocumentDownload, withSavedDocumentMetadata } from '@/lib/document-downloads';
+import {
+  ExportRequestSchema,
+  SavedDocumentExportRequestSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse, ExtractedData } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { id } = await context.params;
+
+    // An empty body re-exports the standard Excel workbook
+    let body: unknown;
+    try {
+      const requestText = await request.text();
+      body = requestText.trim() ? JSON.parse(requestText) : {};
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (hasPrototypePollution(body)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(SavedDocumentExportRequestSchema, body);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const options = validation.data.options || {};
+
+    const document = await getUserDocument(userId, id);
+    if (!document) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Document not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    if (document.processing_status !== 'completed' || !document.extracted_data) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Document processing not completed' },
+        { status: 400 }
+      );
+    }
+
+    // Stored data goes through the same schema as a fresh export
+    const storedValidation = safeValidateInput(ExportRequestSchema, {
+      extractedData: withSavedDocumentMetadata(document, session.user),
+      options
+    });
+    if (!storedValidation.success) {
+      console.error(`Saved document ${id} cannot be re-exported:`, storedValidation.error);
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Saved extraction cannot be exported: ${formatValidationError(storedValidation.error)}`
+        },
+        { status: 422 }
+      );
+    }
+
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+    const safeFileName = document.file_name.replace(/\.pdf$/i, '').replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+    const file = await generateDocumentExport(
+      storedValidation.data.extractedData as ExtractedData,
+      options,
+      userId,
+      `RExeli_${safeFileName}_${timestamp}`
+    );
+
+    await recordDocumentDownload(document.id, options.format || 'xlsx');
+
+    return new NextResponse(new Uint8Array(file.buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Content-Length': file.buffer.byteLength.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Error re-exporting document:', error);
+
+    if (error instanceof DocumentExportError) {
+      return NextResponse.json<ApiResponse>({ success: false, error: error.message }, { status: error.status });
+    }
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to export document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * User Export Template Detail API
+ * PATCH - Updates a personal template, or a group template (group owners only)
+ * DELETE - Deletes a personal or group template (same permissions)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { supabaseAdmin as supabase } from '@/lib/supabase';
+import { canManageExportTemplate, getExportTemplate, isBuiltInExportTemplate } from '@/lib/export-templates';
+import {
+  UpdateExportTemplateSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse, ExportTemplate } from '@/lib/types';
+
+/**
+ * Load a template the user may change, or the error response to return
+ */
+async function getManageableTemplate(
+  id: string,
+  userId: string
+): Promise<{ template: ExportTemplate } | { response: NextResponse }> {
+  if (isBuiltInExportTemplate(id)) {
+    return {
+      response: NextResponse.json<ApiResponse>(
+        { success: false, error: 'Built-in templates cannot be changed' },
+        { status: 403 }
+      )
+    };
+  }
+
+  const template = await getExportTemplate(id, userId);
+  if (!template) {
+    return {
+      response: NextResponse.json<ApiResponse>({ success: false, error: 'Export template not found' }, { status: 404 })
+    };
+  }
+
+  if (!(await canManageExportTemplate(template, userId))) {
+    return {
+      response: NextResponse.json<ApiResponse>(
+        { success: false, error: 'Only the group owner can change group templates' },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { template };
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const result = await getManageableTemplate(id, session.user.id);
+    if ('response' in result) return result.response;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (hasPrototypePollution(body)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(UpdateExportTemplateSchema, body);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const { data: template, error } = await supabase
+      .from('export_templates')
+      .update(validation.data)
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error || !template) {
+      console.error('Error updating export template:', error);
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Failed to update export template' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<ExportTemplate>>({
+      success: true,
+      data: template as ExportTemplate,
+      message: 'Export template updated'
+    });
+  } catch (error) {
+    console.error('Export template API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to update export template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const result = await getManageableTemplate(id, session.user.id);
+    if ('response' in result) return result.response;
+
+    const { error } = await supabase
+      .from('export_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting export template:', error);
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Failed to delete export template' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Export Templates] Deleted template "${result.template.name}" (${id})`);
+
+    return NextResponse.json<ApiResponse>({ success: true, message: 'Export template deleted' });
+  } catch (error) {
+    console.error('Export template API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to delete export template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * User Export Templates API
+ * GET - Lists the templates the user can export with (built-in, personal and group)
+ * POST - Creates a personal template, or a group template (group owners only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { supabaseAdmin as supabase } from '@/lib/supabase';
+import { getAccessibleExportTemplates, getUserGroupMembership } from '@/lib/export-templates';
+import {
+  CreateExportTemplateSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse, ExportTemplate, ExportTemplatesResponse } from '@/lib/types';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getUserGroupMembership(session.user.id);
+    const templates = await getAccessibleExportTemplates(session.user.id, membership?.groupId);
+
+    return NextResponse.json<ExportTemplatesResponse>({
+      success: true,
+      templates,
+      can_manage_group_templates: membership?.role === 'owner'
+    });
+  } catch (error) {
+    console.error('Export templates API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to fetch export templates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (hasPrototypePollution(body)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(CreateExportTemplateSchema, body);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const { scope, ...fields } = validation.data;
+    let groupId: string | null = null;
+
+    if (scope === 'group') {
+      const membership = await getUserGroupMembership(session.user.id);
+      if (!membership) {
+        return NextResponse.json<ApiResponse>(
+          { success: false, error: 'You are not a member of a group' },
+          { status: 400 }
+        );
+      }
+      if (membership.role !== 'owner') {
+        return NextResponse.json<ApiResponse>(
+          { success: false, error: 'Only the group owner can create group templates' },
+          { status: 403 }
+        );
+      }
+      groupId = membership.groupId;
+    }
+
+    const { data: template, error } = await supabase
+      .from('export_templates')
+      .insert({
+        ...fields,
+        description: fields.description ?? null,
+        document_type: 'rent_roll',
+        user_id: groupId ? null : session.user.id,
+        group_id: groupId,
+        created_by: session.user.id
+      })
+      .select('*')
+      .single();
+
+    if (error || !template) {
+      console.error('Error creating export template:', error);
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Failed to create export template' },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Export Templates] Created ${scope} template "${template.name}" (${template.id})`);
+
+    return NextResponse.json<ApiResponse<ExportTemplate>>(
+      { success: true, data: template as ExportTemplate, message: 'Export template created' },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Export templates API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to create export template' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * User Usage Analytics API
  * Returns usage logs, credit transactions, and statistics
+ * Credit transactions include the user's own deductions and refunds on a group pool
  */
 
 import { NextResponse } from 'next/server';
@@ -18,7 +19,7 @@ export async function GET() {
     const userId = session.user.id;
 
     // Fetch all data in parallel
-    const [usageLogsResult, transactionsResult, allLogsResult] = await Promise.all([
+    const [usageLogsResult, transactionsResult, groupTransactionsResult, allLogsResult] = await Promise.all([
       // Recent usage logs (last 50)
       supabase
         .from('usage_logs')
@@ -35,6 +36,14 @@ export async function GET() {
         .order('timestamp', { ascending: false })
         .limit(30),
 
+      // Group pool transactions made by this user (last 30)
+      supabase
+        .from('group_credit_transactions')
+        .select('id, amount, transaction_type, description, timestamp')
+        .eq('user_id', userId)
+        .order('timestamp', { ascending: false })
+        .limit(30),
+
       // All logs for stats calculation
       supabase
         .from('usage_logs')
@@ -67,9 +76,13 @@ export async function GET() {
       avgPagesPerDoc,
     };
 
+    const creditTransactions = [...(transactionsResult.data || []), ...(groupTransactionsResult.data || [])]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, 30);
+
     return NextResponse.json({
       usageLogs: usageLogsResult.data || [],
-      creditTransactions: transactionsResult.data || [],
+      creditTransactions,
       stats
     });
 
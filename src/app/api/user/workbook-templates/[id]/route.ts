@@ -0,0 +1,168 @@
+/**
+ * User Workbook Template Detail API
+ * PATCH - Updates a template's name, description, document type or bindings
+ * DELETE - Deletes a template and its stored file
+ * Personal templates are managed by their owner, group templates by the group owner
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { supabaseAdmin as supabase } from '@/lib/supabase';
+import {
+  canManageWorkbookTemplate,
+  deleteWorkbookTemplateFile,
+  downloadWorkbookTemplateFile,
+  findUnresolvedBindings,
+  getWorkbookTemplate
+} from '@/lib/workbook-templates';
+import {
+  UpdateWorkbookTemplateSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse, WorkbookTemplate } from '@/lib/types';
+
+/**
+ * Load a template the user may change, or the error response to return
+ */
+async function getManageableTemplate(
+  id: string,
+  userId: string
+): Promise<{ template: WorkbookTemplate } | { response: NextResponse }> {
+  const template = await getWorkbookTemplate(id, userId);
+  if (!template) {
+    return {
+      response: NextResponse.json<ApiResponse>({ success: false, error: 'Workbook template not found' }, { status: 404 })
+    };
+  }
+
+  if (!(await canManageWorkbookTemplate(template, userId))) {
+    return {
+      response: NextResponse.json<ApiResponse>(
+        { success: false, error: 'Only the group owner can change group templates' },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { template };
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const result = await getManageableTemplate(id, session.user.id);
+    if ('response' in result) return result.response;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (hasPrototypePollution(body)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(UpdateWorkbookTemplateSchema, body);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    if (validation.data.bindings) {
+      const buffer = await downloadWorkbookTemplateFile(result.template.storage_path);
+      const unresolved = await findUnresolvedBindings(buffer, validation.data.bindings);
+      if (unresolved.length > 0) {
+        return NextResponse.json<ApiResponse>(
+          { success: false, error: `Binding targets not found in the workbook: ${unresolved.join(', ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: template, error } = await supabase
+      .from('workbook_templates')
+      .update(validation.data)
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error || !template) {
+      console.error('Error updating workbook template:', error);
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Failed to update workbook template' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<WorkbookTemplate>>({
+      success: true,
+      data: template as WorkbookTemplate,
+      message: 'Workbook template updated'
+    });
+  } catch (error) {
+    console.error('Workbook template API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to update workbook template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const result = await getManageableTemplate(id, session.user.id);
+    if ('response' in result) return result.response;
+
+    const { error } = await supabase
+      .from('workbook_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting workbook template:', error);
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Failed to delete workbook template' },
+        { status: 500 }
+      );
+    }
+
+    await deleteWorkbookTemplateFile(result.template.storage_path);
+    console.log(`[Workbook Templates] Deleted template "${result.template.name}" (${id})`);
+
+    return NextResponse.json<ApiResponse>({ success: true, message: 'Workbook template deleted' });
+  } catch (error) {
+    console.error('Workbook template API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to delete workbook template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * User Workbook Templates API
+ * GET - Lists the uploaded .xlsx templates the user can export into (personal and group)
+ * POST - Uploads a template (multipart: file, name, description, document_type, bindings JSON, scope)
+ *        Group templates can only be uploaded by the group owner
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { supabaseAdmin as supabase } from '@/lib/supabase';
+import { getUserGroupMembership } from '@/lib/export-templates';
+import {
+  MAX_WORKBOOK_TEMPLATE_SIZE,
+  deleteWorkbookTemplateFile,
+  findUnresolvedBindings,
+  getAccessibleWorkbookTemplates,
+  inspectWorkbookTemplate,
+  uploadWorkbookTemplateFile
+} from '@/lib/workbook-templates';
+import {
+  CreateWorkbookTemplateSchema,
+  safeValidateInput,
+  formatValidationError,
+  hasPrototypePollution
+} from '@/lib/validation';
+import type { ApiResponse, WorkbookTemplate, WorkbookTemplatesResponse } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getUserGroupMembership(session.user.id);
+    const templates = await getAccessibleWorkbookTemplates(session.user.id, membership?.groupId);
+
+    return NextResponse.json<WorkbookTemplatesResponse>({
+      success: true,
+      templates,
+      can_manage_group_templates: membership?.role === 'owner'
+    });
+  } catch (error) {
+    console.error('Workbook templates API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Failed to fetch workbook templates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'Missing required field: file' }, { status: 400 });
+    }
+
+    if (!file.name.toLowerCase().endsWith('.xlsx')) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid file type. Please upload an .xlsx workbook.' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_WORKBOOK_TEMPLATE_SIZE) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'File size too large. Maximum size is 4MB.' },
+        { status: 400 }
+      );
+    }
+
+    let bindings: unknown = [];
+    try {
+      const rawBindings = formData.get('bindings');
+      bindings = typeof rawBindings === 'string' && rawBindings.trim() ? JSON.parse(rawBindings) : [];
+    } catch {
+      return NextResponse.json<ApiResponse>({ success: false, error: 'bindings must be valid JSON' }, { status: 400 });
+    }
+
+    const fields = {
+      name: formData.get('name'),
+      description: formData.get('description') || null,
+      document_type: formData.get('document_type') || null,
+      bindings,
+      scope: formData.get('scope') || undefined
+    };
+
+    if (hasPrototypePollution(fields)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Invalid request: malicious input detected' },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateInput(CreateWorkbookTemplateSchema, fields);
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: formatValidationError(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const { scope, ...templateFields } = validation.data;
+    let groupId: string | null = null;
+
+    if (scope === 'group') {
+      const membership = await getUserGroupMembership(session.user.id);
+      if (!membership) {
+        return NextResponse.json<ApiResponse>(
+          { success: false, error: 'You are not a member of a group - upload the template with scope "user"' },
+          { status: 400 }
+        );
+      }
+      if (membership.role !== 'owner') {
+        return NextResponse.json<ApiResponse>(
+          { success: false, error: 'Only the group owner can upload group templates' },
+          { status: 403 }
+        );
+      }
+      groupId = membership.groupId;
+    }
+
+    // Reject unreadable workbooks and bindings that point nowhere before storing anything
+    const buffer = Buffer.from(await file.arrayBuffer());
+    let inspection;
+    try {
+      inspection = await inspectWorkbookTemplate(buffer);
+    } catch (error) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid workbook' },
+        { status: 400 }
+      );
+    }
+
+    const unresolved = await findUnresolvedBindings(buffer, templateFields.bindings);
+    if (unresolved.length > 0) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `Binding targets not found in the workbook: ${unresolved.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (templateFields.bindings.length === 0 && inspection.placeholders.length === 0) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Template has no bindings and no {{path}} placeholders' },
+        { status: 400 }
+      );
+    }
+
+    const storagePath = `${groupId ? `groups/${groupId}` : `users/${session.user.id}`}/${crypto.randomUUID()}.xlsx`;
+    await uploadWorkbookTemplateFile(storagePath, buffer);
+
+    const { data: template, error } = await supabase
+      .from('workbook_templates')
+      .insert({
+        ...templateFields,
+        description: templateFields.description ?? null,
+        document_type: templateFields.document_type ?? null,
+        file_name: file.name,
+        file_size: file.size,
+        storage_path: storagePath,
+        user_id: groupId ? null : session.user.id,
+        group_id: groupId,
+        created_by: session.user.id
+      })
+      .select('*')
+      .single();
+
+    if (error || !template) {
+      console.error('Error creating workbook template:', error);
+      await deleteWorkbookTemplateFile(storagePath);
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Failed to save workbook template' },
+        { status: 500 }
+      );
+    }
+
+    console.log(
+      `[Workbook Templates] Uploaded ${scope} template "${template.name}" (${template.id}): ` +
+      `${templateFields.bindings.length} bindings, ${inspection.placeholders.length} placeholders`
+    );
+
+    return NextResponse.json<ApiResponse<WorkbookTemplate & { placeholders: typeof inspection.placeholders }>>(
+      {
+        success: true,
+        data: { ...(template as WorkbookTemplate), placeholders: inspection.placeholders },
+        message: 'Workbook template uploaded'
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Workbook templates API error:', error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to upload workbook template' },
+      { status: 500 }
+    );
+  }
+}
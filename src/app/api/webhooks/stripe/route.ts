@@ -2,10 +2,13 @@
  * Stripe Webhook Handler
  *
  * This endpoint receives webhook events from Stripe for:
- * - Successful payments
+ * - Completed checkouts (credit packs and new subscriptions)
  * - Subscription changes
- * - Failed payments
- * - Refunds
+ * - Subscription invoice payments (credit renewal) and failures
+ *
+ * Events are verified, recorded in the stripe_events ledger by event id and processed once
+ * (see src/lib/stripe-webhooks.ts). A failed event answers 500 so Stripe retries it; the
+ * retry-stripe-events cron picks up whatever Stripe stopped retrying.
  *
  * To set up:
  * 1. Create a webhook endpoint in Stripe Dashboard pointing to:
@@ -21,11 +24,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/supabase';
-import { isStripeConfigured, getPlanByPriceId, getCreditsForPlan } from '@/lib/stripe';
-
-// Stripe types (uncomment when stripe package is installed)
-// import Stripe from 'stripe';
+import { constructStripeEvent, isStripeConfigured, StripeApiError } from '@/lib/stripe';
+import { handleStripeEvent } from '@/lib/stripe-webhooks';
 
 export async function POST(request: NextRequest) {
   // Check if Stripe is configured
@@ -37,57 +37,32 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  try {
-    const body = await request.text();
-    const signature = request.headers.get('stripe-signature');
-
-    if (!signature) {
-      return NextResponse.json(
-        { error: 'Missing stripe-signature header' },
-        { status: 400 }
-      );
-    }
-
-    // TODO: Verify webhook signature with Stripe
-    // const event = stripe.webhooks.constructEvent(
-    //   body,
-    //   signature,
-    //   process.env.STRIPE_WEBHOOK_SECRET!
-    // );
-
-    // For now, parse the body directly (REMOVE THIS IN PRODUCTION)
-    const event = JSON.parse(body);
-
-    console.log('Stripe webhook event:', event.type);
+  const body = await request.text();
+  const signature = request.headers.get('stripe-signature');
 
-    // Handle different event types
-    switch (event.type) {
-      case 'checkout.session.completed':
-        await handleCheckoutComplete(event.data.object);
-        break;
-
-      case 'customer.subscription.created':
-      case 'customer.subscription.updated':
-        await handleSubscriptionUpdate(event.data.object);
-        break;
-
-      case 'customer.subscription.deleted':
-        await handleSubscriptionCanceled(event.data.object);
-        break;
-
-      case 'invoice.payment_succeeded':
-        await handlePaymentSucceeded(event.data.object);
-        break;
+  if (!signature) {
+    return NextResponse.json(
+      { error: 'Missing stripe-signature header' },
+      { status: 400 }
+    );
+  }
 
-      case 'invoice.payment_failed':
-        await handlePaymentFailed(event.data.object);
-        break;
+  let event;
+  try {
+    event = constructStripeEvent(body, signature, process.env.STRIPE_WEBHOOK_SECRET!);
+  } catch (error) {
+    console.error('Stripe webhook signature verification failed:', error);
+    return NextResponse.json(
+      { error: error instanceof StripeApiError ? error.message : 'Invalid webhook payload' },
+      { status: 400 }
+    );
+  }
 
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
-    }
+  try {
+    console.log('Stripe webhook event:', event.type, event.id);
+    const outcome = await handleStripeEvent(event);
 
-    return NextResponse.json({ received: true });
+    return NextResponse.json({ received: true, outcome });
   } catch (error) {
     console.error('Stripe webhook error:', error);
     return NextResponse.json(
@@ -96,147 +71,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-/**
- * Handle successful checkout session
- */
-async function handleCheckoutComplete(session: any) {
-  const customerId = session.customer;
-  const subscriptionId = session.subscription;
-  const customerEmail = session.customer_email;
-
-  console.log('Checkout completed:', { customerId, subscriptionId, customerEmail });
-
-  // Link Stripe customer to user
-  if (customerEmail && customerId) {
-    await supabaseAdmin
-      .from('users')
-      .update({
-        stripe_customer_id: customerId,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('email', customerEmail);
-  }
-}
-
-/**
- * Handle subscription create/update
- */
-async function handleSubscriptionUpdate(subscription: any) {
-  const customerId = subscription.customer;
-  const status = subscription.status;
-  const priceId = subscription.items?.data?.[0]?.price?.id;
-
-  console.log('Subscription updated:', { customerId, status, priceId });
-
-  const planType = priceId ? getPlanByPriceId(priceId) : 'free';
-  const credits = planType ? getCreditsForPlan(planType) : 0;
-
-  // Update user subscription status
-  await supabaseAdmin
-    .from('users')
-    .update({
-      subscription_status: status === 'active' ? 'active' : 'inactive',
-      subscription_type: planType || 'free',
-      credits: credits > 0 ? credits : undefined, // Only update if plan has credits
-      updated_at: new Date().toISOString(),
-    })
-    .eq('stripe_customer_id', customerId);
-}
-
-/**
- * Handle subscription cancellation
- */
-async function handleSubscriptionCanceled(subscription: any) {
-  const customerId = subscription.customer;
-
-  console.log('Subscription canceled:', { customerId });
-
-  // Update user to free tier
-  await supabaseAdmin
-    .from('users')
-    .update({
-      subscription_status: 'cancelled',
-      subscription_type: 'free',
-      updated_at: new Date().toISOString(),
-    })
-    .eq('stripe_customer_id', customerId);
-}
-
-/**
- * Handle successful payment
- */
-async function handlePaymentSucceeded(invoice: any) {
-  const customerId = invoice.customer;
-  const amount = invoice.amount_paid / 100; // Convert from cents
-  const currency = invoice.currency;
-
-  console.log('Payment succeeded:', { customerId, amount, currency });
-
-  // Get user by Stripe customer ID
-  const { data: user } = await supabaseAdmin
-    .from('users')
-    .select('id, subscription_type')
-    .eq('stripe_customer_id', customerId)
-    .single();
-
-  if (user) {
-    // Record payment
-    await supabaseAdmin.from('payments').insert({
-      user_id: user.id,
-      stripe_payment_id: invoice.payment_intent,
-      stripe_customer_id: customerId,
-      amount,
-      currency,
-      plan_type: user.subscription_type || 'unknown',
-      status: 'succeeded',
-      payment_method: invoice.payment_method_types?.[0] || 'card',
-      description: invoice.description || 'Subscription payment',
-    });
-
-    // Refresh credits for the billing period
-    const credits = getCreditsForPlan(user.subscription_type as any);
-    if (credits > 0) {
-      await supabaseAdmin
-        .from('users')
-        .update({
-          credits,
-          monthly_usage: 0, // Reset monthly usage
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', user.id);
-    }
-  }
-}
-
-/**
- * Handle failed payment
- */
-async function handlePaymentFailed(invoice: any) {
-  const customerId = invoice.customer;
-  const amount = invoice.amount_due / 100;
-  const currency = invoice.currency;
-
-  console.log('Payment failed:', { customerId, amount, currency });
-
-  // Get user by Stripe customer ID
-  const { data: user } = await supabaseAdmin
-    .from('users')
-    .select('id, subscription_type')
-    .eq('stripe_customer_id', customerId)
-    .single();
-
-  if (user) {
-    // Record failed payment
-    await supabaseAdmin.from('payments').insert({
-      user_id: user.id,
-      stripe_payment_id: invoice.payment_intent,
-      stripe_customer_id: customerId,
-      amount,
-      currency,
-      plan_type: user.subscription_type || 'unknown',
-      status: 'failed',
-      description: 'Payment failed',
-    });
-  }
-}
@@ -2,7 +2,9 @@
 
 /**
  * User Documents History Page
- * Shows all processed documents with ability to re-download
+ * Shows all processed documents with ability to re-download the stored JSON or re-export
+ * them with the current export engine (Excel, Google Sheets, LibreOffice, CSV, JSON, Parquet)
+ * Completed documents can be selected and exported together as one portfolio workbook
  * Client component with auto-refresh capability
  */
 
@@ -10,7 +12,7 @@ import { useEffect, useState, useCallback, Suspense } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { FileText, Download, ArrowLeft, RefreshCw } from 'lucide-react';
+import { FileText, Download, ArrowLeft, RefreshCw, FileSpreadsheet } from 'lucide-react';
 
 interface Document {
   id: string;
@@ -41,6 +43,16 @@ const documentTypes = [
   { value: 'financial_statements', label: 'Financial Statements' },
 ];
 
+// Re-export targets - body options for /api/user/documents/[id]/export
+const reexportFormats = [
+  { value: 'xlsx', label: 'Excel', extension: 'xlsx', options: { format: 'xlsx' } },
+  { value: 'sheets', label: 'Google Sheets', extension: 'xlsx', options: { format: 'xlsx', profile: 'sheets' } },
+  { value: 'ods', label: 'LibreOffice', extension: 'ods', options: { format: 'ods' } },
+  { value: 'csv', label: 'CSV', extension: 'zip', options: { format: 'csv' } },
+  { value: 'json', label: 'JSON', extension: 'json', options: { format: 'json' } },
+  { value: 'parquet', label: 'Parquet', extension: 'zip', options: { format: 'parquet' } },
+];
+
 function DocumentsContent() {
   const { user, loading } = useAuth();
   const router = useRouter();
@@ -52,6 +64,10 @@ function DocumentsContent() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [selectedType, setSelectedType] = useState(searchParams.get('type') || 'all');
   const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [reexportingId, setReexportingId] = useState<string | null>(null);
 
   // Fetch documents data
   const fetchDocuments = useCallback(async (showRefreshing = false, type?: string) => {
@@ -128,6 +144,101 @@ function DocumentsContent() {
     fetchDocuments(true);
   };
 
+  const completedDocuments = documents.filter(doc => doc.processing_status === 'completed');
+  const allCompletedSelected = completedDocuments.length > 0 && completedDocuments.every(doc => selectedIds.has(doc.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allCompletedSelected ? new Set() : new Set(completedDocuments.map(doc => doc.id)));
+  };
+
+  // Export the selected documents as one portfolio workbook
+  const handlePortfolioExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+
+    try {
+      const response = await fetch('/api/export/portfolio', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentIds: [...selectedIds] }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Portfolio export failed');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `RExeli_portfolio_${new Date().toISOString().slice(0, 10)}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting portfolio:', err);
+      setExportError(err instanceof Error ? err.message : 'Portfolio export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Re-export one saved document with the current export engine
+  const handleReexport = async (doc: Document, value: string) => {
+    const target = reexportFormats.find(format => format.value === value);
+    if (!target) return;
+
+    setReexportingId(doc.id);
+    setExportError(null);
+
+    try {
+      const response = await fetch(`/api/user/documents/${doc.id}/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ options: target.options }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Export failed');
+      }
+
+      // The server names the file; fall back to the document name
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1]
+        || `${doc.file_name.replace(/\.pdf$/i, '')}.${target.extension}`;
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error re-exporting document:', err);
+      setExportError(err instanceof Error ? `${doc.file_name}: ${err.message}` : 'Export failed');
+    } finally {
+      setReexportingId(null);
+    }
+  };
+
   // Loading state
   if (loading || isLoading) {
     return (
@@ -265,10 +376,41 @@ function DocumentsContent() {
         </div>
       ) : (
         <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+          {/* Portfolio Export */}
+          <div className="flex items-center justify-between gap-4 px-6 py-3 bg-gray-50 border-b border-gray-200">
+            <p className="text-sm text-gray-600">
+              {selectedIds.size > 0
+                ? `${selectedIds.size} document${selectedIds.size !== 1 ? 's' : ''} selected`
+                : 'Select completed documents to export them as one portfolio workbook'}
+            </p>
+            <button
+              onClick={handlePortfolioExport}
+              disabled={selectedIds.size === 0 || selectedIds.size > 50 || isExporting}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              {isExporting ? 'Exporting...' : 'Export Portfolio'}
+            </button>
+          </div>
+          {(exportError || selectedIds.size > 50) && (
+            <div className="px-6 py-3 bg-red-50 border-b border-red-200 text-sm text-red-800">
+              {exportError || 'Select up to 50 documents per portfolio export'}
+            </div>
+          )}
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-gray-50 border-b border-gray-200">
                 <tr>
+                  <th className="pl-6 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all completed documents"
+                      checked={allCompletedSelected}
+                      onChange={toggleAllSelected}
+                      disabled={completedDocuments.length === 0}
+                      className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Date
                   </th>
@@ -295,6 +437,16 @@ function DocumentsContent() {
               <tbody className="divide-y divide-gray-200">
                 {documents.map((doc) => (
                   <tr key={doc.id} className="hover:bg-gray-50">
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${doc.file_name}`}
+                        checked={selectedIds.has(doc.id)}
+                        onChange={() => toggleSelected(doc.id)}
+                        disabled={doc.processing_status !== 'completed'}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                    </td>
                     <td className="px-6 py-4 text-sm text-gray-900">
                       {new Date(doc.created_at).toLocaleDateString()}
                       <div className="text-xs text-gray-500">
@@ -331,15 +483,33 @@ function DocumentsContent() {
                     </td>
                     <td className="px-6 py-4">
                       {doc.processing_status === 'completed' && (
-                        <a
-                          href={`/api/user/documents/${doc.id}/download`}
-                          className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-800 text-sm font-medium"
-                          target="_blank"
-                          rel="noopener noreferrer"
-                        >
-                          <Download className="w-4 h-4" />
-                          <span>Download</span>
-                        </a>
+                        <div className="flex items-center gap-3">
+                          <a
+                            href={`/api/user/documents/${doc.id}/download`}
+                            className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-800 text-sm font-medium"
+                            target="_blank"
+                            rel="noopener noreferrer"
+                          >
+                            <Download className="w-4 h-4" />
+                            <span>Download</span>
+                          </a>
+                          <select
+                            aria-label={`Export ${doc.file_name}`}
+                            value=""
+                            onChange={(e) => handleReexport(doc, e.target.value)}
+                            disabled={reexportingId !== null}
+                            className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+                          >
+                            <option value="" disabled>
+                              {reexportingId === doc.id ? 'Exporting...' : 'Export as...'}
+                            </option>
+                            {reexportFormats.map((format) => (
+                              <option key={format.value} value={format.value}>
+                                {format.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
                       )}
                       {doc.processing_status === 'failed' && (
                         <span className="text-xs text-gray-500">Failed</span>
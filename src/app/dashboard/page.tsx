@@ -20,6 +20,7 @@ interface UserData {
   monthly_usage: number;
   lifetime_usage: number;
   billing_cycle_end: string | null;
+  overage_enabled: boolean;
 }
 
 interface UserStats {
@@ -203,7 +204,9 @@ export default function DashboardPage() {
   }
 
   const isLowCredits = userData.credits < 50;
-  const hasNoCredits = userData.credits === 0;
+  // With overage on, processing continues past the credits (individual balances only)
+  const isOnOverage = userData.credits <= 0 && userData.overage_enabled && !groupInfo;
+  const hasNoCredits = userData.credits === 0 && !isOnOverage;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -243,7 +246,27 @@ export default function DashboardPage() {
         </div>
       )}
 
-      {isLowCredits && !hasNoCredits && (
+      {isOnOverage && (
+        <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <div className="flex items-start">
+            <AlertCircle className="w-5 h-5 text-blue-600 mr-3 mt-0.5 flex-shrink-0" />
+            <div className="flex-1">
+              <h3 className="text-blue-900 font-semibold mb-1">Overage Billing Active</h3>
+              <p className="text-blue-800 text-sm mb-3">
+                You&apos;ve used all your credits. Pages you process now are billed as overage, up to your monthly cap.
+              </p>
+              <Link
+                href="/dashboard/usage"
+                className="inline-block px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium transition-colors"
+              >
+                View Projected Bill
+              </Link>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isLowCredits && !hasNoCredits && !isOnOverage && (
         <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
           <div className="flex items-start">
             <AlertCircle className="w-5 h-5 text-yellow-600 mr-3 mt-0.5 flex-shrink-0" />
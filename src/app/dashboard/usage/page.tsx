@@ -3,6 +3,9 @@
 /**
  * User Usage Analytics Page
  * Shows detailed usage history and analytics
+ * Buy credit packs, upgrade or switch plans (Stripe Checkout) and manage billing (Customer Portal)
+ * Subscribers can turn on overage billing with a monthly cap and see their projected bill
+ * Group owners also manage the group's plan and seats (Team Billing)
  * Client component with auto-refresh capability
  */
 
@@ -10,7 +13,7 @@ import { useEffect, useState, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, FileText, TrendingUp, Clock, CheckCircle, XCircle, RefreshCw } from 'lucide-react';
+import { ArrowLeft, FileText, TrendingUp, Clock, CheckCircle, XCircle, RefreshCw, CreditCard, Users, Gauge } from 'lucide-react';
 import { useMultipleRealtimeSubscriptions } from '@/hooks/useRealtimeSubscription';
 
 interface UsageLog {
@@ -42,6 +45,62 @@ interface UsageStats {
   avgPagesPerDoc: number;
 }
 
+interface BillingInfo {
+  billingEnabled: boolean;
+  hasBillingAccount: boolean;
+  subscriptionType: string;
+  subscriptionStatus: string;
+  creditPacks: { pack: string; price: number; pages: number; available: boolean }[];
+  plans: {
+    plan: string;
+    monthly: number;
+    annual: number;
+    pages: number;
+    users: number;
+    available: { monthly: boolean; annual: boolean };
+  }[];
+}
+
+interface GroupBillingInfo {
+  billingEnabled: boolean;
+  groupName: string;
+  subscriptionType: string;
+  subscriptionStatus: string;
+  credits: number;
+  activeMembers: number;
+  maxMembers: number;
+  extraSeats: number;
+  hasBillingAccount: boolean;
+  hasSubscription: boolean;
+  seatPrice: { monthly: number; annual: number; maxExtraSeats: number; available: { monthly: boolean; annual: boolean } };
+  plans: {
+    plan: string;
+    monthly: number;
+    annual: number;
+    pages: number;
+    seats: number;
+    available: { monthly: boolean; annual: boolean };
+  }[];
+}
+
+interface OverageInfo {
+  enabled: boolean;
+  available: boolean;
+  unavailableReason: string | null;
+  rate: number | null;
+  monthlyCap: number;
+  maxMonthlyCap: number;
+  pagesThisMonth: number;
+  spendThisMonth: number;
+  projectedSpend: number;
+  planPrice: number | null;
+  projectedBill: number | null;
+}
+
+type BillingInterval = 'monthly' | 'annual';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
 export default function UsageAnalyticsPage() {
   const { user, loading } = useAuth();
   const router = useRouter();
@@ -52,6 +111,14 @@ export default function UsageAnalyticsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [billing, setBilling] = useState<BillingInfo | null>(null);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>('monthly');
+  const [billingAction, setBillingAction] = useState<string | null>(null);
+  const [billingMessage, setBillingMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [groupBilling, setGroupBilling] = useState<GroupBillingInfo | null>(null);
+  const [extraSeats, setExtraSeats] = useState(0);
+  const [overage, setOverage] = useState<OverageInfo | null>(null);
+  const [overageCap, setOverageCap] = useState('');
 
   // Fetch usage data
   const fetchUsageData = useCallback(async (showRefreshing = false) => {
@@ -80,6 +147,178 @@ export default function UsageAnalyticsPage() {
     }
   }, []);
 
+  // Purchasable packs and plans - billing stays hidden if this fails
+  const fetchBilling = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/billing');
+      if (!response.ok) return;
+      const data = await response.json();
+      setBilling(data.data);
+    } catch (err) {
+      console.error('Error fetching billing info:', err);
+    }
+  }, []);
+
+  // Group plan and seats - only group owners get a response, everyone else sees no Team Billing
+  const fetchGroupBilling = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/billing/group');
+      if (!response.ok) return;
+      const data = await response.json();
+      setGroupBilling(data.data);
+      setExtraSeats(data.data.extraSeats);
+    } catch (err) {
+      console.error('Error fetching group billing info:', err);
+    }
+  }, []);
+
+  // Overage settings and this month's overage - the section stays hidden if this fails
+  const fetchOverage = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/billing/overage');
+      if (!response.ok) return;
+      const data = await response.json();
+      setOverage(data.data);
+      setOverageCap(String(data.data.monthlyCap));
+    } catch (err) {
+      console.error('Error fetching overage info:', err);
+    }
+  }, []);
+
+  // Result of a Stripe Checkout redirect back to this page
+  useEffect(() => {
+    const checkout = new URLSearchParams(window.location.search).get('checkout');
+    if (checkout === 'success') {
+      setBillingMessage({ type: 'success', text: 'Payment received - your credits will appear in a moment.' });
+    } else if (checkout === 'cancelled') {
+      setBillingMessage({ type: 'error', text: 'Checkout was cancelled - you have not been charged.' });
+    }
+    if (checkout) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, []);
+
+  // Start Checkout (or switch plans in place) and follow the returned Stripe URL
+  const startCheckout = async (
+    action: string,
+    purchase: { type: 'credit_pack'; pack: string } | { type: 'subscription'; plan: string; interval: BillingInterval }
+  ) => {
+    setBillingAction(action);
+    setBillingMessage(null);
+
+    try {
+      const response = await fetch('/api/user/billing/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(purchase),
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || 'Checkout failed');
+      }
+
+      if (data.data.url) {
+        window.location.href = data.data.url;
+        return;
+      }
+
+      setBillingMessage({ type: 'success', text: 'Your plan has been switched - new credits apply from the next invoice.' });
+      fetchBilling();
+      setBillingAction(null);
+    } catch (err) {
+      console.error('Error starting checkout:', err);
+      setBillingMessage({ type: 'error', text: err instanceof Error ? err.message : 'Checkout failed' });
+      setBillingAction(null);
+    }
+  };
+
+  // Start or change the group subscription; seat changes on an existing subscription apply in place
+  const startGroupCheckout = async (plan: string) => {
+    const action = `group_${plan}_${billingInterval}`;
+    setBillingAction(action);
+    setBillingMessage(null);
+
+    try {
+      const response = await fetch('/api/user/billing/group/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan, interval: billingInterval, extraSeats }),
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || 'Checkout failed');
+      }
+
+      if (data.data.url) {
+        window.location.href = data.data.url;
+        return;
+      }
+
+      setBillingMessage({ type: 'success', text: 'Your team subscription has been updated - seats change as soon as Stripe confirms it.' });
+      fetchGroupBilling();
+      setBillingAction(null);
+    } catch (err) {
+      console.error('Error starting group checkout:', err);
+      setBillingMessage({ type: 'error', text: err instanceof Error ? err.message : 'Checkout failed' });
+      setBillingAction(null);
+    }
+  };
+
+  // Turn overage on or off, saving the cap entered
+  const saveOverage = async (enabled: boolean) => {
+    setBillingAction('overage');
+    setBillingMessage(null);
+
+    try {
+      const response = await fetch('/api/user/billing/overage', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled, monthlyCap: Number(overageCap) }),
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || 'Unable to update overage settings');
+      }
+
+      setOverage(data.data);
+      setOverageCap(String(data.data.monthlyCap));
+      setBillingMessage({
+        type: 'success',
+        text: enabled
+          ? `Overage is on - processing continues past your credits, up to $${data.data.monthlyCap} a month.`
+          : 'Overage is off - processing stops when your credits run out.',
+      });
+    } catch (err) {
+      console.error('Error updating overage settings:', err);
+      setBillingMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unable to update overage settings' });
+    } finally {
+      setBillingAction(null);
+    }
+  };
+
+  const openBillingPortal = async (scope: 'user' | 'group' = 'user') => {
+    setBillingAction(scope === 'group' ? 'group_portal' : 'portal');
+    setBillingMessage(null);
+
+    try {
+      const response = await fetch(scope === 'group' ? '/api/user/billing/group/portal' : '/api/user/billing/portal', { method: 'POST' });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || 'Unable to open billing portal');
+      }
+
+      window.location.href = data.data.url;
+    } catch (err) {
+      console.error('Error opening billing portal:', err);
+      setBillingMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unable to open billing portal' });
+      setBillingAction(null);
+    }
+  };
+
   // Initial load and auth check
   useEffect(() => {
     if (!loading && !user) {
@@ -89,8 +328,11 @@ export default function UsageAnalyticsPage() {
 
     if (!loading && user) {
       fetchUsageData();
+      fetchBilling();
+      fetchGroupBilling();
+      fetchOverage();
     }
-  }, [loading, user, router, fetchUsageData]);
+  }, [loading, user, router, fetchUsageData, fetchBilling, fetchGroupBilling, fetchOverage]);
 
   // Real-time subscriptions for instant updates
   useMultipleRealtimeSubscriptions(
@@ -106,6 +348,7 @@ export default function UsageAnalyticsPage() {
               setUsageLogs((prev) => [payload.new, ...prev].slice(0, 50));
               // Refresh stats when new log added
               fetchUsageData(false);
+              fetchOverage();
             },
           },
           // Listen to new credit transactions
@@ -205,6 +448,300 @@ export default function UsageAnalyticsPage() {
         </p>
       </div>
 
+      {/* Plans & Credits */}
+      {billing?.billingEnabled && (
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Plans &amp; Credits</h2>
+            {billing.hasBillingAccount && (
+              <button
+                onClick={() => openBillingPortal()}
+                disabled={billingAction !== null}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+              >
+                <CreditCard className="w-4 h-4" />
+                {billingAction === 'portal' ? 'Opening...' : 'Manage Billing'}
+              </button>
+            )}
+          </div>
+
+          {billingMessage && (
+            <div
+              className={`mb-4 p-4 rounded-lg border text-sm ${
+                billingMessage.type === 'success'
+                  ? 'bg-green-50 border-green-200 text-green-800'
+                  : 'bg-red-50 border-red-200 text-red-800'
+              }`}
+            >
+              {billingMessage.text}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Subscription plans */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Subscription</h3>
+                <div className="flex rounded-lg border border-gray-200 p-0.5 text-sm">
+                  {(['monthly', 'annual'] as const).map((interval) => (
+                    <button
+                      key={interval}
+                      onClick={() => setBillingInterval(interval)}
+                      className={`px-3 py-1 rounded-md transition-colors ${
+                        billingInterval === interval ? 'bg-blue-600 text-white' : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {capitalize(interval)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <p className="text-sm text-gray-600 mb-4">
+                Current plan: <span className="font-medium text-gray-900">{billing.subscriptionType.replace(/_/g, ' ')}</span>
+              </p>
+              <div className="space-y-3">
+                {billing.plans.map((plan) => {
+                  const planType = `${plan.plan}_${billingInterval}`;
+                  const isCurrent = billing.subscriptionType === planType && billing.subscriptionStatus === 'active';
+                  const hasSubscription = /_(monthly|annual)$/.test(billing.subscriptionType) && billing.subscriptionStatus === 'active';
+                  const price = billingInterval === 'monthly' ? `$${plan.monthly}/mo` : `$${plan.annual.toLocaleString()}/yr`;
+
+                  return (
+                    <div key={plan.plan} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{capitalize(plan.plan)}</p>
+                        <p className="text-xs text-gray-500">
+                          {plan.pages.toLocaleString()} pages/month · {plan.users} user{plan.users !== 1 ? 's' : ''} · {price}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => startCheckout(planType, { type: 'subscription', plan: plan.plan, interval: billingInterval })}
+                        disabled={isCurrent || !plan.available[billingInterval] || billingAction !== null}
+                        className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        {isCurrent
+                          ? 'Current'
+                          : billingAction === planType
+                          ? 'Redirecting...'
+                          : hasSubscription
+                          ? 'Switch'
+                          : 'Upgrade'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* One-time credit packs */}
+            <div className="bg-white rounded-lg border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Buy Credits</h3>
+              <p className="text-sm text-gray-600 mb-4">One-time packs, 1 credit = 1 page. Credits never expire.</p>
+              <div className="space-y-3">
+                {billing.creditPacks.map((pack) => (
+                  <div key={pack.pack} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{pack.pages.toLocaleString()} credits</p>
+                      <p className="text-xs text-gray-500">
+                        {capitalize(pack.pack)} · ${(pack.price / pack.pages).toFixed(2)} per page
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => startCheckout(`pack_${pack.pack}`, { type: 'credit_pack', pack: pack.pack })}
+                      disabled={!pack.available || billingAction !== null}
+                      className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      {billingAction === `pack_${pack.pack}` ? 'Redirecting...' : `Buy $${pack.price}`}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Overage billing */}
+          {overage && (
+            <div className="mt-6 bg-white rounded-lg border border-gray-200 p-6">
+              <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                <div>
+                  <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                    <Gauge className="w-5 h-5 text-blue-600" />
+                    Overage
+                  </h3>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {overage.available || overage.enabled
+                      ? `Keep processing when your credits run out${overage.rate ? ` - extra pages are billed at $${overage.rate.toFixed(2)} per page` : ''}, up to your monthly cap.`
+                      : overage.unavailableReason}
+                  </p>
+                </div>
+                <span
+                  className={`px-3 py-1 text-xs font-medium rounded-full ${
+                    overage.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  {overage.enabled ? 'On' : 'Off'}
+                </span>
+              </div>
+
+              {(overage.available || overage.enabled) && (
+                <>
+                  <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-600">
+                    <label htmlFor="overage-cap">Monthly cap ($)</label>
+                    <input
+                      id="overage-cap"
+                      type="number"
+                      min={1}
+                      max={overage.maxMonthlyCap}
+                      value={overageCap}
+                      onChange={(e) => setOverageCap(e.target.value)}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded-lg"
+                    />
+                    {overage.enabled && Number(overageCap) !== overage.monthlyCap && (
+                      <button
+                        onClick={() => saveOverage(true)}
+                        disabled={billingAction !== null}
+                        className="px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+                      >
+                        Save Cap
+                      </button>
+                    )}
+                    <button
+                      onClick={() => saveOverage(!overage.enabled)}
+                      disabled={billingAction !== null || (!overage.enabled && !overage.available)}
+                      className={`px-4 py-2 text-sm text-white rounded-lg transition-colors disabled:opacity-50 ${
+                        overage.enabled ? 'bg-gray-600 hover:bg-gray-700' : 'bg-blue-600 hover:bg-blue-700'
+                      }`}
+                    >
+                      {billingAction === 'overage' ? 'Saving...' : overage.enabled ? 'Turn Off' : 'Turn On'}
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <p className="text-xs text-gray-500">Overage this month</p>
+                      <p className="text-lg font-semibold text-gray-900">
+                        ${overage.spendThisMonth.toFixed(2)}
+                        <span className="text-sm font-normal text-gray-500"> of ${overage.monthlyCap.toFixed(2)}</span>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {overage.pagesThisMonth.toLocaleString()} page{overage.pagesThisMonth !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <p className="text-xs text-gray-500">Projected overage</p>
+                      <p className="text-lg font-semibold text-gray-900">${overage.projectedSpend.toFixed(2)}</p>
+                      <p className="text-xs text-gray-500">At this month&apos;s pace, capped</p>
+                    </div>
+                    <div className="p-3 border border-gray-200 rounded-lg">
+                      <p className="text-xs text-gray-500">Projected bill this month</p>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {overage.projectedBill !== null ? `$${overage.projectedBill.toFixed(2)}` : '-'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {overage.planPrice !== null ? `Plan $${overage.planPrice.toFixed(2)} + overage` : 'Plan + overage'}
+                      </p>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Team Billing (group owners) */}
+      {groupBilling?.billingEnabled && (
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Team Billing</h2>
+            {groupBilling.hasBillingAccount && (
+              <button
+                onClick={() => openBillingPortal('group')}
+                disabled={billingAction !== null}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+              >
+                <CreditCard className="w-4 h-4" />
+                {billingAction === 'group_portal' ? 'Opening...' : 'Manage Team Billing'}
+              </button>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{groupBilling.groupName}</h3>
+                <p className="text-sm text-gray-600">
+                  Plan: <span className="font-medium text-gray-900">{groupBilling.subscriptionType.replace(/_/g, ' ')}</span>
+                  {' · '}{groupBilling.subscriptionStatus}
+                  {' · '}{groupBilling.credits.toLocaleString()} team credits
+                </p>
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Users className="w-4 h-4" />
+                {groupBilling.activeMembers} of {groupBilling.maxMembers} seats used
+                {groupBilling.extraSeats > 0 && ` (${groupBilling.extraSeats} extra)`}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-600">
+              <label htmlFor="extra-seats">Extra seats</label>
+              <input
+                id="extra-seats"
+                type="number"
+                min={0}
+                max={groupBilling.seatPrice.maxExtraSeats}
+                value={extraSeats}
+                onChange={(e) => setExtraSeats(Math.min(groupBilling.seatPrice.maxExtraSeats, Math.max(0, Math.floor(Number(e.target.value) || 0))))}
+                disabled={!groupBilling.seatPrice.available[billingInterval]}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+              />
+              <span className="text-xs text-gray-500">
+                {billingInterval === 'monthly'
+                  ? `$${groupBilling.seatPrice.monthly}/seat/mo`
+                  : `$${groupBilling.seatPrice.annual}/seat/yr`}
+              </span>
+            </div>
+
+            <div className="space-y-3">
+              {groupBilling.plans.map((plan) => {
+                const planType = `${plan.plan}_${billingInterval}`;
+                const isCurrent = groupBilling.hasSubscription && groupBilling.subscriptionType === planType;
+                const price = billingInterval === 'monthly' ? `$${plan.monthly}/mo` : `$${plan.annual.toLocaleString()}/yr`;
+                const action = `group_${planType}`;
+
+                return (
+                  <div key={plan.plan} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">Team {capitalize(plan.plan)}</p>
+                      <p className="text-xs text-gray-500">
+                        {plan.pages.toLocaleString()} pages/month · {plan.seats + extraSeats} seats · {price}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => startGroupCheckout(plan.plan)}
+                      disabled={
+                        (isCurrent && extraSeats === groupBilling.extraSeats) ||
+                        !plan.available[billingInterval] ||
+                        billingAction !== null
+                      }
+                      className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {billingAction === action
+                        ? 'Redirecting...'
+                        : isCurrent
+                        ? extraSeats === groupBilling.extraSeats ? 'Current' : 'Update Seats'
+                        : groupBilling.hasSubscription
+                        ? 'Switch'
+                        : 'Subscribe'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Statistics Overview */}
       {stats && (
         <div className="mb-8">
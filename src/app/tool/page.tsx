@@ -2,6 +2,7 @@
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import { FileUpload } from '@/components/upload/FileUpload';
@@ -9,22 +10,92 @@ import { DocumentPreview } from '@/components/preview/DocumentPreview';
 import { ProcessingWorkflow } from '@/components/processing/ProcessingWorkflow';
 import { ResultsDisplay } from '@/components/results/ResultsDisplay';
 import { Button } from "@/components/ui/button";
-import { FileText, ArrowLeft, CreditCard } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CreditCard, Sparkles } from "lucide-react";
 import Link from "next/link";
 import type {
   DocumentFile,
   ProcessingStep,
   DocumentType,
-  ExtractedData
+  DocumentTypeSelection,
+  ClassificationResponse,
+  ExtractedData,
+  ExtractionJob,
+  ExtractionJobSubmission,
+  FieldCitation,
+  ExcelExportOptions
 } from '@/lib/types';
 
+// Document types offered when confirming an auto-detect suggestion
+const CONFIRMABLE_DOCUMENT_TYPES: DocumentType[] = [
+  'rent_roll',
+  'operating_budget',
+  'broker_sales_comparables',
+  'broker_lease_comparables',
+  'broker_listing',
+  'offering_memo',
+  'lease_agreement',
+  'financial_statements'
+];
+
+const formatDocumentTypeLabel = (documentType: string): string =>
+  documentType.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+// The running extraction job is kept in localStorage so a reload picks it up again
+const ACTIVE_JOB_STORAGE_KEY = 'rexeli:active-extraction-job';
+
+// Polling fallback when Realtime updates are unavailable
+const JOB_POLL_INTERVAL_MS = 4000;
+
+interface StoredExtractionJob {
+  jobId: string;
+  documentType: DocumentTypeSelection;
+  userInstructions?: string;
+  file: Pick<DocumentFile, 'id' | 'name' | 'size' | 'type' | 'supabaseUrl'>;
+}
+
+const readStoredJob = (): StoredExtractionJob | null => {
+  try {
+    const stored = window.localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as StoredExtractionJob : null;
+  } catch {
+    return null;
+  }
+};
+
+const clearStoredJob = () => {
+  try {
+    window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+  } catch {
+    // Storage unavailable (private mode) - nothing to clear
+  }
+};
+
+// Processing step shown as active for each job stage
+const JOB_STAGE_STEP: Record<ExtractionJob['stage'], number> = {
+  queued: 2,
+  extracting: 2,
+  validating: 3,
+  saving: 4,
+  completed: 4,
+  failed: 2
+};
+
+const STEP_COMPLETED_RESULTS: Record<number, string> = {
+  1: 'Document prepared for processing',
+  2: 'Data extracted',
+  3: 'Data validation completed successfully',
+  4: 'Results prepared for display and export'
+};
+
 export default function ToolPage() {
   const { user, loading } = useAuth();
   const router = useRouter();
 
   // All useState hooks must be called at the top level, before any conditional returns
   const [currentFile, setCurrentFile] = useState<DocumentFile | null>(null);
-  const [selectedDocumentType, setSelectedDocumentType] = useState<DocumentType | null>(null);
+  const [selectedDocumentType, setSelectedDocumentType] = useState<DocumentTypeSelection | null>(null);
   const [userInstructions, setUserInstructions] = useState<string | undefined>(undefined);
   const [processingSteps, setProcessingSteps] = useState<ProcessingStep[]>([]);
   const [currentStep, setCurrentStep] = useState(0);
@@ -34,6 +105,14 @@ export default function ToolPage() {
   const [isExporting, setIsExporting] = useState(false);
   const [creditsUsed, setCreditsUsed] = useState<number | null>(null);
   const [remainingCredits, setRemainingCredits] = useState<number | null>(null);
+  const [pendingClassification, setPendingClassification] = useState<ClassificationResponse | null>(null);
+  const [confirmedDocumentType, setConfirmedDocumentType] = useState<string>('');
+  const [activeCitation, setActiveCitation] = useState<FieldCitation | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [jobProgress, setJobProgress] = useState<number | undefined>(undefined);
+
+  // Job whose completion has already been handled (Realtime and polling can both report it)
+  const finishedJobIdRef = useRef<string | null>(null);
 
   // Refs for auto-scrolling
   const documentPreviewRef = useRef<HTMLDivElement>(null);
@@ -54,11 +133,10 @@ export default function ToolPage() {
     }
   }, []);
 
-  // Initialize processing steps (removed auto-classification)
-  const initializeSteps = useCallback((documentType: string): ProcessingStep[] => {
-    const docTypeLabel = documentType.split('_').map(word =>
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ');
+  // Initialize processing steps (auto-detect classifies during the extraction step)
+  const initializeSteps = useCallback((documentType: DocumentTypeSelection): ProcessingStep[] => {
+    const isAutoDetect = documentType === 'auto';
+    const docTypeLabel = isAutoDetect ? 'Auto-detected' : formatDocumentTypeLabel(documentType);
 
     return [
       {
@@ -70,7 +148,9 @@ export default function ToolPage() {
       {
         id: 2,
         name: "Data Extraction",
-        description: `Extracting structured ${docTypeLabel.toLowerCase()} data using AI`,
+        description: isAutoDetect
+          ? 'Detecting document type and extracting structured data using AI'
+          : `Extracting structured ${docTypeLabel.toLowerCase()} data using AI`,
         status: 'pending'
       },
       {
@@ -100,17 +180,27 @@ export default function ToolPage() {
     setExtractedData(null);
     setCreditsUsed(null);
     setRemainingCredits(null);
+    setPendingClassification(null);
+    setConfirmedDocumentType('');
+    setActiveCitation(null);
+    // A new upload stops following the previous job - its results stay in document history
+    setActiveJobId(null);
+    setJobProgress(undefined);
+    clearStoredJob();
   }, []);
 
   // Handle upload completion with document type and optional instructions
-  const handleUploadComplete = useCallback((file: DocumentFile, documentType: DocumentType, instructions?: string) => {
+  const handleUploadComplete = useCallback((file: DocumentFile, documentType: DocumentTypeSelection, instructions?: string) => {
     setCurrentFile(file);
     setSelectedDocumentType(documentType);
     setUserInstructions(instructions);
 
-    const docTypeLabel = documentType.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
     const instructionsNote = instructions ? ' Custom instructions included.' : '';
-    toast.success(`Document uploaded as ${docTypeLabel}!${instructionsNote} Ready for AI processing.`);
+    if (documentType === 'auto') {
+      toast.success(`Document uploaded! The document type will be detected automatically.${instructionsNote}`);
+    } else {
+      toast.success(`Document uploaded as ${formatDocumentTypeLabel(documentType)}!${instructionsNote} Ready for AI processing.`);
+    }
 
     // Auto-scroll to document preview section after a brief delay
     setTimeout(() => {
@@ -134,15 +224,18 @@ export default function ToolPage() {
     );
   }, []);
 
-  // Start AI processing (now skips classification)
-  const startProcessing = useCallback(async () => {
-    if (!currentFile || !selectedDocumentType) return;
+  // Run AI processing for a document type ('auto' lets the server classify first)
+  const runProcessing = useCallback(async (documentType: DocumentTypeSelection) => {
+    if (!currentFile) return;
 
     setIsProcessing(true);
     setIsComplete(false);
     setExtractedData(null);
+    setPendingClassification(null);
+    setActiveCitation(null);
+    setJobProgress(undefined);
 
-    const steps = initializeSteps(selectedDocumentType);
+    const steps = initializeSteps(documentType);
     setProcessingSteps(steps);
     setCurrentStep(1);
 
@@ -152,131 +245,95 @@ export default function ToolPage() {
     }, 300);
 
     try {
-      // Step 1: Document Preparation
+      // Step 1: Document Preparation - submit the extraction job
       updateStep(1, 'processing');
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate processing
 
       // Check if we have a Supabase URL for the uploaded file
       if (!currentFile.supabaseUrl) {
         throw new Error('File must be uploaded to Supabase before processing');
       }
 
-      updateStep(1, 'completed', 'Document prepared for processing');
-      setCurrentStep(2);
-
-      // Step 2: Data Extraction (skip classification, use selected document type)
-      updateStep(2, 'processing');
-
-      // Auto-scroll to keep processing section visible during step 2
-      setTimeout(() => {
-        scrollToElement(processingWorkflowRef, 80);
-      }, 200);
-
       // Send Supabase URL instead of large file blob to avoid 413 errors
       const extractionFormData = new FormData();
       extractionFormData.append('supabaseUrl', currentFile.supabaseUrl);
-      extractionFormData.append('documentType', selectedDocumentType);
+      extractionFormData.append('documentType', documentType);
+      extractionFormData.append('async', 'true');
       if (userInstructions) {
         extractionFormData.append('userInstructions', userInstructions);
       }
 
-      // Create AbortController for timeout protection
-      const controller = new AbortController();
-      const fetchTimeout = setTimeout(() => {
-        controller.abort();
-      }, 600000); // 10 minutes - allows for Claude API processing of multi-page PDFs
-
-      let extractResponse;
-      try {
-        extractResponse = await fetch('/api/extract', {
-          method: 'POST',
-          body: extractionFormData,
-          signal: controller.signal,
-        });
-
-        clearTimeout(fetchTimeout);
+      const extractResponse = await fetch('/api/extract', {
+        method: 'POST',
+        body: extractionFormData,
+      });
 
-        if (!extractResponse.ok) {
-          const errorData = await extractResponse.json().catch(() => ({}));
-          throw new Error(errorData.error || `Extraction failed with status ${extractResponse.status}`);
+      if (!extractResponse.ok) {
+        const errorData = await extractResponse.json().catch(() => ({}));
+
+        // Auto-detect was not confident enough - the user must confirm the suggested type
+        if (extractResponse.status === 409 && errorData.data?.classification) {
+          const confirmationRequired = errorData.data as ClassificationResponse;
+          const { classification } = confirmationRequired;
+          setPendingClassification(confirmationRequired);
+          setConfirmedDocumentType(classification.type !== 'unknown' ? classification.type : '');
+          setProcessingSteps([]);
+          setCurrentStep(0);
+          setIsProcessing(false);
+          toast.info('Please confirm the document type before extraction. No credits were used.');
+
+          setTimeout(() => {
+            scrollToElement(documentPreviewRef, 100);
+          }, 300);
+          return;
         }
-      } catch (fetchError) {
-        clearTimeout(fetchTimeout);
-
-        if (fetchError instanceof Error) {
-          if (fetchError.name === 'AbortError') {
-            throw new Error(
-              '⚠️ Processing Timeout\n\n' +
-              'Your document is too complex to process within our time limit (5 minutes).\n\n' +
-              'Recommendations:\n' +
-              '• Split large PDFs into smaller sections (under 10 pages each)\n' +
-              '• Try processing during off-peak hours\n' +
-              '• For assistance, contact: admin@rexeli.com\n\n' +
-              'The document has been saved but extraction could not be completed.'
-            );
-          }
-          throw fetchError;
-        }
-        throw new Error('Extraction request failed');
-      }
 
-      const extractResult = await extractResponse.json();
-      if (!extractResult.success) {
-        throw new Error(extractResult.error || 'Data extraction failed');
+        throw new Error(errorData.error || `Extraction failed with status ${extractResponse.status}`);
       }
 
-      const extracted: ExtractedData = extractResult.data.extractedData;
-
-      // Capture credit information from API response
-      const usedCredits = extractResult.data.creditsUsed || extractResult.creditsUsed;
-      const remaining = extractResult.data.remainingCredits || extractResult.remainingCredits;
-
-      if (usedCredits !== undefined) {
-        setCreditsUsed(usedCredits);
+      const submitResult = await extractResponse.json();
+      if (!submitResult.success) {
+        throw new Error(submitResult.error || 'Data extraction failed');
       }
-      if (remaining !== undefined) {
-        setRemainingCredits(remaining);
-      }
-
-      updateStep(2, 'completed', `Extracted ${Object.keys(extracted.data || {}).length} data fields`);
-      setCurrentStep(3);
 
-      // Step 3: Data Validation
-      updateStep(3, 'processing');
+      const submission: ExtractionJobSubmission = submitResult.data;
 
-      // Auto-scroll to keep processing section visible during step 3
-      setTimeout(() => {
-        scrollToElement(processingWorkflowRef, 80);
-      }, 200);
-      await new Promise(resolve => setTimeout(resolve, 1500)); // Simulate validation
-      updateStep(3, 'completed', 'Data validation completed successfully');
-      setCurrentStep(4);
-
-      // Step 4: Results Preparation
-      updateStep(4, 'processing');
+      // Remember the auto-detected type so re-processing skips classification
+      const jobDocumentType = submission.classification?.classification.type || documentType;
+      if (submission.classification) {
+        const { classification } = submission.classification;
+        setSelectedDocumentType(classification.type);
+        toast.success(`Detected ${formatDocumentTypeLabel(classification.type)} (${Math.round(classification.confidence * 100)}% confidence)`);
+      }
 
-      // Auto-scroll to keep processing section visible during step 4
-      setTimeout(() => {
-        scrollToElement(processingWorkflowRef, 80);
-      }, 200);
-      setExtractedData(extracted);
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      updateStep(4, 'completed', 'Results prepared for display and export');
+      // Persist the job so a reload resumes it instead of losing the work
+      try {
+        const storedJob: StoredExtractionJob = {
+          jobId: submission.jobId,
+          documentType: jobDocumentType,
+          userInstructions,
+          file: {
+            id: currentFile.id,
+            name: currentFile.name,
+            size: currentFile.size,
+            type: currentFile.type,
+            supabaseUrl: currentFile.supabaseUrl
+          }
+        };
+        window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, JSON.stringify(storedJob));
+      } catch {
+        // Storage unavailable - the job still runs, it just cannot be resumed after a reload
+      }
 
-      setIsComplete(true);
-      setIsProcessing(false);
+      updateStep(1, 'completed', STEP_COMPLETED_RESULTS[1]);
+      setCurrentStep(2);
+      updateStep(2, 'processing', 'Waiting to start');
 
-      // Show success toast with credit information
-      if (usedCredits && remaining !== undefined) {
-        toast.success(`Processing complete! Used ${usedCredits} credit${usedCredits !== 1 ? 's' : ''}. Remaining: ${remaining.toLocaleString()}`);
-      } else {
-        toast.success('AI processing completed successfully! Your data is ready.');
-      }
+      // Step 2-4 progress comes from the job (Realtime updates, with polling as fallback)
+      finishedJobIdRef.current = null;
+      setJobProgress(0);
+      setActiveJobId(submission.jobId);
 
-      // Auto-scroll to results section when processing completes
-      setTimeout(() => {
-        scrollToElement(resultsDisplayRef, 100);
-      }, 800);
+      toast.info('Extraction started. You can leave this page - results are saved to your documents.');
 
     } catch (error) {
       console.error('Processing error:', error);
@@ -289,10 +346,180 @@ export default function ToolPage() {
       setIsProcessing(false);
       toast.error(`Processing failed: ${errorMessage}`);
     }
-  }, [currentFile, selectedDocumentType, userInstructions, initializeSteps, updateStep, currentStep, scrollToElement]);
+  }, [currentFile, userInstructions, initializeSteps, updateStep, currentStep, scrollToElement]);
+
+  // Stop following a job that failed (or disappeared) and show the error on the active step
+  const failJob = useCallback((jobId: string, errorMessage: string) => {
+    finishedJobIdRef.current = jobId;
+    setActiveJobId(null);
+    setJobProgress(undefined);
+    clearStoredJob();
+
+    setProcessingSteps(prev =>
+      prev.map(step => step.status === 'processing' ? { ...step, status: 'error', result: errorMessage } : step)
+    );
+    setIsProcessing(false);
+    toast.error(`Processing failed: ${errorMessage}`);
+  }, []);
+
+  // Reflect a job status update in the processing steps; show results once it completes
+  const applyJobUpdate = useCallback((job: ExtractionJob) => {
+    if (finishedJobIdRef.current === job.id) return;
+
+    const activeStep = JOB_STAGE_STEP[job.stage];
+
+    if (job.status === 'processing') {
+      setJobProgress(job.progress);
+      setProcessingSteps(prev =>
+        prev.map(step => {
+          if (step.id < activeStep) {
+            return step.status === 'completed' ? step : { ...step, status: 'completed', result: STEP_COMPLETED_RESULTS[step.id] };
+          }
+          if (step.id === activeStep) {
+            return { ...step, status: 'processing', result: job.message || undefined };
+          }
+          return step;
+        })
+      );
+      setCurrentStep(activeStep);
+      return;
+    }
+
+    if (job.status === 'failed' || !job.extractedData) {
+      failJob(job.id, job.error || 'Data extraction failed');
+      return;
+    }
+
+    // Completed - stop following the job
+    finishedJobIdRef.current = job.id;
+    setActiveJobId(null);
+    clearStoredJob();
+
+    const extracted = job.extractedData;
+    setProcessingSteps(prev =>
+      prev.map(step => ({
+        ...step,
+        status: 'completed',
+        result: step.id === 2
+          ? `Extracted ${Object.keys(extracted.data || {}).length} data fields`
+          : STEP_COMPLETED_RESULTS[step.id]
+      }))
+    );
+    setCurrentStep(4);
+    setExtractedData(extracted);
+    setIsComplete(true);
+    setIsProcessing(false);
+
+    // Capture credit information from the job result
+    const usedCredits = job.result?.creditsUsed;
+    const remaining = job.result?.remainingCredits;
+    if (usedCredits !== undefined) {
+      setCreditsUsed(usedCredits);
+    }
+    if (remaining !== undefined) {
+      setRemainingCredits(remaining);
+    }
+
+    // Show success toast with credit information
+    if (usedCredits && remaining !== undefined) {
+      toast.success(`Processing complete! Used ${usedCredits} credit${usedCredits !== 1 ? 's' : ''}. Remaining: ${remaining.toLocaleString()}`);
+    } else {
+      toast.success('AI processing completed successfully! Your data is ready.');
+    }
+    job.result?.warnings.forEach(warning => toast.warning(warning));
+
+    // Auto-scroll to results section when processing completes
+    setTimeout(() => {
+      scrollToElement(resultsDisplayRef, 100);
+    }, 800);
+  }, [failJob, scrollToElement]);
+
+  // Fetch the latest job status - transient errors are ignored, the next poll retries
+  const refreshJob = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/extract/jobs/${jobId}`, { cache: 'no-store' });
+
+      if (response.status === 404) {
+        failJob(jobId, 'Extraction job not found');
+        return;
+      }
+
+      const result = await response.json();
+      if (response.ok && result.success) {
+        applyJobUpdate(result.data as ExtractionJob);
+      }
+    } catch (error) {
+      console.error('[Extraction Job] Status check failed:', error);
+    }
+  }, [applyJobUpdate, failJob]);
+
+  // Poll the active job (also covers Realtime being unavailable)
+  useEffect(() => {
+    if (!activeJobId) return;
+
+    refreshJob(activeJobId);
+    const interval = setInterval(() => refreshJob(activeJobId), JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [activeJobId, refreshJob]);
+
+  // Realtime: refresh as soon as the job row changes
+  useRealtimeSubscription({
+    table: 'user_documents',
+    event: 'UPDATE',
+    filter: `id=eq.${activeJobId}`,
+    enabled: !!activeJobId,
+    onUpdate: () => {
+      if (activeJobId) refreshJob(activeJobId);
+    }
+  });
+
+  // Resume a job that was running when the page was reloaded
+  useEffect(() => {
+    const storedJob = readStoredJob();
+    if (!storedJob) return;
+
+    setCurrentFile({
+      ...storedJob.file,
+      file: new File([], storedJob.file.name, { type: storedJob.file.type }),
+      uploadProgress: 100,
+      status: 'processing'
+    });
+    setSelectedDocumentType(storedJob.documentType);
+    setUserInstructions(storedJob.userInstructions);
+    setProcessingSteps(
+      initializeSteps(storedJob.documentType).map(step =>
+        step.id === 1 ? { ...step, status: 'completed', result: STEP_COMPLETED_RESULTS[1] } : step
+      )
+    );
+    setCurrentStep(2);
+    setIsProcessing(true);
+    setJobProgress(0);
+    setActiveJobId(storedJob.jobId);
+    toast.info('Resuming your extraction in progress...');
+  }, [initializeSteps]);
+
+  // Start AI processing with the type selected on upload
+  const startProcessing = useCallback(() => {
+    if (!selectedDocumentType) return;
+    runProcessing(selectedDocumentType);
+  }, [selectedDocumentType, runProcessing]);
+
+  // Confirm (or correct) an auto-detect suggestion and run extraction with that type
+  const confirmClassification = useCallback(() => {
+    if (!confirmedDocumentType) return;
+    const documentType = confirmedDocumentType as DocumentType;
+    setSelectedDocumentType(documentType);
+    runProcessing(documentType);
+  }, [confirmedDocumentType, runProcessing]);
+
+  // Show the source of a clicked value in the document preview
+  const showCitation = useCallback((citation: FieldCitation) => {
+    setActiveCitation(citation);
+    scrollToElement(documentPreviewRef, 100);
+  }, [scrollToElement]);
 
   // Export to Excel
-  const handleExportExcel = useCallback(async () => {
+  const handleExportExcel = useCallback(async (exportOptions: Pick<ExcelExportOptions, 'marketRentPsf' | 'format' | 'profile'> = {}) => {
     if (!extractedData) return;
 
     setIsExporting(true);
@@ -306,8 +533,9 @@ export default function ToolPage() {
           extractedData,
           options: {
             includeRawData: true,
-            includeCharts: false,
+            includeCharts: true,
             formatForPrint: true,
+            ...exportOptions,
           }
         }),
       });
@@ -316,18 +544,19 @@ export default function ToolPage() {
         throw new Error('Export failed');
       }
 
-      // Download the Excel file
+      // Download the workbook (.ods for LibreOffice, otherwise .xlsx)
+      const extension = exportOptions.format === 'ods' ? 'ods' : 'xlsx';
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `RExeli_${extractedData.documentType}_${new Date().toISOString().slice(0, 10)}.xlsx`;
+      link.download = `RExeli_${extractedData.documentType}_${new Date().toISOString().slice(0, 10)}.${extension}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       window.URL.revokeObjectURL(url);
 
-      toast.success('Excel file downloaded successfully!');
+      toast.success(extension === 'ods' ? 'Spreadsheet downloaded successfully!' : 'Excel file downloaded successfully!');
     } catch (error) {
       console.error('Export error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Export failed';
@@ -337,6 +566,44 @@ export default function ToolPage() {
     }
   }, [extractedData]);
 
+  const handleExportPdf = useCallback(async () => {
+    if (!extractedData) return;
+
+    setIsExporting(true);
+    try {
+      const response = await fetch('/api/export/pdf', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ extractedData }),
+      });
+
+      if (!response.ok) {
+        throw new Error('PDF export failed');
+      }
+
+      // Download the PDF summary
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `RExeli_${extractedData.documentType}_summary_${new Date().toISOString().slice(0, 10)}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      toast.success('PDF summary downloaded successfully!');
+    } catch (error) {
+      console.error('PDF export error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'PDF export failed';
+      toast.error(`PDF export failed: ${errorMessage}`);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [extractedData]);
+
   // Redirect to signin if not authenticated
   useEffect(() => {
     if (!loading && !user) {
@@ -413,7 +680,54 @@ export default function ToolPage() {
                 file={currentFile}
                 onStartProcessing={startProcessing}
                 isProcessing={isProcessing}
+                citation={activeCitation}
+                onClearCitation={() => setActiveCitation(null)}
               />
+
+              {/* Auto-detect confirmation - shown when classification confidence is below threshold */}
+              {pendingClassification && (
+                <Card className="border-2 border-amber-300 bg-gradient-to-br from-amber-50 to-yellow-50 shadow-lg">
+                  <CardHeader>
+                    <CardTitle className="text-xl font-bold text-amber-800 flex items-center space-x-2">
+                      <Sparkles className="w-6 h-6" />
+                      <span>Confirm Document Type</span>
+                    </CardTitle>
+                    <p className="text-gray-700">
+                      {pendingClassification.classification.type !== 'unknown' ? (
+                        <>
+                          The AI suggests <span className="font-semibold">{formatDocumentTypeLabel(pendingClassification.classification.type)}</span>{' '}
+                          with {Math.round(pendingClassification.classification.confidence * 100)}% confidence
+                          (auto-accept requires {Math.round(pendingClassification.confidenceThreshold * 100)}%).
+                        </>
+                      ) : (
+                        <>The AI could not determine the document type.</>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500">{pendingClassification.classification.reasoning}</p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <Select value={confirmedDocumentType} onValueChange={setConfirmedDocumentType}>
+                      <SelectTrigger className="w-full h-12 text-left text-base font-semibold">
+                        <SelectValue placeholder="Select the document type..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONFIRMABLE_DOCUMENT_TYPES.map((docType) => (
+                          <SelectItem key={docType} value={docType}>
+                            {formatDocumentTypeLabel(docType)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={confirmClassification}
+                      disabled={!confirmedDocumentType || isProcessing}
+                      className="w-full"
+                    >
+                      Confirm and Extract
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
             </div>
           )}
 
@@ -441,8 +755,8 @@ export default function ToolPage() {
               <ProcessingWorkflow
                 file={currentFile!}
                 steps={processingSteps}
-                currentStep={currentStep}
                 isComplete={isComplete}
+                progress={jobProgress}
               />
             </div>
           )}
@@ -494,7 +808,9 @@ export default function ToolPage() {
               <ResultsDisplay
                 extractedData={extractedData}
                 onExportExcel={handleExportExcel}
+                onExportPdf={handleExportPdf}
                 isExporting={isExporting}
+                onCitationClick={showCitation}
               />
             </div>
           )}
@@ -512,7 +828,7 @@ export default function ToolPage() {
                 <div className="text-center">
                   <div className="w-8 h-8 bg-emerald-600 text-white rounded-full flex items-center justify-center mx-auto mb-2 font-bold">2</div>
                   <p className="font-medium text-emerald-800">Document Selection</p>
-                  <p className="text-emerald-600">Choose your document type manually</p>
+                  <p className="text-emerald-600">Choose your document type or let AI detect it</p>
                 </div>
                 <div className="text-center">
                   <div className="w-8 h-8 bg-emerald-600 text-white rounded-full flex items-center justify-center mx-auto mb-2 font-bold">3</div>
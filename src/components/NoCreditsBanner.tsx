@@ -3,6 +3,7 @@
 /**
  * No Credits Banner Component
  * Shows when user has 0 credits remaining
+ * With overage on, shows that processing continues as billed overage instead
  */
 
 import Link from 'next/link';
@@ -10,15 +11,38 @@ import { AlertCircle } from 'lucide-react';
 
 interface NoCreditsBannerProps {
   remainingCredits?: number;
+  overageEnabled?: boolean;
   className?: string;
 }
 
-export function NoCreditsBanner({ remainingCredits = 0, className = '' }: NoCreditsBannerProps) {
+export function NoCreditsBanner({ remainingCredits = 0, overageEnabled = false, className = '' }: NoCreditsBannerProps) {
   // Only show if credits are exactly 0
   if (remainingCredits > 0) {
     return null;
   }
 
+  if (overageEnabled) {
+    return (
+      <div className={`bg-blue-50 border border-blue-200 rounded-lg p-4 ${className}`}>
+        <div className="flex items-start">
+          <AlertCircle className="w-5 h-5 text-blue-600 mr-3 mt-0.5 flex-shrink-0" />
+          <div className="flex-1">
+            <h3 className="text-blue-900 font-semibold mb-1">Overage Billing Active</h3>
+            <p className="text-blue-800 text-sm mb-3">
+              You&apos;ve used all your credits. Pages you process now are billed as overage, up to your monthly cap.
+            </p>
+            <Link
+              href="/dashboard/usage"
+              className="inline-block px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium transition-colors"
+            >
+              View Projected Bill
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`bg-red-50 border border-red-200 rounded-lg p-4 ${className}`}>
       <div className="flex items-start">
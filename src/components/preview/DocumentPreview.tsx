@@ -1,21 +1,54 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Spinner } from '@/components/ui/spinner';
-import { FileText, Eye, Download, RotateCw } from 'lucide-react';
-import type { DocumentFile } from '@/lib/types';
+import { FileText, Eye, Download, RotateCw, MapPin, X } from 'lucide-react';
+import type { DocumentFile, FieldCitation } from '@/lib/types';
 
 interface DocumentPreviewProps {
   file: DocumentFile;
   onStartProcessing: () => void;
   isProcessing: boolean;
+  citation?: FieldCitation | null;
+  onClearCitation?: () => void;
 }
 
-export function DocumentPreview({ file, onStartProcessing, isProcessing }: DocumentPreviewProps) {
+export function DocumentPreview({ file, onStartProcessing, isProcessing, citation, onClearCitation }: DocumentPreviewProps) {
   const [imageLoading, setImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
+  const [highlightedPage, setHighlightedPage] = useState<{ dataUrl: string; matched: boolean } | null>(null);
+  const [highlightLoading, setHighlightLoading] = useState(false);
+
+  // Render the cited page with the source snippet highlighted
+  useEffect(() => {
+    setHighlightedPage(null);
+    if (!citation || !file.supabaseUrl || file.type !== 'application/pdf') return;
+
+    let cancelled = false;
+    setHighlightLoading(true);
+
+    import('@/lib/pdf-utils')
+      .then(({ renderPdfPageWithHighlight }) =>
+        renderPdfPageWithHighlight(file.supabaseUrl!, citation.page, citation.snippet)
+      )
+      .then(result => {
+        if (!cancelled) setHighlightedPage(result);
+      })
+      .catch(error => {
+        // Falls back to the iframe viewer opened at the cited page
+        console.error('Failed to render cited page:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setHighlightLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [citation, file.supabaseUrl, file.type]);
 
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
@@ -157,6 +190,29 @@ export function DocumentPreview({ file, onStartProcessing, isProcessing }: Docum
             <CardTitle>Document Preview</CardTitle>
           </CardHeader>
           <CardContent>
+            {/* Source citation banner - shown when a value is clicked in the results */}
+            {citation && (
+              <div className="flex items-start justify-between gap-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-3">
+                <div className="flex items-start min-w-0">
+                  <MapPin className="w-4 h-4 text-yellow-700 mr-2 mt-0.5 flex-shrink-0" />
+                  <div className="text-sm text-yellow-900 min-w-0">
+                    <p className="font-medium">Source: page {citation.page}</p>
+                    {citation.snippet && (
+                      <p className="text-yellow-800 break-words">&ldquo;{citation.snippet}&rdquo;</p>
+                    )}
+                    {highlightedPage && !highlightedPage.matched && (
+                      <p className="text-xs text-yellow-700 mt-1">Exact text could not be located on this page.</p>
+                    )}
+                  </div>
+                </div>
+                {onClearCitation && (
+                  <Button variant="ghost" size="sm" onClick={onClearCitation} aria-label="Show full document">
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+
             {file.supabaseUrl ? (
               <div className="relative bg-gray-100 rounded-lg overflow-hidden min-h-[300px] md:min-h-[400px] lg:min-h-[500px]">
                 {file.type.startsWith('image/') ? (
@@ -186,11 +242,32 @@ export function DocumentPreview({ file, onStartProcessing, isProcessing }: Docum
                       </div>
                     )}
                   </div>
+                ) : file.type === 'application/pdf' && citation && (highlightLoading || highlightedPage) ? (
+                  // Cited page rendered with the source snippet highlighted
+                  <div className="w-full h-[400px] md:h-[500px] lg:h-[600px] overflow-auto">
+                    {highlightLoading || !highlightedPage ? (
+                      <div className="flex items-center justify-center h-full">
+                        <Spinner size="md" variant="primary" />
+                      </div>
+                    ) : (
+                      // Rendered page data URL - sized by CSS, nothing for the image optimizer to do
+                      <Image
+                        src={highlightedPage.dataUrl}
+                        alt={`Page ${citation.page} of ${file.name}`}
+                        width={0}
+                        height={0}
+                        sizes="100vw"
+                        unoptimized
+                        className="w-full h-auto"
+                      />
+                    )}
+                  </div>
                 ) : file.type === 'application/pdf' ? (
-                  // PDF Preview using iframe
+                  // PDF Preview using iframe (opens at the cited page when highlighting is unavailable)
                   <div className="w-full h-[400px] md:h-[500px] lg:h-[600px]">
                     <iframe
-                      src={`${file.supabaseUrl}#view=FitH`}
+                      key={citation?.page ?? 'document'}
+                      src={`${file.supabaseUrl}#${citation ? `page=${citation.page}&` : ''}view=FitH`}
                       className="w-full h-full border-0 rounded"
                       title={`Preview of ${file.name}`}
                     />
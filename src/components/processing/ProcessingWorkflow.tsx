@@ -9,8 +9,8 @@ import type { ProcessingStep, DocumentFile } from '@/lib/types';
 interface ProcessingWorkflowProps {
   file: DocumentFile;
   steps: ProcessingStep[];
-  currentStep: number;
   isComplete: boolean;
+  progress?: number; // Server-reported progress (0-100) for extraction jobs
 }
 
 const STEP_ICONS = {
@@ -21,7 +21,7 @@ const STEP_ICONS = {
   5: Eye
 };
 
-export function ProcessingWorkflow({ file, steps, currentStep, isComplete }: ProcessingWorkflowProps) {
+export function ProcessingWorkflow({ file, steps, isComplete, progress }: ProcessingWorkflowProps) {
   const getStepIcon = (stepId: number, status: ProcessingStep['status']) => {
     const IconComponent = STEP_ICONS[stepId as keyof typeof STEP_ICONS] || Clock;
 
@@ -58,6 +58,7 @@ export function ProcessingWorkflow({ file, steps, currentStep, isComplete }: Pro
   const getProgressValue = () => {
     if (isComplete) return 100;
     if (steps.length === 0) return 0;
+    if (progress !== undefined) return Math.round(progress);
     
     const completedSteps = steps.filter(step => step.status === 'completed').length;
     return Math.round((completedSteps / steps.length) * 100);
@@ -129,6 +130,10 @@ export function ProcessingWorkflow({ file, steps, currentStep, isComplete }: Pro
                     {step.description}
                   </p>
                   
+                  {step.status === 'processing' && typeof step.result === 'string' && (
+                    <p className="text-xs text-emerald-700">{step.result}</p>
+                  )}
+
                   {step.status === 'completed' && step.result != null ? (
                     <div className="mt-3 p-3 bg-white rounded border">
                       <div className="text-xs font-medium text-gray-700 mb-1">Result:</div>
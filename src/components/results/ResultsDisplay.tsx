@@ -1,9 +1,12 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileSpreadsheet, Eye, Download, Building, DollarSign, Calendar, Users, TrendingUp } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileSpreadsheet, FileText, Eye, Download, Building, DollarSign, Calendar, Users, TrendingUp, Layers, AlertTriangle, CheckCircle, MapPin, BarChart3 } from 'lucide-react';
 import type {
   ExtractedData,
   RentRollData,
@@ -14,17 +17,44 @@ import type {
   OfferingMemoData,
   LeaseData,
   FinancialStatementsData,
+  DocumentPackageData,
   ComparableData,
-  FinancialData
+  FinancialData,
+  FieldCitation,
+  ExcelExportOptions
 } from '@/lib/types';
+import { LOW_CONFIDENCE_THRESHOLD, getFieldCitation, getLowConfidenceFields, getRowConfidence, isLowConfidence } from '@/lib/confidence';
+import { TENANT_CONCENTRATION_THRESHOLD, getRentRollAnalytics, type RentRollAnalytics } from '@/lib/rent-roll-analytics';
+
+type ExportRequestOptions = Pick<ExcelExportOptions, 'marketRentPsf' | 'format' | 'profile'>;
+
+// Spreadsheet apps the workbook can be exported for
+const EXPORT_TARGETS: { value: string; label: string; name: string; options: ExportRequestOptions }[] = [
+  { value: 'excel', label: 'Excel (.xlsx)', name: 'Excel', options: {} },
+  { value: 'sheets', label: 'Google Sheets (.xlsx)', name: 'Google Sheets', options: { profile: 'sheets' } },
+  { value: 'ods', label: 'LibreOffice (.ods)', name: 'LibreOffice', options: { format: 'ods' } }
+];
 
 interface ResultsDisplayProps {
   extractedData: ExtractedData;
-  onExportExcel: () => void;
+  onExportExcel: (options?: ExportRequestOptions) => void;
+  onExportPdf?: () => void; // PDF extraction summary - button hidden when not provided
   isExporting: boolean;
+  onCitationClick?: (citation: FieldCitation) => void;
 }
 
-export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: ResultsDisplayProps) {
+export function ResultsDisplay({ extractedData, onExportExcel, onExportPdf, isExporting, onCitationClick }: ResultsDisplayProps) {
+  // Market rent ($/SF/yr) typed on the Analytics tab - enables mark-to-market on screen and in the export
+  const [marketRentInput, setMarketRentInput] = useState('');
+  const [exportTarget, setExportTarget] = useState(EXPORT_TARGETS[0]);
+  const parsedMarketRent = parseFloat(marketRentInput);
+  const marketRentPsf = parsedMarketRent > 0 ? parsedMarketRent : undefined;
+
+  const analytics = useMemo(
+    () => getRentRollAnalytics(extractedData, { marketRentPsf }),
+    [extractedData, marketRentPsf]
+  );
+
   const formatCurrency = (amount: number | null | undefined): string => {
     if (amount === null || amount === undefined || isNaN(amount)) return 'N/A';
     return new Intl.NumberFormat('en-US', {
@@ -79,7 +109,55 @@ export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: Re
     ).join(' ');
   };
 
-  const renderRentRollData = (data: RentRollData) => (
+  // Wrap a value so clicking it jumps to its source page in the document preview
+  const renderCited = (citations: Record<string, FieldCitation> | undefined, path: string, content: React.ReactNode) => {
+    const citation = getFieldCitation(citations, path);
+    if (!citation || !onCitationClick) return content;
+
+    return (
+      <button
+        type="button"
+        onClick={() => onCitationClick(citation)}
+        className="underline decoration-dotted decoration-emerald-500 underline-offset-2 hover:text-emerald-700 text-inherit"
+        title={`Source: page ${citation.page}${citation.snippet ? ` - "${citation.snippet}"` : ''}`}
+      >
+        {content}
+      </button>
+    );
+  };
+
+  // Amber cell background for values Claude was unsure about
+  const confidenceCellClass = (fieldConfidence: Record<string, number> | undefined, path: string): string => {
+    return isLowConfidence(fieldConfidence, path) ? ' bg-amber-100' : '';
+  };
+
+  const confidenceRowClass = (fieldConfidence: Record<string, number> | undefined, rowPath: string): string => {
+    const rowConfidence = getRowConfidence(fieldConfidence, rowPath);
+    return rowConfidence !== undefined && rowConfidence < LOW_CONFIDENCE_THRESHOLD ? ' bg-amber-50' : '';
+  };
+
+  // Citations for the whole result - document package citations are prefixed with the segment number
+  const allCitations: { path: string; citation: FieldCitation }[] = extractedData.documentType === 'document_package'
+    ? (extractedData.data as DocumentPackageData).segments.flatMap((segment, index) =>
+        Object.entries(segment.extractedData.citations || {}).map(([path, citation]) => ({ path: `${index + 1}. ${path}`, citation }))
+      )
+    : Object.entries(extractedData.citations || {}).map(([path, citation]) => ({ path, citation }));
+
+  // Low-confidence fields, least confident first - package paths resolve to their segment's citations
+  const lowConfidenceFields = getLowConfidenceFields(extractedData).map(({ path, confidence }) => {
+    const segmentMatch = path.match(/^segments\.(\d+)\.extractedData\.(.+)$/);
+    const citation = segmentMatch
+      ? getFieldCitation((extractedData.data as DocumentPackageData).segments[Number(segmentMatch[1])]?.extractedData.citations, segmentMatch[2])
+      : getFieldCitation(extractedData.citations, path);
+    const label = segmentMatch ? `${Number(segmentMatch[1]) + 1}. ${segmentMatch[2]}` : path;
+    return { path: label, confidence, citation };
+  });
+
+  const renderRentRollData = (
+    data: RentRollData,
+    citations?: Record<string, FieldCitation>,
+    fieldConfidence?: Record<string, number>
+  ) => (
     <div className="space-y-6">
       {/* Summary */}
       <Card>
@@ -136,12 +214,12 @@ export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: Re
               </thead>
               <tbody>
                 {data.tenants.slice(0, 10).map((tenant, index) => (
-                  <tr key={index} className="border-b hover:bg-gray-50">
-                    <td className="p-2 font-medium">{tenant.suiteUnit}</td>
-                    <td className="p-2">{tenant.tenantName}</td>
-                    <td className="p-2 text-right">{formatNumber(tenant.squareFootage)}</td>
-                    <td className="p-2 text-right">{formatCurrency(tenant.baseRent)}</td>
-                    <td className="p-2">{tenant.leaseEnd}</td>
+                  <tr key={index} className={`border-b hover:bg-gray-50${confidenceRowClass(fieldConfidence, `tenants.${index}`)}`}>
+                    <td className={`p-2 font-medium${confidenceCellClass(fieldConfidence, `tenants.${index}.suiteUnit`)}`}>{renderCited(citations, `tenants.${index}.suiteUnit`, tenant.suiteUnit)}</td>
+                    <td className={`p-2${confidenceCellClass(fieldConfidence, `tenants.${index}.tenantName`)}`}>{renderCited(citations, `tenants.${index}.tenantName`, tenant.tenantName)}</td>
+                    <td className={`p-2 text-right${confidenceCellClass(fieldConfidence, `tenants.${index}.squareFootage`)}`}>{renderCited(citations, `tenants.${index}.squareFootage`, formatNumber(tenant.squareFootage))}</td>
+                    <td className={`p-2 text-right${confidenceCellClass(fieldConfidence, `tenants.${index}.baseRent`)}`}>{renderCited(citations, `tenants.${index}.baseRent`, formatCurrency(tenant.baseRent))}</td>
+                    <td className={`p-2${confidenceCellClass(fieldConfidence, `tenants.${index}.leaseEnd`)}`}>{renderCited(citations, `tenants.${index}.leaseEnd`, tenant.leaseEnd)}</td>
                     <td className="p-2">
                       <span className={`px-2 py-1 text-xs rounded-full ${
                         tenant.occupancyStatus === 'occupied' ? 'bg-green-100 text-green-800' :
@@ -166,6 +244,189 @@ export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: Re
     </div>
   );
 
+  const formatYears = (years: number | null): string =>
+    years === null ? 'N/A' : `${years.toFixed(2)} yrs`;
+
+  const renderRentRollAnalytics = (analytics: RentRollAnalytics) => (
+    <div className="space-y-6">
+      {/* Key Figures */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Rent Roll Analytics</CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            As of {formatDate(`${analytics.asOfDate}T00:00:00`)} - {analytics.leaseCount} occupied leases, rents annualized
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="text-center">
+              <div className="text-2xl font-bold text-green-600">{formatCurrency(analytics.annualRent)}</div>
+              <div className="text-sm text-gray-500">Annual Base Rent</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-blue-600">{formatYears(analytics.waltByRent)}</div>
+              <div className="text-sm text-gray-500">WALT (by rent)</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-purple-600">{formatYears(analytics.waltBySquareFeet)}</div>
+              <div className="text-sm text-gray-500">WALT (by SF)</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-orange-600">{formatPercentage(analytics.topFiveShareOfRent)}</div>
+              <div className="text-sm text-gray-500">Top 5 Tenants % of Rent</div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Lease Expiration Schedule */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Calendar className="w-5 h-5 mr-2" />
+            Lease Expiration Schedule
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" role="table" aria-label="Lease expiration schedule">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Year</th>
+                  <th className="text-right p-2">Leases</th>
+                  <th className="text-right p-2">SF Expiring</th>
+                  <th className="text-right p-2">% of GLA</th>
+                  <th className="text-right p-2">Annual Rent</th>
+                  <th className="text-right p-2">% of Rent</th>
+                  <th className="text-right p-2">Cumulative</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.expirationSchedule.map((expiration) => (
+                  <tr key={expiration.year ?? 'none'} className="border-b hover:bg-gray-50">
+                    <td className="p-2 font-medium">{expiration.year ?? 'No end date / MTM'}</td>
+                    <td className="p-2 text-right">{expiration.leaseCount}</td>
+                    <td className="p-2 text-right">{formatNumber(expiration.squareFeet)}</td>
+                    <td className="p-2 text-right">{formatPercentage(expiration.percentOfGla)}</td>
+                    <td className="p-2 text-right">{formatCurrency(expiration.annualRent)}</td>
+                    <td className="p-2 text-right">{formatPercentage(expiration.percentOfRent)}</td>
+                    <td className="p-2 text-right">{formatPercentage(expiration.cumulativePercentOfRent)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {analytics.vacantSquareFeet > 0 && (
+              <p className="text-sm text-gray-500 mt-2">
+                Vacant: {formatSquareFeet(analytics.vacantSquareFeet)} ({formatPercentage(analytics.vacantSquareFeet / analytics.totalSquareFeet)} of GLA)
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Tenant Concentration */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Users className="w-5 h-5 mr-2" />
+            Tenant Concentration
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            Tenants paying {Math.round(TENANT_CONCENTRATION_THRESHOLD * 100)}% or more of total rent are flagged
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" role="table" aria-label="Tenant concentration">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Tenant</th>
+                  <th className="text-right p-2">SF</th>
+                  <th className="text-right p-2">% of GLA</th>
+                  <th className="text-right p-2">Annual Rent</th>
+                  <th className="text-right p-2">% of Rent</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.concentration.map((tenant) => (
+                  <tr key={tenant.tenantName} className={`border-b hover:bg-gray-50${tenant.isConcentrated ? ' bg-amber-50' : ''}`}>
+                    <td className="p-2 font-medium">
+                      {tenant.tenantName}
+                      {tenant.isConcentrated && (
+                        <AlertTriangle className="inline w-4 h-4 ml-2 text-amber-600" aria-label="Concentration risk" />
+                      )}
+                    </td>
+                    <td className="p-2 text-right">{formatNumber(tenant.squareFeet)}</td>
+                    <td className="p-2 text-right">{formatPercentage(tenant.percentOfGla)}</td>
+                    <td className="p-2 text-right">{formatCurrency(tenant.annualRent)}</td>
+                    <td className="p-2 text-right">{formatPercentage(tenant.percentOfRent)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Mark-to-Market */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <TrendingUp className="w-5 h-5 mr-2" />
+            Mark-to-Market
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-3 mb-4 print:hidden">
+            <label htmlFor="market-rent" className="text-sm font-medium text-gray-700 whitespace-nowrap">
+              Market rent ($/SF/yr)
+            </label>
+            <Input
+              id="market-rent"
+              type="number"
+              min="0"
+              step="0.01"
+              value={marketRentInput}
+              onChange={(e) => setMarketRentInput(e.target.value)}
+              placeholder="e.g. 32.50"
+              className="max-w-[10rem]"
+            />
+          </div>
+          {analytics.markToMarket ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">
+                  {analytics.markToMarket.inPlaceRentPsf === null ? 'N/A' : `$${analytics.markToMarket.inPlaceRentPsf.toFixed(2)}`}
+                </div>
+                <div className="text-sm text-gray-500">In-Place $/SF/yr</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">{formatCurrency(analytics.markToMarket.annualMarketRent)}</div>
+                <div className="text-sm text-gray-500">Annual Rent at Market</div>
+              </div>
+              <div className="text-center">
+                <div className={`text-2xl font-bold ${analytics.markToMarket.annualDifference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(analytics.markToMarket.annualDifference)}
+                </div>
+                <div className="text-sm text-gray-500">Annual Upside (Downside)</div>
+              </div>
+              <div className="text-center">
+                <div className={`text-2xl font-bold ${analytics.markToMarket.annualDifference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatPercentage(analytics.markToMarket.percentDifference)}
+                </div>
+                <div className="text-sm text-gray-500">vs. In-Place Rent</div>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Enter a market rent to compare in-place rents; it is also applied to the Excel export.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+
   const renderOperatingBudgetData = (data: OperatingBudgetData) => (
     <div className="space-y-6">
       {/* Key Metrics Summary */}
@@ -1374,33 +1635,93 @@ export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: Re
     </Card>
   );
 
-  const renderDataByType = () => {
+  const renderDocumentPackageData = (data: DocumentPackageData) => (
+    <div className="space-y-6">
+      {/* Package Overview */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Layers className="w-5 h-5 mr-2" />
+            Document Package
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            {data.segments.length} {data.segments.length === 1 ? 'document' : 'documents'} detected across {formatNumber(data.totalPages)} pages
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Document Type</th>
+                  <th className="text-left p-2">Pages</th>
+                  <th className="text-left p-2">Title</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.segments.map((segment, index) => (
+                  <tr key={index} className="border-b">
+                    <td className="p-2">{index + 1}</td>
+                    <td className="p-2 font-medium">{getDocumentTypeLabel(segment.documentType)}</td>
+                    <td className="p-2">
+                      {segment.startPage === segment.endPage ? segment.startPage : `${segment.startPage}-${segment.endPage}`}
+                    </td>
+                    <td className="p-2">{safeString(segment.title, 'N/A')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Per-document results, rendered with the matching document type view */}
+      {data.segments.map((segment, index) => (
+        <div key={index} className="space-y-4 print:break-inside-avoid">
+          <div className="flex flex-wrap items-center gap-2 border-b pb-2">
+            <span className="text-base font-semibold text-gray-900">
+              {index + 1}. {getDocumentTypeLabel(segment.documentType)}
+            </span>
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+              {segment.startPage === segment.endPage ? `Page ${segment.startPage}` : `Pages ${segment.startPage}-${segment.endPage}`}
+            </span>
+          </div>
+          {renderDataByType(segment.extractedData)}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderDataByType = (data: ExtractedData = extractedData): React.ReactNode => {
     try {
-      switch (extractedData.documentType) {
+      switch (data.documentType) {
         case 'rent_roll':
-          return renderRentRollData(extractedData.data as RentRollData);
+          return renderRentRollData(data.data as RentRollData, data.citations, data.fieldConfidence);
         case 'operating_budget':
-          return renderOperatingBudgetData(extractedData.data as OperatingBudgetData);
+          return renderOperatingBudgetData(data.data as OperatingBudgetData);
         case 'broker_sales_comparables':
-          return renderBrokerSalesComparablesData(extractedData.data as BrokerSalesComparablesData);
+          return renderBrokerSalesComparablesData(data.data as BrokerSalesComparablesData);
         case 'broker_lease_comparables':
-          return renderBrokerLeaseComparablesData(extractedData.data as BrokerLeaseComparablesData);
+          return renderBrokerLeaseComparablesData(data.data as BrokerLeaseComparablesData);
         case 'broker_listing':
-          return renderBrokerListingData(extractedData.data as BrokerListingData);
+          return renderBrokerListingData(data.data as BrokerListingData);
         case 'offering_memo':
-          return renderOfferingMemoData(extractedData.data as OfferingMemoData);
+          return renderOfferingMemoData(data.data as OfferingMemoData);
         case 'lease_agreement':
-          return renderLeaseAgreementData(extractedData.data as LeaseData);
+          return renderLeaseAgreementData(data.data as LeaseData);
         case 'financial_statements':
-          return renderFinancialStatementsData(extractedData.data as FinancialStatementsData);
+          return renderFinancialStatementsData(data.data as FinancialStatementsData);
+        case 'document_package':
+          return renderDocumentPackageData(data.data as DocumentPackageData);
         // Legacy support
         case 'comparable_sales':
-          return renderLegacyComparablesData(extractedData.data as ComparableData);
+          return renderLegacyComparablesData(data.data as ComparableData);
         case 'financial_statement':
-          return renderLegacyFinancialData(extractedData.data as FinancialData);
+          return renderLegacyFinancialData(data.data as FinancialData);
         case 'unknown':
         default:
-          return renderGenericData(extractedData.data, `${getDocumentTypeLabel(extractedData.documentType)} Data`);
+          return renderGenericData(data.data, `${getDocumentTypeLabel(data.documentType)} Data`);
       }
     } catch (error) {
       console.error('Error rendering document data:', error);
@@ -1421,7 +1742,7 @@ export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: Re
                 There was an issue formatting the extracted data. The raw data is shown below for reference.
               </p>
               <pre className="text-sm text-gray-600 whitespace-pre-wrap bg-gray-50 p-4 rounded max-h-96 overflow-y-auto">
-                {JSON.stringify(extractedData.data, null, 2)}
+                {JSON.stringify(data.data, null, 2)}
               </pre>
             </div>
           </CardContent>
@@ -1450,6 +1771,7 @@ export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: Re
                   extractedData.documentType === 'offering_memo' ? 'bg-red-100 text-red-800' :
                   extractedData.documentType === 'lease_agreement' ? 'bg-teal-100 text-teal-800' :
                   extractedData.documentType === 'financial_statements' ? 'bg-orange-100 text-orange-800' :
+                  extractedData.documentType === 'document_package' ? 'bg-pink-100 text-pink-800' :
                   'bg-gray-100 text-gray-800'
                 }`}>
                   {getDocumentTypeLabel(extractedData.documentType)}
@@ -1459,13 +1781,29 @@ export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: Re
                 </span>
               </div>
             </div>
-            <div className="flex-shrink-0">
+            <div className="flex-shrink-0 flex flex-col sm:flex-row gap-2 print:hidden">
+              <Select
+                value={exportTarget.value}
+                onValueChange={(value) => setExportTarget(EXPORT_TARGETS.find(target => target.value === value) ?? EXPORT_TARGETS[0])}
+                disabled={isExporting}
+              >
+                <SelectTrigger className="w-full sm:w-[12rem] h-9 text-sm" aria-label="Export file type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_TARGETS.map((target) => (
+                    <SelectItem key={target.value} value={target.value}>
+                      {target.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
-                onClick={onExportExcel}
+                onClick={() => onExportExcel({ ...exportTarget.options, ...(marketRentPsf ? { marketRentPsf } : {}) })}
                 disabled={isExporting}
-                className="w-full sm:w-auto print:hidden"
+                className="w-full sm:w-auto"
                 size="sm"
-                aria-label={isExporting ? 'Exporting data to Excel' : 'Export data to Excel'}
+                aria-label={isExporting ? `Exporting data to ${exportTarget.name}` : `Export data to ${exportTarget.name}`}
               >
                 {isExporting ? (
                   <>
@@ -1475,10 +1813,23 @@ export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: Re
                 ) : (
                   <>
                     <FileSpreadsheet className="w-4 h-4 mr-2" aria-hidden="true" />
-                    Export to Excel
+                    Export to {exportTarget.name}
                   </>
                 )}
               </Button>
+              {onExportPdf && (
+                <Button
+                  onClick={onExportPdf}
+                  disabled={isExporting}
+                  variant="outline"
+                  className="w-full sm:w-auto"
+                  size="sm"
+                  aria-label="Download PDF extraction summary"
+                >
+                  <FileText className="w-4 h-4 mr-2" aria-hidden="true" />
+                  PDF Summary
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -1516,11 +1867,203 @@ export function ResultsDisplay({ extractedData, onExportExcel, isExporting }: Re
         </CardContent>
       </Card>
 
-      {/* Data Display */}
+      {/* Truncation warning - some rows may be missing */}
+      {extractedData.completeness && !extractedData.completeness.isComplete && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4" role="alert">
+          <div className="flex items-start">
+            <AlertTriangle className="w-4 h-4 text-amber-600 mr-2 mt-0.5 flex-shrink-0" aria-hidden="true" />
+            <div className="text-sm text-amber-800">
+              <p className="font-medium">Extraction may be incomplete</p>
+              <p className="mt-1">
+                The document was too large to extract in full
+                {extractedData.completeness.truncatedChunks.length > 0 && (
+                  <> (pages {extractedData.completeness.truncatedChunks.map(chunk => `${chunk.startPage}-${chunk.endPage}`).join(', ')})</>
+                )}
+                . Please verify the results against the source document.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Schema warning - fields that still do not match the expected structure */}
+      {extractedData.schemaValidation && !extractedData.schemaValidation.isValid && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4" role="alert">
+          <div className="flex items-start">
+            <AlertTriangle className="w-4 h-4 text-amber-600 mr-2 mt-0.5 flex-shrink-0" aria-hidden="true" />
+            <div className="text-sm text-amber-800">
+              <p className="font-medium">
+                {extractedData.schemaValidation.remainingIssues.length} field(s) did not match the expected format
+              </p>
+              <ul className="mt-1 list-disc list-inside">
+                {extractedData.schemaValidation.remainingIssues.slice(0, 5).map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{issue.path}</span>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+              {extractedData.schemaValidation.remainingIssues.length > 5 && (
+                <p className="mt-1">and {extractedData.schemaValidation.remainingIssues.length - 5} more</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reconciliation - arithmetic cross-checks on the extracted figures */}
+      {extractedData.reconciliation && extractedData.reconciliation.checksRun > 0 && (
+        <Card className="print:shadow-none">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center">
+              {extractedData.reconciliation.discrepancies.length === 0 ? (
+                <CheckCircle className="w-5 h-5 mr-2 text-green-600" aria-hidden="true" />
+              ) : (
+                <AlertTriangle className="w-5 h-5 mr-2 text-amber-600" aria-hidden="true" />
+              )}
+              Validation Checks
+            </CardTitle>
+            <p className="text-sm text-gray-500 mt-1">
+              {extractedData.reconciliation.discrepancies.length === 0
+                ? `All ${extractedData.reconciliation.checksRun} checks passed`
+                : `${extractedData.reconciliation.discrepancies.length} of ${extractedData.reconciliation.checksRun} checks found discrepancies`}
+            </p>
+          </CardHeader>
+          {extractedData.reconciliation.discrepancies.length > 0 && (
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Severity</th>
+                      <th className="text-left p-2">Check</th>
+                      <th className="text-left p-2">Field</th>
+                      <th className="text-right p-2">Expected</th>
+                      <th className="text-right p-2">Actual</th>
+                      <th className="text-right p-2">Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {extractedData.reconciliation.discrepancies.map((discrepancy, index) => (
+                      <tr key={index} className="border-b">
+                        <td className="p-2">
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                            discrepancy.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                          }`}>
+                            {discrepancy.severity === 'error' ? 'Error' : 'Warning'}
+                          </span>
+                        </td>
+                        <td className="p-2">{discrepancy.check}</td>
+                        <td className="p-2 font-mono text-xs">{discrepancy.field}</td>
+                        <td className="p-2 text-right">{formatNumber(Number(discrepancy.expected.toFixed(4)))}</td>
+                        <td className="p-2 text-right">{formatNumber(Number(discrepancy.actual.toFixed(4)))}</td>
+                        <td className="p-2 text-right">{formatNumber(Number(discrepancy.difference.toFixed(4)))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {/* Low confidence - values to double-check against the source document */}
+      {lowConfidenceFields.length > 0 && (
+        <Card className="print:hidden border-amber-200">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center">
+              <AlertTriangle className="w-5 h-5 mr-2 text-amber-600" aria-hidden="true" />
+              Low-Confidence Fields
+            </CardTitle>
+            <p className="text-sm text-gray-500 mt-1">
+              {lowConfidenceFields.length} value(s) scored below {Math.round(LOW_CONFIDENCE_THRESHOLD * 100)}% confidence - highlighted in the tables below
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-64 overflow-y-auto divide-y">
+              {lowConfidenceFields.map(({ path, confidence, citation }) => (
+                <div key={path} className="py-2 px-2 flex items-center gap-3 text-sm">
+                  <span className="text-xs font-medium text-amber-700 whitespace-nowrap w-10 text-right">
+                    {Math.round(confidence * 100)}%
+                  </span>
+                  <span className="font-mono text-gray-900 truncate flex-1 min-w-0">{path}</span>
+                  {citation && onCitationClick && (
+                    <button
+                      type="button"
+                      onClick={() => onCitationClick(citation)}
+                      className="text-xs text-emerald-700 hover:underline whitespace-nowrap"
+                    >
+                      p. {citation.page}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Data Display - rent rolls get an Analytics tab next to the extracted data */}
       <div className="print:break-inside-avoid">
-        {renderDataByType()}
+        {analytics ? (
+          <Tabs defaultValue="data" className="w-full">
+            <TabsList className="grid w-full grid-cols-2 print:hidden">
+              <TabsTrigger value="data">
+                <Eye className="mr-2 h-4 w-4" />
+                Extracted Data
+              </TabsTrigger>
+              <TabsTrigger value="analytics">
+                <BarChart3 className="mr-2 h-4 w-4" />
+                Analytics
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="data" className="mt-4">
+              {renderDataByType()}
+            </TabsContent>
+            <TabsContent value="analytics" className="mt-4">
+              {renderRentRollAnalytics(analytics)}
+            </TabsContent>
+          </Tabs>
+        ) : (
+          renderDataByType()
+        )}
       </div>
 
+      {/* Source Citations - every cited value, click to open its page */}
+      {onCitationClick && allCitations.length > 0 && (
+        <Card className="print:hidden">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center">
+              <MapPin className="w-5 h-5 mr-2" />
+              Source Citations
+            </CardTitle>
+            <p className="text-sm text-gray-500 mt-1">
+              Click a field to view where it was found in the document
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-96 overflow-y-auto divide-y">
+              {allCitations.map(({ path, citation }) => (
+                <button
+                  key={path}
+                  type="button"
+                  onClick={() => onCitationClick(citation)}
+                  className="w-full text-left py-2 px-2 hover:bg-gray-50 flex items-start gap-3"
+                >
+                  <span className="text-xs font-medium text-emerald-700 whitespace-nowrap mt-0.5">p. {citation.page}</span>
+                  <span className="min-w-0">
+                    <span className="block text-sm font-mono text-gray-900 truncate">{path}</span>
+                    {citation.snippet && (
+                      <span className="block text-xs text-gray-500 truncate">{citation.snippet}</span>
+                    )}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Footer for print */}
       <div className="hidden print:block mt-8 pt-4 border-t border-gray-200">
         <div className="text-xs text-gray-500 text-center">
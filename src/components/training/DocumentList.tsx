@@ -171,6 +171,7 @@ function DocumentTypeBadge({ type }: { type: DocumentType }) {
     financial_statements: 'Financial',
     comparable_sales: 'Sales',
     financial_statement: 'Financial',
+    document_package: 'Package',
     unknown: 'Unknown',
   };
 
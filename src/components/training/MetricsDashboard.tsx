@@ -280,6 +280,7 @@ function formatDocumentType(type: DocumentType): string {
     financial_statements: 'Financial Statements',
     comparable_sales: 'Comparable Sales',
     financial_statement: 'Financial Statement',
+    document_package: 'Document Package',
     unknown: 'Unknown',
   };
 
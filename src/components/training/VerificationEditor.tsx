@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Save, CheckCircle, XCircle, ChevronLeft, ChevronRight, Eye, Code } from 'lucide-react';
+import { Save, CheckCircle, XCircle, ChevronLeft, ChevronRight, Eye, Code, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
@@ -14,6 +14,7 @@ import type { TrainingDocument, ExtractedData } from '@/lib/types';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { transformExtractedData } from '@/lib/data-transformers';
+import { LOW_CONFIDENCE_THRESHOLD, getLowConfidenceFields } from '@/lib/confidence';
 
 interface VerificationEditorProps {
   document: TrainingDocument;
@@ -156,6 +157,9 @@ export function VerificationEditor({
     return () => window.removeEventListener('keydown', handleKeyPress);
   }, [editedData, qualityScore, notes]);
 
+  // Fields Claude was least sure about are reviewed first
+  const lowConfidenceFields = editedData ? getLowConfidenceFields(editedData) : [];
+
   if (!editedData) {
     return (
       <div className="p-8 text-center">
@@ -173,6 +177,12 @@ export function VerificationEditor({
             <h2 className="text-lg font-semibold">{document.file_name}</h2>
             <p className="text-sm text-muted-foreground">
               Uploaded {new Date(document.upload_date).toLocaleDateString()}
+              {lowConfidenceFields.length > 0 && (
+                <span className="ml-2 inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {lowConfidenceFields.length} low-confidence field{lowConfidenceFields.length === 1 ? '' : 's'}
+                </span>
+              )}
             </p>
           </div>
           <div className="flex items-center gap-2">
@@ -215,6 +225,30 @@ export function VerificationEditor({
           {/* Data Editor */}
           <div className="overflow-y-auto space-y-4">
             <div className="space-y-4 pb-32">
+              {/* Review First - low-confidence fields, least confident first */}
+              {lowConfidenceFields.length > 0 && (
+                <div className="border border-amber-200 rounded-lg p-4 bg-amber-50">
+                  <h3 className="text-sm font-semibold text-amber-900 flex items-center mb-2">
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    Review First
+                  </h3>
+                  <p className="text-xs text-amber-800 mb-3">
+                    These values scored below {Math.round(LOW_CONFIDENCE_THRESHOLD * 100)}% confidence during extraction.
+                    Check them against the document before verifying.
+                  </p>
+                  <div className="max-h-48 overflow-y-auto divide-y divide-amber-200">
+                    {lowConfidenceFields.map(({ path, confidence }) => (
+                      <div key={path} className="flex items-center gap-3 py-1.5 text-sm">
+                        <span className="w-10 text-right text-xs font-medium text-amber-700">
+                          {Math.round(confidence * 100)}%
+                        </span>
+                        <span className="font-mono text-xs truncate">{path}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div>
                 <h3 className="text-lg font-semibold mb-4">Extracted Data</h3>
                 <Tabs defaultValue="preview" className="w-full">
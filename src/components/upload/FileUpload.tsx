@@ -2,17 +2,17 @@
 
 import React, { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, AlertCircle, CheckCircle, ArrowRight, Info, Clock } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle, ArrowRight, Info, Clock, Sparkles } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { uploadFileDirectly } from '@/lib/supabase-client';
-import type { DocumentFile, DocumentType } from '@/lib/types';
+import type { DocumentFile, DocumentTypeSelection } from '@/lib/types';
 
 interface FileUploadProps {
   onFileUpload: (file: DocumentFile) => void;
-  onUploadComplete: (file: DocumentFile, documentType: DocumentType, userInstructions?: string) => void;
+  onUploadComplete: (file: DocumentFile, documentType: DocumentTypeSelection, userInstructions?: string) => void;
   onUploadError: (error: string) => void;
   isProcessing?: boolean;
 }
@@ -31,6 +31,7 @@ export function FileUpload({
 
   // Document type options as required
   const documentTypes = [
+    { value: 'auto', label: 'Auto-detect (AI classification)' },
     { value: 'rent_roll', label: 'Rent Roll' },
     { value: 'operating_budget', label: 'Operating Budget' },
     { value: 'broker_sales_comparables', label: 'Broker Sales Comparables' },
@@ -38,13 +39,14 @@ export function FileUpload({
     { value: 'broker_listing', label: 'Broker Listing' },
     { value: 'offering_memo', label: 'Offering Memo' },
     { value: 'lease_agreement', label: 'Lease Agreement' },
-    { value: 'financial_statements', label: 'Financial Statements' }
+    { value: 'financial_statements', label: 'Financial Statements' },
+    { value: 'document_package', label: 'Mixed Document Package (auto-split)' }
   ] as const;
 
   // Handle document type confirmation
   const handleDocumentTypeConfirmation = useCallback(() => {
     if (uploadedFile && selectedDocumentType) {
-      onUploadComplete(uploadedFile, selectedDocumentType as DocumentType, userInstructions.trim() || undefined);
+      onUploadComplete(uploadedFile, selectedDocumentType as DocumentTypeSelection, userInstructions.trim() || undefined);
       setShowDocumentTypeSelection(false);
       setUploadedFile(null);
       setSelectedDocumentType('');
@@ -304,6 +306,15 @@ export function FileUpload({
               <p className="text-sm text-gray-600 font-medium">
                 This helps our AI extract the most relevant data from your document
               </p>
+              {selectedDocumentType === 'auto' && (
+                <div className="flex items-start space-x-2 text-sm text-emerald-800 bg-emerald-50 border border-emerald-200 rounded-lg p-3">
+                  <Sparkles className="w-4 h-4 mt-0.5 flex-shrink-0 text-emerald-600" />
+                  <p>
+                    The AI will read the first few pages to detect the document type. If it is not confident,
+                    you will be asked to confirm the type before any credits are used.
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Extraction Instructions (Optional) */}
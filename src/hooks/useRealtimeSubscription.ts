@@ -12,6 +12,7 @@ interface RealtimeSubscriptionOptions {
   event?: 'INSERT' | 'UPDATE' | 'DELETE' | '*';
   filter?: string;
   schema?: string;
+  enabled?: boolean; // Set false to skip subscribing (e.g. until a row id is known)
   onInsert?: (payload: any) => void;
   onUpdate?: (payload: any) => void;
   onDelete?: (payload: any) => void;
@@ -92,6 +93,16 @@ async function getSupabaseClient(): Promise<SupabaseClient> {
  * });
  *
  * @example
+ * // Follow an extraction job once it has been submitted
+ * useRealtimeSubscription({
+ *   table: 'user_documents',
+ *   event: 'UPDATE',
+ *   filter: `id=eq.${jobId}`,
+ *   enabled: !!jobId,
+ *   onUpdate: () => refreshJobStatus()
+ * });
+ *
+ * @example
  * // Subscribe to credit changes
  * useRealtimeSubscription({
  *   table: 'users',
@@ -107,6 +118,7 @@ export function useRealtimeSubscription({
   event = '*',
   filter,
   schema = 'public',
+  enabled = true,
   onInsert,
   onUpdate,
   onDelete,
@@ -195,12 +207,14 @@ export function useRealtimeSubscription({
   }, [table]);
 
   useEffect(() => {
+    if (!enabled) return;
+
     subscribe();
 
     return () => {
       unsubscribe();
     };
-  }, [subscribe, unsubscribe]);
+  }, [subscribe, unsubscribe, enabled]);
 
   return { subscribe, unsubscribe };
 }
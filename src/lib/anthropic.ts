@@ -2,18 +2,23 @@ import Anthropic from '@anthropic-ai/sdk';
 import type {
   DocumentType,
   DocumentClassification,
+  ClassificationResponse,
   ExtractedData,
+  ExtractedDataMetadata,
+  ExtractionSchemaIssue,
+  FieldCitation,
   RentRollData,
-  OperatingBudgetData,
-  BrokerSalesComparablesData,
-  BrokerLeaseComparablesData,
-  BrokerListingData,
-  OfferingMemoData,
-  LeaseData,
-  FinancialStatementsData,
-  ComparableData,
-  FinancialData
+  DocumentSegmentBoundary,
+  DocumentSegment,
+  DocumentPackageData,
+  ExtractionProgressCallback,
+  ExtractionCheckpoint
 } from './types';
+import { renderPageImages, getPageCount, splitPdfPages } from './pdfUtils';
+import { mergeRentRollTenants, mergeRentRollPathMaps, offsetCitationPages } from './rent-roll-merge';
+import { getRepairScopes, pickRepairScopes, applyRepairPatches, REPAIR_MAX_PAYLOAD_CHARS } from './extraction-repair';
+import { validateExtractedDataShape } from './validation';
+import { normalizeFieldConfidence } from './confidence';
 
 /**
  * Get Anthropic API key from environment
@@ -50,23 +55,16 @@ function getAnthropicClient(): Anthropic {
 }
 
 /**
- * Get the active Claude model for a document type
- * Currently returns Claude Sonnet 4.5 for all types
- * TODO: Integrate with fine-tuning system when Claude fine-tuning becomes available
+ * Base Claude model - used for classification and segmentation, and for extraction
+ * unless model routing (model-routing.ts) selects a deployed model version
  */
-async function getActiveModelForDocumentType(documentType: DocumentType): Promise<string> {
-  // For now, always use Claude Sonnet 4.5
-  // In the future, this could return fine-tuned models per document type
-  const model = 'claude-sonnet-4-5-20250929';
-  console.log(`Using Claude model for ${documentType}: ${model}`);
-  return model;
-}
+export const DEFAULT_CLAUDE_MODEL = 'claude-sonnet-4-5-20250929';
 
 /**
  * Extract JSON from Claude response content
  * Handles markdown code blocks and attempts basic cleanup
  */
-function extractJSONFromResponse(content: string): any {
+export function extractJSONFromResponse(content: string): unknown {
   try {
     // STEP 1: Extract and log verification tag content BEFORE removal
     // These tags contain critical debugging info (counts, completeness checks)
@@ -104,7 +102,7 @@ function extractJSONFromResponse(content: string): any {
     // STEP 2: Try parsing as JSON first
     try {
       return JSON.parse(cleanedContent);
-    } catch (firstError) {
+    } catch {
       console.log('Direct JSON parse failed, attempting extraction from markdown...');
 
       // STEP 3: Extract from markdown code blocks (```json ... ```)
@@ -143,7 +141,7 @@ function extractJSONFromResponse(content: string): any {
  * Classification prompt for document type identification
  * Instructs Claude to identify one of 8 commercial real estate document types
  */
-const CLASSIFICATION_PROMPT = `You are an expert commercial real estate professional with 20+ years of experience in property investment, valuation, and portfolio management. Your expertise includes analyzing all types of commercial real estate documents for investment firms, property managers, and real estate professionals.
+export const CLASSIFICATION_PROMPT = `You are an expert commercial real estate professional with 20+ years of experience in property investment, valuation, and portfolio management. Your expertise includes analyzing all types of commercial real estate documents for investment firms, property managers, and real estate professionals.
 
 Analyze this document image with the precision of a seasoned commercial real estate analyst and classify it into one of these categories:
 
@@ -165,6 +163,132 @@ Respond with this exact JSON structure:
   "reasoning": "Brief explanation of classification decision based on real estate investment criteria"
 }`;
 
+/**
+ * Minimum classification confidence for auto-detect mode to proceed without user confirmation
+ */
+export const CLASSIFICATION_CONFIDENCE_THRESHOLD = 0.85;
+
+/**
+ * Number of leading pages sent to Claude when classifying a PDF
+ */
+export const CLASSIFICATION_MAX_PAGES = 3;
+
+/**
+ * Document types that classification can return (one per EXTRACTION_PROMPTS entry, excluding legacy types)
+ */
+const CLASSIFIABLE_DOCUMENT_TYPES: DocumentType[] = [
+  'rent_roll',
+  'operating_budget',
+  'broker_sales_comparables',
+  'broker_lease_comparables',
+  'broker_listing',
+  'offering_memo',
+  'lease_agreement',
+  'financial_statements'
+];
+
+/**
+ * Output token limit for native PDF extraction calls
+ */
+const NATIVE_PDF_MAX_TOKENS = 64000;
+
+/**
+ * Extra calls allowed to continue a response that stopped at max_tokens
+ */
+const MAX_CONTINUATION_CALLS = 2;
+
+/**
+ * Output limit for a schema repair call - only the failing parts are returned
+ */
+const REPAIR_MAX_TOKENS = 16000;
+
+/**
+ * Rent rolls longer than this are extracted in page windows instead of a single call
+ */
+export const RENT_ROLL_CHUNK_THRESHOLD_PAGES = 40;
+
+/**
+ * Pages per window when a rent roll is extracted in chunks
+ * Sized for the rows of a window plus one citation and one confidence entry per row
+ */
+export const RENT_ROLL_CHUNK_SIZE_PAGES = 20;
+
+/**
+ * Claude calls one extraction runs at the same time (rent roll windows, package segments)
+ */
+const EXTRACTION_CALL_CONCURRENCY = 3;
+
+/**
+ * Maximum length kept for a citation snippet
+ */
+const CITATION_SNIPPET_MAX_LENGTH = 200;
+
+/**
+ * Appended to native PDF extraction prompts so values can be traced back to their page
+ * Table rows are cited once rather than per cell - per-cell citations multiplied the output of
+ * long tables and pushed rent roll windows into max_tokens truncation
+ */
+export const CITATION_INSTRUCTIONS = `
+
+**SOURCE CITATIONS (REQUIRED, KEEP COMPACT):**
+In addition to "documentType", "metadata" and "data", include a top-level "citations" object in your JSON.
+- Keys are dot-notation paths into "data", using numeric array indexes
+- Table rows: one entry per row keyed by the row path (e.g. "tenants.0"), value {"page": <page the row is on>}; do not cite the row's individual cells
+- Values outside tables (totals, summary and key figures, e.g. "summary.totalRent"): {"page": <page>, "snippet": "<exact source text, max 40 characters>"}
+- Do not cite null values
+- Page numbers are 1-based and refer to the physical page order of the PDF, not printed page labels`;
+
+/**
+ * Appended to extraction prompts so uncertain values can be flagged for review
+ * Cells inside table rows are only scored when doubtful, for the same output budget reason
+ */
+export const CONFIDENCE_INSTRUCTIONS = `
+
+**FIELD CONFIDENCE (REQUIRED, KEEP COMPACT):**
+Include a top-level "fieldConfidence" object in your JSON.
+- Keys are dot-notation paths into "data", using numeric array indexes
+- Table rows: one key per row for its overall confidence (e.g. "tenants.0"); add a key for a cell (e.g. "tenants.0.baseRent") only when that cell scores below 0.9
+- Values outside tables (e.g. "summary.totalRent"): score every non-null value
+- Each value is a number from 0 to 1: 0.9+ clearly printed, 0.7-0.9 minor doubt, below 0.7 hard to read, ambiguous or inferred
+- Do not score null values`;
+
+/**
+ * Segmentation prompt for mixed-content PDFs (broker packages, offering memos with appendices)
+ * Instructs Claude to find the page range of every embedded document
+ */
+const SEGMENTATION_PROMPT = `You are an expert commercial real estate analyst reviewing a document package that may bundle several different documents into one PDF (for example an offering memo followed by a rent roll, an operating statement and lease comparables).
+
+Identify every distinct document in this PDF and the page range it occupies. Classify each one into exactly one of these categories:
+
+- rent_roll - Tenant roster with units/suites, rents, lease dates
+- operating_budget - Operating budget, pro forma, income/expense projections
+- broker_sales_comparables - Recent property sales comparables
+- broker_lease_comparables - Lease comparables with rental rates and terms
+- broker_listing - Broker listing agreement
+- offering_memo - Marketing narrative, property overview, investment highlights
+- lease_agreement - Lease contract between landlord and tenant
+- financial_statements - Historical income statements, T-12, balance sheets
+
+RULES:
+- Page numbers are 1-based and refer to the physical page order of the PDF
+- Ranges must not overlap; every content page should belong to exactly one segment
+- Cover pages, tables of contents and disclaimers belong to the segment they introduce (usually offering_memo)
+- If the whole PDF is a single document, return a single segment
+- NEVER invent segments for content that is not in the document
+
+Respond with this exact JSON structure:
+{
+  "segments": [
+    {
+      "documentType": "offering_memo",
+      "startPage": 1,
+      "endPage": 12,
+      "title": "Heading or title of this section, or null",
+      "confidence": 0.9
+    }
+  ]
+}`;
+
 /**
  * Specialized extraction prompts for each document type
  * Comprehensive prompts that instruct Claude on what data to extract and how to structure it
@@ -759,6 +883,29 @@ Return JSON with all visible line items:
   `
 };
 
+/**
+ * Validate a parsed classification response and normalize it to a known document type
+ * Shared by every extraction provider that uses CLASSIFICATION_PROMPT
+ *
+ * @param classification - JSON parsed from the model response
+ * @returns Classification with a lower-case type and confidence clamped to 0-1 ('unknown' for unlisted types)
+ */
+export function normalizeClassification(classification: Record<string, unknown> | null | undefined): DocumentClassification {
+  // Validate required fields
+  if (!classification?.type || classification.confidence === undefined || !classification.reasoning) {
+    throw new Error('Invalid classification response structure - missing required fields');
+  }
+
+  // Normalize type (prompt lists categories in upper case) and clamp confidence to 0-1
+  const normalizedType = String(classification.type).trim().toLowerCase() as DocumentType;
+  const confidence = Math.min(1, Math.max(0, Number(classification.confidence) || 0));
+  const reasoning = String(classification.reasoning);
+
+  return CLASSIFIABLE_DOCUMENT_TYPES.includes(normalizedType)
+    ? { type: normalizedType, confidence, reasoning }
+    : { type: 'unknown', confidence: 0, reasoning };
+}
+
 /**
  * Classify a document using Claude Sonnet 4.5 Vision
  *
@@ -814,7 +961,7 @@ export async function classifyDocument(imageDataUrls: string[]): Promise<Documen
 
     // Call Claude API
     const response = await getAnthropicClient().messages.create({
-      model: 'claude-sonnet-4-5-20250929',
+      model: DEFAULT_CLAUDE_MODEL,
       max_tokens: 500,
       temperature: 0.0, // Zero temperature for accurate classification
       stop_sequences: ['</verification>'],
@@ -839,15 +986,10 @@ export async function classifyDocument(imageDataUrls: string[]): Promise<Documen
     console.log('Claude classification response:', content_text);
 
     // Parse JSON response
-    const classification = extractJSONFromResponse(content_text);
-
-    // Validate required fields
-    if (!classification.type || classification.confidence === undefined || !classification.reasoning) {
-      throw new Error('Invalid classification response structure - missing required fields');
-    }
+    const result = normalizeClassification(extractJSONFromResponse(content_text) as Record<string, unknown>);
 
-    console.log('Classification successful:', classification);
-    return classification;
+    console.log('Classification successful:', result);
+    return result;
 
   } catch (error: unknown) {
     console.error('Document classification error:', error);
@@ -872,11 +1014,56 @@ export async function classifyDocument(imageDataUrls: string[]): Promise<Documen
   }
 }
 
+/**
+ * Classify an uploaded file by rendering its first pages and sending them to a vision model
+ * Only the leading pages are analyzed to keep classification fast and cheap for large PDFs
+ *
+ * @param file - Document file (PDF or image)
+ * @param maxPages - Number of leading PDF pages to analyze (default CLASSIFICATION_MAX_PAGES)
+ * @param classify - Classifier for the rendered pages (default Claude Vision via classifyDocument)
+ * @returns Classification, pages analyzed, and whether confidence meets CLASSIFICATION_CONFIDENCE_THRESHOLD
+ *
+ * @example
+ * const { classification, autoAccepted } = await classifyDocumentFile(pdfFile);
+ */
+export async function classifyDocumentFile(
+  file: File,
+  maxPages: number = CLASSIFICATION_MAX_PAGES,
+  classify: (imageDataUrls: string[]) => Promise<DocumentClassification> = classifyDocument
+): Promise<ClassificationResponse> {
+  let imageDataUrls: string[];
+
+  if (file.type === 'application/pdf') {
+    const arrayBuffer = await file.arrayBuffer();
+    imageDataUrls = await renderPageImages(Buffer.from(arrayBuffer), maxPages);
+  } else if (file.type.startsWith('image/')) {
+    imageDataUrls = [`data:${file.type};base64,${await fileToBase64(file)}`];
+  } else {
+    throw new Error(`Unsupported file type for classification: ${file.type}`);
+  }
+
+  if (imageDataUrls.length === 0) {
+    throw new Error('No pages available for classification');
+  }
+
+  console.log(`Classifying ${file.name} using first ${imageDataUrls.length} page(s)`);
+  const classification = await classify(imageDataUrls);
+
+  return {
+    classification,
+    pagesAnalyzed: imageDataUrls.length,
+    confidenceThreshold: CLASSIFICATION_CONFIDENCE_THRESHOLD,
+    autoAccepted: classification.type !== 'unknown' && classification.confidence >= CLASSIFICATION_CONFIDENCE_THRESHOLD
+  };
+}
+
 /**
  * Extract structured data from a classified document using Claude Sonnet 4.5
  *
  * @param documentType - The classified document type (rent_roll, operating_budget, etc.)
  * @param imageDataUrls - Array of base64-encoded image data URLs (supports multi-page documents)
+ * @param customPrompt - Prompt to use instead of the default for the document type
+ * @param model - Claude model id (default DEFAULT_CLAUDE_MODEL)
  * @returns ExtractedData with document type, metadata, and structured data
  *
  * @example
@@ -885,7 +1072,8 @@ export async function classifyDocument(imageDataUrls: string[]): Promise<Documen
 export async function extractData(
   documentType: DocumentType,
   imageDataUrls: string[],
-  customPrompt?: string
+  customPrompt?: string,
+  model: string = DEFAULT_CLAUDE_MODEL
 ): Promise<ExtractedData> {
   try {
     console.log('╔════════════════════════════════════════════════════════════╗');
@@ -907,8 +1095,7 @@ export async function extractData(
       console.log(`Claude: Using default extraction prompt for ${documentType}`);
     }
 
-    // Get active model (currently always Claude Sonnet 4.5)
-    const modelToUse = await getActiveModelForDocumentType(documentType);
+    console.log(`Using Claude model for ${documentType}: ${model}`);
 
     // Build content array with images and extraction prompt
     const content: Array<{
@@ -945,9 +1132,10 @@ export async function extractData(
     });
 
     // Add extraction prompt with multi-page instructions if applicable
-    const promptText = imageDataUrls.length > 1
+    const pagePrompt = imageDataUrls.length > 1
       ? `${prompt}\n\n**MULTI-PAGE DOCUMENT INSTRUCTIONS:**\n- You are viewing ${imageDataUrls.length} pages of this document\n- Extract data from ALL ${imageDataUrls.length} pages\n- Consolidate information across all pages\n- If data spans multiple pages, merge it appropriately\n- Ensure completeness by checking all pages for relevant information`
       : prompt;
+    const promptText = pagePrompt + CONFIDENCE_INSTRUCTIONS;
 
     content.push({
       type: 'text',
@@ -958,7 +1146,7 @@ export async function extractData(
     console.log('╔════════════════════════════════════════════════════════════╗');
     console.log('║  DIAGNOSTIC: IMAGE PATH API PARAMETERS                     ║');
     console.log('╠════════════════════════════════════════════════════════════╣');
-    console.log(`║  Model: ${modelToUse}`);
+    console.log(`║  Model: ${model}`);
     console.log(`║  Temperature: 0.5 (balanced for document understanding)`);
     console.log(`║  max_tokens: 64000`);
     console.log(`║  Prompt length: ${promptText.length} chars`);
@@ -970,7 +1158,7 @@ export async function extractData(
 
     try {
       response = await getAnthropicClient().messages.create({
-        model: modelToUse,
+        model,
         max_tokens: 64000,
         temperature: 0.5, // Balanced temperature for document understanding without hallucination
         stop_sequences: ['</verification>'],
@@ -1028,9 +1216,9 @@ export async function extractData(
     console.log(content_text.substring(Math.max(0, content_text.length - 500)));
 
     // Parse JSON response with error recovery
-    let extractedData;
+    let extractedData: ExtractedData;
     try {
-      extractedData = extractJSONFromResponse(content_text);
+      extractedData = extractJSONFromResponse(content_text) as ExtractedData;
     } catch (parseError) {
       console.error('Failed to parse extraction JSON:', parseError);
       console.error('Raw response preview:', content_text.substring(0, 500));
@@ -1041,6 +1229,7 @@ export async function extractData(
     if (!extractedData.documentType || !extractedData.data) {
       throw new Error('Invalid extraction response structure - missing documentType or data');
     }
+    extractedData.fieldConfidence = normalizeFieldConfidence(extractedData.fieldConfidence);
 
     console.log('Extraction successful for document type:', extractedData.documentType);
     return extractedData;
@@ -1074,7 +1263,7 @@ export async function extractData(
  * @param file - File object (PDF, image, or JSON)
  * @returns Base64 encoded string (without data URL prefix)
  */
-async function fileToBase64(file: File): Promise<string> {
+export async function fileToBase64(file: File): Promise<string> {
   // Server-side: Use Buffer to convert File to base64
   // File object has arrayBuffer() method in both browser and Node.js
   const arrayBuffer = await file.arrayBuffer();
@@ -1082,6 +1271,35 @@ async function fileToBase64(file: File): Promise<string> {
   return buffer.toString('base64');
 }
 
+/**
+ * Check whether a file is a multi-page JSON bundle of page images (client-side or batch PDF conversion)
+ */
+export function isMultiPageImageFile(file: File): boolean {
+  return file.type === 'application/json' && file.name.includes('multipage');
+}
+
+/**
+ * Read the page images out of a multi-page JSON bundle
+ * @param file - JSON file of the form { type: 'multi-page', pages: [{ imageBase64, mimeType }] }
+ * @returns Image data URLs in page order
+ */
+export async function readMultiPageImageDataUrls(file: File): Promise<string[]> {
+  try {
+    const multiPageData = JSON.parse(await file.text());
+
+    if (multiPageData.type !== 'multi-page' || !Array.isArray(multiPageData.pages)) {
+      throw new Error('Invalid multi-page data format');
+    }
+
+    return multiPageData.pages.map((page: { mimeType: string; imageBase64: string }) =>
+      `data:${page.mimeType};base64,${page.imageBase64}`
+    );
+  } catch (parseError) {
+    console.error('Failed to parse multi-page data:', parseError);
+    throw new Error('Invalid multi-page document format');
+  }
+}
+
 /**
  * Estimate PDF page count from file size
  * This is a rough estimation - accurate count requires PDF parsing
@@ -1094,6 +1312,115 @@ function estimatePdfPageCount(file: File): number {
   return Math.ceil(file.size / avgPageSize);
 }
 
+/**
+ * Keep only well-formed citations (positive integer page, bounded snippet)
+ * Claude occasionally omits the citations object or returns partial entries
+ */
+export function normalizeCitations(rawCitations: unknown): Record<string, FieldCitation> {
+  const citations: Record<string, FieldCitation> = {};
+  if (!rawCitations || typeof rawCitations !== 'object') return citations;
+
+  for (const [path, value] of Object.entries(rawCitations as Record<string, unknown>)) {
+    if (!value || typeof value !== 'object') continue;
+    const { page, snippet } = value as { page?: unknown; snippet?: unknown };
+    const pageNumber = Math.floor(Number(page));
+    if (!Number.isFinite(pageNumber) || pageNumber < 1) continue;
+
+    citations[path] = {
+      page: pageNumber,
+      snippet: typeof snippet === 'string' ? snippet.substring(0, CITATION_SNIPPET_MAX_LENGTH) : null
+    };
+  }
+
+  return citations;
+}
+
+/**
+ * Call Claude with a native PDF, continuing the response when it stops at max_tokens
+ * Each continuation prefills the partial output so Claude resumes exactly where it stopped
+ *
+ * @returns Concatenated response text and whether it was still cut off after all continuations
+ */
+async function requestNativePDFCompletion(
+  documentType: DocumentType,
+  pdfBase64: string,
+  prompt: string,
+  model: string = DEFAULT_CLAUDE_MODEL
+): Promise<{ text: string; truncated: boolean; continuationCalls: number }> {
+  console.log(`Using Claude model for ${documentType}: ${model}`);
+  let text = '';
+  let continuationCalls = 0;
+
+  while (true) {
+    const messages: Anthropic.MessageParam[] = [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'document',
+            source: {
+              type: 'base64',
+              media_type: 'application/pdf',
+              data: pdfBase64
+            }
+          },
+          {
+            type: 'text',
+            text: prompt
+          }
+        ]
+      }
+    ];
+
+    // Prefill with the output so far (API rejects trailing whitespace in a prefill)
+    if (text) {
+      text = text.trimEnd();
+      messages.push({ role: 'assistant', content: text });
+    }
+
+    const response = await getAnthropicClient().messages.create({
+      model,
+      max_tokens: NATIVE_PDF_MAX_TOKENS,
+      temperature: 0.5, // Balanced temperature for document understanding without hallucination
+      stop_sequences: ['</verification>'],
+      system: "You are an expert commercial real estate analyst with 20+ years of experience. Your task is to thoroughly extract ALL data from this document. RULES: 1) Extract every piece of data visible in the document - be comprehensive. 2) NEVER invent or hallucinate data that is not in the document. 3) Understand document structure and column headers intelligently (e.g., 'Sq Ft' = squareFootage, 'Mo. Rent' = monthlyRent). 4) Use null only for fields genuinely not present. 5) Format prices with $ prefix, percentages with % suffix. 6) Include any additional fields found in the document, even if not in the template.",
+      messages
+    });
+
+    // Log token usage with truncation detection
+    if (response.usage) {
+      const inputTokens = response.usage.input_tokens;
+      const outputTokens = response.usage.output_tokens;
+
+      console.log(`Token usage: ${inputTokens} input, ${outputTokens} output (max: ${NATIVE_PDF_MAX_TOKENS})`);
+
+      if (outputTokens >= NATIVE_PDF_MAX_TOKENS * 0.85 && response.stop_reason !== 'max_tokens') {
+        console.warn(`⚠️  CAUTION: Output tokens (${outputTokens}) at 85% of max_tokens (${NATIVE_PDF_MAX_TOKENS})`);
+        console.warn('⚠️  Large document - verify all items were extracted');
+      }
+    }
+
+    // Extract text content
+    const content = response.content[0];
+    if (!content || content.type !== 'text') {
+      throw new Error('Unexpected response type from Claude');
+    }
+    text += content.text;
+
+    if (response.stop_reason !== 'max_tokens') {
+      return { text, truncated: false, continuationCalls };
+    }
+
+    if (continuationCalls >= MAX_CONTINUATION_CALLS) {
+      console.error(`⚠️  WARNING: Output still TRUNCATED at max_tokens after ${continuationCalls} continuation call(s)`);
+      return { text, truncated: true, continuationCalls };
+    }
+
+    continuationCalls++;
+    console.warn(`⚠️  Output hit max_tokens (${NATIVE_PDF_MAX_TOKENS}) - requesting continuation ${continuationCalls}/${MAX_CONTINUATION_CALLS}`);
+  }
+}
+
 /**
  * Extract data from native PDF using Claude's native PDF support
  * Uses DocumentBlockParam with base64 PDF source (supported in SDK v0.68.0+)
@@ -1101,6 +1428,7 @@ function estimatePdfPageCount(file: File): number {
  * @param pdfBase64 - Base64 encoded PDF
  * @param prompt - Extraction prompt
  * @param userMetadata - Optional user metadata to merge with extracted data
+ * @param model - Claude model id (default DEFAULT_CLAUDE_MODEL)
  * @returns Extracted structured data
  */
 async function extractDataFromNativePDF(
@@ -1113,7 +1441,8 @@ async function extractDataFromNativePDF(
     rexeliUserEmail: string;
     extractionTimestamp: string;
     documentId: string;
-  }
+  },
+  model: string = DEFAULT_CLAUDE_MODEL
 ): Promise<ExtractedData> {
   const startTime = Date.now();
 
@@ -1129,69 +1458,19 @@ async function extractDataFromNativePDF(
     console.log('╔════════════════════════════════════════════════════════════╗');
     console.log('║  DIAGNOSTIC: NATIVE PDF PATH API PARAMETERS                ║');
     console.log('╠════════════════════════════════════════════════════════════╣');
-    console.log(`║  Model: ${await getActiveModelForDocumentType(documentType)}`);
+    console.log(`║  Model: ${model}`);
     console.log(`║  Temperature: 0.5 (balanced for document understanding)`);
-    console.log(`║  max_tokens: 64000`);
+    console.log(`║  max_tokens: ${NATIVE_PDF_MAX_TOKENS}`);
     console.log(`║  Prompt length: ${prompt.length} chars`);
     console.log('╚════════════════════════════════════════════════════════════╝');
 
-    const response = await getAnthropicClient().messages.create({
-      model: await getActiveModelForDocumentType(documentType),
-      max_tokens: 64000,
-      temperature: 0.5, // Balanced temperature for document understanding without hallucination
-      stop_sequences: ['</verification>'],
-      system: "You are an expert commercial real estate analyst with 20+ years of experience. Your task is to thoroughly extract ALL data from this document. RULES: 1) Extract every piece of data visible in the document - be comprehensive. 2) NEVER invent or hallucinate data that is not in the document. 3) Understand document structure and column headers intelligently (e.g., 'Sq Ft' = squareFootage, 'Mo. Rent' = monthlyRent). 4) Use null only for fields genuinely not present. 5) Format prices with $ prefix, percentages with % suffix. 6) Include any additional fields found in the document, even if not in the template.",
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'document',
-              source: {
-                type: 'base64',
-                media_type: 'application/pdf',
-                data: pdfBase64
-              }
-            },
-            {
-              type: 'text',
-              text: prompt
-            }
-          ]
-        }
-      ]
-    });
+    const completion = await requestNativePDFCompletion(documentType, pdfBase64, prompt + CITATION_INSTRUCTIONS + CONFIDENCE_INSTRUCTIONS, model);
 
     const duration = Date.now() - startTime;
     console.log(`Claude native PDF response received in ${duration}ms (${(duration / 1000).toFixed(2)}s)`);
 
-    // Log token usage with truncation detection
-    if (response.usage) {
-      const inputTokens = response.usage.input_tokens;
-      const outputTokens = response.usage.output_tokens;
-      const maxTokens = 64000;
-
-      console.log(`Token usage: ${inputTokens} input, ${outputTokens} output (max: ${maxTokens})`);
-
-      // Warn if output is close to max_tokens (likely truncation)
-      if (outputTokens >= maxTokens * 0.95) {
-        console.error(`⚠️  WARNING: Output tokens (${outputTokens}) near max_tokens limit (${maxTokens})!`);
-        console.error('⚠️  Response may be TRUNCATED - Claude may not have finished extraction!');
-        console.error('⚠️  This explains missing properties/line items in extraction results!');
-      } else if (outputTokens >= maxTokens * 0.85) {
-        console.warn(`⚠️  CAUTION: Output tokens (${outputTokens}) at 85% of max_tokens (${maxTokens})`);
-        console.warn('⚠️  Large document - verify all items were extracted');
-      }
-    }
-
-    // Extract text content
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
-
     // Log raw response preview for debugging
-    const rawResponse = content.text;
+    const rawResponse = completion.text;
     console.log(`[Native PDF] Raw response length: ${rawResponse.length} characters`);
     console.log(`[Native PDF] Raw response preview (first 500 chars):`);
     console.log(rawResponse.substring(0, 500));
@@ -1199,6 +1478,14 @@ async function extractDataFromNativePDF(
     console.log(rawResponse.substring(Math.max(0, rawResponse.length - 500)));
 
     const extractedJson = extractJSONFromResponse(rawResponse) as ExtractedData;
+    extractedJson.citations = normalizeCitations(extractedJson.citations);
+    extractedJson.fieldConfidence = normalizeFieldConfidence(extractedJson.fieldConfidence);
+    extractedJson.completeness = {
+      isComplete: !completion.truncated,
+      chunkCount: 1,
+      continuationCalls: completion.continuationCalls,
+      truncatedChunks: []
+    };
 
     // Merge user metadata if provided
     if (userMetadata) {
@@ -1230,6 +1517,532 @@ async function extractDataFromNativePDF(
   }
 }
 
+/**
+ * Ask Claude to fix the parts of an extraction that failed schema validation
+ * Text-only call (the document is not re-sent) - only the failing rows/objects are sent, and
+ * Claude restructures them to match the schema using the listed issues, without inventing values
+ *
+ * @param scopedData - Failing parts of `data`, keyed by dot-notation path (see pickRepairScopes)
+ * @returns Repaired values keyed by the same paths
+ */
+async function repairExtractedData(
+  documentType: DocumentType,
+  scopedData: Record<string, unknown>,
+  issues: ExtractionSchemaIssue[],
+  model: string = DEFAULT_CLAUDE_MODEL
+): Promise<Record<string, unknown>> {
+  const issueList = issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+  const templatePrompt = EXTRACTION_PROMPTS[documentType as keyof typeof EXTRACTION_PROMPTS] || '';
+
+  const response = await getAnthropicClient().messages.create({
+    model,
+    max_tokens: REPAIR_MAX_TOKENS,
+    temperature: 0.0, // Deterministic restructuring
+    system: 'You are a data quality specialist. You repair JSON so it matches a required schema. Respond only with valid JSON.',
+    messages: [
+      {
+        role: 'user',
+        content: `Parts of a ${documentType} extraction failed schema validation.
+
+SCHEMA ISSUES (paths are dot-notation paths into the "data" object):
+${issueList}
+
+RULES:
+- Fix ONLY the fields listed above: move values to the expected fields, convert types, add missing required objects/arrays
+- Use null for values that are not present in the data - NEVER invent values
+- Use empty arrays [] for required lists with no items
+- Enum fields must use one of the allowed values exactly (map the closest equivalent, or null)
+- Keep every other field exactly as it is, including additional fields not in the schema
+- Never add or remove array items
+
+Field reference for this document type:
+${templatePrompt}
+
+FAILING PARTS (keyed by path):
+${JSON.stringify(scopedData, null, 2)}
+
+Return ONLY a JSON object with the same path keys and the corrected value for each.`
+      }
+    ]
+  });
+
+  if (response.stop_reason === 'max_tokens') {
+    throw new Error('Repair response truncated at max_tokens');
+  }
+
+  const textContent = response.content.find(block => block.type === 'text');
+  if (!textContent || textContent.type !== 'text') {
+    throw new Error('No text content in Claude repair response');
+  }
+
+  const repaired = extractJSONFromResponse(textContent.text);
+  if (!repaired || typeof repaired !== 'object' || Array.isArray(repaired)) {
+    throw new Error('Repair response is not a JSON object');
+  }
+
+  return repaired as Record<string, unknown>;
+}
+
+/**
+ * Validate extraction output against the strict schema for its type, with one repair attempt
+ * Only the failing rows/objects are repaired and patched back, so valid data is never rewritten.
+ * Never throws - the original data is kept when the repair call fails or makes things worse
+ *
+ * @param extractedData - Extraction result (user metadata already merged)
+ * @param model - Claude model id used for the repair call (default DEFAULT_CLAUDE_MODEL)
+ * @returns Extraction result with `schemaValidation` describing which fields failed
+ */
+async function validateAndRepairExtraction(
+  extractedData: ExtractedData,
+  model: string = DEFAULT_CLAUDE_MODEL
+): Promise<ExtractedData> {
+  const failedFields = validateExtractedDataShape(extractedData.documentType, extractedData.data);
+
+  if (failedFields.length === 0) {
+    return {
+      ...extractedData,
+      schemaValidation: { isValid: true, repairAttempted: false, failedFields: [], remainingIssues: [] }
+    };
+  }
+
+  console.warn(`[Schema Validation] ${extractedData.documentType} output failed schema with ${failedFields.length} issue(s):`);
+  failedFields.slice(0, 20).forEach(issue => console.warn(`  - ${issue.path}: ${issue.message}`));
+
+  const scopes = getRepairScopes(failedFields);
+  const scopedData = scopes ? pickRepairScopes(extractedData.data, scopes) : null;
+  if (!scopes || !scopedData || JSON.stringify(scopedData).length > REPAIR_MAX_PAYLOAD_CHARS) {
+    console.warn('[Schema Validation] Failing data is too large or not scoped for repair - keeping original output');
+    return {
+      ...extractedData,
+      schemaValidation: { isValid: false, repairAttempted: false, failedFields, remainingIssues: failedFields }
+    };
+  }
+
+  try {
+    console.log(`[Schema Validation] Requesting repair of ${scopes.length} part(s) from Claude...`);
+    const patches = await repairExtractedData(extractedData.documentType, scopedData, failedFields, model);
+    const repairedData = applyRepairPatches(extractedData.data, scopes, patches) as ExtractedData['data'];
+    const remainingIssues = validateExtractedDataShape(extractedData.documentType, repairedData);
+
+    if (remainingIssues.length < failedFields.length) {
+      console.log(`[Schema Validation] Repair reduced issues from ${failedFields.length} to ${remainingIssues.length}`);
+      return {
+        ...extractedData,
+        data: repairedData,
+        schemaValidation: {
+          isValid: remainingIssues.length === 0,
+          repairAttempted: true,
+          failedFields,
+          remainingIssues
+        }
+      };
+    }
+
+    console.warn('[Schema Validation] Repair did not reduce issues - keeping original output');
+  } catch (repairError) {
+    console.error('[Schema Validation] Repair call failed - keeping original output:', repairError);
+  }
+
+  return {
+    ...extractedData,
+    schemaValidation: {
+      isValid: false,
+      repairAttempted: true,
+      failedFields,
+      remainingIssues: failedFields
+    }
+  };
+}
+
+/**
+ * Run tasks with at most `limit` in flight, in the order they were queued
+ * One limiter is shared by all calls of an extraction, so a chunked rent roll inside a document
+ * package draws from the same slots as the package's other segments
+ */
+type CallLimiter = <R>(task: () => Promise<R>) => Promise<R>;
+
+function createCallLimiter(limit: number): CallLimiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <R>(task: () => Promise<R>): Promise<R> => {
+    if (active < limit) {
+      active++;
+    } else {
+      // The finishing task hands its slot over, so `active` stays the same
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+/**
+ * Tell Claude the PDF it received is one window of a longer rent roll
+ * Each window is sent as its own PDF, so its pages are numbered from 1
+ */
+function scopePromptToRentRollWindow(prompt: string, startPage: number, endPage: number, totalPages: number): string {
+  return `═══════════════════════════════════════════════════════════════════════════════
+PAGE WINDOW: This PDF contains pages ${startPage}-${endPage} of a ${totalPages}-page rent roll.
+Extract every tenant row on these pages. The property header or the totals may be on other pages -
+return null for anything not shown here. A row cut off at the first or last page should still be
+extracted with the fields that are visible.
+═══════════════════════════════════════════════════════════════════════════════
+
+${prompt}`;
+}
+
+/**
+ * Extract a large rent roll in page windows to avoid max_tokens truncation
+ * Each window is sent as its own sub-PDF, a few windows at a time; tenants are then
+ * merged in document order, joining rows split across window boundaries
+ *
+ * @param pdfBase64 - Base64 encoded PDF
+ * @param totalPages - Actual page count of the PDF
+ * @param prompt - Rent roll extraction prompt (user instructions already applied)
+ * @param userMetadata - User and system metadata merged into the result
+ * @param onProgress - Called as windows finish
+ * @param model - Claude model id (default DEFAULT_CLAUDE_MODEL)
+ * @param checkpoint - Windows saved by an earlier attempt are reused instead of extracted again
+ * @param limitCalls - Limiter shared with the rest of the extraction (document packages)
+ * @returns Merged ExtractedData with completeness describing any truncated window
+ */
+async function extractRentRollInChunks(
+  pdfBase64: string,
+  totalPages: number,
+  prompt: string,
+  userMetadata?: {
+    pdfFileName: string;
+    rexeliUserName: string;
+    rexeliUserEmail: string;
+    extractionTimestamp: string;
+    documentId: string;
+  },
+  onProgress?: ExtractionProgressCallback,
+  model: string = DEFAULT_CLAUDE_MODEL,
+  checkpoint?: ExtractionCheckpoint,
+  limitCalls: CallLimiter = createCallLimiter(EXTRACTION_CALL_CONCURRENCY)
+): Promise<ExtractedData> {
+  const startTime = Date.now();
+  const windows: { startPage: number; endPage: number }[] = [];
+  for (let startPage = 1; startPage <= totalPages; startPage += RENT_ROLL_CHUNK_SIZE_PAGES) {
+    windows.push({ startPage, endPage: Math.min(startPage + RENT_ROLL_CHUNK_SIZE_PAGES - 1, totalPages) });
+  }
+
+  console.log(`[Rent Roll Chunking] Extracting ${totalPages} pages in ${windows.length} windows of ${RENT_ROLL_CHUNK_SIZE_PAGES} pages`);
+
+  const windowPdfs = await splitPdfPages(Buffer.from(pdfBase64, 'base64'), windows);
+  let finishedWindows = 0;
+  onProgress?.(`Extracting ${totalPages} pages in ${windows.length} parts`, 0);
+
+  const windowResults = await Promise.all(windows.map(async (window, windowIndex) => {
+    let completion = checkpoint?.windows.find(
+      saved => saved.startPage === window.startPage && saved.endPage === window.endPage
+    );
+    if (completion) {
+      console.log(`[Rent Roll Chunking] Pages ${window.startPage}-${window.endPage} restored from checkpoint`);
+    } else {
+      console.log(`[Rent Roll Chunking] Pages ${window.startPage}-${window.endPage}...`);
+      const response = await limitCalls(() => requestNativePDFCompletion(
+        'rent_roll',
+        windowPdfs[windowIndex].toString('base64'),
+        scopePromptToRentRollWindow(prompt, window.startPage, window.endPage, totalPages) + CITATION_INSTRUCTIONS + CONFIDENCE_INSTRUCTIONS,
+        model
+      ));
+      completion = { ...window, ...response };
+      checkpoint?.onWindowComplete(completion);
+    }
+
+    let chunk: ExtractedData | null = null;
+    try {
+      chunk = extractJSONFromResponse(completion.text) as ExtractedData;
+    } catch (parseError) {
+      // A window that is still cut off may not parse - flag it instead of failing the whole document
+      if (!completion.truncated) throw parseError;
+      console.error(`[Rent Roll Chunking] Pages ${window.startPage}-${window.endPage} truncated and unparseable - skipping`);
+    }
+
+    finishedWindows++;
+    onProgress?.(`Extracted ${finishedWindows} of ${windows.length} parts`, finishedWindows / windows.length);
+    return { window, completion, chunk };
+  }));
+
+  const tenantChunks: Record<string, unknown>[][] = [];
+  const truncatedChunks: { startPage: number; endPage: number }[] = [];
+  let continuationCalls = 0;
+  let metadata: Partial<ExtractedDataMetadata> = {};
+  let summary: Record<string, unknown> = {};
+  const chunkCitations: Record<string, FieldCitation>[] = [];
+  const chunkConfidence: Record<string, number>[] = [];
+
+  // Merge in document order regardless of which window finished first
+  for (const { window, completion, chunk } of windowResults) {
+    continuationCalls += completion.continuationCalls;
+    if (completion.truncated) {
+      truncatedChunks.push(window);
+    }
+    if (!chunk) continue;
+
+    const chunkData = (chunk.data || {}) as unknown as { tenants?: Record<string, unknown>[]; summary?: Record<string, unknown> };
+    tenantChunks.push(Array.isArray(chunkData.tenants) ? chunkData.tenants : []);
+    chunkCitations.push(offsetCitationPages(normalizeCitations(chunk.citations), window.startPage - 1));
+    chunkConfidence.push(normalizeFieldConfidence(chunk.fieldConfidence));
+
+    // First window usually carries the property header; totals usually appear on the last pages
+    metadata = { ...chunk.metadata, ...metadata };
+    Object.entries(chunkData.summary || {}).forEach(([key, value]) => {
+      if (value !== null && value !== undefined) {
+        summary[key] = value;
+      }
+    });
+  }
+
+  if (tenantChunks.length === 0) {
+    throw new Error('Invalid JSON returned for every rent roll chunk');
+  }
+
+  const tenants = mergeRentRollTenants(tenantChunks);
+  const citations = mergeRentRollPathMaps(tenantChunks, chunkCitations);
+  const fieldConfidence = mergeRentRollPathMaps(tenantChunks, chunkConfidence);
+  const rowCount = tenantChunks.reduce((count, chunk) => count + chunk.length, 0);
+  console.log(`[Rent Roll Chunking] Merged ${rowCount} rows into ${tenants.length} tenants (${rowCount - tenants.length} split across windows)`);
+
+  if (summary.totalUnits === undefined || summary.totalUnits === null) {
+    summary = { ...summary, totalUnits: tenants.length };
+  }
+
+  const duration = Date.now() - startTime;
+  console.log(`[Rent Roll Chunking] Completed in ${(duration / 1000).toFixed(2)}s, ${truncatedChunks.length} truncated window(s)`);
+
+  return {
+    documentType: 'rent_roll',
+    metadata: {
+      ...metadata,
+      extractedDate: metadata.extractedDate || new Date().toISOString().split('T')[0],
+      ...userMetadata
+    } as ExtractedDataMetadata,
+    data: { tenants, summary } as unknown as RentRollData,
+    citations,
+    fieldConfidence,
+    completeness: {
+      isComplete: truncatedChunks.length === 0,
+      chunkCount: windows.length,
+      continuationCalls,
+      truncatedChunks
+    }
+  };
+}
+
+/**
+ * Build the extraction prompt for a document type, prepending user instructions when provided
+ * @param documentType - Type of document to extract
+ * @param userInstructions - Optional free-text instructions from the user
+ * @returns Prompt text sent to Claude
+ */
+export function buildExtractionPrompt(documentType: DocumentType, userInstructions?: string): string {
+  const prompt = EXTRACTION_PROMPTS[documentType as keyof typeof EXTRACTION_PROMPTS];
+  if (!prompt) {
+    throw new Error(`No extraction prompt available for document type: ${documentType}`);
+  }
+
+  // PREPEND user instructions if provided (at START for better influence)
+  if (userInstructions?.trim()) {
+    console.log(`[Claude] Prepending user instructions to prompt: "${userInstructions.substring(0, 50)}..."`);
+    return `═══════════════════════════════════════════════════════════════════════════════
+IMPORTANT - USER SPECIAL INSTRUCTIONS (PRIORITIZE THESE REQUIREMENTS):
+${userInstructions.trim()}
+═══════════════════════════════════════════════════════════════════════════════
+
+${prompt}`;
+  }
+
+  return prompt;
+}
+
+/**
+ * Tell Claude the PDF it received is one document cut out of a larger package
+ * Each segment is sent as its own PDF, so its pages are numbered from 1
+ */
+function scopePromptToSegment(prompt: string, startPage: number, endPage: number, totalPages: number): string {
+  const range = startPage === endPage ? `page ${startPage}` : `pages ${startPage}-${endPage}`;
+  return `═══════════════════════════════════════════════════════════════════════════════
+DOCUMENT SEGMENT: This PDF contains ${range} of a ${totalPages}-page document package - one
+document of the package. Extract this document only; the other documents are extracted separately.
+═══════════════════════════════════════════════════════════════════════════════
+
+${prompt}`;
+}
+
+/**
+ * Detect the page ranges of each document bundled in a mixed-content PDF
+ *
+ * @param pdfBase64 - Base64 encoded PDF
+ * @param totalPages - Actual page count, used to clamp and validate returned ranges
+ * @returns Non-overlapping segment boundaries sorted by start page
+ */
+export async function segmentDocument(pdfBase64: string, totalPages: number): Promise<DocumentSegmentBoundary[]> {
+  console.log(`Claude: Segmenting ${totalPages}-page PDF into document sections...`);
+
+  const response = await getAnthropicClient().messages.create({
+    model: DEFAULT_CLAUDE_MODEL,
+    max_tokens: 4000,
+    temperature: 0.0, // Zero temperature for consistent page boundaries
+    system: 'You are an expert commercial real estate analyst. Respond only with valid JSON.',
+    messages: [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'document',
+            source: {
+              type: 'base64',
+              media_type: 'application/pdf',
+              data: pdfBase64
+            }
+          },
+          {
+            type: 'text',
+            text: SEGMENTATION_PROMPT
+          }
+        ]
+      }
+    ]
+  });
+
+  const textContent = response.content.find(block => block.type === 'text');
+  if (!textContent || textContent.type !== 'text') {
+    throw new Error('No text content in Claude segmentation response');
+  }
+
+  const parsed = extractJSONFromResponse(textContent.text) as { segments?: unknown } | null;
+  if (!parsed || !Array.isArray(parsed.segments)) {
+    throw new Error('Invalid segmentation response structure - missing segments array');
+  }
+
+  // Keep supported types only, clamp to real page range, and drop overlaps
+  const boundaries: DocumentSegmentBoundary[] = [];
+  const candidates = (parsed.segments as Array<Record<string, unknown>>)
+    .map(segment => ({
+      documentType: String(segment.documentType || '').trim().toLowerCase() as DocumentType,
+      startPage: Math.max(1, Math.floor(Number(segment.startPage) || 0)),
+      endPage: Math.min(totalPages, Math.floor(Number(segment.endPage) || 0)),
+      title: typeof segment.title === 'string' ? segment.title : null,
+      confidence: segment.confidence !== undefined ? Number(segment.confidence) : undefined
+    }))
+    .filter(segment => CLASSIFIABLE_DOCUMENT_TYPES.includes(segment.documentType) && segment.startPage <= segment.endPage)
+    .sort((a, b) => a.startPage - b.startPage);
+
+  for (const candidate of candidates) {
+    const previous = boundaries[boundaries.length - 1];
+    if (previous && candidate.startPage <= previous.endPage) {
+      console.warn(`[Segmentation] Dropping overlapping segment ${candidate.documentType} (${candidate.startPage}-${candidate.endPage})`);
+      continue;
+    }
+    boundaries.push(candidate);
+  }
+
+  if (boundaries.length === 0) {
+    throw new Error('No supported document segments detected in this PDF');
+  }
+
+  console.log('[Segmentation] Detected segments:', boundaries.map(b => `${b.documentType} p${b.startPage}-${b.endPage}`).join(', '));
+  return boundaries;
+}
+
+/**
+ * Split a mixed-content PDF into per-document segments and extract each with its matching prompt
+ * Each segment is sent as its own sub-PDF, and segments run at the same time under one call
+ * limit; large rent roll segments are extracted in page windows like standalone rent rolls
+ *
+ * @param file - PDF file
+ * @param userMetadata - User and system metadata merged into every segment
+ * @param userInstructions - Optional instructions applied to every segment
+ * @param onProgress - Called after segmentation and as segments finish
+ * @returns Composite ExtractedData with documentType 'document_package'
+ */
+export async function extractDocumentPackage(
+  file: File,
+  userMetadata?: {
+    pdfFileName: string;
+    rexeliUserName: string;
+    rexeliUserEmail: string;
+    extractionTimestamp: string;
+    documentId: string;
+  },
+  userInstructions?: string,
+  onProgress?: ExtractionProgressCallback
+): Promise<ExtractedData> {
+  if (file.type !== 'application/pdf') {
+    throw new Error('Document package segmentation requires a PDF file');
+  }
+
+  const arrayBuffer = await file.arrayBuffer();
+  const totalPages = await getPageCount(Buffer.from(arrayBuffer));
+  const pdfBase64 = Buffer.from(arrayBuffer).toString('base64');
+
+  onProgress?.('Splitting document package', 0);
+  const boundaries = await segmentDocument(pdfBase64, totalPages);
+  const segmentPdfs = await splitPdfPages(Buffer.from(arrayBuffer), boundaries);
+  const limitCalls = createCallLimiter(EXTRACTION_CALL_CONCURRENCY);
+  let finishedSegments = 0;
+  onProgress?.(`Extracting ${boundaries.length} documents`, 1 / (boundaries.length + 1));
+
+  const segments: DocumentSegment[] = await Promise.all(boundaries.map(async (boundary, segmentIndex) => {
+    const segmentPages = boundary.endPage - boundary.startPage + 1;
+    const segmentBase64 = segmentPdfs[segmentIndex].toString('base64');
+    const prompt = scopePromptToSegment(
+      buildExtractionPrompt(boundary.documentType, userInstructions),
+      boundary.startPage,
+      boundary.endPage,
+      totalPages
+    );
+    console.log(`[Document Package] Extracting ${boundary.documentType} from pages ${boundary.startPage}-${boundary.endPage}`);
+
+    const extractedData = boundary.documentType === 'rent_roll' && segmentPages > RENT_ROLL_CHUNK_THRESHOLD_PAGES
+      ? await validateAndRepairExtraction(
+          await extractRentRollInChunks(segmentBase64, segmentPages, prompt, userMetadata, undefined, DEFAULT_CLAUDE_MODEL, undefined, limitCalls)
+        )
+      : await limitCalls(async () => validateAndRepairExtraction(
+          await extractDataFromNativePDF(boundary.documentType, segmentBase64, prompt, userMetadata)
+        ));
+
+    // Segment pages are numbered from 1 - cite pages of the whole package
+    extractedData.citations = offsetCitationPages(extractedData.citations || {}, boundary.startPage - 1);
+
+    finishedSegments++;
+    onProgress?.(`Extracted ${finishedSegments} of ${boundaries.length} documents`, (finishedSegments + 1) / (boundaries.length + 1));
+    return { ...boundary, extractedData };
+  }));
+
+  // Package-level metadata comes from the first segment that identified the property
+  const propertySource = segments.find(segment => segment.extractedData.metadata?.propertyName)?.extractedData.metadata;
+  const packageData: DocumentPackageData = { totalPages, segments };
+
+  return {
+    documentType: 'document_package',
+    metadata: {
+      extractedDate: new Date().toISOString().split('T')[0],
+      propertyName: propertySource?.propertyName ?? null,
+      propertyAddress: propertySource?.propertyAddress ?? null,
+      pdfFileName: userMetadata?.pdfFileName || file.name,
+      rexeliUserName: userMetadata?.rexeliUserName || 'Unknown User',
+      rexeliUserEmail: userMetadata?.rexeliUserEmail || 'unknown@rexeli.com',
+      extractionTimestamp: userMetadata?.extractionTimestamp || new Date().toISOString(),
+      documentId: userMetadata?.documentId || `doc_${Date.now()}`
+    },
+    data: packageData
+  };
+}
+
 /**
  * Extract structured data from document using Claude Sonnet 4.5
  * Supports hybrid PDF processing and multi-page documents
@@ -1237,6 +2050,10 @@ async function extractDataFromNativePDF(
  * @param file - Document file (PDF, image, or multi-page JSON)
  * @param documentType - Type of document to extract
  * @param userMetadata - User and system metadata to merge with extraction
+ * @param userInstructions - Optional free-text instructions from the user
+ * @param onProgress - Optional callback for multi-call extractions (page windows, package segments)
+ * @param model - Claude model id (default DEFAULT_CLAUDE_MODEL); document packages always use the default
+ * @param checkpoint - Page windows saved by an earlier attempt of the job (chunked rent rolls)
  * @returns Extracted structured data matching document type schema
  *
  * @example
@@ -1256,54 +2073,33 @@ export async function extractDocumentData(
     extractionTimestamp: string;
     documentId: string;
   },
-  userInstructions?: string
+  userInstructions?: string,
+  onProgress?: ExtractionProgressCallback,
+  model: string = DEFAULT_CLAUDE_MODEL,
+  checkpoint?: ExtractionCheckpoint
 ): Promise<ExtractedData> {
   try {
     console.log(`Claude: Starting data extraction for ${documentType}...`);
     console.log(`File: ${file.name}, Type: ${file.type}, Size: ${(file.size / 1024).toFixed(2)}KB`);
 
-    // Get extraction prompt
-    let prompt = EXTRACTION_PROMPTS[documentType as keyof typeof EXTRACTION_PROMPTS];
-    if (!prompt) {
-      throw new Error(`No extraction prompt available for document type: ${documentType}`);
+    // Mixed-content PDFs are segmented first, then each segment uses its own prompt
+    if (documentType === 'document_package') {
+      return await extractDocumentPackage(file, userMetadata, userInstructions, onProgress);
     }
 
-    // PREPEND user instructions if provided (at START for better influence)
-    if (userInstructions?.trim()) {
-      console.log(`[Claude] Prepending user instructions to prompt: "${userInstructions.substring(0, 50)}..."`);
-      prompt = `═══════════════════════════════════════════════════════════════════════════════
-IMPORTANT - USER SPECIAL INSTRUCTIONS (PRIORITIZE THESE REQUIREMENTS):
-${userInstructions.trim()}
-═══════════════════════════════════════════════════════════════════════════════
-
-${prompt}`;
-    }
+    // Get extraction prompt (with user instructions prepended when provided)
+    const prompt = buildExtractionPrompt(documentType, userInstructions);
 
     let imageDataUrls: string[] = [];
     let numPages = 1;
 
     // SCENARIO 1: Multi-page JSON (from client-side PDF conversion)
-    if (file.type === 'application/json' && file.name.includes('multipage')) {
+    if (isMultiPageImageFile(file)) {
       console.log('Processing multi-page document (PNG images)...');
 
-      try {
-        const fileText = await file.text();
-        const multiPageData = JSON.parse(fileText);
-
-        if (multiPageData.type === 'multi-page' && Array.isArray(multiPageData.pages)) {
-          numPages = multiPageData.pages.length;
-          console.log(`Multi-page document detected: ${numPages} pages`);
-
-          imageDataUrls = multiPageData.pages.map((page: any) =>
-            `data:${page.mimeType};base64,${page.imageBase64}`
-          );
-        } else {
-          throw new Error('Invalid multi-page data format');
-        }
-      } catch (parseError) {
-        console.error('Failed to parse multi-page data:', parseError);
-        throw new Error('Invalid multi-page document format');
-      }
+      imageDataUrls = await readMultiPageImageDataUrls(file);
+      numPages = imageDataUrls.length;
+      console.log(`Multi-page document detected: ${numPages} pages`);
     }
     // SCENARIO 2: PDF file (native PDF support for all page counts)
     else if (file.type === 'application/pdf') {
@@ -1316,8 +2112,22 @@ ${prompt}`;
       console.log('Using NATIVE PDF processing for all pages');
       const pdfBase64 = await fileToBase64(file);
 
+      // Large rent rolls exceed the output limit in a single call - extract in page windows
+      if (documentType === 'rent_roll') {
+        const totalPages = await getPageCount(Buffer.from(pdfBase64, 'base64'));
+        if (totalPages > RENT_ROLL_CHUNK_THRESHOLD_PAGES) {
+          return await validateAndRepairExtraction(
+            await extractRentRollInChunks(pdfBase64, totalPages, prompt, userMetadata, onProgress, model, checkpoint),
+            model
+          );
+        }
+      }
+
       // Call Claude with native PDF - returns ExtractedData directly with merged user metadata
-      return await extractDataFromNativePDF(documentType, pdfBase64, prompt, userMetadata);
+      const extractedData = await extractDataFromNativePDF(documentType, pdfBase64, prompt, userMetadata, model);
+
+      // Validate against the strict schema (one repair call on failure)
+      return await validateAndRepairExtraction(extractedData, model);
     }
     // SCENARIO 3: Image file
     else if (file.type.startsWith('image/')) {
@@ -1337,7 +2147,7 @@ ${prompt}`;
     // For PNG/image processing (scenarios 1 & 3), call extractData
     if (imageDataUrls.length > 0) {
       console.log(`Processing ${imageDataUrls.length} image(s) with Claude...`);
-      return await extractData(documentType, imageDataUrls, prompt);
+      return await validateAndRepairExtraction(await extractData(documentType, imageDataUrls, prompt, model), model);
     }
 
     // Should not reach here
@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const stripeRequest = vi.fn();
+// Result of the awaited query per table
+const tableResults: Record<string, { data?: unknown; count?: number; error: unknown }> = {};
+
+/**
+ * Chainable stand-in for a Supabase query: every builder method returns the query, and
+ * awaiting it (or single / maybeSingle) resolves to the table's result
+ */
+function createQuery(table: string) {
+  const result = () => Promise.resolve(tableResults[table] ?? { data: null, error: null });
+  const query = {
+    select: vi.fn(() => query),
+    update: vi.fn(() => query),
+    eq: vi.fn(() => query),
+    single: vi.fn(result),
+    maybeSingle: vi.fn(result),
+    then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) => result().then(resolve, reject)
+  };
+  return query;
+}
+
+vi.mock('./supabase', () => ({ supabaseAdmin: { from: vi.fn(createQuery) } }));
+vi.mock('./stripe', async () => ({ ...await vi.importActual<typeof import('./stripe')>('./stripe'), stripeRequest }));
+
+vi.stubEnv('STRIPE_PRICE_PROFESSIONAL_MONTHLY', 'price_professional_monthly');
+vi.stubEnv('STRIPE_PRICE_PROFESSIONAL_ANNUAL', 'price_professional_annual');
+vi.stubEnv('STRIPE_PRICE_BUSINESS_MONTHLY', 'price_business_monthly');
+vi.stubEnv('STRIPE_PRICE_GROUP_SEAT_MONTHLY', 'price_group_seat_monthly');
+vi.stubEnv('STRIPE_PRICE_OVERAGE_PROFESSIONAL_MONTHLY', 'price_overage_professional_monthly');
+vi.stubEnv('STRIPE_PRICE_OVERAGE_BUSINESS_MONTHLY', 'price_overage_business_monthly');
+
+const { BillingError, createCheckout, createGroupCheckout } = await import('./billing');
+const { StripeApiError } = await import('./stripe');
+
+const RETURN_URL = 'https://app.example.com/dashboard/usage';
+
+const user = { id: 'user-1', email: 'owner@example.com', name: 'Owner', stripe_customer_id: 'cus_1', stripe_subscription_id: 'sub_1' };
+const group = {
+  id: 'group-1',
+  name: 'Acme',
+  owner_id: 'user-1',
+  subscription_type: 'professional_monthly',
+  subscription_status: 'active',
+  credits: 1500,
+  max_members: 3,
+  extra_seats: 0,
+  stripe_customer_id: 'cus_group',
+  stripe_subscription_id: 'sub_group'
+};
+
+/**
+ * Params of the POST to a Stripe path
+ */
+function postedParams(path: string): Record<string, unknown> | undefined {
+  return stripeRequest.mock.calls.find(([method, called]) => method === 'POST' && called === path)?.[2];
+}
+
+function subscription(items: { id: string; price: string; quantity?: number }[], status: string = 'active') {
+  return {
+    id: 'sub_1',
+    status,
+    items: { data: items.map(item => ({ id: item.id, price: { id: item.price }, quantity: item.quantity })) }
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  for (const table of Object.keys(tableResults)) delete tableResults[table];
+  tableResults.users = { data: user, error: null };
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('createCheckout', () => {
+  it('switches an existing subscription in place and moves the overage item to the new plan', async () => {
+    stripeRequest.mockImplementation(async (method: string) => method === 'GET'
+      ? subscription([{ id: 'si_plan', price: 'price_professional_monthly' }, { id: 'si_overage', price: 'price_overage_professional_monthly' }])
+      : {});
+
+    await expect(createCheckout('user-1', { type: 'subscription', plan: 'business', interval: 'monthly' }, RETURN_URL))
+      .resolves.toEqual({ url: null, sessionId: null, planType: 'business_monthly', switched: true });
+
+    expect(postedParams('/v1/subscriptions/sub_1')).toMatchObject({
+      items: [
+        { id: 'si_plan', price: 'price_business_monthly' },
+        { id: 'si_overage', deleted: true },
+        { price: 'price_overage_business_monthly' }
+      ],
+      proration_behavior: 'create_prorations'
+    });
+  });
+
+  it('removes the overage item when switching to an annual plan', async () => {
+    stripeRequest.mockImplementation(async (method: string) => method === 'GET'
+      ? subscription([{ id: 'si_plan', price: 'price_professional_monthly' }, { id: 'si_overage', price: 'price_overage_professional_monthly' }])
+      : {});
+
+    await createCheckout('user-1', { type: 'subscription', plan: 'professional', interval: 'annual' }, RETURN_URL);
+
+    expect(postedParams('/v1/subscriptions/sub_1')?.items).toEqual([
+      { id: 'si_plan', price: 'price_professional_annual' },
+      { id: 'si_overage', deleted: true }
+    ]);
+  });
+
+  it('refuses to switch to the current plan', async () => {
+    stripeRequest.mockResolvedValue(subscription([{ id: 'si_plan', price: 'price_professional_monthly' }]));
+
+    await expect(createCheckout('user-1', { type: 'subscription', plan: 'professional', interval: 'monthly' }, RETURN_URL))
+      .rejects.toMatchObject({ status: 409 });
+  });
+
+  it('starts a new Checkout when the subscription was deleted in Stripe', async () => {
+    stripeRequest.mockImplementation(async (method: string, path: string) => {
+      if (method === 'GET') throw new StripeApiError('No such subscription', 404);
+      return path === '/v1/checkout/sessions' ? { id: 'cs_1', url: 'https://checkout.stripe.com/cs_1' } : {};
+    });
+
+    await expect(createCheckout('user-1', { type: 'subscription', plan: 'professional', interval: 'monthly' }, RETURN_URL))
+      .resolves.toMatchObject({ url: 'https://checkout.stripe.com/cs_1', switched: false });
+    expect(postedParams('/v1/checkout/sessions')).toMatchObject({
+      mode: 'subscription',
+      customer: 'cus_1',
+      line_items: [{ price: 'price_professional_monthly', quantity: 1 }],
+      success_url: `${RETURN_URL}?checkout=success&session_id={CHECKOUT_SESSION_ID}`
+    });
+  });
+
+  it('rejects a plan without a configured price before calling Stripe', async () => {
+    await expect(createCheckout('user-1', { type: 'subscription', plan: 'entrepreneur', interval: 'annual' }, RETURN_URL))
+      .rejects.toBeInstanceOf(BillingError);
+    expect(stripeRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('createGroupCheckout', () => {
+  beforeEach(() => {
+    tableResults.user_groups = { data: group, error: null };
+    tableResults.group_members = { count: 3, error: null };
+  });
+
+  it('starts a Checkout for the plan and the seat add-on on the group customer', async () => {
+    tableResults.user_groups = { data: { ...group, stripe_subscription_id: null }, error: null };
+    stripeRequest.mockResolvedValue({ id: 'cs_1', url: 'https://checkout.stripe.com/cs_1' });
+
+    await expect(createGroupCheckout('user-1', { plan: 'business', interval: 'monthly', extraSeats: 2 }, RETURN_URL))
+      .resolves.toMatchObject({ planType: 'business_monthly', switched: false });
+
+    expect(postedParams('/v1/checkout/sessions')).toMatchObject({
+      customer: 'cus_group',
+      line_items: [{ price: 'price_business_monthly', quantity: 1 }, { price: 'price_group_seat_monthly', quantity: 2 }],
+      metadata: { billing_scope: 'group', group_id: 'group-1', extra_seats: 2 }
+    });
+  });
+
+  it('updates the plan and seat quantity of an existing group subscription', async () => {
+    stripeRequest.mockImplementation(async (method: string) => method === 'GET'
+      ? subscription([{ id: 'si_plan', price: 'price_professional_monthly' }, { id: 'si_seats', price: 'price_group_seat_monthly', quantity: 1 }])
+      : {});
+
+    await expect(createGroupCheckout('user-1', { plan: 'business', interval: 'monthly', extraSeats: 4 }, RETURN_URL))
+      .resolves.toMatchObject({ switched: true });
+
+    expect(stripeRequest).toHaveBeenCalledWith('GET', '/v1/subscriptions/sub_group');
+    expect(postedParams('/v1/subscriptions/sub_1')?.items).toEqual([
+      { id: 'si_plan', price: 'price_business_monthly' },
+      { id: 'si_seats', price: 'price_group_seat_monthly', quantity: 4 }
+    ]);
+  });
+
+  it('deletes the seat item when the extra seats go to zero', async () => {
+    tableResults.group_members = { count: 2, error: null };
+    stripeRequest.mockImplementation(async (method: string) => method === 'GET'
+      ? subscription([{ id: 'si_plan', price: 'price_professional_monthly' }, { id: 'si_seats', price: 'price_group_seat_monthly', quantity: 1 }])
+      : {});
+
+    await createGroupCheckout('user-1', { plan: 'professional', interval: 'monthly', extraSeats: 0 }, RETURN_URL);
+
+    expect(postedParams('/v1/subscriptions/sub_1')?.items).toEqual([
+      { id: 'si_plan', price: 'price_professional_monthly' },
+      { id: 'si_seats', deleted: true }
+    ]);
+  });
+
+  it('refuses fewer seats than the group has active members', async () => {
+    tableResults.group_members = { count: 5, error: null };
+
+    await expect(createGroupCheckout('user-1', { plan: 'professional', interval: 'monthly', extraSeats: 1 }, RETURN_URL))
+      .rejects.toMatchObject({ status: 409, message: expect.stringContaining('has 5 members') });
+    expect(stripeRequest).not.toHaveBeenCalled();
+  });
+
+  it('refuses an unchanged plan and seat count', async () => {
+    stripeRequest.mockResolvedValue(subscription([
+      { id: 'si_plan', price: 'price_professional_monthly' },
+      { id: 'si_seats', price: 'price_group_seat_monthly', quantity: 1 }
+    ]));
+
+    await expect(createGroupCheckout('user-1', { plan: 'professional', interval: 'monthly', extraSeats: 1 }, RETURN_URL))
+      .rejects.toMatchObject({ status: 409 });
+  });
+
+  it('only lets group owners manage group billing', async () => {
+    tableResults.user_groups = { data: null, error: null };
+
+    await expect(createGroupCheckout('user-1', { plan: 'professional', interval: 'monthly', extraSeats: 0 }, RETURN_URL))
+      .rejects.toMatchObject({ status: 403 });
+  });
+});
@@ -0,0 +1,589 @@
+/**
+ * Billing
+ *
+ * Self-serve purchases through Stripe: Checkout Sessions for one-time credit packs and
+ * subscriptions, plan switches on an existing subscription, and Customer Portal sessions
+ * for payment methods, invoices and cancellation. Group owners buy group plans the same way,
+ * with a seat add-on for members beyond the plan's seats; a group is billed to its own Stripe
+ * customer. Credits are granted by the Stripe webhook once payment completes - nothing here
+ * changes credits, plans or seats.
+ */
+
+import { supabaseAdmin as supabase } from './supabase';
+import { stripeRequest, StripeApiError, type StripeParams } from './stripe';
+import {
+  GROUP_PRICING,
+  GROUP_SEAT_PRICING,
+  ONE_TIME_PRICING,
+  STRIPE_PRICE_IDS,
+  SUBSCRIPTION_PRICING,
+  type OneTimePlan
+} from './stripe-config';
+import { GROUP_MAX_MEMBERS, GROUP_SUBSCRIPTION_CREDITS, SUBSCRIPTION_CREDITS } from './subscriptionManager';
+import type { GroupSubscriptionStatus, GroupSubscriptionType } from './types';
+
+// Plans that can be bought without talking to sales (enterprise is negotiated)
+export const SELF_SERVE_PLANS = ['entrepreneur', 'professional', 'business'] as const;
+export type SelfServePlan = typeof SELF_SERVE_PLANS[number];
+export type BillingInterval = 'monthly' | 'annual';
+
+export type CheckoutPurchase =
+  | { type: 'credit_pack'; pack: OneTimePlan }
+  | { type: 'subscription'; plan: SelfServePlan; interval: BillingInterval };
+
+export interface CheckoutResult {
+  // Stripe-hosted page to send the user to; null when an existing subscription was switched in place
+  url: string | null;
+  sessionId: string | null;
+  planType: string;
+  switched: boolean;
+}
+
+interface StripeCheckoutSession {
+  id: string;
+  url: string | null;
+}
+
+interface StripePortalSession {
+  id: string;
+  url: string;
+}
+
+interface StripeSubscription {
+  id: string;
+  status: string;
+  items: { data: { id: string; price: { id: string }; quantity?: number }[] };
+}
+
+interface BillingUser {
+  id: string;
+  email: string;
+  name: string | null;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+}
+
+// Subscriptions in these states can be switched to another price
+const SWITCHABLE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+/**
+ * Billing error with the HTTP status the API route should answer with
+ */
+export class BillingError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'BillingError';
+  }
+}
+
+/**
+ * Page Checkout and the billing portal return to - the usage page of the configured app URL,
+ * falling back to the request's origin (local development, preview deployments)
+ */
+export function getBillingReturnUrl(requestOrigin: string): string {
+  return `${(process.env.NEXT_PUBLIC_APP_URL || requestOrigin).replace(/\/+$/, '')}/dashboard/usage`;
+}
+
+/**
+ * subscription_type / SUBSCRIPTION_CREDITS key for a purchase
+ *
+ * @example
+ * getPurchasePlanType({ type: 'subscription', plan: 'business', interval: 'annual' }) // 'business_annual'
+ * getPurchasePlanType({ type: 'credit_pack', pack: 'standard' })                      // 'one_time_standard'
+ */
+export function getPurchasePlanType(purchase: CheckoutPurchase): keyof typeof STRIPE_PRICE_IDS {
+  return purchase.type === 'credit_pack'
+    ? `one_time_${purchase.pack}`
+    : `${purchase.plan}_${purchase.interval}`;
+}
+
+async function getBillingUser(userId: string): Promise<BillingUser> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, name, stripe_customer_id, stripe_subscription_id')
+    .eq('id', userId)
+    .single();
+
+  if (error || !data) {
+    throw new BillingError('User not found', 404);
+  }
+
+  return data as BillingUser;
+}
+
+/**
+ * Stripe customer for the user, created and linked on first purchase
+ */
+async function getOrCreateStripeCustomer(user: BillingUser): Promise<string> {
+  if (user.stripe_customer_id) {
+    return user.stripe_customer_id;
+  }
+
+  // Keyed by user so a double-clicked checkout does not create two customers
+  const customer = await stripeRequest<{ id: string }>(
+    'POST',
+    '/v1/customers',
+    { email: user.email, name: user.name || undefined, metadata: { user_id: user.id } },
+    `customer-${user.id}`
+  );
+
+  const { error } = await supabase
+    .from('users')
+    .update({ stripe_customer_id: customer.id, updated_at: new Date().toISOString() })
+    .eq('id', user.id);
+
+  if (error) {
+    console.error(`[Billing] Failed to link Stripe customer ${customer.id} to user ${user.id}:`, error);
+  }
+
+  return customer.id;
+}
+
+/**
+ * The user's current subscription when it can still be switched, otherwise null
+ */
+async function getSwitchableSubscription(owner: { stripe_subscription_id: string | null }): Promise<StripeSubscription | null> {
+  if (!owner.stripe_subscription_id) {
+    return null;
+  }
+
+  try {
+    const subscription = await stripeRequest<StripeSubscription>('GET', `/v1/subscriptions/${owner.stripe_subscription_id}`);
+    return SWITCHABLE_SUBSCRIPTION_STATUSES.includes(subscription.status) ? subscription : null;
+  } catch (error) {
+    // A subscription deleted in Stripe just means the user starts a new one
+    if (error instanceof StripeApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Start a purchase: a Checkout Session for credit packs and new subscriptions, or an in-place
+ * price change (prorated) when the user already has a subscription
+ *
+ * @param userId - Signed-in user
+ * @param purchase - Credit pack or subscription plan and interval
+ * @param returnUrl - Page Checkout returns to; ?checkout=success|cancelled is appended
+ * @throws BillingError when the plan has no Stripe price configured
+ * @throws StripeApiError when Stripe rejects a request
+ *
+ * @example
+ * const { url } = await createCheckout(userId, { type: 'credit_pack', pack: 'basic' }, 'https://www.rexeli.com/dashboard/usage');
+ */
+export async function createCheckout(
+  userId: string,
+  purchase: CheckoutPurchase,
+  returnUrl: string
+): Promise<CheckoutResult> {
+  const planType = getPurchasePlanType(purchase);
+  const priceId = STRIPE_PRICE_IDS[planType];
+
+  if (!priceId) {
+    throw new BillingError(`The ${planType} plan is not available for purchase yet`, 503);
+  }
+
+  const user = await getBillingUser(userId);
+  const metadata = {
+    user_id: user.id,
+    plan_type: planType,
+    purchase_type: purchase.type,
+    credits: SUBSCRIPTION_CREDITS[planType as keyof typeof SUBSCRIPTION_CREDITS] ?? 0,
+  };
+
+  if (purchase.type === 'subscription') {
+    const subscription = await getSwitchableSubscription(user);
+
+    if (subscription) {
+      // The metered overage item follows the plan; annual plans have no overage, so it is removed
+      const overagePriceIds = Object.entries(STRIPE_PRICE_IDS)
+        .filter(([key, value]) => key.startsWith('overage_') && value)
+        .map(([, value]) => value);
+      const overageItem = subscription.items.data.find(item => overagePriceIds.includes(item.price.id));
+      const item = subscription.items.data.find(subscriptionItem => subscriptionItem !== overageItem);
+      if (item?.price.id === priceId) {
+        throw new BillingError(`You are already subscribed to ${planType}`, 409);
+      }
+
+      const items: StripeParams[] = [{ id: item?.id, price: priceId }];
+      const overagePriceId = STRIPE_PRICE_IDS[`overage_${planType}` as keyof typeof STRIPE_PRICE_IDS];
+      if (overageItem && overageItem.price.id !== overagePriceId) {
+        items.push({ id: overageItem.id, deleted: true });
+        if (overagePriceId) {
+          items.push({ price: overagePriceId });
+        }
+      }
+
+      await stripeRequest<StripeSubscription>('POST', `/v1/subscriptions/${subscription.id}`, {
+        items,
+        proration_behavior: 'create_prorations',
+        metadata,
+      });
+
+      console.log(`[Billing] Switched subscription ${subscription.id} of user ${user.id} to ${planType}`);
+      return { url: null, sessionId: null, planType, switched: true };
+    }
+  }
+
+  const customerId = await getOrCreateStripeCustomer(user);
+  const separator = returnUrl.includes('?') ? '&' : '?';
+
+  const session = await stripeRequest<StripeCheckoutSession>('POST', '/v1/checkout/sessions', {
+    mode: purchase.type === 'credit_pack' ? 'payment' : 'subscription',
+    customer: customerId,
+    client_reference_id: user.id,
+    line_items: [{ price: priceId, quantity: 1 }],
+    metadata,
+    ...(purchase.type === 'credit_pack'
+      ? { payment_intent_data: { metadata } }
+      : { subscription_data: { metadata } }),
+    allow_promotion_codes: true,
+    success_url: `${returnUrl}${separator}checkout=success&session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${returnUrl}${separator}checkout=cancelled`,
+  });
+
+  console.log(`[Billing] Created checkout session ${session.id} for user ${user.id}: ${planType}`);
+  return { url: session.url, sessionId: session.id, planType, switched: false };
+}
+
+/**
+ * Customer Portal session for payment methods, invoices and cancellation
+ *
+ * @throws BillingError when the user has never bought anything (no Stripe customer yet)
+ */
+export async function createBillingPortalSession(userId: string, returnUrl: string): Promise<string> {
+  const user = await getBillingUser(userId);
+
+  if (!user.stripe_customer_id) {
+    throw new BillingError('No billing account yet - buy credits or a plan first', 400);
+  }
+
+  const session = await stripeRequest<StripePortalSession>('POST', '/v1/billing_portal/sessions', {
+    customer: user.stripe_customer_id,
+    return_url: returnUrl,
+  });
+
+  return session.url;
+}
+
+export interface BillingCatalog {
+  creditPacks: { pack: OneTimePlan; price: number; pages: number; available: boolean }[];
+  plans: {
+    plan: SelfServePlan;
+    monthly: number;
+    annual: number;
+    pages: number;
+    users: number;
+    available: Record<BillingInterval, boolean>;
+  }[];
+}
+
+/**
+ * Credit packs and plans for the purchase UI - a pack or interval without a configured
+ * Stripe price is listed but not available
+ */
+export function getBillingCatalog(): BillingCatalog {
+  return {
+    creditPacks: (Object.keys(ONE_TIME_PRICING) as OneTimePlan[]).map(pack => ({
+      pack,
+      price: ONE_TIME_PRICING[pack].price,
+      pages: ONE_TIME_PRICING[pack].pages,
+      available: !!STRIPE_PRICE_IDS[`one_time_${pack}`],
+    })),
+    plans: SELF_SERVE_PLANS.map(plan => ({
+      plan,
+      monthly: SUBSCRIPTION_PRICING[plan].monthly,
+      annual: SUBSCRIPTION_PRICING[plan].annual,
+      pages: SUBSCRIPTION_PRICING[plan].pages,
+      users: SUBSCRIPTION_PRICING[plan].users,
+      available: {
+        monthly: !!STRIPE_PRICE_IDS[`${plan}_monthly`],
+        annual: !!STRIPE_PRICE_IDS[`${plan}_annual`],
+      },
+    })),
+  };
+}
+
+/**
+ * Whether the user has a Stripe customer (and so can open the billing portal)
+ */
+export async function hasBillingAccount(userId: string): Promise<boolean> {
+  const user = await getBillingUser(userId);
+  return !!user.stripe_customer_id;
+}
+
+// =====================================================
+// Group Billing
+// =====================================================
+
+// Group plans that can be bought without talking to sales (enterprise is negotiated)
+export const SELF_SERVE_GROUP_PLANS = ['professional', 'business'] as const;
+export type SelfServeGroupPlan = typeof SELF_SERVE_GROUP_PLANS[number];
+
+export interface GroupCheckoutPurchase {
+  plan: SelfServeGroupPlan;
+  interval: BillingInterval;
+  extraSeats: number;
+}
+
+interface BillingGroup {
+  id: string;
+  name: string;
+  owner_id: string;
+  subscription_type: GroupSubscriptionType;
+  subscription_status: GroupSubscriptionStatus;
+  credits: number;
+  max_members: number;
+  extra_seats: number;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+}
+
+export interface GroupBillingInfo {
+  groupId: string;
+  groupName: string;
+  subscriptionType: GroupSubscriptionType;
+  subscriptionStatus: GroupSubscriptionStatus;
+  credits: number;
+  activeMembers: number;
+  maxMembers: number;
+  extraSeats: number;
+  hasBillingAccount: boolean;
+  hasSubscription: boolean;
+  seatPrice: { monthly: number; annual: number; maxExtraSeats: number; available: Record<BillingInterval, boolean> };
+  plans: {
+    plan: SelfServeGroupPlan;
+    monthly: number;
+    annual: number;
+    pages: number;
+    seats: number;
+    available: Record<BillingInterval, boolean>;
+  }[];
+}
+
+/**
+ * The active group the user owns - only owners manage group billing
+ */
+async function getOwnedGroup(userId: string): Promise<BillingGroup> {
+  const { data, error } = await supabase
+    .from('user_groups')
+    .select('id, name, owner_id, subscription_type, subscription_status, credits, max_members, extra_seats, stripe_customer_id, stripe_subscription_id')
+    .eq('owner_id', userId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new BillingError('Only group owners can manage group billing', 403);
+  }
+
+  return data as BillingGroup;
+}
+
+async function countActiveMembers(groupId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('group_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('group_id', groupId)
+    .eq('is_active', true);
+
+  if (error) {
+    throw error;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Stripe customer for the group, created and linked on its first purchase
+ */
+async function getOrCreateGroupStripeCustomer(group: BillingGroup, owner: BillingUser): Promise<string> {
+  if (group.stripe_customer_id) {
+    return group.stripe_customer_id;
+  }
+
+  const customer = await stripeRequest<{ id: string }>(
+    'POST',
+    '/v1/customers',
+    { email: owner.email, name: group.name, metadata: { group_id: group.id, owner_id: owner.id } },
+    `group-customer-${group.id}`
+  );
+
+  const { error } = await supabase
+    .from('user_groups')
+    .update({ stripe_customer_id: customer.id, updated_at: new Date().toISOString() })
+    .eq('id', group.id);
+
+  if (error) {
+    console.error(`[Billing] Failed to link Stripe customer ${customer.id} to group ${group.id}:`, error);
+  }
+
+  return customer.id;
+}
+
+/**
+ * Group plan, seats and purchase options for the owner's billing UI
+ *
+ * @throws BillingError (403) when the user does not own an active group
+ */
+export async function getGroupBillingInfo(userId: string): Promise<GroupBillingInfo> {
+  const group = await getOwnedGroup(userId);
+  const activeMembers = await countActiveMembers(group.id);
+
+  return {
+    groupId: group.id,
+    groupName: group.name,
+    subscriptionType: group.subscription_type,
+    subscriptionStatus: group.subscription_status,
+    credits: group.credits,
+    activeMembers,
+    maxMembers: group.max_members,
+    extraSeats: group.extra_seats,
+    hasBillingAccount: !!group.stripe_customer_id,
+    hasSubscription: !!group.stripe_subscription_id,
+    seatPrice: {
+      ...GROUP_SEAT_PRICING,
+      available: {
+        monthly: !!STRIPE_PRICE_IDS.group_seat_monthly,
+        annual: !!STRIPE_PRICE_IDS.group_seat_annual,
+      },
+    },
+    plans: SELF_SERVE_GROUP_PLANS.map(plan => ({
+      plan,
+      monthly: GROUP_PRICING[plan].monthly,
+      annual: GROUP_PRICING[plan].annual,
+      pages: GROUP_PRICING[plan].pages,
+      seats: GROUP_PRICING[plan].maxMembers,
+      available: {
+        monthly: !!STRIPE_PRICE_IDS[`${plan}_monthly`],
+        annual: !!STRIPE_PRICE_IDS[`${plan}_annual`],
+      },
+    })),
+  };
+}
+
+/**
+ * Start or change the group subscription: a Checkout Session for the plan plus the seat
+ * add-on, or an in-place update (prorated) of the group's existing subscription
+ * Seats can only be reduced down to the group's active members
+ *
+ * @param userId - Group owner
+ * @param purchase - Plan, billing interval and extra seats beyond the plan's members
+ * @param returnUrl - Page Checkout returns to; ?checkout=success|cancelled is appended
+ * @throws BillingError when the user does not own a group, a price is missing or the seats are too few
+ * @throws StripeApiError when Stripe rejects a request
+ *
+ * @example
+ * await createGroupCheckout(ownerId, { plan: 'business', interval: 'monthly', extraSeats: 2 }, returnUrl);
+ * // business_monthly: 10 plan seats + 2 add-on seats = 12 members
+ */
+export async function createGroupCheckout(
+  userId: string,
+  purchase: GroupCheckoutPurchase,
+  returnUrl: string
+): Promise<CheckoutResult> {
+  const planType = `${purchase.plan}_${purchase.interval}` as const;
+  const priceId = STRIPE_PRICE_IDS[planType];
+  const seatPriceId = STRIPE_PRICE_IDS[`group_seat_${purchase.interval}`];
+
+  if (!priceId) {
+    throw new BillingError(`The ${planType} group plan is not available for purchase yet`, 503);
+  }
+  if (purchase.extraSeats > 0 && !seatPriceId) {
+    throw new BillingError('Extra seats are not available for purchase yet', 503);
+  }
+
+  const group = await getOwnedGroup(userId);
+  const seats = GROUP_MAX_MEMBERS[planType] + purchase.extraSeats;
+  const activeMembers = await countActiveMembers(group.id);
+
+  if (seats < activeMembers) {
+    throw new BillingError(
+      `The group has ${activeMembers} members but ${planType} with ${purchase.extraSeats} extra seats allows ${seats} - remove members first`,
+      409
+    );
+  }
+
+  const metadata = {
+    billing_scope: 'group',
+    group_id: group.id,
+    plan_type: planType,
+    extra_seats: purchase.extraSeats,
+    credits: GROUP_SUBSCRIPTION_CREDITS[planType],
+  };
+
+  const subscription = await getSwitchableSubscription(group);
+
+  if (subscription) {
+    const seatPriceIds = [STRIPE_PRICE_IDS.group_seat_monthly, STRIPE_PRICE_IDS.group_seat_annual].filter(Boolean);
+    const seatItem = subscription.items.data.find(item => seatPriceIds.includes(item.price.id));
+    const planItem = subscription.items.data.find(item => item !== seatItem);
+    const currentSeats = seatItem?.quantity ?? 0;
+
+    if (planItem?.price.id === priceId && currentSeats === purchase.extraSeats && (!seatItem || seatItem.price.id === seatPriceId)) {
+      throw new BillingError(`The group is already on ${planType} with ${purchase.extraSeats} extra seats`, 409);
+    }
+
+    const items: StripeParams[] = [{ id: planItem?.id, price: priceId }];
+    if (purchase.extraSeats > 0) {
+      items.push({ id: seatItem?.id, price: seatPriceId, quantity: purchase.extraSeats });
+    } else if (seatItem) {
+      items.push({ id: seatItem.id, deleted: true });
+    }
+
+    await stripeRequest<StripeSubscription>('POST', `/v1/subscriptions/${subscription.id}`, {
+      items,
+      proration_behavior: 'create_prorations',
+      metadata,
+    });
+
+    console.log(`[Billing] Updated subscription ${subscription.id} of group ${group.id} to ${planType} + ${purchase.extraSeats} seats`);
+    return { url: null, sessionId: null, planType, switched: true };
+  }
+
+  const owner = await getBillingUser(userId);
+  const customerId = await getOrCreateGroupStripeCustomer(group, owner);
+  const separator = returnUrl.includes('?') ? '&' : '?';
+
+  const session = await stripeRequest<StripeCheckoutSession>('POST', '/v1/checkout/sessions', {
+    mode: 'subscription',
+    customer: customerId,
+    client_reference_id: owner.id,
+    line_items: [
+      { price: priceId, quantity: 1 },
+      ...(purchase.extraSeats > 0 ? [{ price: seatPriceId, quantity: purchase.extraSeats }] : []),
+    ],
+    metadata,
+    subscription_data: { metadata },
+    allow_promotion_codes: true,
+    success_url: `${returnUrl}${separator}checkout=success&session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${returnUrl}${separator}checkout=cancelled`,
+  });
+
+  console.log(`[Billing] Created checkout session ${session.id} for group ${group.id}: ${planType} + ${purchase.extraSeats} seats`);
+  return { url: session.url, sessionId: session.id, planType, switched: false };
+}
+
+/**
+ * Customer Portal session for the group's payment methods, invoices and cancellation
+ *
+ * @throws BillingError when the user does not own a group or the group has no billing account yet
+ */
+export async function createGroupBillingPortalSession(userId: string, returnUrl: string): Promise<string> {
+  const group = await getOwnedGroup(userId);
+
+  if (!group.stripe_customer_id) {
+    throw new BillingError('The group has no billing account yet - subscribe to a group plan first', 400);
+  }
+
+  const session = await stripeRequest<StripePortalSession>('POST', '/v1/billing_portal/sessions', {
+    customer: group.stripe_customer_id,
+    return_url: returnUrl,
+  });
+
+  return session.url;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getFieldCitation, getRowConfidence, isLowConfidence } from './confidence';
+
+describe('getFieldCitation', () => {
+  const citations = {
+    'tenants.3': { page: 4 },
+    'summary.totalRent': { page: 6, snippet: 'Total Monthly Rent  $81,200.00' }
+  };
+
+  it("falls back to the row's citation for a cell", () => {
+    expect(getFieldCitation(citations, 'tenants.3.baseRent')).toEqual({ page: 4 });
+    expect(getFieldCitation(citations, 'tenants.3')).toEqual({ page: 4 });
+  });
+
+  it('returns the citation of a value outside tables', () => {
+    expect(getFieldCitation(citations, 'summary.totalRent')?.page).toBe(6);
+  });
+
+  it('is undefined for uncited paths', () => {
+    expect(getFieldCitation(citations, 'tenants.4.baseRent')).toBeUndefined();
+    expect(getFieldCitation(citations, 'summary.occupancyRate')).toBeUndefined();
+    expect(getFieldCitation(undefined, 'tenants.3')).toBeUndefined();
+  });
+});
+
+describe('row and cell confidence', () => {
+  const fieldConfidence = { 'tenants.0': 0.95, 'tenants.1.baseRent': 0.6, 'tenants.1.leaseEnd': 0.8 };
+
+  it("uses the row's own score, or its weakest scored cell", () => {
+    expect(getRowConfidence(fieldConfidence, 'tenants.0')).toBe(0.95);
+    expect(getRowConfidence(fieldConfidence, 'tenants.1')).toBe(0.6);
+    expect(getRowConfidence(fieldConfidence, 'tenants.2')).toBeUndefined();
+  });
+
+  it('does not flag unscored cells', () => {
+    expect(isLowConfidence(fieldConfidence, 'tenants.1.baseRent')).toBe(true);
+    expect(isLowConfidence(fieldConfidence, 'tenants.0.baseRent')).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Field-Level Confidence
+ *
+ * Claude returns a confidence (0-1) for every table row and every value outside tables, and
+ * for cells inside a row only when they are doubtful, keyed by the same dot-notation paths as
+ * citations ("tenants.3.baseRent" for a cell, "tenants.3" for a row). These helpers normalize,
+ * aggregate and rank those scores for highlighting in the UI, shading in exports and ordering
+ * the review queue, and resolve a field's citation.
+ */
+
+import type { ExtractedData, DocumentPackageData, FieldCitation } from './types';
+
+/**
+ * Fields and rows scored below this are highlighted for review
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Aggregate scores never reach 1 - a human still has to verify the extraction
+ */
+const MAX_AGGREGATE_CONFIDENCE = 0.95;
+
+export interface LowConfidenceField {
+  path: string;
+  confidence: number;
+}
+
+/**
+ * Keep only numeric confidences, clamped to 0-1
+ * Accepts percentages (e.g. 85) in case Claude ignores the 0-1 scale
+ */
+export function normalizeFieldConfidence(rawConfidence: unknown): Record<string, number> {
+  const confidence: Record<string, number> = {};
+  if (!rawConfidence || typeof rawConfidence !== 'object') return confidence;
+
+  for (const [path, value] of Object.entries(rawConfidence as Record<string, unknown>)) {
+    let score = typeof value === 'string' ? parseFloat(value) : Number(value);
+    if (!Number.isFinite(score) || score < 0) continue;
+    if (score > 1 && score <= 100) score = score / 100;
+
+    confidence[path] = Math.round(Math.min(score, 1) * 1000) / 1000;
+  }
+
+  return confidence;
+}
+
+/**
+ * Collect field confidences for an extraction, prefixing document package segments
+ * with "segments.N.extractedData." so paths stay unique across the package
+ */
+export function collectFieldConfidence(extractedData: ExtractedData): Record<string, number> {
+  if (extractedData.documentType !== 'document_package') {
+    return extractedData.fieldConfidence || {};
+  }
+
+  const collected: Record<string, number> = {};
+  const segments = (extractedData.data as DocumentPackageData)?.segments || [];
+  segments.forEach((segment, index) => {
+    Object.entries(segment.extractedData?.fieldConfidence || {}).forEach(([path, score]) => {
+      collected[`segments.${index}.extractedData.${path}`] = score;
+    });
+  });
+  return collected;
+}
+
+/**
+ * Check whether a path scored below the review threshold
+ * Paths without a score are not flagged
+ */
+export function isLowConfidence(fieldConfidence: Record<string, number> | undefined, path: string): boolean {
+  const score = fieldConfidence?.[path];
+  return score !== undefined && score < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Confidence for a table row - the row's own score, or its weakest cell when Claude only scored cells
+ * @param fieldConfidence - Field confidence map
+ * @param rowPath - Row path, e.g. "tenants.3"
+ * @returns Row confidence, or undefined when nothing in the row was scored
+ */
+export function getRowConfidence(fieldConfidence: Record<string, number> | undefined, rowPath: string): number | undefined {
+  if (!fieldConfidence) return undefined;
+  if (fieldConfidence[rowPath] !== undefined) return fieldConfidence[rowPath];
+
+  const prefix = `${rowPath}.`;
+  const cellScores = Object.entries(fieldConfidence)
+    .filter(([path]) => path.startsWith(prefix))
+    .map(([, score]) => score);
+  return cellScores.length > 0 ? Math.min(...cellScores) : undefined;
+}
+
+/**
+ * List every field and row below the review threshold, least confident first
+ */
+export function getLowConfidenceFields(extractedData: ExtractedData): LowConfidenceField[] {
+  return Object.entries(collectFieldConfidence(extractedData))
+    .filter(([, confidence]) => confidence < LOW_CONFIDENCE_THRESHOLD)
+    .map(([path, confidence]) => ({ path, confidence }))
+    .sort((a, b) => a.confidence - b.confidence || a.path.localeCompare(b.path));
+}
+
+/**
+ * Lowest field confidence in an extraction - used to put the weakest documents first in review
+ * @returns Lowest score, or null when the extraction has no field confidences
+ */
+export function getMinimumConfidence(extractedData: ExtractedData | null | undefined): number | null {
+  if (!extractedData) return null;
+  const scores = Object.values(collectFieldConfidence(extractedData));
+  return scores.length > 0 ? Math.min(...scores) : null;
+}
+
+/**
+ * Aggregate field confidences into one document score (mean, capped below certainty)
+ * @returns Aggregate score, or null when the extraction has no field confidences
+ */
+export function summarizeFieldConfidence(extractedData: ExtractedData): number | null {
+  const scores = Object.values(collectFieldConfidence(extractedData));
+  if (scores.length === 0) return null;
+
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  return Math.min(Math.round(mean * 1000) / 1000, MAX_AGGREGATE_CONFIDENCE);
+}
+
+/**
+ * Citation for a field - its own, or its table row's when Claude cited the row only
+ *
+ * @example
+ * getFieldCitation({ 'tenants.3': { page: 4 } }, 'tenants.3.baseRent') // { page: 4 }
+ */
+export function getFieldCitation(citations: Record<string, FieldCitation> | undefined, path: string): FieldCitation | undefined {
+  if (!citations) return undefined;
+  if (citations[path]) return citations[path];
+
+  const rowPath = path.match(/^(.*\.\d+)\.[^.]+$/)?.[1];
+  return rowPath ? citations[rowPath] : undefined;
+}
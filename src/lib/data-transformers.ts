@@ -10,6 +10,8 @@ import type {
   BrokerLeaseComparablesData,
   OfferingMemoData,
   FinancialStatementsData,
+  DocumentPackageData,
+  DocumentSegment,
   ExtractedData
 } from './types';
 
@@ -172,6 +174,22 @@ export function transformFinancialStatements(rawData: any): FinancialStatementsD
   };
 }
 
+/**
+ * Transform DocumentPackageData by transforming each segment with its own document type
+ */
+export function transformDocumentPackage(rawData: unknown): DocumentPackageData {
+  const packageData = (rawData ?? {}) as Partial<DocumentPackageData>;
+  const segments = Array.isArray(packageData.segments) ? packageData.segments : [];
+
+  return {
+    totalPages: packageData.totalPages || 0,
+    segments: segments.map((segment: DocumentSegment) => ({
+      ...segment,
+      extractedData: transformExtractedData(segment.extractedData)
+    }))
+  };
+}
+
 /**
  * Main transformer - routes to appropriate transformer based on document type
  */
@@ -196,6 +214,10 @@ export function transformExtractedData(extractedData: ExtractedData): ExtractedD
         transformedData = transformFinancialStatements(extractedData.data);
         break;
 
+      case 'document_package':
+        transformedData = transformDocumentPackage(extractedData.data);
+        break;
+
       // Other document types don't need transformation yet
       default:
         transformedData = extractedData.data;
@@ -0,0 +1,90 @@
+/**
+ * Document Downloads
+ *
+ * Saved documents (user_documents) can be downloaded as the stored JSON or re-exported with
+ * the current export engine. Downloads are counted per format in download_counts next to the
+ * download_count total (record_document_download, migration 028).
+ */
+
+import { supabaseAdmin as supabase } from './supabase';
+import type { ExportFormat } from './types';
+
+// 'raw' is the stored extraction JSON from /api/user/documents/[id]/download
+export type DocumentDownloadFormat = 'raw' | ExportFormat;
+
+export interface SavedDocument {
+  id: string;
+  file_name: string;
+  document_type: string;
+  processing_status: string;
+  created_at: string;
+  extracted_data: Record<string, unknown> | null;
+}
+
+/**
+ * Get a saved document owned by the user, null when it does not exist or belongs to someone else
+ */
+export async function getUserDocument(userId: string, documentId: string): Promise<SavedDocument | null> {
+  const { data, error } = await supabase
+    .from('user_documents')
+    .select('id, file_name, document_type, processing_status, created_at, extracted_data')
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data as SavedDocument;
+}
+
+/**
+ * Stored extraction with the system metadata the export engine requires
+ * Older extractions were saved before some metadata fields existed - they are filled from the
+ * document row and the downloading user, values already stored are kept
+ *
+ * @example
+ * const extractedData = withSavedDocumentMetadata(document, { name: 'Jane', email: 'jane@example.com' });
+ * // extractedData.metadata.pdfFileName === document.file_name
+ */
+export function withSavedDocumentMetadata(
+  document: SavedDocument,
+  user: { name: string; email: string }
+): Record<string, unknown> {
+  const stored = document.extracted_data || {};
+  const metadata = (stored.metadata && typeof stored.metadata === 'object' ? stored.metadata : {}) as Record<string, unknown>;
+  const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+  const fallbacks: Record<string, unknown> = {
+    extractedDate: document.created_at.split('T')[0],
+    pdfFileName: document.file_name,
+    rexeliUserName: user.name,
+    rexeliUserEmail: user.email,
+    extractionTimestamp: document.created_at,
+    documentId: document.id
+  };
+
+  return {
+    ...stored,
+    documentType: stored.documentType || document.document_type,
+    metadata: {
+      ...metadata,
+      ...Object.fromEntries(Object.entries(fallbacks).filter(([key]) => isMissing(metadata[key])))
+    }
+  };
+}
+
+/**
+ * Count a download of a saved document in the given format
+ * Never throws - counter updates must not fail the download
+ */
+export async function recordDocumentDownload(documentId: string, format: DocumentDownloadFormat): Promise<void> {
+  const { error } = await supabase.rpc('record_document_download', {
+    p_document_id: documentId,
+    p_format: format
+  });
+
+  if (error) {
+    console.error(`[Document Downloads] Failed to record ${format} download for document ${documentId}:`, error);
+  }
+}
@@ -0,0 +1,1261 @@
+/**
+ * Document Export
+ *
+ * Export engine behind /api/export: the formatted Excel workbook per document type (with
+ * validation, raw data and print layout), its ODS / Google Sheets variants, underwriting
+ * and uploaded workbook templates, and the CSV / JSON / Parquet data exports. Used for fresh
+ * extractions and to re-export saved documents with the current layouts.
+ */
+
+import ExcelJS from 'exceljs';
+import type {
+  ExtractedData,
+  RentRollData,
+  BrokerSalesComparablesData,
+  BrokerLeaseComparablesData,
+  BrokerListingData,
+  OfferingMemoData,
+  LeaseData,
+  DocumentPackageData,
+  ComparableData,
+  FinancialData,
+  ReconciliationResult,
+  ExcelExportOptions,
+  ExportTemplate
+} from './types';
+import type { ExportRequestInput } from './validation';
+import { RECONCILIATION_TOLERANCE, reconcileExtractedData } from './reconciliation';
+import { buildFinancialModel, evaluateFinancialModel, type ModelCalculation, type ModelLineFormat } from './financial-model';
+import { getChartSeries, getChartSize, renderBarChartPng } from './export-charts';
+import { generateDataExport, isDataExportFormat } from './export-formats';
+import { ODS_CONTENT_TYPE, writeOdsBuffer } from './ods-export';
+import { camelCaseToTitleCase, flattenObject, getTableColumns, type ExportTable, type TableColumnOptions } from './export-tables';
+import { buildTemplateTable, getExportTemplate } from './export-templates';
+import { downloadWorkbookTemplateFile, fillWorkbookTemplate, getWorkbookTemplate } from './workbook-templates';
+import { LOW_CONFIDENCE_THRESHOLD, getRowConfidence } from './confidence';
+import { TENANT_CONCENTRATION_THRESHOLD, getRentRollAnalytics, type RentRollAnalytics } from './rent-roll-analytics';
+import {
+  COLORS,
+  applySheetsCompatibleProfile,
+  freezeRows,
+  setColumnWidths,
+  shadeLowConfidenceCell,
+  styleDataRow,
+  styleHeaderRow,
+  styleInputCell,
+  styleKeyValueRow,
+  styleSectionHeader,
+  styleTitleRow,
+  toUniqueSheetName
+} from './excel-styles';
+
+// Validated `options` of an export request
+export type DocumentExportOptions = NonNullable<ExportRequestInput['options']>;
+
+export interface DocumentExportFile {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Export request that cannot be served (missing template, wrong document type, not signed in)
+ * `status` is the HTTP status the API route should answer with
+ */
+export class DocumentExportError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'DocumentExportError';
+  }
+}
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Generate the export file for an extraction
+ *
+ * @param extractedData - Validated extraction result
+ * @param options - Format, profile, template and content options
+ * @param userId - Signed-in user, required only for templates (they are looked up per user/group)
+ * @param baseName - File name without extension, defaults to RExeli_<documentType>_<timestamp>
+ * @throws DocumentExportError when a requested template cannot be used
+ *
+ * @example
+ * const file = await generateDocumentExport(extractedData, { format: 'ods' }, null);
+ * // { buffer, contentType: 'application/vnd.oasis.opendocument.spreadsheet', filename: 'RExeli_rent_roll_2026-10-19T12-00-00.ods' }
+ */
+export async function generateDocumentExport(
+  extractedData: ExtractedData,
+  options: DocumentExportOptions,
+  userId: string | null,
+  baseName?: string
+): Promise<DocumentExportFile> {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+
+  // Uploaded workbook templates are filled in place - their formulas and formatting are kept
+  if (options.workbookTemplateId) {
+    if (!userId) throw new DocumentExportError('Unauthorized', 401);
+
+    const workbookTemplate = await getWorkbookTemplate(options.workbookTemplateId, userId);
+    if (!workbookTemplate) throw new DocumentExportError('Workbook template not found', 404);
+
+    if (workbookTemplate.document_type && workbookTemplate.document_type !== extractedData.documentType) {
+      throw new DocumentExportError(
+        `Workbook template "${workbookTemplate.name}" is for ${workbookTemplate.document_type} documents, not ${extractedData.documentType}`,
+        400
+      );
+    }
+
+    console.log(`Filling workbook template "${workbookTemplate.name}" (${workbookTemplate.id})`);
+    const templateFile = await downloadWorkbookTemplateFile(workbookTemplate.storage_path);
+    const filled = await fillWorkbookTemplate(templateFile, workbookTemplate.bindings, extractedData);
+    const templateBaseName = baseName || `${workbookTemplate.file_name.replace(/\.xlsx$/i, '').replace(/[^\w.-]+/g, '_')}_${timestamp}`;
+    if (options.format !== 'ods' && options.profile !== 'sheets') {
+      return { buffer: filled, contentType: XLSX_CONTENT_TYPE, filename: `${templateBaseName}.xlsx` };
+    }
+
+    const filledWorkbook = new ExcelJS.Workbook();
+    await filledWorkbook.xlsx.load(filled as unknown as ExcelJS.Buffer);
+    return createWorkbookFile(filledWorkbook, options, templateBaseName);
+  }
+
+  // Underwriting templates replace the standard layout with the template's import sheet
+  if (options.templateId) {
+    if (!userId) throw new DocumentExportError('Unauthorized', 401);
+
+    const template = await getExportTemplate(options.templateId, userId);
+    if (!template) throw new DocumentExportError('Export template not found', 404);
+
+    console.log(`Exporting with template "${template.name}" (${template.id})`);
+    const table = buildTemplateTable(template, extractedData);
+    const templateBaseName = baseName || `RExeli_${template.target_system}_${timestamp}`;
+
+    if (isDataExportFormat(options.format)) {
+      const file = await generateDataExport(extractedData, options.format, [table]);
+      return { buffer: file.buffer, contentType: file.contentType, filename: `${templateBaseName}.${file.extension}` };
+    }
+
+    const templateWorkbook = new ExcelJS.Workbook();
+    templateWorkbook.creator = 'RExeli V1';
+    templateWorkbook.created = new Date();
+    generateTemplateSheet(templateWorkbook, template, table);
+    return createWorkbookFile(templateWorkbook, options, templateBaseName);
+  }
+
+  const documentBaseName = baseName || `RExeli_${extractedData.documentType}_${timestamp}`;
+
+  // CSV / JSON / Parquet data exports skip the formatted workbook entirely
+  if (isDataExportFormat(options.format)) {
+    const file = await generateDataExport(extractedData, options.format);
+    return { buffer: file.buffer, contentType: file.contentType, filename: `${documentBaseName}.${file.extension}` };
+  }
+
+  // Create Excel workbook
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'RExeli V1';
+  workbook.created = new Date();
+
+  // Generate Excel based on document type
+  console.log(`Generating Excel for document type: ${extractedData.documentType}`);
+  await generateExcelByType(workbook, extractedData, options);
+
+  // Validation sheet - cross-checks are recomputed server-side from the exported data
+  const reconciliation = reconcileExtractedData(extractedData);
+  if (reconciliation.checksRun > 0) {
+    generateValidationSheet(workbook, reconciliation);
+  }
+
+  if (options.includeRawData) {
+    generateRawDataSheet(workbook, extractedData);
+  }
+
+  // Applied last so every sheet, including validation and raw data, prints the same way
+  if (options.formatForPrint) {
+    applyPrintLayout(workbook, extractedData);
+  }
+  console.log('Excel generation completed');
+
+  return createWorkbookFile(workbook, options, documentBaseName);
+}
+
+/**
+ * Write a generated workbook: .ods for LibreOffice, otherwise .xlsx with the
+ * sheets-compatible profile applied when requested
+ */
+async function createWorkbookFile(
+  workbook: ExcelJS.Workbook,
+  options: Partial<ExcelExportOptions>,
+  baseName: string
+): Promise<DocumentExportFile> {
+  if (options.format === 'ods') {
+    const buffer = await writeOdsBuffer(workbook);
+    console.log(`ODS buffer generated: ${buffer.byteLength} bytes`);
+    return { buffer, contentType: ODS_CONTENT_TYPE, filename: `${baseName}.ods` };
+  }
+
+  if (options.profile === 'sheets') {
+    applySheetsCompatibleProfile(workbook);
+  }
+
+  const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+  console.log(`Excel buffer generated: ${buffer.byteLength} bytes`);
+  return { buffer, contentType: XLSX_CONTENT_TYPE, filename: `${baseName}.xlsx` };
+}
+
+// ============================================================================
+// DYNAMIC EXCEL EXPORT HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Generate dynamic Excel sheet from array of objects
+ * Automatically detects all fields and creates columns for each
+ * Now with professional styling
+ */
+function generateDynamicArraySheet(
+  sheet: ExcelJS.Worksheet,
+  data: object[],
+  options: TableColumnOptions & {
+    sheetTitle?: string;
+    fieldConfidence?: Record<string, number>;
+    confidencePath?: string; // Path of the array within `data`, e.g. "tenants"
+  } = {}
+): void {
+  if (!data || data.length === 0) {
+    const noDataRow = sheet.addRow(['No data available']);
+    styleDataRow(noDataRow, false);
+    return;
+  }
+
+  // Same column discovery and ordering as the CSV/JSON/Parquet exports
+  const allFields = getTableColumns(data, options);
+
+  // Generate headers with Title Case
+  const headers = allFields.map(field => camelCaseToTitleCase(field));
+  const numColumns = headers.length;
+
+  let headerRowNumber = 1;
+
+  // Add optional title row with professional styling
+  if (options.sheetTitle) {
+    const titleRow = sheet.addRow([options.sheetTitle]);
+    styleTitleRow(titleRow, sheet, numColumns);
+    sheet.addRow([]); // Empty row for spacing
+    headerRowNumber = 3;
+  }
+
+  // Add header row with professional styling
+  const headerRow = sheet.addRow(headers);
+  styleHeaderRow(headerRow);
+
+  // Freeze the header row
+  freezeRows(sheet, headerRowNumber);
+
+  // Add data rows with alternating colors and borders
+  data.forEach((item, index) => {
+    const flatItem = flattenObject(item);
+    const rowValues = allFields.map(field => {
+      const value = flatItem[field];
+      return value !== undefined && value !== null ? value : 'N/A';
+    });
+    const dataRow = sheet.addRow(rowValues);
+    styleDataRow(dataRow, index % 2 === 1);
+
+    // Low-confidence rows get a light tint, low-confidence cells a stronger one
+    if (options.fieldConfidence && options.confidencePath) {
+      const rowPath = `${options.confidencePath}.${index}`;
+      const rowConfidence = getRowConfidence(options.fieldConfidence, rowPath);
+      if (rowConfidence !== undefined && rowConfidence < LOW_CONFIDENCE_THRESHOLD) {
+        dataRow.eachCell(cell => {
+          cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.amber50 } };
+        });
+      }
+      allFields.forEach((field, columnIndex) => {
+        shadeLowConfidenceCell(dataRow.getCell(columnIndex + 1), options.fieldConfidence, `${rowPath}.${field}`);
+      });
+    }
+  });
+
+  // Set consistent column widths based on header length
+  sheet.columns.forEach((column, index) => {
+    const headerLength = headers[index]?.length || 10;
+    column.width = Math.max(headerLength + 4, 18); // Minimum 18, or header length + padding
+  });
+}
+
+async function generateExcelByType(
+  workbook: ExcelJS.Workbook,
+  extractedData: ExtractedData,
+  options: Partial<ExcelExportOptions>
+) {
+  switch (extractedData.documentType) {
+    case 'rent_roll':
+      await generateRentRollExcel(workbook, extractedData, options);
+      break;
+    case 'operating_budget':
+      await generateOperatingBudgetExcel(workbook, extractedData);
+      break;
+    case 'broker_sales_comparables':
+      await generateBrokerSalesComparablesExcel(workbook, extractedData);
+      break;
+    case 'broker_lease_comparables':
+      await generateBrokerLeaseComparablesExcel(workbook, extractedData);
+      break;
+    case 'broker_listing':
+      await generateBrokerListingExcel(workbook, extractedData);
+      break;
+    case 'offering_memo':
+      await generateOfferingMemoExcel(workbook, extractedData);
+      break;
+    case 'lease_agreement':
+      await generateLeaseExcel(workbook, extractedData);
+      break;
+    case 'financial_statements':
+      await generateFinancialStatementsExcel(workbook, extractedData);
+      break;
+    case 'document_package':
+      await generateDocumentPackageExcel(workbook, extractedData, options);
+      break;
+    // Legacy cases for backward compatibility
+    case 'comparable_sales':
+      await generateComparableExcel(workbook, extractedData);
+      break;
+    case 'financial_statement':
+      await generateFinancialExcel(workbook, extractedData);
+      break;
+    default:
+      // Handle unknown document types with generic export
+      await generateGenericExcel(workbook, extractedData);
+  }
+
+  // Document packages get charts per segment (through the recursive call above)
+  if (options.includeCharts) {
+    await generateChartsSheet(workbook, extractedData);
+  }
+}
+
+async function generateRentRollExcel(workbook: ExcelJS.Workbook, data: ExtractedData, options: Partial<ExcelExportOptions>) {
+  const rentRollData = data.data as RentRollData;
+
+  // Summary Sheet with professional styling
+  const summarySheet = workbook.addWorksheet('Summary');
+  setColumnWidths(summarySheet, [35, 30]);
+
+  // Property Summary Title
+  const titleRow = summarySheet.addRow(['Property Summary']);
+  styleTitleRow(titleRow, summarySheet, 2);
+
+  // Metadata rows
+  if (data.metadata) {
+    const metadataFlat = flattenObject(data.metadata);
+    Object.entries(metadataFlat).forEach(([key, value]) => {
+      const row = summarySheet.addRow([camelCaseToTitleCase(key), value]);
+      styleKeyValueRow(row);
+    });
+  }
+  summarySheet.addRow([]);
+
+  // Financial Summary Section
+  const financialTitleRow = summarySheet.addRow(['Financial Summary']);
+  styleSectionHeader(financialTitleRow, summarySheet, 2);
+
+  if (rentRollData.summary) {
+    const summaryFlat = flattenObject(rentRollData.summary);
+    Object.entries(summaryFlat).forEach(([key, value]) => {
+      const row = summarySheet.addRow([camelCaseToTitleCase(key), value]);
+      styleKeyValueRow(row);
+      shadeLowConfidenceCell(row.getCell(2), data.fieldConfidence, `summary.${key}`);
+    });
+  }
+
+  // Rent Roll Detail Sheet - Use dynamic generation with styling
+  const detailSheet = workbook.addWorksheet('Rent Roll Details');
+  generateDynamicArraySheet(detailSheet, rentRollData.tenants, {
+    sheetTitle: 'Rent Roll - All Tenant Fields',
+    fieldConfidence: data.fieldConfidence,
+    confidencePath: 'tenants'
+  });
+
+  const analytics = getRentRollAnalytics(data, { marketRentPsf: options.marketRentPsf });
+  if (analytics) {
+    generateRentRollAnalyticsSheet(workbook, analytics);
+  }
+}
+
+/**
+ * Rent Roll Analytics sheet - expiration schedule, WALT, tenant concentration, mark-to-market
+ */
+function generateRentRollAnalyticsSheet(workbook: ExcelJS.Workbook, analytics: RentRollAnalytics) {
+  const sheet = workbook.addWorksheet('Rent Roll Analytics');
+  setColumnWidths(sheet, [32, 14, 16, 14, 20, 14, 18]);
+
+  const titleRow = sheet.addRow(['Rent Roll Analytics']);
+  styleTitleRow(titleRow, sheet, 7);
+
+  const keyFigures: [string, number | string | null, string?][] = [
+    ['As Of', analytics.asOfDate],
+    ['Occupied Leases', analytics.leaseCount],
+    ['Total SF', analytics.totalSquareFeet, '#,##0'],
+    ['Vacant SF', analytics.vacantSquareFeet, '#,##0'],
+    ['Annual Base Rent', analytics.annualRent, '$#,##0'],
+    ['WALT by Rent (years)', analytics.waltByRent, '0.00'],
+    ['WALT by SF (years)', analytics.waltBySquareFeet, '0.00'],
+    ['Top 5 Tenants % of Rent', analytics.topFiveShareOfRent, '0.0%']
+  ];
+  keyFigures.forEach(([label, value, numFmt]) => {
+    const row = sheet.addRow([label, value ?? 'N/A']);
+    if (numFmt && value !== null) row.getCell(2).numFmt = numFmt;
+    styleKeyValueRow(row);
+  });
+  sheet.addRow([]);
+
+  // Lease Expiration Schedule
+  styleSectionHeader(sheet.addRow(['Lease Expiration Schedule']), sheet, 7);
+  styleHeaderRow(sheet.addRow(['Year', 'Leases', 'SF Expiring', '% of GLA', 'Annual Rent', '% of Rent', 'Cumulative % of Rent']));
+  analytics.expirationSchedule.forEach((expiration, index) => {
+    const row = sheet.addRow([
+      expiration.year === null ? 'No end date / MTM' : String(expiration.year),
+      expiration.leaseCount,
+      expiration.squareFeet,
+      expiration.percentOfGla ?? 'N/A',
+      expiration.annualRent,
+      expiration.percentOfRent ?? 'N/A',
+      expiration.cumulativePercentOfRent ?? 'N/A'
+    ]);
+    row.getCell(3).numFmt = '#,##0';
+    row.getCell(4).numFmt = '0.0%';
+    row.getCell(5).numFmt = '$#,##0';
+    row.getCell(6).numFmt = '0.0%';
+    row.getCell(7).numFmt = '0.0%';
+    styleDataRow(row, index % 2 === 1);
+  });
+  sheet.addRow([]);
+
+  // Tenant Concentration - tenants at or above the threshold are flagged
+  styleSectionHeader(sheet.addRow(['Tenant Concentration']), sheet, 7);
+  styleHeaderRow(sheet.addRow(['Tenant', 'Suites', 'SF', '% of GLA', 'Annual Rent', '% of Rent', 'Flag']));
+  analytics.concentration.forEach((tenant, index) => {
+    const row = sheet.addRow([
+      tenant.tenantName,
+      tenant.leaseCount,
+      tenant.squareFeet,
+      tenant.percentOfGla ?? 'N/A',
+      tenant.annualRent,
+      tenant.percentOfRent ?? 'N/A',
+      tenant.isConcentrated ? `>= ${Math.round(TENANT_CONCENTRATION_THRESHOLD * 100)}% of rent` : ''
+    ]);
+    row.getCell(3).numFmt = '#,##0';
+    row.getCell(4).numFmt = '0.0%';
+    row.getCell(5).numFmt = '$#,##0';
+    row.getCell(6).numFmt = '0.0%';
+    styleDataRow(row, index % 2 === 1);
+    if (tenant.isConcentrated) {
+      row.getCell(7).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.amber200 } };
+    }
+  });
+
+  // Mark-to-Market - only when a market rent was supplied
+  const markToMarket = analytics.markToMarket;
+  if (!markToMarket) return;
+
+  sheet.addRow([]);
+  styleSectionHeader(sheet.addRow([`Mark-to-Market at $${markToMarket.marketRentPsf.toFixed(2)}/SF/yr`]), sheet, 7);
+  const totals: [string, number | null, string][] = [
+    ['In-Place Rent ($/SF/yr)', markToMarket.inPlaceRentPsf, '$#,##0.00'],
+    ['Annual In-Place Rent', markToMarket.annualInPlaceRent, '$#,##0'],
+    ['Annual Market Rent', markToMarket.annualMarketRent, '$#,##0'],
+    ['Annual Difference', markToMarket.annualDifference, '$#,##0'],
+    ['% Below (+) / Above (-) Market', markToMarket.percentDifference, '0.0%']
+  ];
+  totals.forEach(([label, value, numFmt]) => {
+    const row = sheet.addRow([label, value ?? 'N/A']);
+    if (value !== null) row.getCell(2).numFmt = numFmt;
+    styleKeyValueRow(row);
+  });
+
+  styleHeaderRow(sheet.addRow(['Tenant', 'Suite', 'SF', 'In-Place $/SF', 'In-Place Rent', 'Market Rent', 'Difference']));
+  markToMarket.tenants.forEach((tenant, index) => {
+    const row = sheet.addRow([
+      tenant.tenantName,
+      tenant.suiteUnit,
+      tenant.squareFeet,
+      tenant.inPlaceRentPsf,
+      tenant.annualInPlaceRent,
+      tenant.annualMarketRent,
+      tenant.annualDifference
+    ]);
+    row.getCell(3).numFmt = '#,##0';
+    row.getCell(4).numFmt = '$#,##0.00';
+    row.getCell(5).numFmt = '$#,##0';
+    row.getCell(6).numFmt = '$#,##0';
+    row.getCell(7).numFmt = '$#,##0';
+    styleDataRow(row, index % 2 === 1);
+  });
+}
+
+async function generateOfferingMemoExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const offeringData = data.data as OfferingMemoData;
+  const sheet = workbook.addWorksheet('Offering Memo');
+  setColumnWidths(sheet, [35, 30]);
+
+  // Main Title
+  const titleRow = sheet.addRow(['Offering Memorandum']);
+  styleTitleRow(titleRow, sheet, 2);
+
+  // Use dynamic flattening for all sections
+  const allData = flattenObject(offeringData);
+
+  // Group sections if they exist
+  const sections = [
+    { name: 'Property Overview', prefix: 'propertyOverview' },
+    { name: 'Investment Highlights', prefix: 'investmentHighlights' },
+    { name: 'Market Overview', prefix: 'marketOverview' },
+    { name: 'Rent Roll Summary', prefix: 'rentRollSummary' },
+    { name: 'Operating Statement', prefix: 'operatingStatement' },
+    { name: 'Pricing Information', prefix: 'pricing' },
+    { name: 'Location Data', prefix: 'locationData' }
+  ];
+
+  sections.forEach(section => {
+    const sectionFields = Object.entries(allData).filter(([key]) => key.startsWith(section.prefix));
+    if (sectionFields.length > 0) {
+      sheet.addRow([]); // Spacing
+      const sectionRow = sheet.addRow([section.name]);
+      styleSectionHeader(sectionRow, sheet, 2);
+      sectionFields.forEach(([key, value]) => {
+        const displayKey = key.replace(section.prefix + '.', '');
+        const row = sheet.addRow([camelCaseToTitleCase(displayKey), value]);
+        styleKeyValueRow(row);
+      });
+    }
+  });
+
+  // Dynamic comparables if present - in separate sheet
+  if (offeringData.comparables && Array.isArray(offeringData.comparables) && offeringData.comparables.length > 0) {
+    const compSheet = workbook.addWorksheet('Comparables');
+    generateDynamicArraySheet(compSheet, offeringData.comparables, {
+      sheetTitle: 'Comparable Sales - All Fields',
+      fieldConfidence: data.fieldConfidence,
+      confidencePath: 'comparables'
+    });
+  }
+}
+
+async function generateLeaseExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const leaseData = data.data as LeaseData;
+  const sheet = workbook.addWorksheet('Lease Agreement');
+  setColumnWidths(sheet, [35, 35]);
+
+  // Main Title
+  const titleRow = sheet.addRow(['Lease Agreement']);
+  styleTitleRow(titleRow, sheet, 2);
+
+  // Use dynamic flattening for all sections
+  const allData = flattenObject(leaseData);
+
+  const sections = [
+    { name: 'Parties', prefix: 'parties' },
+    { name: 'Premises', prefix: 'premises' },
+    { name: 'Lease Term', prefix: 'leaseTerm' },
+    { name: 'Rent Schedule', prefix: 'rentSchedule' },
+    { name: 'Operating Expenses', prefix: 'operatingExpenses' },
+    { name: 'Maintenance Obligations', prefix: 'maintenanceObligations' }
+  ];
+
+  sections.forEach(section => {
+    const sectionFields = Object.entries(allData).filter(([key]) => key.startsWith(section.prefix));
+    if (sectionFields.length > 0) {
+      sheet.addRow([]); // Spacing
+      const sectionRow = sheet.addRow([section.name]);
+      styleSectionHeader(sectionRow, sheet, 2);
+      sectionFields.forEach(([key, value]) => {
+        const displayKey = key.replace(section.prefix + '.', '');
+        const row = sheet.addRow([camelCaseToTitleCase(displayKey), value]);
+        styleKeyValueRow(row);
+      });
+    }
+  });
+
+  // Handle other top-level fields not in sections
+  const topLevelFields = Object.entries(allData).filter(([key]) =>
+    !sections.some(s => key.startsWith(s.prefix))
+  );
+  if (topLevelFields.length > 0) {
+    sheet.addRow([]); // Spacing
+    const otherRow = sheet.addRow(['Other Terms']);
+    styleSectionHeader(otherRow, sheet, 2);
+    topLevelFields.forEach(([key, value]) => {
+      const row = sheet.addRow([camelCaseToTitleCase(key), value]);
+      styleKeyValueRow(row);
+    });
+  }
+}
+
+async function generateComparableExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const compData = data.data as ComparableData;
+
+  const sheet = workbook.addWorksheet('Comparable Sales');
+
+  // Title row
+  const titleRow = sheet.addRow(['Comparable Sales Analysis']);
+  styleTitleRow(titleRow, sheet, 7);
+  sheet.addRow([]); // Spacing
+
+  const headers = ['Address', 'Sale Price', 'Sale Date', 'Square Feet', 'Price Per Sq Ft', 'Property Type', 'Year Built'];
+  const headerRow = sheet.addRow(headers);
+  styleHeaderRow(headerRow);
+
+  // Freeze header
+  freezeRows(sheet, 3);
+
+  compData.properties.forEach((property, index) => {
+    const row = sheet.addRow([
+      property.address,
+      property.salePrice,
+      property.saleDate,
+      property.squareFeet,
+      property.pricePerSqFt,
+      property.propertyType,
+      property.yearBuilt || 'N/A'
+    ]);
+    styleDataRow(row, index % 2 === 1);
+  });
+
+  setColumnWidths(sheet, [30, 18, 15, 15, 18, 20, 12]);
+}
+
+async function generateFinancialExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const finData = data.data as FinancialData;
+
+  const sheet = workbook.addWorksheet('Financial Statement');
+  setColumnWidths(sheet, [30, 25]);
+
+  // Title
+  const titleRow = sheet.addRow(['Financial Statement']);
+  styleTitleRow(titleRow, sheet, 2);
+
+  const periodRow = sheet.addRow(['Period', finData.period]);
+  styleKeyValueRow(periodRow);
+  sheet.addRow([]);
+
+  // Revenue Section
+  const revenueTitle = sheet.addRow(['Revenue']);
+  styleSectionHeader(revenueTitle, sheet, 2);
+
+  const revenueRows = [
+    ['Gross Rent', finData.revenue.grossRent],
+    ['Other Income', finData.revenue.otherIncome],
+    ['Total Revenue', finData.revenue.totalRevenue]
+  ];
+  revenueRows.forEach(([key, value]) => {
+    const row = sheet.addRow([key, value]);
+    styleKeyValueRow(row);
+  });
+  sheet.addRow([]);
+
+  // Expenses Section
+  const expensesTitle = sheet.addRow(['Expenses']);
+  styleSectionHeader(expensesTitle, sheet, 2);
+
+  const expenseRows = [
+    ['Operating Expenses', finData.expenses.operatingExpenses],
+    ['Maintenance', finData.expenses.maintenance],
+    ['Insurance', finData.expenses.insurance],
+    ['Taxes', finData.expenses.taxes],
+    ['Utilities', finData.expenses.utilities],
+    ['Management', finData.expenses.management],
+    ['Total Expenses', finData.expenses.totalExpenses]
+  ];
+  expenseRows.forEach(([key, value]) => {
+    const row = sheet.addRow([key, value]);
+    styleKeyValueRow(row);
+  });
+  sheet.addRow([]);
+
+  // NOI - highlight as important
+  const noiTitle = sheet.addRow(['Summary']);
+  styleSectionHeader(noiTitle, sheet, 2);
+  const noiRow = sheet.addRow(['Net Operating Income', finData.netOperatingIncome]);
+  styleKeyValueRow(noiRow);
+  noiRow.font = { bold: true, size: 12 };
+}
+
+// New specialized Excel generators with professional styling
+async function generateOperatingBudgetExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  generateFinancialModelSheet(workbook, 'Operating Budget', data);
+}
+
+async function generateBrokerSalesComparablesExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  // Summary sheet first
+  const summarySheet = workbook.addWorksheet('Summary');
+  setColumnWidths(summarySheet, [35, 30]);
+
+  // Older extractions may carry market sections outside the current schema
+  const compData = data.data as BrokerSalesComparablesData & { marketSummary?: unknown; marketAnalysis?: unknown };
+
+  // Title
+  const titleRow = summarySheet.addRow(['Broker Sales Comparables']);
+  styleTitleRow(titleRow, summarySheet, 2);
+
+  // Document Information section
+  if (data.metadata) {
+    summarySheet.addRow([]);
+    const docInfoTitle = summarySheet.addRow(['Document Information']);
+    styleSectionHeader(docInfoTitle, summarySheet, 2);
+    const metadataFlat = flattenObject(data.metadata);
+    Object.entries(metadataFlat).forEach(([key, value]) => {
+      const row = summarySheet.addRow([camelCaseToTitleCase(key), value]);
+      styleKeyValueRow(row);
+    });
+  }
+
+  // Market Summary section if available
+  if (compData.marketSummary) {
+    summarySheet.addRow([]);
+    const marketTitle = summarySheet.addRow(['Market Summary']);
+    styleSectionHeader(marketTitle, summarySheet, 2);
+    const summaryFlat = flattenObject(compData.marketSummary);
+    Object.entries(summaryFlat).forEach(([key, value]) => {
+      const row = summarySheet.addRow([camelCaseToTitleCase(key), value]);
+      styleKeyValueRow(row);
+    });
+  }
+
+  // Market Analysis section if available
+  if (compData.marketAnalysis) {
+    summarySheet.addRow([]);
+    const analysisTitle = summarySheet.addRow(['Market Analysis']);
+    styleSectionHeader(analysisTitle, summarySheet, 2);
+    const analysisFlat = flattenObject(compData.marketAnalysis);
+    Object.entries(analysisFlat).forEach(([key, value]) => {
+      const row = summarySheet.addRow([camelCaseToTitleCase(key), value]);
+      styleKeyValueRow(row);
+    });
+  }
+
+  // Comparables in separate sheet with dynamic generation
+  const salesData = compData.comparableSales || compData.comparables || [];
+  if (Array.isArray(salesData) && salesData.length > 0) {
+    const compSheet = workbook.addWorksheet('Comparable Sales');
+    generateDynamicArraySheet(compSheet, salesData, {
+      sheetTitle: 'Comparable Sales - All Extracted Fields',
+      fieldConfidence: data.fieldConfidence,
+      confidencePath: compData.comparableSales ? 'comparableSales' : 'comparables'
+    });
+  }
+}
+
+async function generateBrokerLeaseComparablesExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const compData = data.data as BrokerLeaseComparablesData;
+
+  // Summary sheet first
+  const summarySheet = workbook.addWorksheet('Summary');
+  setColumnWidths(summarySheet, [35, 25]);
+
+  // Title
+  const titleRow = summarySheet.addRow(['Broker Lease Comparables']);
+  styleTitleRow(titleRow, summarySheet, 2);
+
+  // Summary statistics section
+  summarySheet.addRow([]);
+  const summaryTitle = summarySheet.addRow(['Summary Statistics']);
+  styleSectionHeader(summaryTitle, summarySheet, 2);
+
+  const summaryRows = [
+    ['Average Base Rent', compData.summary.averageBaseRent || 'N/A'],
+    ['Average Effective Rent', compData.summary.averageEffectiveRent || 'N/A'],
+    ['Rent Range Min', compData.summary.rentRange?.min || 'N/A'],
+    ['Rent Range Max', compData.summary.rentRange?.max || 'N/A']
+  ];
+  summaryRows.forEach(([key, value]) => {
+    const row = summarySheet.addRow([key, value]);
+    styleKeyValueRow(row);
+  });
+
+  // Comparables in separate sheet with dynamic generation
+  const compSheet = workbook.addWorksheet('Lease Comparables');
+  generateDynamicArraySheet(compSheet, compData.comparables, {
+    sheetTitle: 'Lease Comparables - All Extracted Fields',
+    fieldConfidence: data.fieldConfidence,
+    confidencePath: 'comparables'
+  });
+}
+
+async function generateBrokerListingExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const sheet = workbook.addWorksheet('Broker Listing');
+  const listingData = data.data as BrokerListingData;
+  setColumnWidths(sheet, [35, 35]);
+
+  // Title
+  const titleRow = sheet.addRow(['Broker Listing Details']);
+  styleTitleRow(titleRow, sheet, 2);
+
+  // Use dynamic flattening for all sections
+  const allData = flattenObject(listingData);
+
+  const sections = [
+    { name: 'Listing Information', prefix: 'listingDetails' },
+    { name: 'Property Details', prefix: 'propertyDetails' }
+  ];
+
+  sections.forEach(section => {
+    const sectionFields = Object.entries(allData).filter(([key]) => key.startsWith(section.prefix));
+    if (sectionFields.length > 0) {
+      sheet.addRow([]); // Spacing
+      const sectionRow = sheet.addRow([section.name]);
+      styleSectionHeader(sectionRow, sheet, 2);
+      sectionFields.forEach(([key, value]) => {
+        const displayKey = key.replace(section.prefix + '.', '');
+        const row = sheet.addRow([camelCaseToTitleCase(displayKey), value]);
+        styleKeyValueRow(row);
+      });
+    }
+  });
+
+  // Handle broker duties and other non-object fields
+  const otherFields = Object.entries(allData).filter(([key]) =>
+    !sections.some(s => key.startsWith(s.prefix))
+  );
+  if (otherFields.length > 0) {
+    sheet.addRow([]); // Spacing
+    const otherTitle = sheet.addRow(['Additional Information']);
+    styleSectionHeader(otherTitle, sheet, 2);
+    otherFields.forEach(([key, value]) => {
+      const row = sheet.addRow([camelCaseToTitleCase(key), value]);
+      styleKeyValueRow(row);
+    });
+  }
+}
+
+async function generateFinancialStatementsExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  generateFinancialModelSheet(workbook, 'Financial Statements', data);
+}
+
+const MODEL_NUMBER_FORMATS: Record<ModelLineFormat, string> = {
+  currency: '$#,##0',
+  currency_detail: '$#,##0.00',
+  number: '#,##0',
+  percent: '0.0%',
+  multiple: '0.00"x"'
+};
+
+/**
+ * Excel formula for a model calculation, referencing the Amount column of the lines it reads
+ */
+function toModelFormula(calculation: ModelCalculation, rowByKey: Map<string, number>): string {
+  const ref = (key: string) => `B${rowByKey.get(key)}`;
+
+  if (calculation.type === 'ratio') {
+    return `IF(N(${ref(calculation.denominator)})=0,"",${ref(calculation.numerator)}/${ref(calculation.denominator)})`;
+  }
+
+  return calculation.terms
+    .map((term, index) => {
+      const value = term.absolute ? `ABS(${ref(term.key)})` : ref(term.key);
+      return term.sign === -1 ? `-${value}` : index === 0 ? value : `+${value}`;
+    })
+    .join('');
+}
+
+/**
+ * Operating statement as a live model: extracted inputs in blue, subtotals, NOI, ratios and
+ * per-SF / per-unit metrics as formulas, and each calculated total checked against the
+ * total reported in the document
+ */
+function generateFinancialModelSheet(workbook: ExcelJS.Workbook, sheetName: string, data: ExtractedData) {
+  const model = buildFinancialModel(data);
+  if (!model) return;
+
+  const evaluation = evaluateFinancialModel(model);
+  const checksByKey = new Map(evaluation.checks.map(check => [check.key, check]));
+  const sheet = workbook.addWorksheet(sheetName);
+  setColumnWidths(sheet, [35, 18, 18, 16, 12]);
+
+  const titleRow = sheet.addRow([`${model.title} - ${data.metadata.propertyName || 'Unknown Property'}`]);
+  styleTitleRow(titleRow, sheet, 5);
+
+  const periodRow = sheet.addRow(['Period', model.period || 'N/A']);
+  styleKeyValueRow(periodRow);
+
+  const legendRow = sheet.addRow(['Blue cells are extracted inputs - edit them and the formula cells recalculate']);
+  legendRow.font = { italic: true, color: { argb: COLORS.gray700 } };
+  sheet.addRow([]);
+
+  const headerRow = sheet.addRow(['Line Item', 'Amount', 'Reported', 'Difference', 'Check']);
+  styleHeaderRow(headerRow);
+
+  const rowByKey = new Map<string, number>();
+  const checkRows: number[] = [];
+  let section = '';
+
+  model.lines.forEach(line => {
+    if (line.section !== section) {
+      section = line.section;
+      styleSectionHeader(sheet.addRow([section]), sheet, 5);
+    }
+
+    const row = sheet.addRow([line.label]);
+    rowByKey.set(line.key, row.number);
+
+    const amountCell = row.getCell(2);
+    if (line.calculation) {
+      amountCell.value = {
+        formula: toModelFormula(line.calculation, rowByKey),
+        result: evaluation.values.get(line.key) ?? ''
+      };
+    } else {
+      amountCell.value = line.value ?? null;
+      styleInputCell(amountCell);
+    }
+    amountCell.numFmt = MODEL_NUMBER_FORMATS[line.format];
+
+    const check = checksByKey.get(line.key);
+    if (check) {
+      const n = row.number;
+      row.getCell(3).value = check.reported;
+      row.getCell(3).numFmt = MODEL_NUMBER_FORMATS[line.format];
+      styleInputCell(row.getCell(3));
+      row.getCell(4).value = { formula: `B${n}-C${n}`, result: check.difference ?? '' };
+      row.getCell(4).numFmt = MODEL_NUMBER_FORMATS[line.format];
+      row.getCell(5).value = {
+        formula: `IF(ABS(D${n})<=MAX(ABS(C${n}),1)*${RECONCILIATION_TOLERANCE},"OK","CHECK")`,
+        result: check.matches ? 'OK' : 'CHECK'
+      };
+      row.getCell(5).alignment = { horizontal: 'center' };
+      checkRows.push(n);
+    }
+
+    styleDataRow(row);
+    if (line.isTotal) {
+      row.getCell(1).font = { bold: true };
+      amountCell.font = { ...amountCell.font, bold: true };
+    }
+  });
+
+  // Consistency check - live count of totals that no longer match the document
+  if (checkRows.length > 0) {
+    const checkRange = `E${checkRows[0]}:E${checkRows[checkRows.length - 1]}`;
+    sheet.addConditionalFormatting({
+      ref: checkRange,
+      rules: [{
+        type: 'containsText',
+        operator: 'containsText',
+        text: 'CHECK',
+        priority: 1,
+        style: { fill: { type: 'pattern', pattern: 'solid', bgColor: { argb: COLORS.amber200 } } }
+      }]
+    });
+
+    sheet.addRow([]);
+    styleSectionHeader(sheet.addRow(['Consistency Check']), sheet, 5);
+    const mismatchRow = sheet.addRow([
+      'Totals not matching the document',
+      {
+        formula: `COUNTIF(${checkRange},"CHECK")`,
+        result: evaluation.checks.filter(check => !check.matches).length
+      }
+    ]);
+    styleKeyValueRow(mismatchRow);
+  }
+
+  evaluation.checks
+    .filter(check => !check.matches)
+    .forEach(check => {
+      console.warn(`[Export] ${model.title}: calculated ${check.label} (${check.calculated}) does not match reported ${check.field} (${check.reported})`);
+    });
+
+  freezeRows(sheet, headerRow.number);
+  // Cached results are written with the formulas; recalculate anyway in case an input was edited upstream
+  workbook.calcProperties.fullCalcOnLoad = true;
+}
+
+/**
+ * Wrap a workbook so every sheet added through it is prefixed with the segment number
+ * Lets the per-type generators run unchanged for each segment of a document package
+ */
+function createSegmentWorkbook(workbook: ExcelJS.Workbook, prefix: string): ExcelJS.Workbook {
+  return new Proxy(workbook, {
+    get(target, property, receiver) {
+      if (property === 'addWorksheet') {
+        return (name?: string, options?: Partial<ExcelJS.AddWorksheetOptions>) =>
+          target.addWorksheet(toUniqueSheetName(target, `${prefix} ${name || 'Sheet'}`), options);
+      }
+      return Reflect.get(target, property, receiver);
+    }
+  });
+}
+
+async function generateDocumentPackageExcel(workbook: ExcelJS.Workbook, data: ExtractedData, options: Partial<ExcelExportOptions>) {
+  const packageData = data.data as DocumentPackageData;
+  const segments = packageData.segments || [];
+
+  // Package Overview Sheet - one row per detected document
+  const overviewSheet = workbook.addWorksheet('Package Overview');
+
+  const titleRow = overviewSheet.addRow(['Document Package Overview']);
+  styleTitleRow(titleRow, overviewSheet, 5);
+
+  if (data.metadata) {
+    const metadataFlat = flattenObject(data.metadata);
+    Object.entries(metadataFlat).forEach(([key, value]) => {
+      const row = overviewSheet.addRow([camelCaseToTitleCase(key), value]);
+      styleKeyValueRow(row);
+    });
+  }
+  const totalPagesRow = overviewSheet.addRow(['Total Pages', packageData.totalPages]);
+  styleKeyValueRow(totalPagesRow);
+  overviewSheet.addRow([]);
+
+  const segmentsTitleRow = overviewSheet.addRow(['Documents']);
+  styleSectionHeader(segmentsTitleRow, overviewSheet, 5);
+
+  const headerRow = overviewSheet.addRow(['#', 'Document Type', 'Pages', 'Title', 'Sheet Prefix']);
+  styleHeaderRow(headerRow);
+
+  segments.forEach((segment, index) => {
+    const row = overviewSheet.addRow([
+      index + 1,
+      segment.documentType.split('_').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' '),
+      segment.startPage === segment.endPage ? `${segment.startPage}` : `${segment.startPage}-${segment.endPage}`,
+      segment.title || 'N/A',
+      `${index + 1}.`
+    ]);
+    styleDataRow(row, index % 2 === 1);
+  });
+  setColumnWidths(overviewSheet, [35, 30, 12, 40, 14]);
+
+  // Each segment gets its own sheets, generated by the matching per-type generator
+  for (const [index, segment] of segments.entries()) {
+    await generateExcelByType(createSegmentWorkbook(workbook, `${index + 1}.`), segment.extractedData, options);
+  }
+}
+
+function generateValidationSheet(workbook: ExcelJS.Workbook, reconciliation: ReconciliationResult) {
+  const sheet = workbook.addWorksheet('Validation');
+
+  const titleRow = sheet.addRow(['Validation Checks']);
+  styleTitleRow(titleRow, sheet, 6);
+
+  const checksRow = sheet.addRow(['Checks Run', reconciliation.checksRun]);
+  styleKeyValueRow(checksRow);
+  const discrepanciesRow = sheet.addRow(['Discrepancies', reconciliation.discrepancies.length]);
+  styleKeyValueRow(discrepanciesRow);
+  sheet.addRow([]);
+
+  if (reconciliation.discrepancies.length === 0) {
+    const passedRow = sheet.addRow(['All checks passed']);
+    styleDataRow(passedRow, false);
+    setColumnWidths(sheet, [35, 20]);
+    return;
+  }
+
+  const headerRow = sheet.addRow(['Severity', 'Check', 'Field', 'Expected', 'Actual', 'Difference']);
+  styleHeaderRow(headerRow);
+
+  reconciliation.discrepancies.forEach((discrepancy, index) => {
+    const row = sheet.addRow([
+      discrepancy.severity === 'error' ? 'Error' : 'Warning',
+      discrepancy.check,
+      discrepancy.field,
+      discrepancy.expected,
+      discrepancy.actual,
+      discrepancy.difference
+    ]);
+    styleDataRow(row, index % 2 === 1);
+    row.getCell(1).font = {
+      bold: true,
+      color: { argb: discrepancy.severity === 'error' ? 'FFB91C1C' : 'FFB45309' }
+    };
+    [4, 5, 6].forEach(column => {
+      row.getCell(column).numFmt = '#,##0.####';
+    });
+  });
+
+  setColumnWidths(sheet, [35, 45, 35, 18, 18, 18]);
+}
+
+/**
+ * Charts sheet - each chart's data table on the left, the rendered chart beside it
+ */
+async function generateChartsSheet(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const chartSeries = getChartSeries(data);
+  if (chartSeries.length === 0) return;
+
+  const sheet = workbook.addWorksheet('Charts');
+  setColumnWidths(sheet, [35, 20, 4]);
+
+  const titleRow = sheet.addRow(['Charts']);
+  styleTitleRow(titleRow, sheet, 2);
+  sheet.addRow([]);
+
+  for (const series of chartSeries) {
+    const startRow = sheet.rowCount + 1;
+
+    const sectionRow = sheet.addRow([series.title]);
+    styleSectionHeader(sectionRow, sheet, 2);
+    const headerRow = sheet.addRow([series.labelHeader, series.valueHeader]);
+    styleHeaderRow(headerRow);
+    series.points.forEach((point, index) => {
+      const row = sheet.addRow([point.label, point.value]);
+      styleDataRow(row, index % 2 === 1);
+      row.getCell(2).numFmt = '$#,##0';
+    });
+
+    const { width, height } = getChartSize(series);
+    // ExcelJS types its Buffer against an older @types/node
+    const png = await renderBarChartPng(series);
+    const imageId = workbook.addImage({ buffer: png as unknown as ExcelJS.Buffer, extension: 'png' });
+    sheet.addImage(imageId, { tl: { col: 3, row: startRow - 1 }, ext: { width, height } });
+
+    // Leave room below the taller of the table and the image (default rows are 20px high)
+    const blockRows = Math.max(series.points.length + 2, Math.ceil(height / 20));
+    while (sheet.rowCount < startRow + blockRows) {
+      sheet.addRow([]);
+    }
+  }
+}
+
+/**
+ * Flatten a JSON value into dot-notation paths with array indexes (e.g. "data.tenants.0.baseRent")
+ * Empty objects and arrays are kept so the structure is not lost
+ */
+function flattenToPaths(value: unknown, path: string, rows: [string, unknown][]): [string, unknown][] {
+  if (value !== null && typeof value === 'object') {
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item] as [string, unknown])
+      : Object.entries(value as Record<string, unknown>);
+
+    if (entries.length === 0) {
+      rows.push([path, Array.isArray(value) ? '[]' : '{}']);
+    }
+    entries.forEach(([key, item]) => flattenToPaths(item, path ? `${path}.${key}` : key, rows));
+    return rows;
+  }
+
+  rows.push([path, value ?? null]);
+  return rows;
+}
+
+/**
+ * Raw Data sheet - every value of the exported JSON, one row per path
+ */
+function generateRawDataSheet(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const sheet = workbook.addWorksheet('Raw Data');
+
+  const titleRow = sheet.addRow(['Raw Extracted Data']);
+  styleTitleRow(titleRow, sheet, 2);
+  sheet.addRow([]);
+
+  const headerRow = sheet.addRow(['Path', 'Value']);
+  styleHeaderRow(headerRow);
+  freezeRows(sheet, 3);
+
+  flattenToPaths(data, '', []).forEach(([path, value], index) => {
+    const row = sheet.addRow([path, value as ExcelJS.CellValue]);
+    styleDataRow(row, index % 2 === 1);
+  });
+
+  setColumnWidths(sheet, [55, 60]);
+}
+
+/**
+ * Escape text for an Excel header/footer (& starts a formatting code)
+ */
+function toHeaderFooterText(value: unknown, maxLength: number = 60): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return text.substring(0, maxLength).replace(/&/g, '&&');
+}
+
+/**
+ * Print layout for every sheet: fit to one page wide, repeat title/header rows on each page,
+ * and show the property and source document in the page header and footer
+ */
+function applyPrintLayout(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const metadata = data.metadata || {};
+  const documentLabel = data.documentType
+    .split('_')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+
+  const header = `&L&B${toHeaderFooterText(metadata.propertyName || 'Unknown Property')}` +
+    `&C${toHeaderFooterText(documentLabel)}` +
+    `&R${toHeaderFooterText(metadata.propertyAddress)}`;
+  const footer = `&L${toHeaderFooterText(metadata.pdfFileName)}` +
+    '&CPage &P of &N' +
+    `&RExtracted ${toHeaderFooterText(metadata.extractedDate || metadata.extractionTimestamp, 30)}`;
+
+  workbook.eachSheet(sheet => {
+    // Repeat everything above the frozen split (title + table header); otherwise just the title row
+    const view = sheet.views?.[0];
+    const titleRows = view?.state === 'frozen' && view.ySplit ? view.ySplit : 1;
+
+    sheet.pageSetup = {
+      ...sheet.pageSetup,
+      orientation: sheet.columnCount > 4 ? 'landscape' : 'portrait',
+      fitToPage: true,
+      fitToWidth: 1,
+      fitToHeight: 0,
+      horizontalCentered: true,
+      margins: { left: 0.5, right: 0.5, top: 0.75, bottom: 0.75, header: 0.3, footer: 0.3 },
+      printTitlesRow: `1:${titleRows}`
+    };
+    sheet.headerFooter = {
+      ...sheet.headerFooter,
+      oddHeader: header,
+      oddFooter: footer
+    };
+  });
+}
+
+/**
+ * Underwriting template sheet - a plain import layout: header row, then one row per tenant
+ * Date columns are written as real dates so the model's importer parses them
+ */
+function generateTemplateSheet(workbook: ExcelJS.Workbook, template: ExportTemplate, table: ExportTable) {
+  const sheet = workbook.addWorksheet(toUniqueSheetName(workbook, template.sheet_name));
+
+  const headerRow = sheet.addRow(table.columns.map(column => column.header));
+  styleHeaderRow(headerRow);
+  freezeRows(sheet, 1);
+
+  const dateColumns = template.columns
+    .map((column, index) => (column.transform === 'date' ? index : -1))
+    .filter(index => index >= 0);
+
+  table.rows.forEach(values => {
+    const row = sheet.addRow(values.map((value, index) =>
+      dateColumns.includes(index) && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? new Date(`${value}T00:00:00Z`)
+        : value
+    ));
+    dateColumns.forEach(index => {
+      row.getCell(index + 1).numFmt = 'mm/dd/yyyy';
+    });
+  });
+
+  table.columns.forEach((column, index) => {
+    sheet.getColumn(index + 1).width = Math.max(column.header.length + 4, 14);
+  });
+}
+
+async function generateGenericExcel(workbook: ExcelJS.Workbook, data: ExtractedData) {
+  const sheet = workbook.addWorksheet('Extracted Data');
+  setColumnWidths(sheet, [35, 50]);
+
+  // Title
+  const titleRow = sheet.addRow(['Extracted Data']);
+  styleTitleRow(titleRow, sheet, 2);
+
+  // Metadata
+  const docTypeRow = sheet.addRow(['Document Type', data.documentType]);
+  styleKeyValueRow(docTypeRow);
+  const dateRow = sheet.addRow(['Extraction Date', data.metadata.extractedDate]);
+  styleKeyValueRow(dateRow);
+  sheet.addRow([]);
+
+  // Data section
+  const dataTitle = sheet.addRow(['Raw Data']);
+  styleSectionHeader(dataTitle, sheet, 2);
+  const dataRow = sheet.addRow([JSON.stringify(data.data, null, 2)]);
+  styleDataRow(dataRow, false);
+}
+
@@ -0,0 +1,206 @@
+/**
+ * Excel Styles
+ *
+ * RExeli brand styling shared by every generated workbook (single-document exports and
+ * portfolio workbooks): row styles, borders, frozen headers, column widths and sheet names.
+ */
+
+import ExcelJS from 'exceljs';
+import { isLowConfidence } from './confidence';
+
+// Emerald/teal brand color scheme
+export const COLORS = {
+  emerald700: 'FF047857',  // Dark emerald for titles
+  emerald600: 'FF059669',  // Header background
+  emerald100: 'FFD1FAE5',  // Title background
+  emerald50: 'FFF0FDF4',   // Section header background
+  white: 'FFFFFFFF',
+  gray100: 'FFF3F4F6',     // Alternating row
+  gray300: 'FFD1D5DB',     // Border color
+  gray700: 'FF374151',     // Dark text
+  amber200: 'FFFDE68A',    // Low-confidence cell
+  amber50: 'FFFFFBEB',     // Low-confidence row
+  blue700: 'FF1D4ED8',     // Extracted input text
+  blue50: 'FFEFF6FF',      // Extracted input background
+};
+
+// Thin border style for cells
+const thinBorder: Partial<ExcelJS.Border> = {
+  style: 'thin',
+  color: { argb: COLORS.gray300 }
+};
+
+export const allBorders: Partial<ExcelJS.Borders> = {
+  top: thinBorder,
+  left: thinBorder,
+  bottom: thinBorder,
+  right: thinBorder,
+};
+
+/**
+ * Style a title row (main sheet title)
+ */
+export function styleTitleRow(row: ExcelJS.Row, sheet: ExcelJS.Worksheet, colspan: number = 2): void {
+  // Merge cells for title
+  if (colspan > 1) {
+    sheet.mergeCells(row.number, 1, row.number, colspan);
+  }
+  row.font = { bold: true, size: 14, color: { argb: COLORS.emerald700 } };
+  row.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: COLORS.emerald100 }
+  };
+  row.alignment = { horizontal: 'left', vertical: 'middle' };
+  row.height = 24;
+  row.eachCell((cell) => {
+    cell.border = allBorders;
+  });
+}
+
+/**
+ * Style a section header row (subsection titles)
+ */
+export function styleSectionHeader(row: ExcelJS.Row, sheet: ExcelJS.Worksheet, colspan: number = 2): void {
+  if (colspan > 1) {
+    sheet.mergeCells(row.number, 1, row.number, colspan);
+  }
+  row.font = { bold: true, size: 12, color: { argb: COLORS.gray700 } };
+  row.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: COLORS.emerald50 }
+  };
+  row.alignment = { horizontal: 'left', vertical: 'middle' };
+  row.height = 20;
+  row.eachCell((cell) => {
+    cell.border = allBorders;
+  });
+}
+
+/**
+ * Style a table header row
+ */
+export function styleHeaderRow(row: ExcelJS.Row): void {
+  row.font = { bold: true, size: 11, color: { argb: COLORS.white } };
+  row.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: COLORS.emerald600 }
+  };
+  row.alignment = { horizontal: 'center', vertical: 'middle' };
+  row.height = 20;
+  row.eachCell((cell) => {
+    cell.border = allBorders;
+  });
+}
+
+/**
+ * Style a data row with borders
+ */
+export function styleDataRow(row: ExcelJS.Row, isAlternate: boolean = false): void {
+  if (isAlternate) {
+    row.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: COLORS.gray100 }
+    };
+  }
+  row.alignment = { vertical: 'middle' };
+  row.eachCell((cell) => {
+    cell.border = allBorders;
+  });
+}
+
+/**
+ * Style a key-value pair row (label on left, value on right)
+ */
+export function styleKeyValueRow(row: ExcelJS.Row): void {
+  row.alignment = { vertical: 'middle' };
+  const keyCell = row.getCell(1);
+  keyCell.font = { bold: true };
+  row.eachCell((cell) => {
+    cell.border = allBorders;
+  });
+}
+
+/**
+ * Mark a cell as an extracted input (blue on light blue) - calculated cells keep the default black
+ */
+export function styleInputCell(cell: ExcelJS.Cell): void {
+  cell.font = { ...cell.font, color: { argb: COLORS.blue700 } };
+  cell.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: COLORS.blue50 }
+  };
+}
+
+/**
+ * Freeze header rows so they stay visible when scrolling
+ */
+export function freezeRows(sheet: ExcelJS.Worksheet, rowCount: number): void {
+  sheet.views = [{ state: 'frozen', ySplit: rowCount, xSplit: 0 }];
+}
+
+/**
+ * Shade a cell Claude scored below the confidence threshold and note its score
+ */
+export function shadeLowConfidenceCell(cell: ExcelJS.Cell, fieldConfidence: Record<string, number> | undefined, path: string): void {
+  if (!fieldConfidence || !isLowConfidence(fieldConfidence, path)) return;
+
+  cell.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: COLORS.amber200 }
+  };
+  cell.note = `Low confidence (${Math.round(fieldConfidence[path] * 100)}%) - verify against source document`;
+}
+
+/**
+ * Set consistent column widths
+ */
+export function setColumnWidths(sheet: ExcelJS.Worksheet, widths: number[]): void {
+  widths.forEach((width, index) => {
+    const column = sheet.getColumn(index + 1);
+    column.width = width;
+  });
+}
+
+/**
+ * Build a valid, unique Excel sheet name (max 31 chars, no []:*?/\ characters)
+ */
+export function toUniqueSheetName(workbook: ExcelJS.Workbook, name: string): string {
+  const base = name.replace(/[\[\]:*?/\\]/g, '-').substring(0, 31);
+  let candidate = base;
+  let suffix = 2;
+  while (workbook.getWorksheet(candidate)) {
+    const tag = ` (${suffix++})`;
+    candidate = base.substring(0, 31 - tag.length) + tag;
+  }
+  return candidate;
+}
+
+/**
+ * Sheets-compatible profile for Google Sheets / LibreOffice, applied to a finished workbook:
+ * merged title and section rows are unmerged (text stays in the first cell, left-aligned so it
+ * overflows across the row), and frozen panes get an explicit top-left and active cell, without
+ * which those tools drop the freeze on import
+ */
+export function applySheetsCompatibleProfile(workbook: ExcelJS.Workbook): void {
+  workbook.eachSheet((sheet) => {
+    [...(sheet.model.merges || [])].forEach((range) => {
+      sheet.unMergeCells(range);
+      const cell = sheet.getCell(range.split(':')[0]);
+      if (cell.alignment?.horizontal === 'center') {
+        cell.alignment = { ...cell.alignment, horizontal: 'left' };
+      }
+    });
+
+    sheet.views = (sheet.views || []).map((view) => {
+      if (view.state !== 'frozen') return view;
+      const firstUnfrozen = sheet.getCell((view.ySplit || 0) + 1, (view.xSplit || 0) + 1).address;
+      return { ...view, topLeftCell: firstUnfrozen, activeCell: firstUnfrozen };
+    });
+  });
+}
@@ -0,0 +1,229 @@
+/**
+ * Export Charts
+ *
+ * Chart series derived from extracted data (rent by tenant, lease expiration profile,
+ * expense breakdown) and a renderer that draws them as PNG bar charts for embedding
+ * in Excel exports. ExcelJS cannot create native charts, so charts are drawn as SVG
+ * and rasterized with sharp.
+ */
+
+import sharp from 'sharp';
+import { parseNumericValue } from './reconciliation';
+import type { DocumentType, ExtractedData } from './types';
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface ChartSeries {
+  title: string;
+  labelHeader: string; // Column header for the labels in the chart data table
+  valueHeader: string; // Column header for the values in the chart data table
+  points: ChartPoint[];
+}
+
+/**
+ * Bars shown per chart - smaller tenants are combined into one "Other" bar
+ */
+const MAX_CHART_BARS = 15;
+
+const CHART_WIDTH = 760;
+const CHART_LABEL_WIDTH = 230;
+const CHART_VALUE_WIDTH = 110;
+const CHART_BAR_HEIGHT = 22;
+const CHART_BAR_GAP = 8;
+const CHART_TOP = 56;
+const CHART_BAR_COLOR = '#059669'; // Emerald 600, matches the export header color
+
+type ExtractedRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): ExtractedRecord {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as ExtractedRecord : {};
+}
+
+function pickNumber(source: ExtractedRecord, ...keys: string[]): number | null {
+  for (const key of keys) {
+    const value = parseNumericValue(source[key]);
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+/**
+ * Keep the largest points and combine the rest into one "Other" point
+ */
+function limitPoints(points: ChartPoint[], otherLabel: string): ChartPoint[] {
+  if (points.length <= MAX_CHART_BARS) return points;
+
+  const kept = points.slice(0, MAX_CHART_BARS - 1);
+  const rest = points.slice(MAX_CHART_BARS - 1);
+  return [
+    ...kept,
+    { label: `${otherLabel} (${rest.length})`, value: rest.reduce((sum, point) => sum + point.value, 0) }
+  ];
+}
+
+/**
+ * Base rent per occupied tenant, largest first
+ */
+export function getRentByTenantSeries(data: unknown): ChartSeries | null {
+  const tenants = asRecord(data).tenants;
+  if (!Array.isArray(tenants)) return null;
+
+  const points = tenants
+    .map(asRecord)
+    .map(tenant => ({
+      label: String(tenant.tenantName || tenant.suiteUnit || 'Unnamed tenant'),
+      value: pickNumber(tenant, 'baseRent', 'monthlyRent') ?? 0
+    }))
+    .filter(point => point.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  if (points.length === 0) return null;
+
+  return {
+    title: 'Rent by Tenant',
+    labelHeader: 'Tenant',
+    valueHeader: 'Base Rent',
+    points: limitPoints(points, 'Other tenants')
+  };
+}
+
+/**
+ * Year a lease ends, or null when the date cannot be read
+ */
+function getExpirationYear(leaseEnd: unknown): number | null {
+  if (typeof leaseEnd !== 'string') return null;
+  const match = leaseEnd.match(/\b(19|20)\d{2}\b/);
+  if (match) return parseInt(match[0], 10);
+
+  // Short formats such as "12/31/26"
+  const shortYear = leaseEnd.match(/\b\d{1,2}[/-]\d{1,2}[/-](\d{2})\b/);
+  return shortYear ? 2000 + parseInt(shortYear[1], 10) : null;
+}
+
+/**
+ * Base rent expiring per year, in year order (leases without an end date last)
+ */
+export function getLeaseExpirationSeries(data: unknown): ChartSeries | null {
+  const tenants = asRecord(data).tenants;
+  if (!Array.isArray(tenants)) return null;
+
+  const rentByYear = new Map<number | null, number>();
+  tenants.map(asRecord).forEach(tenant => {
+    const rent = pickNumber(tenant, 'baseRent', 'monthlyRent') ?? 0;
+    if (rent <= 0) return;
+    const year = getExpirationYear(tenant.leaseEnd);
+    rentByYear.set(year, (rentByYear.get(year) || 0) + rent);
+  });
+
+  if (rentByYear.size === 0) return null;
+
+  const points = [...rentByYear.entries()]
+    .sort(([a], [b]) => (a ?? Infinity) - (b ?? Infinity))
+    .map(([year, value]) => ({ label: year === null ? 'No end date / MTM' : String(year), value }));
+
+  return {
+    title: 'Lease Expiration Profile',
+    labelHeader: 'Expiration Year',
+    valueHeader: 'Base Rent Expiring',
+    points
+  };
+}
+
+/**
+ * Expense line items (totals excluded), largest first
+ */
+export function getExpenseBreakdownSeries(documentType: DocumentType, data: unknown): ChartSeries | null {
+  const record = asRecord(data);
+  const expenses = documentType === 'financial_statements'
+    ? asRecord(record.operatingExpenses)
+    : documentType === 'operating_budget' || documentType === 'financial_statement'
+      ? asRecord(record.expenses)
+      : null;
+  if (!expenses) return null;
+
+  const points = Object.entries(expenses)
+    .filter(([key]) => !key.toLowerCase().startsWith('total'))
+    .map(([key, value]) => ({
+      label: key.replace(/([A-Z])/g, ' $1').replace(/^./, char => char.toUpperCase()).trim(),
+      value: parseNumericValue(value) ?? 0
+    }))
+    .filter(point => point.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  if (points.length === 0) return null;
+
+  return {
+    title: 'Expense Breakdown',
+    labelHeader: 'Expense',
+    valueHeader: 'Amount',
+    points: limitPoints(points, 'Other expenses')
+  };
+}
+
+/**
+ * All charts available for an extraction (document packages chart each segment separately)
+ */
+export function getChartSeries(extractedData: ExtractedData): ChartSeries[] {
+  const { documentType, data } = extractedData;
+  const series = documentType === 'rent_roll'
+    ? [getRentByTenantSeries(data), getLeaseExpirationSeries(data)]
+    : [getExpenseBreakdownSeries(documentType, data)];
+
+  return series.filter((chart): chart is ChartSeries => chart !== null);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function truncateLabel(label: string, maxLength: number = 34): string {
+  return label.length > maxLength ? `${label.substring(0, maxLength - 1)}…` : label;
+}
+
+function formatChartValue(value: number): string {
+  return `$${Math.round(value).toLocaleString('en-US')}`;
+}
+
+/**
+ * Pixel size of a rendered chart - used to place the image in the worksheet
+ */
+export function getChartSize(series: ChartSeries): { width: number; height: number } {
+  return {
+    width: CHART_WIDTH,
+    height: CHART_TOP + series.points.length * (CHART_BAR_HEIGHT + CHART_BAR_GAP) + 24
+  };
+}
+
+/**
+ * Draw a horizontal bar chart as a PNG
+ */
+export async function renderBarChartPng(series: ChartSeries): Promise<Buffer> {
+  const { width, height } = getChartSize(series);
+  const maxValue = Math.max(...series.points.map(point => point.value), 1);
+  const barAreaWidth = width - CHART_LABEL_WIDTH - CHART_VALUE_WIDTH - 20;
+
+  const bars = series.points.map((point, index) => {
+    const y = CHART_TOP + index * (CHART_BAR_HEIGHT + CHART_BAR_GAP);
+    const barWidth = Math.max((point.value / maxValue) * barAreaWidth, 1);
+    const textY = y + CHART_BAR_HEIGHT / 2 + 5;
+    return `
+  <text x="${CHART_LABEL_WIDTH - 10}" y="${textY}" text-anchor="end" font-size="13" fill="#374151">${escapeXml(truncateLabel(point.label))}</text>
+  <rect x="${CHART_LABEL_WIDTH}" y="${y}" width="${barWidth.toFixed(1)}" height="${CHART_BAR_HEIGHT}" rx="3" fill="${CHART_BAR_COLOR}"/>
+  <text x="${(CHART_LABEL_WIDTH + barWidth + 8).toFixed(1)}" y="${textY}" font-size="13" fill="#374151">${escapeXml(formatChartValue(point.value))}</text>`;
+  }).join('');
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-family="Arial, Helvetica, sans-serif">
+  <rect width="${width}" height="${height}" fill="#FFFFFF"/>
+  <text x="20" y="32" font-size="18" font-weight="bold" fill="#047857">${escapeXml(series.title)}</text>
+  <line x1="${CHART_LABEL_WIDTH}" y1="${CHART_TOP - 6}" x2="${CHART_LABEL_WIDTH}" y2="${height - 16}" stroke="#D1D5DB"/>${bars}
+</svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
@@ -0,0 +1,157 @@
+/**
+ * Data Export Formats
+ *
+ * CSV, JSON and Parquet exports of extracted data for loading into a warehouse.
+ * All formats are built from the same tables (see export-tables), so they have the
+ * same tables and columns as each other and as the Excel detail sheets.
+ * Multi-table CSV and Parquet exports are zipped, one file per table.
+ */
+
+import JSZip from 'jszip';
+import { parquetWriteBuffer, type BasicType } from 'hyparquet-writer';
+import { buildExportTables, type ExportColumnType, type ExportTable } from './export-tables';
+import type { ExportFormat, ExtractedData } from './types';
+
+/**
+ * Version of the JSON export layout - bump when tables/columns/envelope change shape
+ */
+export const EXPORT_JSON_SCHEMA_VERSION = '1.0';
+
+export type DataExportFormat = Exclude<ExportFormat, 'xlsx' | 'ods'>;
+
+/**
+ * Whether a format is a data export rather than a formatted workbook
+ */
+export function isDataExportFormat(format: ExportFormat | undefined): format is DataExportFormat {
+  return format !== undefined && format !== 'xlsx' && format !== 'ods';
+}
+
+export interface ExportFile {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+const PARQUET_COLUMN_TYPES: Record<ExportColumnType, BasicType> = {
+  string: 'STRING',
+  number: 'DOUBLE',
+  boolean: 'BOOLEAN'
+};
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a table as CSV with the column paths as the header row
+ */
+export function tableToCsv(table: ExportTable): string {
+  const lines = [
+    table.columns.map(column => toCsvField(column.path)).join(','),
+    ...table.rows.map(row => row.map(toCsvField).join(','))
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Render a table as a Parquet file (nullable columns, types from the table columns)
+ */
+export function tableToParquet(table: ExportTable, extractedData: ExtractedData): Buffer {
+  const arrayBuffer = parquetWriteBuffer({
+    columnData: table.columns.map((column, index) => ({
+      name: column.path,
+      data: table.rows.map(row => row[index]),
+      type: PARQUET_COLUMN_TYPES[column.type],
+      nullable: true
+    })),
+    kvMetadata: [
+      { key: 'rexeli.table', value: table.name },
+      { key: 'rexeli.documentType', value: extractedData.documentType }
+    ]
+  });
+  return Buffer.from(arrayBuffer);
+}
+
+/**
+ * Normalized JSON export: every table as typed columns plus row objects keyed by column path
+ */
+export function buildJsonExport(extractedData: ExtractedData, tables: ExportTable[]) {
+  return {
+    schemaVersion: EXPORT_JSON_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    documentType: extractedData.documentType,
+    tables: tables.map(table => ({
+      name: table.name,
+      columns: table.columns.map(column => ({ name: column.path, header: column.header, type: column.type })),
+      rows: table.rows.map(row => Object.fromEntries(table.columns.map((column, index) => [column.path, row[index]])))
+    }))
+  };
+}
+
+/**
+ * Return the single file as-is, or zip several files together
+ */
+async function toSingleFileOrZip(
+  files: { name: string; content: Buffer | string }[],
+  contentType: string,
+  extension: string
+): Promise<ExportFile> {
+  if (files.length === 1) {
+    const { content } = files[0];
+    return { buffer: typeof content === 'string' ? Buffer.from(content, 'utf-8') : content, contentType, extension };
+  }
+
+  const zip = new JSZip();
+  files.forEach(file => zip.file(file.name, file.content));
+  const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { buffer, contentType: 'application/zip', extension: 'zip' };
+}
+
+/**
+ * Generate a CSV, JSON or Parquet export of extracted data
+ *
+ * @param extractedData - Extraction being exported
+ * @param format - Output format
+ * @param tables - Tables to write (defaults to every table of the extraction; export templates pass their own)
+ *
+ * @example
+ * const file = await generateDataExport(extractedData, 'csv'); // tenants.csv, summary.csv, metadata.csv zipped
+ */
+export async function generateDataExport(
+  extractedData: ExtractedData,
+  format: DataExportFormat,
+  tables: ExportTable[] = buildExportTables(extractedData)
+): Promise<ExportFile> {
+  console.log(`[Export] ${format} export of ${extractedData.documentType}: ${tables.length} tables`);
+
+  switch (format) {
+    case 'csv':
+      return toSingleFileOrZip(
+        tables.map(table => ({ name: `${table.name}.csv`, content: tableToCsv(table) })),
+        'text/csv; charset=utf-8',
+        'csv'
+      );
+
+    case 'json':
+      return {
+        buffer: Buffer.from(JSON.stringify(buildJsonExport(extractedData, tables), null, 2), 'utf-8'),
+        contentType: 'application/json',
+        extension: 'json'
+      };
+
+    case 'parquet':
+      return toSingleFileOrZip(
+        tables.map(table => ({ name: `${table.name}.parquet`, content: tableToParquet(table, extractedData) })),
+        'application/vnd.apache.parquet',
+        'parquet'
+      );
+
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
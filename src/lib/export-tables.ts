@@ -0,0 +1,232 @@
+/**
+ * Export Tables
+ *
+ * Tabular view of extracted data shared by every export format. Each array of records
+ * (tenants, comparables, ...) becomes one table, the remaining fields become a single-row
+ * "summary" table, and metadata its own single-row table. Column discovery and ordering is
+ * the same one the Excel detail sheets use, so xlsx, CSV, JSON and Parquet exports of a
+ * document all have the same columns.
+ */
+
+import type { DocumentPackageData, ExtractedData } from './types';
+
+export type ExportCellValue = string | number | boolean | null;
+
+export type ExportColumnType = 'string' | 'number' | 'boolean';
+
+export interface ExportColumn {
+  path: string;   // Flattened field path, e.g. "leaseTerms.escalation" - used as the column name
+  header: string; // Title Case header shown in spreadsheets
+  type: ExportColumnType;
+}
+
+export interface ExportTable {
+  name: string; // e.g. "tenants", "summary", "segment_2_rent_roll.tenants"
+  columns: ExportColumn[];
+  rows: ExportCellValue[][];
+}
+
+export interface TableColumnOptions {
+  excludeFields?: string[];
+  fieldOrder?: string[];
+}
+
+/**
+ * Convert camelCase field name to Title Case header
+ * Handles dot notation by using only the last part (most specific field name)
+ * Example: "propertyAddress" → "Property Address"
+ * Example: "propertyCharacteristics.address" → "Address"
+ */
+export function camelCaseToTitleCase(str: string): string {
+  // Handle dot notation by taking only the last part (most specific field name)
+  const fieldName = str.includes('.') ? str.split('.').pop()! : str;
+
+  return fieldName
+    .replace(/([A-Z])/g, ' $1') // Add space before capitals
+    .replace(/^./, (char) => char.toUpperCase()) // Capitalize first letter
+    .trim();
+}
+
+/**
+ * Flatten nested objects using dot notation
+ * Example: {propertyCharacteristics: {address: "123 Main"}} → {"propertyCharacteristics.address": "123 Main"}
+ *
+ * @param obj - Object to flatten
+ * @param prefix - Path prefix for the flattened keys
+ * @param missingValue - Value written for null/undefined fields ('N/A' in spreadsheets, null in data formats)
+ */
+export function flattenObject(
+  obj: unknown,
+  prefix: string = '',
+  missingValue: ExportCellValue = 'N/A'
+): Record<string, unknown> {
+  const flattened: Record<string, unknown> = {};
+  if (!obj || typeof obj !== 'object') return flattened;
+
+  for (const [key, value] of Object.entries(obj)) {
+    const newKey = prefix ? `${prefix}.${key}` : key;
+
+    if (value === null || value === undefined) {
+      flattened[newKey] = missingValue;
+    } else if (typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      // Recursively flatten nested objects
+      Object.assign(flattened, flattenObject(value, newKey, missingValue));
+    } else if (Array.isArray(value)) {
+      // Convert arrays to comma-separated strings
+      flattened[newKey] = value.join(', ');
+    } else {
+      flattened[newKey] = value;
+    }
+  }
+
+  return flattened;
+}
+
+/**
+ * Column paths for an array of records, in export order
+ * Fields appear in the order they are first seen (any record may add fields), then
+ * exclusions and the preferred field order are applied
+ */
+export function getTableColumns(items: unknown[], options: TableColumnOptions = {}): string[] {
+  const seen = new Set<string>();
+  items.forEach(item => {
+    Object.keys(flattenObject(item)).forEach(field => seen.add(field));
+  });
+
+  let allFields = [...seen];
+
+  // Apply field exclusions if specified
+  if (options.excludeFields) {
+    allFields = allFields.filter(field => !options.excludeFields!.includes(field));
+  }
+
+  // Apply field ordering if specified
+  if (options.fieldOrder) {
+    const orderedFields = options.fieldOrder.filter(field => allFields.includes(field));
+    const remainingFields = allFields.filter(field => !options.fieldOrder!.includes(field));
+    allFields = [...orderedFields, ...remainingFields];
+  }
+
+  return allFields;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isRecordArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.some(isRecord);
+}
+
+/**
+ * Column type shared by every non-null value (mixed columns are exported as strings)
+ */
+function getColumnType(values: unknown[]): ExportColumnType {
+  const present = values.filter(value => value !== null && value !== undefined);
+  if (present.length > 0 && present.every(value => typeof value === 'number' && Number.isFinite(value))) return 'number';
+  if (present.length > 0 && present.every(value => typeof value === 'boolean')) return 'boolean';
+  return 'string';
+}
+
+function toCellValue(value: unknown, type: ExportColumnType): ExportCellValue {
+  if (value === null || value === undefined) return null;
+  if (type !== 'string') return value as number | boolean;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Build one table from flattened records
+ * Column types are inferred from the values; values of mixed columns are converted to strings
+ */
+export function buildExportTable(name: string, records: Record<string, unknown>[], columnPaths: string[]): ExportTable {
+  const columns = columnPaths.map(path => ({
+    path,
+    header: camelCaseToTitleCase(path),
+    type: getColumnType(records.map(record => record[path]))
+  }));
+
+  return {
+    name,
+    columns,
+    rows: records.map(record => columns.map(column => toCellValue(record[column.path], column.type)))
+  };
+}
+
+/**
+ * Find every array of records in the data (outside other arrays), keyed by path
+ */
+function collectRecordArrays(value: unknown, path: string, found: Map<string, Record<string, unknown>[]>) {
+  if (!isRecord(value)) return found;
+
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = path ? `${path}.${key}` : key;
+    if (isRecordArray(child)) {
+      found.set(childPath, child.filter(isRecord));
+    } else {
+      collectRecordArrays(child, childPath, found);
+    }
+  }
+  return found;
+}
+
+/**
+ * Copy of the data without the record arrays (those are exported as their own tables)
+ */
+function withoutPaths(value: unknown, paths: Set<string>, path: string = ''): unknown {
+  if (!isRecord(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = path ? `${path}.${key}` : key;
+    if (!paths.has(childPath)) {
+      result[key] = withoutPaths(child, paths, childPath);
+    }
+  }
+  return result;
+}
+
+/**
+ * Build the export tables for an extraction
+ * Document packages get a "segments" overview table plus each segment's tables,
+ * prefixed with the segment number and type
+ *
+ * @example
+ * buildExportTables(rentRoll).map(table => table.name); // ['metadata', 'summary', 'tenants']
+ */
+export function buildExportTables(extractedData: ExtractedData, prefix: string = ''): ExportTable[] {
+  const tableName = (name: string) => (prefix ? `${prefix}.${name}` : name);
+  const tables: ExportTable[] = [];
+
+  if (extractedData.metadata) {
+    const metadata = flattenObject(extractedData.metadata, '', null);
+    tables.push(buildExportTable(tableName('metadata'), [metadata], Object.keys(metadata)));
+  }
+
+  if (extractedData.documentType === 'document_package') {
+    const segments = (extractedData.data as DocumentPackageData).segments || [];
+    const overview = segments.map((segment, index) => ({
+      segment: index + 1,
+      documentType: segment.documentType,
+      startPage: segment.startPage,
+      endPage: segment.endPage,
+      title: segment.title ?? null
+    }));
+    tables.push(buildExportTable(tableName('segments'), overview, getTableColumns(overview)));
+
+    segments.forEach((segment, index) => {
+      tables.push(...buildExportTables(segment.extractedData, tableName(`segment_${index + 1}_${segment.documentType}`)));
+    });
+  } else {
+    const recordArrays = collectRecordArrays(extractedData.data, '', new Map());
+
+    const summary = flattenObject(withoutPaths(extractedData.data, new Set(recordArrays.keys())), '', null);
+    tables.push(buildExportTable(tableName('summary'), [summary], Object.keys(summary)));
+
+    recordArrays.forEach((items, path) => {
+      const records = items.map(item => flattenObject(item, '', null));
+      tables.push(buildExportTable(tableName(path), records, getTableColumns(items)));
+    });
+  }
+
+  return tables.filter(table => table.columns.length > 0);
+}
@@ -0,0 +1,291 @@
+/**
+ * Export Templates
+ *
+ * Column mappings that lay an extracted rent roll out as an import file for an underwriting
+ * model (ARGUS Enterprise, an in-house pro forma). Built-in templates live here; users and
+ * groups store their own in export_templates (group templates are shared with every member
+ * and managed by the group owner).
+ */
+
+import { supabaseAdmin as supabase } from './supabase';
+import { buildExportTable, type ExportTable } from './export-tables';
+import { parseNumericValue } from './reconciliation';
+import { getRentRollTenants, parseDateParts } from './rent-roll-analytics';
+import type {
+  ExportTemplate,
+  ExportTemplateColumn,
+  ExtractedData,
+  GroupMemberRole
+} from './types';
+
+/**
+ * Prefix for template fields read from the document metadata instead of the tenant row
+ */
+const PROPERTY_FIELD_PREFIX = 'property.';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function builtInTemplate(
+  template: Pick<ExportTemplate, 'id' | 'name' | 'description' | 'target_system' | 'sheet_name' | 'columns'>
+): ExportTemplate {
+  return {
+    ...template,
+    document_type: 'rent_roll',
+    user_id: null,
+    group_id: null,
+    created_by: null,
+    created_at: null,
+    updated_at: null
+  };
+}
+
+export const BUILT_IN_EXPORT_TEMPLATES: ExportTemplate[] = [
+  builtInTemplate({
+    id: 'argus-enterprise-rent-roll',
+    name: 'ARGUS Enterprise - Tenant Import',
+    description: 'One row per tenant with annual rents, lease term and recovery method for the ARGUS Enterprise rent roll import',
+    target_system: 'argus_enterprise',
+    sheet_name: 'Tenant Import',
+    columns: [
+      { header: 'Property Name', field: 'property.propertyName', transform: 'text' },
+      { header: 'Tenant Name', field: 'tenantName', transform: 'text' },
+      { header: 'Suite', field: 'suiteUnit', transform: 'text' },
+      { header: 'Lease Status', field: 'occupancyStatus', transform: 'lease_status' },
+      { header: 'Area (SF)', field: 'squareFootage', transform: 'number' },
+      { header: 'Lease Start', field: 'leaseStart', transform: 'date' },
+      { header: 'Lease Expiration', field: 'leaseEnd', transform: 'date' },
+      { header: 'Term (Months)', transform: 'term_months' },
+      { header: 'Base Rent ($/SF/Yr)', field: 'baseRent', transform: 'annual_per_sf' },
+      { header: 'Base Rent (Annual)', field: 'baseRent', transform: 'annual' },
+      { header: 'Rent Increase (%)', field: 'rentEscalations', transform: 'percent' },
+      { header: 'Rent Increase Notes', field: 'rentEscalations', transform: 'text' },
+      { header: 'Recovery Method', field: 'leaseType', transform: 'recovery_type' },
+      { header: 'Recoveries (Annual)', field: 'camReimbursements', transform: 'annual' },
+      { header: 'Free Rent', field: 'freeRentConcessions', transform: 'text' },
+      { header: 'Security Deposit', field: 'securityDeposit', transform: 'number' },
+      { header: 'Renewal Options', field: 'renewalOptions', transform: 'text' }
+    ]
+  }),
+  builtInTemplate({
+    id: 'pro-forma-rent-roll',
+    name: 'Underwriting Pro Forma - Rent Roll',
+    description: 'Monthly and annual rent per unit with escalations and recoveries for the Excel pro forma rent roll tab',
+    target_system: 'pro_forma',
+    sheet_name: 'Rent Roll',
+    columns: [
+      { header: 'Unit', field: 'suiteUnit', transform: 'text' },
+      { header: 'Tenant', field: 'tenantName', transform: 'text' },
+      { header: 'Status', field: 'occupancyStatus', transform: 'text' },
+      { header: 'SF', field: 'squareFootage', transform: 'number' },
+      { header: 'Lease Type', field: 'leaseType', transform: 'text' },
+      { header: 'Start', field: 'leaseStart', transform: 'date' },
+      { header: 'Expiration', field: 'leaseEnd', transform: 'date' },
+      { header: 'Monthly Rent', field: 'baseRent', transform: 'number' },
+      { header: 'Annual Rent', field: 'baseRent', transform: 'annual' },
+      { header: 'Rent PSF (Monthly)', field: 'baseRent', transform: 'monthly_per_sf' },
+      { header: 'Rent PSF (Annual)', field: 'baseRent', transform: 'annual_per_sf' },
+      { header: 'Escalation (%)', field: 'rentEscalations', transform: 'percent' },
+      { header: 'Recoveries (Monthly)', field: 'camReimbursements', transform: 'number' },
+      { header: 'Recovery Method', field: 'leaseType', transform: 'recovery_type' }
+    ]
+  })
+];
+
+export function isBuiltInExportTemplate(templateId: string): boolean {
+  return BUILT_IN_EXPORT_TEMPLATES.some(template => template.id === templateId);
+}
+
+/**
+ * Active group membership of a user, or null for individual users
+ */
+export async function getUserGroupMembership(
+  userId: string
+): Promise<{ groupId: string; role: GroupMemberRole } | null> {
+  const { data, error } = await supabase
+    .from('group_members')
+    .select('group_id, role')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Export Templates] Failed to load group membership:', error);
+    return null;
+  }
+
+  return data ? { groupId: data.group_id, role: data.role as GroupMemberRole } : null;
+}
+
+/**
+ * Templates a user can export with: built-ins, their own, then their group's
+ */
+export async function getAccessibleExportTemplates(userId: string, groupId?: string | null): Promise<ExportTemplate[]> {
+  const ownerFilter = groupId ? `user_id.eq.${userId},group_id.eq.${groupId}` : `user_id.eq.${userId}`;
+
+  const { data, error } = await supabase
+    .from('export_templates')
+    .select('*')
+    .or(ownerFilter)
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('[Export Templates] Failed to load templates:', error);
+    throw new Error('Failed to load export templates');
+  }
+
+  return [...BUILT_IN_EXPORT_TEMPLATES, ...((data as ExportTemplate[]) || [])];
+}
+
+/**
+ * Look up a template the user is allowed to export with
+ *
+ * @returns Template, or null when it does not exist or belongs to another user/group
+ */
+export async function getExportTemplate(templateId: string, userId: string): Promise<ExportTemplate | null> {
+  const builtIn = BUILT_IN_EXPORT_TEMPLATES.find(template => template.id === templateId);
+  if (builtIn) return builtIn;
+  if (!UUID_PATTERN.test(templateId)) return null;
+
+  const { data: template, error } = await supabase
+    .from('export_templates')
+    .select('*')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error || !template) {
+    if (error) console.error(`[Export Templates] Failed to load template ${templateId}:`, error);
+    return null;
+  }
+
+  if (template.user_id === userId) return template as ExportTemplate;
+
+  const membership = template.group_id ? await getUserGroupMembership(userId) : null;
+  return membership?.groupId === template.group_id ? template as ExportTemplate : null;
+}
+
+/**
+ * Personal templates are managed by their owner, group templates by the group owner
+ * Built-in templates cannot be changed
+ */
+export async function canManageExportTemplate(template: ExportTemplate, userId: string): Promise<boolean> {
+  if (isBuiltInExportTemplate(template.id)) return false;
+  if (template.user_id) return template.user_id === userId;
+
+  const membership = await getUserGroupMembership(userId);
+  return membership?.groupId === template.group_id && membership.role === 'owner';
+}
+
+function getFieldValue(source: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Resolve one template cell for a tenant row
+ */
+function resolveColumnValue(
+  column: ExportTemplateColumn,
+  tenant: Record<string, unknown>,
+  metadata: Record<string, unknown>
+): unknown {
+  const raw = column.field
+    ? column.field.startsWith(PROPERTY_FIELD_PREFIX)
+      ? getFieldValue(metadata, column.field.slice(PROPERTY_FIELD_PREFIX.length))
+      : getFieldValue(tenant, column.field)
+    : undefined;
+
+  const squareFootage = parseNumericValue(tenant.squareFootage);
+  const amount = parseNumericValue(raw);
+  let value: unknown;
+
+  switch (column.transform) {
+    case 'number':
+      value = amount;
+      break;
+    case 'date': {
+      const parts = parseDateParts(raw);
+      value = parts
+        ? `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`
+        : raw;
+      break;
+    }
+    case 'annual':
+      value = amount === null ? null : roundTo(amount * 12, 2);
+      break;
+    case 'annual_per_sf':
+      value = amount === null || !squareFootage ? null : roundTo((amount * 12) / squareFootage, 2);
+      break;
+    case 'monthly_per_sf':
+      value = amount === null || !squareFootage ? null : roundTo(amount / squareFootage, 4);
+      break;
+    case 'percent': {
+      if (typeof raw === 'number') {
+        value = Math.abs(raw) <= 1 ? roundTo(raw * 100, 4) : raw;
+      } else {
+        const match = typeof raw === 'string' ? raw.match(/(-?\d+(?:\.\d+)?)\s*%/) : null;
+        value = match ? Number(match[1]) : null;
+      }
+      break;
+    }
+    case 'term_months': {
+      const start = parseDateParts(tenant.leaseStart);
+      const end = parseDateParts(tenant.leaseEnd);
+      // A lease ending the day before its start day covers a whole final month (3/1/21 - 2/28/31 = 120)
+      value = start && end
+        ? (end.year - start.year) * 12 + (end.month - start.month) + (end.day >= start.day - 1 ? 1 : 0)
+        : null;
+      break;
+    }
+    case 'recovery_type': {
+      const leaseType = typeof raw === 'string' ? raw.toLowerCase() : '';
+      value = !leaseType
+        ? null
+        : /nnn|net/.test(leaseType)
+          ? 'Net'
+          : leaseType.includes('modified')
+            ? 'Base Year Stop'
+            : /gross|full service/.test(leaseType)
+              ? 'None'
+              : raw;
+      break;
+    }
+    case 'lease_status':
+      value = raw === undefined || raw === null ? null : raw === 'vacant' ? 'Speculative' : 'Contract';
+      break;
+    default:
+      value = raw;
+  }
+
+  return value === undefined || value === null || value === '' ? column.value ?? null : value;
+}
+
+/**
+ * Lay an extraction out with a template - one row per tenant, one column per mapping
+ *
+ * @throws Error when the extraction has no rent roll tenants to map
+ */
+export function buildTemplateTable(template: ExportTemplate, extractedData: ExtractedData): ExportTable {
+  const tenants = getRentRollTenants(extractedData);
+  if (tenants.length === 0) {
+    throw new Error(`Invalid extracted data: template "${template.name}" needs a rent roll with tenants`);
+  }
+
+  const metadata = (extractedData.metadata || {}) as unknown as Record<string, unknown>;
+  const records = tenants.map(tenant =>
+    Object.fromEntries(template.columns.map(column => [column.header, resolveColumnValue(column, tenant, metadata)]))
+  );
+
+  const table = buildExportTable(template.sheet_name, records, template.columns.map(column => column.header));
+  // Template headers are used verbatim (buildExportTable title-cases field paths)
+  table.columns.forEach(column => {
+    column.header = column.path;
+  });
+  return table;
+}
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Rows returned by the stale job listing
+let staleJobs: unknown[] = [];
+
+/**
+ * Chainable stand-in for a Supabase query: limit() resolves to the stale jobs, and awaiting
+ * any other chain succeeds with one row (a conditional update that claimed the job)
+ */
+const query = {
+  select: vi.fn(() => query),
+  update: vi.fn(() => query),
+  delete: vi.fn(() => query),
+  eq: vi.fn(() => query),
+  lt: vi.fn(() => query),
+  order: vi.fn(() => query),
+  limit: vi.fn(async () => ({ data: staleJobs, error: null })),
+  then: (resolve: (value: unknown) => unknown) => Promise.resolve({ data: [{ id: 'job-1' }], error: null }).then(resolve)
+};
+const extractWithModelRouting = vi.fn();
+const credits = {
+  commitCreditReservation: vi.fn(),
+  releaseCreditReservation: vi.fn(),
+  getEffectiveCredits: vi.fn(async () => 90),
+  logUsage: vi.fn(async () => true),
+  saveUserDocument: vi.fn()
+};
+
+vi.mock('./supabase', () => ({ supabaseAdmin: { from: vi.fn(() => query) } }));
+vi.mock('./model-routing', () => ({ extractWithModelRouting }));
+vi.mock('./data-transformers', () => ({ transformExtractedData: (data: unknown) => data }));
+vi.mock('./reconciliation', () => ({ reconcileExtractedData: () => undefined }));
+vi.mock('@/middleware/creditCheck', () => credits);
+
+const { isResumableExtraction, recoverStaleExtractionJobs, runExtractionJob } = await import('./extraction-jobs');
+
+const input = {
+  userId: 'user-1',
+  file: new File(['%PDF'], 'rent-roll.pdf', { type: 'application/pdf' }),
+  filePath: 'https://storage.example.com/rent-roll.pdf',
+  documentType: 'rent_roll' as const,
+  pageCount: 10,
+  creditReservationId: 'res-1',
+  userMetadata: {
+    pdfFileName: 'rent-roll.pdf',
+    rexeliUserName: 'Test User',
+    rexeliUserEmail: 'test@example.com',
+    extractionTimestamp: '2026-01-01T00:00:00.000Z',
+    documentId: 'doc_1'
+  }
+};
+
+/**
+ * The last job update that set a final status
+ */
+function finalJobUpdate(): Record<string, unknown> {
+  const updates = query.update.mock.calls.map(call => (call as unknown[])[0] as Record<string, unknown>);
+  return updates.filter(update => update.processing_status).pop()!;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  staleJobs = [];
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('runExtractionJob', () => {
+  it('commits the reservation when the extraction succeeds', async () => {
+    extractWithModelRouting.mockResolvedValue({ documentType: 'rent_roll', metadata: {}, data: { tenants: [] } });
+    credits.commitCreditReservation.mockResolvedValue(true);
+
+    await runExtractionJob('job-1', input);
+
+    expect(credits.commitCreditReservation).toHaveBeenCalledWith('res-1');
+    expect(credits.releaseCreditReservation).not.toHaveBeenCalled();
+    expect(credits.logUsage).toHaveBeenCalledWith('user-1', expect.objectContaining({ creditsUsed: 10, processingStatus: 'success' }));
+    expect(finalJobUpdate()).toMatchObject({
+      processing_status: 'completed',
+      job_result: { creditsUsed: 10, remainingCredits: 90, partialSuccess: false, warnings: [] }
+    });
+  });
+
+  it('warns when the reservation was no longer open at commit', async () => {
+    extractWithModelRouting.mockResolvedValue({ documentType: 'rent_roll', metadata: {}, data: { tenants: [] } });
+    credits.commitCreditReservation.mockResolvedValue(false);
+
+    await runExtractionJob('job-1', input);
+
+    expect(finalJobUpdate()).toMatchObject({
+      processing_status: 'completed',
+      job_result: { warnings: ['Credit deduction failed. Please contact support.'] }
+    });
+  });
+
+  it('refunds the reservation for partial results', async () => {
+    extractWithModelRouting.mockRejectedValue(new Error('Invalid JSON in response'));
+    credits.releaseCreditReservation.mockResolvedValue(10);
+
+    await runExtractionJob('job-1', input);
+
+    expect(credits.commitCreditReservation).not.toHaveBeenCalled();
+    expect(credits.releaseCreditReservation).toHaveBeenCalledWith('res-1', 'Partial extraction of rent-roll.pdf');
+    expect(credits.logUsage).toHaveBeenCalledWith('user-1', expect.objectContaining({ creditsUsed: 0, processingStatus: 'success' }));
+    expect(finalJobUpdate()).toMatchObject({
+      processing_status: 'completed',
+      job_result: { creditsUsed: 0, partialSuccess: true }
+    });
+  });
+
+  it('refunds the reservation and fails the job when the extraction throws', async () => {
+    extractWithModelRouting.mockRejectedValue(new Error('Claude API unavailable'));
+    credits.releaseCreditReservation.mockResolvedValue(10);
+
+    await runExtractionJob('job-1', input);
+
+    expect(credits.commitCreditReservation).not.toHaveBeenCalled();
+    expect(credits.releaseCreditReservation).toHaveBeenCalledWith('res-1', 'Extraction failed - Claude API unavailable');
+    expect(credits.logUsage).toHaveBeenCalledWith('user-1', expect.objectContaining({ creditsUsed: 0, processingStatus: 'failed' }));
+    expect(finalJobUpdate()).toMatchObject({ processing_status: 'failed', error_message: 'Claude API unavailable' });
+  });
+});
+
+describe('isResumableExtraction', () => {
+  it('only resumes rent rolls long enough to be extracted in page windows', () => {
+    expect(isResumableExtraction('rent_roll', 41)).toBe(true);
+    expect(isResumableExtraction('rent_roll', 40)).toBe(false);
+    expect(isResumableExtraction('offering_memo', 120)).toBe(false);
+    expect(isResumableExtraction('document_package', 120)).toBe(false);
+  });
+});
+
+describe('recoverStaleExtractionJobs', () => {
+  const staleJob = {
+    id: 'job-1',
+    user_id: 'user-1',
+    file_path: 'https://storage.example.com/rent-roll.pdf',
+    file_name: 'rent-roll.pdf',
+    document_type: 'rent_roll',
+    page_count: 120,
+    processing_status: 'processing',
+    credit_reservation_id: 'res-1',
+    job_options: { userMetadata: input.userMetadata },
+    job_resume_count: 0,
+    updated_at: '2026-01-01T00:00:00'
+  };
+  const scheduleResume = vi.fn();
+
+  it('resumes a stale windowed rent roll whose file is stored', async () => {
+    staleJobs = [staleJob];
+
+    await expect(recoverStaleExtractionJobs(scheduleResume)).resolves.toEqual({ resumed: 1, failed: 0 });
+    expect(scheduleResume).toHaveBeenCalledTimes(1);
+    expect(query.update).toHaveBeenCalledWith({ job_resume_count: 1, job_message: 'Resuming extraction' });
+    expect(credits.releaseCreditReservation).not.toHaveBeenCalled();
+  });
+
+  it('fails and refunds stale jobs that save no windows or have no stored file', async () => {
+    staleJobs = [
+      { ...staleJob, document_type: 'offering_memo' },
+      { ...staleJob, page_count: 12 },
+      { ...staleJob, file_path: 'rent-roll.pdf' }
+    ];
+
+    await expect(recoverStaleExtractionJobs(scheduleResume)).resolves.toEqual({ resumed: 0, failed: 3 });
+    expect(scheduleResume).not.toHaveBeenCalled();
+    expect(credits.releaseCreditReservation).toHaveBeenCalledTimes(3);
+    expect(finalJobUpdate()).toMatchObject({ processing_status: 'failed' });
+  });
+});
@@ -0,0 +1,707 @@
+/**
+ * Asynchronous Extraction Jobs
+ *
+ * A job is a user_documents row created with processing_status = 'processing'.
+ * The extract API creates the row, returns its id immediately and runs the extraction
+ * after the response is sent. Stage and progress are written to the row as the job runs,
+ * so the client can poll /api/extract/jobs/[id] or subscribe to the row with Supabase
+ * Realtime, and pick the job up again after a page reload.
+ *
+ * A job can outlive the function that runs it (maxDuration). Only rent rolls long enough to be
+ * extracted in page windows save progress: each window is written to extraction_job_windows as it
+ * finishes, and a job that stops reporting progress is resumed in a new invocation (status poll or
+ * the resume cron) that only extracts the missing windows. Every other document is extracted in a
+ * single call with nothing to resume from, so a stale job of any other type is marked as failed
+ * (see isResumableExtraction and recoverStaleJob). The extract API stores the upload of a
+ * resumable job before queueing it, so the resumed invocation can download it again.
+ *
+ * The extract API reserves the job's credits before creating it; the job commits the
+ * reservation when it completes and refunds it when it fails, returns partial results or is
+ * given up.
+ */
+
+import { supabaseAdmin as supabase } from './supabase';
+import { extractWithModelRouting } from './model-routing';
+import { transformExtractedData } from './data-transformers';
+import { reconcileExtractedData } from './reconciliation';
+import { RENT_ROLL_CHUNK_THRESHOLD_PAGES } from './anthropic';
+import {
+  commitCreditReservation,
+  getEffectiveCredits,
+  logUsage,
+  releaseCreditReservation,
+  saveUserDocument
+} from '@/middleware/creditCheck';
+import type {
+  DocumentType,
+  ExtractedData,
+  ExtractionJob,
+  ExtractionJobResult,
+  ExtractionJobStage,
+  ExtractionJobStatus,
+  ExtractionCheckpoint,
+  ExtractionProgressCallback,
+  ExtractionWindowCheckpoint
+} from './types';
+
+/**
+ * Jobs without an update for this long are treated as lost (the function timed out or crashed)
+ * Must exceed the extract route's maxDuration
+ */
+export const EXTRACTION_JOB_STALE_AFTER_MS = 6 * 60 * 1000;
+
+/**
+ * Resumes allowed in a row without a new saved window before the job is marked as failed
+ */
+export const EXTRACTION_JOB_MAX_RESUMES = 3;
+
+/**
+ * Stale jobs resumed by one run of the resume cron - each shares that invocation's maxDuration
+ */
+const EXTRACTION_JOB_RESUMES_PER_RUN = 2;
+
+/**
+ * Progress (0-100) at the start of each stage - extraction fills the range up to validation
+ */
+const STAGE_PROGRESS: Record<ExtractionJobStage, number> = {
+  queued: 0,
+  extracting: 5,
+  validating: 75,
+  saving: 90,
+  completed: 100,
+  failed: 100
+};
+
+const JOB_COLUMNS = 'id, user_id, file_path, file_name, document_type, page_count, processing_status, job_stage, job_progress, job_message, job_result, error_message, extracted_data, credit_reservation_id, job_options, job_resume_count, created_at, updated_at, completed_at';
+
+interface ExtractionJobRow {
+  id: string;
+  user_id: string;
+  file_path: string;
+  file_name: string;
+  document_type: DocumentType;
+  page_count: number;
+  processing_status: ExtractionJobStatus;
+  job_stage: ExtractionJobStage | null;
+  job_progress: number | null;
+  job_message: string | null;
+  job_result: ExtractionJobResult | null;
+  error_message: string | null;
+  extracted_data: ExtractedData | null;
+  credit_reservation_id: string | null;
+  job_options: ExtractionJobOptions | null;
+  job_resume_count: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface ExtractionUserMetadata {
+  pdfFileName: string;
+  rexeliUserName: string;
+  rexeliUserEmail: string;
+  extractionTimestamp: string;
+  documentId: string;
+}
+
+/**
+ * Extraction options stored on the job so it can be resumed
+ */
+interface ExtractionJobOptions {
+  userMetadata: ExtractionUserMetadata;
+  userInstructions?: string;
+}
+
+/**
+ * Runs a task after the response is sent (next/server `after`)
+ */
+export type ScheduleJobTask = (task: () => Promise<void>) => void;
+
+export interface ExtractionJobInput {
+  userId: string;
+  file: File;
+  filePath: string;
+  documentType: DocumentType;
+  pageCount: number;
+  creditReservationId: string;
+  userMetadata: ExtractionUserMetadata;
+  userInstructions?: string;
+}
+
+/**
+ * Whether a job of this document saves its progress and can be resumed after its function stops
+ * True only for rent rolls extracted in page windows - no other document type saves windows
+ */
+export function isResumableExtraction(documentType: DocumentType, pageCount: number): boolean {
+  return documentType === 'rent_roll' && pageCount > RENT_ROLL_CHUNK_THRESHOLD_PAGES;
+}
+
+/**
+ * Build the user/system metadata merged into every extraction
+ */
+export function createExtractionUserMetadata(
+  fileName: string,
+  user: { name?: string | null; email?: string | null }
+): ExtractionUserMetadata {
+  return {
+    pdfFileName: fileName,
+    rexeliUserName: user.name || 'Unknown User',
+    rexeliUserEmail: user.email || 'unknown@rexeli.com',
+    extractionTimestamp: new Date().toISOString(),
+    documentId: `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  };
+}
+
+/**
+ * Extract, transform and reconcile a document
+ * Shared by the synchronous extract API and background jobs
+ *
+ * Falls back to an empty result (partialSuccess) when the model returns unparseable JSON;
+ * any other error is re-thrown
+ */
+export async function extractAndReconcile(
+  file: File,
+  documentType: DocumentType,
+  userMetadata: ExtractionUserMetadata,
+  userInstructions?: string,
+  onProgress?: ExtractionProgressCallback,
+  checkpoint?: ExtractionCheckpoint
+): Promise<{ extractedData: ExtractedData; partialSuccess: boolean; warnings: string[] }> {
+  try {
+    let extractedData = await extractWithModelRouting(file, documentType, { userMetadata, userInstructions, onProgress, checkpoint });
+    console.log('Raw data extraction completed:', extractedData);
+
+    // Transform the extracted data to match display component expectations
+    extractedData = transformExtractedData(extractedData);
+    console.log('Data transformation completed successfully');
+
+    // Cross-check totals against line items (reports only, never modifies data)
+    extractedData = { ...extractedData, reconciliation: reconcileExtractedData(extractedData) };
+
+    return { extractedData, partialSuccess: false, warnings: [] };
+  } catch (extractionError) {
+    console.error('Extraction error, attempting partial recovery:', extractionError);
+
+    // Try to provide partial results if extraction fails
+    if (extractionError instanceof Error && extractionError.message.includes('Invalid JSON')) {
+      return {
+        extractedData: {
+          documentType,
+          metadata: {
+            // Document metadata (failed extraction)
+            extractedDate: new Date().toISOString().split('T')[0],
+            propertyName: 'Unable to extract',
+            propertyAddress: 'Unable to extract',
+            // User metadata (from system)
+            ...userMetadata
+          },
+          data: {} as ExtractedData['data'] // Empty data object - client should handle gracefully
+        } as ExtractedData,
+        partialSuccess: true,
+        warnings: ['Some data may be incomplete due to parsing errors']
+      };
+    }
+
+    throw extractionError; // Re-throw if not a parsing error
+  }
+}
+
+/**
+ * Create a queued extraction job for a document
+ * @returns Job (user_documents) id, or null if the row could not be created
+ */
+export async function createExtractionJob(
+  userId: string,
+  job: {
+    filePath: string;
+    fileName: string;
+    documentType: DocumentType;
+    pageCount: number;
+    creditReservationId: string;
+    userMetadata: ExtractionUserMetadata;
+    userInstructions?: string;
+  }
+): Promise<string | null> {
+  const jobId = await saveUserDocument(userId, {
+    filePath: job.filePath,
+    fileName: job.fileName,
+    documentType: job.documentType,
+    extractedData: null,
+    pageCount: job.pageCount,
+    creditReservationId: job.creditReservationId,
+    processingStatus: 'processing'
+  });
+
+  if (!jobId) {
+    return null;
+  }
+
+  await updateExtractionJob(jobId, {
+    stage: 'queued',
+    progress: STAGE_PROGRESS.queued,
+    message: 'Waiting to start',
+    options: { userMetadata: job.userMetadata, userInstructions: job.userInstructions }
+  });
+  return jobId;
+}
+
+/**
+ * Write job state to its user_documents row
+ * Never throws - a failed progress write must not fail the extraction
+ */
+export async function updateExtractionJob(
+  jobId: string,
+  update: {
+    status?: ExtractionJobStatus;
+    stage?: ExtractionJobStage;
+    progress?: number;
+    message?: string | null;
+    error?: string | null;
+    extractedData?: ExtractedData;
+    result?: ExtractionJobResult;
+    options?: ExtractionJobOptions;
+    resumeCount?: number;
+  }
+): Promise<boolean> {
+  const row: Record<string, unknown> = {};
+  if (update.status !== undefined) row.processing_status = update.status;
+  if (update.stage !== undefined) row.job_stage = update.stage;
+  if (update.progress !== undefined) row.job_progress = Math.max(0, Math.min(100, Math.round(update.progress)));
+  if (update.message !== undefined) row.job_message = update.message;
+  if (update.error !== undefined) row.error_message = update.error;
+  if (update.extractedData !== undefined) row.extracted_data = update.extractedData;
+  if (update.result !== undefined) row.job_result = update.result;
+  if (update.options !== undefined) row.job_options = update.options;
+  if (update.resumeCount !== undefined) row.job_resume_count = update.resumeCount;
+  if (update.status === 'completed' || update.status === 'failed') row.completed_at = new Date().toISOString();
+
+  const { error } = await supabase.from('user_documents').update(row).eq('id', jobId);
+
+  if (error) {
+    console.error(`[Extraction Job ${jobId}] Failed to update job:`, error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Save a finished page window so a resumed job does not extract it again
+ * Also resets the job's resume count - it is making progress. Never throws.
+ */
+async function saveExtractionJobWindow(jobId: string, window: ExtractionWindowCheckpoint): Promise<boolean> {
+  const { error } = await supabase.from('extraction_job_windows').upsert(
+    {
+      job_id: jobId,
+      start_page: window.startPage,
+      end_page: window.endPage,
+      output_text: window.text,
+      truncated: window.truncated,
+      continuation_calls: window.continuationCalls
+    },
+    { onConflict: 'job_id,start_page,end_page' }
+  );
+
+  if (error) {
+    console.error(`[Extraction Job ${jobId}] Failed to save pages ${window.startPage}-${window.endPage}:`, error.message);
+    return false;
+  }
+  return updateExtractionJob(jobId, { resumeCount: 0 });
+}
+
+/**
+ * Page windows saved by earlier attempts of a job
+ * Returns an empty list on error - the job then extracts every window again
+ */
+async function getExtractionJobWindows(jobId: string): Promise<ExtractionWindowCheckpoint[]> {
+  const { data, error } = await supabase
+    .from('extraction_job_windows')
+    .select('start_page, end_page, output_text, truncated, continuation_calls')
+    .eq('job_id', jobId);
+
+  if (error) {
+    console.error(`[Extraction Job ${jobId}] Failed to load saved windows:`, error.message);
+    return [];
+  }
+
+  return (data || []).map(row => ({
+    startPage: row.start_page,
+    endPage: row.end_page,
+    text: row.output_text,
+    truncated: row.truncated,
+    continuationCalls: row.continuation_calls
+  }));
+}
+
+/**
+ * Delete a finished job's saved windows - they are only needed to resume it
+ */
+async function clearExtractionJobWindows(jobId: string): Promise<void> {
+  const { error } = await supabase.from('extraction_job_windows').delete().eq('job_id', jobId);
+
+  if (error) {
+    console.error(`[Extraction Job ${jobId}] Failed to delete saved windows:`, error.message);
+  }
+}
+
+/**
+ * Run an extraction job to completion, recording every stage on the job row
+ * The credit reservation is committed when the extraction succeeds and refunded otherwise.
+ * Never throws.
+ *
+ * @param savedWindows - Page windows finished by earlier attempts when the job is resumed
+ */
+export async function runExtractionJob(
+  jobId: string,
+  input: ExtractionJobInput,
+  savedWindows: ExtractionWindowCheckpoint[] = []
+): Promise<void> {
+  const startTime = Date.now();
+  const { userId, file, filePath, documentType, pageCount, creditReservationId } = input;
+
+  console.log(`[Extraction Job ${jobId}] Starting ${documentType} extraction of ${file.name} (${pageCount} pages)`);
+
+  try {
+    await updateExtractionJob(jobId, {
+      stage: 'extracting',
+      progress: STAGE_PROGRESS.extracting,
+      message: savedWindows.length > 0 ? 'Resuming extraction' : 'Extracting data'
+    });
+
+    // Progress writes are chained so they land in order and finish before the next stage
+    let progressWrites = Promise.resolve(true);
+    const extractingRange = STAGE_PROGRESS.validating - STAGE_PROGRESS.extracting;
+    const onProgress: ExtractionProgressCallback = (message, fraction) => {
+      progressWrites = progressWrites.then(() => updateExtractionJob(jobId, {
+        progress: STAGE_PROGRESS.extracting + extractingRange * Math.max(0, Math.min(1, fraction)),
+        message
+      }));
+    };
+    // Saved in the same chain, so a window is stored before the next progress update lands
+    const checkpoint: ExtractionCheckpoint = {
+      windows: savedWindows,
+      onWindowComplete: window => {
+        progressWrites = progressWrites.then(() => saveExtractionJobWindow(jobId, window));
+      }
+    };
+
+    const { extractedData, partialSuccess, warnings } = await extractAndReconcile(
+      file,
+      documentType,
+      input.userMetadata,
+      input.userInstructions,
+      onProgress,
+      checkpoint
+    );
+    await progressWrites;
+
+    await updateExtractionJob(jobId, { stage: 'validating', progress: STAGE_PROGRESS.validating, message: 'Validating extracted data' });
+    const processingTime = Date.now() - startTime;
+
+    // ============================================
+    // CREDIT SYSTEM: Commit the reservation, or refund it for partial results
+    // ============================================
+    await updateExtractionJob(jobId, { stage: 'saving', progress: STAGE_PROGRESS.saving, message: 'Saving results' });
+
+    let creditsUsed = pageCount;
+    if (partialSuccess) {
+      creditsUsed -= await releaseCreditReservation(creditReservationId, `Partial extraction of ${file.name}`);
+      if (creditsUsed < pageCount) {
+        warnings.push('No credits were used for this partial result.');
+      }
+    } else if (!(await commitCreditReservation(creditReservationId))) {
+      console.error(`[Extraction Job ${jobId}] Credit reservation ${creditReservationId} was not open`);
+      warnings.push('Credit deduction failed. Please contact support.');
+    }
+    const remainingCredits = await getEffectiveCredits(userId);
+
+    const usageLogged = await logUsage(userId, {
+      documentType,
+      fileName: file.name,
+      filePath,
+      pageCount,
+      creditsUsed,
+      processingStatus: 'success',
+      processingTimeMs: processingTime,
+    });
+    if (!usageLogged) {
+      console.error(`[Extraction Job ${jobId}] Usage logging failed`);
+      warnings.push('Usage logging failed. Please contact support if this persists.');
+    }
+
+    const saved = await updateExtractionJob(jobId, {
+      status: 'completed',
+      stage: 'completed',
+      progress: STAGE_PROGRESS.completed,
+      message: partialSuccess ? 'Completed with partial results' : 'Completed',
+      extractedData,
+      result: {
+        processingTime,
+        creditsUsed,
+        remainingCredits,
+        partialSuccess,
+        warnings
+      }
+    });
+
+    if (!saved) {
+      console.error(`[Extraction Job ${jobId}] Results could not be saved`);
+      return;
+    }
+    await clearExtractionJobWindows(jobId);
+
+    console.log(`[Extraction Job ${jobId}] Completed in ${(processingTime / 1000).toFixed(1)}s - ${creditsUsed} credits used`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Data extraction failed';
+    console.error(`[Extraction Job ${jobId}] Failed:`, error);
+
+    await releaseCreditReservation(creditReservationId, `Extraction failed - ${errorMessage.slice(0, 200)}`);
+
+    // Log failed processing (credits refunded)
+    await logUsage(userId, {
+      documentType,
+      fileName: file.name,
+      filePath,
+      pageCount,
+      creditsUsed: 0,
+      processingStatus: 'failed',
+      processingTimeMs: Date.now() - startTime,
+      errorMessage,
+    });
+
+    await updateExtractionJob(jobId, {
+      status: 'failed',
+      stage: 'failed',
+      progress: STAGE_PROGRESS.failed,
+      message: null,
+      error: errorMessage
+    });
+    await clearExtractionJobWindows(jobId);
+  }
+}
+
+/**
+ * Parse a user_documents timestamp - columns are stored without a time zone (UTC)
+ */
+function parseJobTimestamp(value: string): number {
+  return Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value}Z`);
+}
+
+function toExtractionJob(row: ExtractionJobRow): ExtractionJob {
+  return {
+    id: row.id,
+    status: row.processing_status,
+    stage: row.job_stage || (row.processing_status === 'processing' ? 'queued' : row.processing_status),
+    progress: row.job_progress ?? (row.processing_status === 'processing' ? 0 : 100),
+    message: row.job_message,
+    fileName: row.file_name,
+    filePath: row.file_path,
+    documentType: row.document_type,
+    pageCount: row.page_count,
+    error: row.error_message,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+    ...(row.processing_status === 'completed' && row.extracted_data && { extractedData: row.extracted_data }),
+    ...(row.job_result && { result: row.job_result })
+  };
+}
+
+/**
+ * A job can be resumed when it saves windows, its file is stored (URL) and its options were saved
+ */
+function canResumeJob(row: ExtractionJobRow): boolean {
+  return Boolean(
+    isResumableExtraction(row.document_type, row.page_count) &&
+    row.job_options &&
+    row.credit_reservation_id &&
+    /^https?:\/\//.test(row.file_path) &&
+    row.job_resume_count < EXTRACTION_JOB_MAX_RESUMES
+  );
+}
+
+/**
+ * Take a stale job for resuming - the conditional update makes sure only one request resumes it
+ * @returns True if this request claimed the job
+ */
+async function claimStaleJob(row: ExtractionJobRow): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_documents')
+    .update({ job_resume_count: row.job_resume_count + 1, job_message: 'Resuming extraction' })
+    .eq('id', row.id)
+    .eq('processing_status', 'processing')
+    .eq('updated_at', row.updated_at)
+    .select('id');
+
+  if (error) {
+    console.error(`[Extraction Job ${row.id}] Failed to claim job for resuming:`, error.message);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Mark a job as failed and refund its credit reservation
+ */
+async function failStaleJob(row: ExtractionJobRow, error: string): Promise<ExtractionJobRow> {
+  if (row.credit_reservation_id) {
+    await releaseCreditReservation(row.credit_reservation_id, `Extraction of ${row.file_name} did not finish in time`);
+  }
+  await updateExtractionJob(row.id, { status: 'failed', stage: 'failed', progress: STAGE_PROGRESS.failed, message: null, error });
+  await clearExtractionJobWindows(row.id);
+
+  return { ...row, processing_status: 'failed', job_stage: 'failed', job_progress: STAGE_PROGRESS.failed, job_message: null, error_message: error };
+}
+
+/**
+ * Resume a job that stopped reporting progress, or mark it as failed and refund its
+ * credit reservation when it cannot be resumed so the client stops waiting
+ *
+ * @param scheduleResume - Runs the resumed job after the response is sent; without it the
+ *   stale job is left for a caller that can resume it
+ */
+async function recoverStaleJob(row: ExtractionJobRow, scheduleResume?: ScheduleJobTask): Promise<ExtractionJobRow> {
+  if (row.processing_status !== 'processing') return row;
+  if (Date.now() - parseJobTimestamp(row.updated_at) < EXTRACTION_JOB_STALE_AFTER_MS) return row;
+
+  if (canResumeJob(row)) {
+    if (!scheduleResume) return row;
+
+    if (await claimStaleJob(row)) {
+      console.warn(`[Extraction Job ${row.id}] No progress since ${row.updated_at} - resuming (attempt ${row.job_resume_count + 1})`);
+      scheduleResume(() => resumeExtractionJob(row.id));
+      return { ...row, job_message: 'Resuming extraction', job_resume_count: row.job_resume_count + 1 };
+    }
+    return row;
+  }
+
+  console.warn(`[Extraction Job ${row.id}] No progress since ${row.updated_at} - marking as failed`);
+  return failStaleJob(row, 'Extraction did not finish in time. No credits were used - please try again or split the document.');
+}
+
+/**
+ * Continue a claimed job in this invocation, reusing the page windows it already saved
+ * Never throws.
+ */
+async function resumeExtractionJob(jobId: string): Promise<void> {
+  const { data, error } = await supabase.from('user_documents').select(JOB_COLUMNS).eq('id', jobId).maybeSingle();
+
+  if (error || !data) {
+    console.error(`[Extraction Job ${jobId}] Failed to load job for resuming:`, error?.message || 'not found');
+    return;
+  }
+
+  const row = data as ExtractionJobRow;
+  if (row.processing_status !== 'processing' || !row.job_options || !row.credit_reservation_id) return;
+
+  let file: File;
+  try {
+    const response = await fetch(row.file_path);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch file: ${response.statusText}`);
+    }
+    file = new File([await response.arrayBuffer()], row.file_name, { type: 'application/pdf' });
+  } catch (fetchError) {
+    console.error(`[Extraction Job ${jobId}] Could not download the document to resume:`, fetchError);
+    await failStaleJob(row, 'Extraction could not be resumed. No credits were used - please try again.');
+    return;
+  }
+
+  const savedWindows = await getExtractionJobWindows(jobId);
+  console.log(`[Extraction Job ${jobId}] Resuming with ${savedWindows.length} saved window(s)`);
+
+  await runExtractionJob(jobId, {
+    userId: row.user_id,
+    file,
+    filePath: row.file_path,
+    documentType: row.document_type,
+    pageCount: row.page_count,
+    creditReservationId: row.credit_reservation_id,
+    userMetadata: row.job_options.userMetadata,
+    userInstructions: row.job_options.userInstructions
+  }, savedWindows);
+}
+
+/**
+ * Resume or fail stale jobs of every user (resume cron)
+ * Jobs past the per-run resume limit are left for the next run
+ *
+ * @returns Number of jobs resumed and failed
+ */
+export async function recoverStaleExtractionJobs(scheduleResume: ScheduleJobTask): Promise<{ resumed: number; failed: number }> {
+  const staleBefore = new Date(Date.now() - EXTRACTION_JOB_STALE_AFTER_MS).toISOString().replace('Z', '');
+  const { data, error } = await supabase
+    .from('user_documents')
+    .select(JOB_COLUMNS)
+    .eq('processing_status', 'processing')
+    .lt('updated_at', staleBefore)
+    .order('updated_at', { ascending: true })
+    .limit(50);
+
+  if (error) {
+    console.error('[Extraction Jobs] Failed to list stale jobs:', error.message);
+    throw new Error('Failed to fetch stale extraction jobs');
+  }
+
+  let resumed = 0;
+  let failed = 0;
+  for (const row of (data || []) as ExtractionJobRow[]) {
+    const canResume = canResumeJob(row);
+    if (canResume && resumed >= EXTRACTION_JOB_RESUMES_PER_RUN) continue;
+
+    const recovered = await recoverStaleJob(row, scheduleResume);
+    if (recovered.processing_status === 'failed') failed++;
+    else if (recovered.job_resume_count > row.job_resume_count) resumed++;
+  }
+
+  return { resumed, failed };
+}
+
+/**
+ * Get an extraction job owned by a user
+ * @param scheduleResume - Used to resume the job if it stopped reporting progress
+ * @returns Job, or null if it does not exist or belongs to another user
+ */
+export async function getExtractionJob(
+  jobId: string,
+  userId: string,
+  scheduleResume?: ScheduleJobTask
+): Promise<ExtractionJob | null> {
+  const { data, error } = await supabase
+    .from('user_documents')
+    .select(JOB_COLUMNS)
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[Extraction Job ${jobId}] Failed to fetch job:`, error.message);
+    throw new Error('Failed to fetch extraction job');
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return toExtractionJob(await recoverStaleJob(data as ExtractionJobRow, scheduleResume));
+}
+
+/**
+ * List a user's extraction jobs that are still running (newest first)
+ * @param scheduleResume - Used to resume jobs that stopped reporting progress
+ */
+export async function listActiveExtractionJobs(userId: string, scheduleResume?: ScheduleJobTask): Promise<ExtractionJob[]> {
+  const { data, error } = await supabase
+    .from('user_documents')
+    .select(JOB_COLUMNS)
+    .eq('user_id', userId)
+    .eq('processing_status', 'processing')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[Extraction Jobs] Failed to list active jobs:', error.message);
+    throw new Error('Failed to fetch extraction jobs');
+  }
+
+  const rows = await Promise.all(((data || []) as ExtractionJobRow[]).map(row => recoverStaleJob(row, scheduleResume)));
+  return rows.filter(row => row.processing_status === 'processing').map(toExtractionJob);
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getExtractionProvider,
+  getExtractionProviderForModel,
+  getExtractionProviderName
+} from './extraction-providers';
+import { extractAndReconcile } from './extraction-jobs';
+import type { DocumentPackageData } from './types';
+
+// Mock extractions skip model routing, so the database is never queried
+vi.mock('./supabase', () => ({ supabaseAdmin: {}, supabase: {} }));
+
+const userMetadata = {
+  pdfFileName: 'Sunset Rent Roll.pdf',
+  rexeliUserName: 'Test User',
+  rexeliUserEmail: 'test@example.com',
+  extractionTimestamp: '2026-01-01T00:00:00.000Z',
+  documentId: 'doc_1'
+};
+
+function pdf(name: string): File {
+  return new File(['%PDF'], name, { type: 'application/pdf' });
+}
+
+beforeEach(() => {
+  vi.stubEnv('EXTRACTION_PROVIDER', '');
+  vi.stubEnv('EXTRACTION_PROVIDER_OVERRIDES', '');
+  vi.stubEnv('MOCK_EXTRACTION_DELAY_MS', '');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getExtractionProviderName', () => {
+  it('defaults to anthropic', () => {
+    expect(getExtractionProviderName()).toBe('anthropic');
+    expect(getExtractionProviderName('rent_roll')).toBe('anthropic');
+  });
+
+  it('uses EXTRACTION_PROVIDER as the deployment default', () => {
+    vi.stubEnv('EXTRACTION_PROVIDER', ' OpenAI ');
+
+    expect(getExtractionProviderName()).toBe('openai');
+    expect(getExtractionProviderName('offering_memo')).toBe('openai');
+  });
+
+  it('ignores an unknown EXTRACTION_PROVIDER', () => {
+    vi.stubEnv('EXTRACTION_PROVIDER', 'gemini');
+
+    expect(getExtractionProviderName()).toBe('anthropic');
+    expect(console.warn).toHaveBeenCalledWith('[Extraction Provider] Ignoring unknown provider "gemini" in EXTRACTION_PROVIDER');
+  });
+
+  it('applies EXTRACTION_PROVIDER_OVERRIDES to their document types only', () => {
+    vi.stubEnv('EXTRACTION_PROVIDER', 'openai');
+    vi.stubEnv('EXTRACTION_PROVIDER_OVERRIDES', 'rent_roll:mock, lease_agreement : anthropic,,operating_budget:gemini');
+
+    expect(getExtractionProviderName('rent_roll')).toBe('mock');
+    expect(getExtractionProviderName('lease_agreement')).toBe('anthropic');
+    // Unknown provider in an override falls back to the default
+    expect(getExtractionProviderName('operating_budget')).toBe('openai');
+    expect(getExtractionProviderName('offering_memo')).toBe('openai');
+    // Classification runs before the type is known
+    expect(getExtractionProviderName()).toBe('openai');
+  });
+
+  it('resolves the provider object for the name', () => {
+    vi.stubEnv('EXTRACTION_PROVIDER_OVERRIDES', 'rent_roll:mock');
+
+    expect(getExtractionProvider('rent_roll').name).toBe('mock');
+    expect(getExtractionProvider().name).toBe('anthropic');
+  });
+});
+
+describe('getExtractionProviderForModel', () => {
+  it('maps model id prefixes to their vendor', () => {
+    expect(getExtractionProviderForModel('claude-sonnet-4-5-20250929')?.name).toBe('anthropic');
+    expect(getExtractionProviderForModel('gpt-4o')?.name).toBe('openai');
+    expect(getExtractionProviderForModel('ft:gpt-4o-mini-2024-07-18:rexeli::abc123')?.name).toBe('openai');
+    expect(getExtractionProviderForModel('o3-mini')?.name).toBe('openai');
+  });
+
+  it('is null for a model id that does not identify a vendor', () => {
+    expect(getExtractionProviderForModel('llama-3-70b')).toBeNull();
+    expect(getExtractionProviderForModel('my-claude-model')).toBeNull();
+  });
+});
+
+describe('mock provider', () => {
+  beforeEach(() => {
+    vi.stubEnv('EXTRACTION_PROVIDER', 'mock');
+  });
+
+  it('classifies documents from their file name', async () => {
+    const provider = getExtractionProvider();
+
+    await expect(provider.classifyDocument(pdf('Sunset Rent Roll.pdf'))).resolves.toMatchObject({
+      classification: { type: 'rent_roll', confidence: 0.95 },
+      autoAccepted: true
+    });
+    await expect(provider.classifyDocument(pdf('Q3 lease comps.pdf'))).resolves.toMatchObject({
+      classification: { type: 'broker_lease_comparables' }
+    });
+    await expect(provider.classifyDocument(pdf('scan-0001.pdf'))).resolves.toMatchObject({
+      classification: { type: 'unknown', confidence: 0 },
+      autoAccepted: false
+    });
+  });
+
+  it('extracts, transforms and reconciles a rent roll end to end', async () => {
+    const onProgress = vi.fn();
+
+    const { extractedData, partialSuccess } = await extractAndReconcile(
+      pdf('Sunset Rent Roll.pdf'),
+      'rent_roll',
+      userMetadata,
+      undefined,
+      onProgress
+    );
+
+    expect(partialSuccess).toBe(false);
+    expect(extractedData).toMatchObject({
+      documentType: 'rent_roll',
+      metadata: userMetadata,
+      completeness: { isComplete: true },
+      schemaValidation: { isValid: true, failedFields: [] }
+    });
+    expect(onProgress).toHaveBeenCalledWith('Extracting rent_roll (mock)', 0);
+  });
+
+  it('splits a document package into extracted segments', async () => {
+    const onProgress = vi.fn();
+
+    const { extractedData } = await extractAndReconcile(pdf('Package.pdf'), 'document_package', userMetadata, undefined, onProgress);
+    const packageData = extractedData.data as DocumentPackageData;
+
+    expect(extractedData.documentType).toBe('document_package');
+    expect(packageData.totalPages).toBe(7);
+    expect(packageData.segments.map(segment => segment.documentType)).toEqual(['offering_memo', 'rent_roll', 'operating_budget']);
+    expect(packageData.segments.every(segment => segment.extractedData.metadata.documentId === 'doc_1')).toBe(true);
+    expect(onProgress).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,487 @@
+/**
+ * Extraction Providers
+ *
+ * Classification and extraction run through a provider so the model vendor can be chosen
+ * per deployment or per document type:
+ * - anthropic: Claude Sonnet 4.5 (default) - see anthropic.ts
+ * - openai: OpenAI Chat Completions with the same prompts and JSON contract
+ * - mock: deterministic fixtures, no network calls - for local development and CI
+ *
+ * Configuration (environment):
+ * - EXTRACTION_PROVIDER: default provider ("anthropic" | "openai" | "mock")
+ * - EXTRACTION_PROVIDER_OVERRIDES: per-type providers, e.g. "rent_roll:openai,lease_agreement:mock"
+ * - OPENAI_API_KEY / OPENAI_EXTRACTION_MODEL: OpenAI credentials and model (default gpt-4o)
+ * - MOCK_EXTRACTION_DELAY_MS: optional delay for mock extractions, to exercise job progress in the UI
+ */
+
+import {
+  classifyDocumentFile,
+  extractDocumentData,
+  extractJSONFromResponse,
+  normalizeClassification,
+  normalizeCitations,
+  buildExtractionPrompt,
+  fileToBase64,
+  isMultiPageImageFile,
+  readMultiPageImageDataUrls,
+  CLASSIFICATION_PROMPT,
+  CLASSIFICATION_CONFIDENCE_THRESHOLD,
+  CITATION_INSTRUCTIONS,
+  CONFIDENCE_INSTRUCTIONS
+} from './anthropic';
+import { getMockExtractionFixture } from './mock-extraction-fixtures';
+import { normalizeFieldConfidence } from './confidence';
+import { validateExtractedDataShape } from './validation';
+import type { ExtractionUserMetadata } from './extraction-jobs';
+import type {
+  ClassificationResponse,
+  DocumentClassification,
+  DocumentPackageData,
+  DocumentSegment,
+  DocumentType,
+  ExtractedData,
+  ExtractionCheckpoint,
+  ExtractionProgressCallback
+} from './types';
+
+export type ExtractionProviderName = 'anthropic' | 'openai' | 'mock';
+
+export interface ExtractionProviderOptions {
+  model?: string; // Model id to use instead of the provider default (routed model versions)
+  userMetadata?: ExtractionUserMetadata;
+  userInstructions?: string;
+  onProgress?: ExtractionProgressCallback;
+  checkpoint?: ExtractionCheckpoint; // Saved page windows of a resumed job (chunked rent rolls only)
+}
+
+export interface ExtractionProvider {
+  name: ExtractionProviderName;
+
+  /**
+   * Classify a document from its first pages
+   * @param file - Document file (PDF or image)
+   * @param maxPages - Number of leading PDF pages to analyze
+   */
+  classifyDocument(file: File, maxPages?: number): Promise<ClassificationResponse>;
+
+  /**
+   * Extract structured data for a known document type
+   * Returns data with user metadata merged and `schemaValidation` set
+   */
+  extractDocument(file: File, documentType: DocumentType, options?: ExtractionProviderOptions): Promise<ExtractedData>;
+}
+
+const EXTRACTION_PROVIDER_NAMES: ExtractionProviderName[] = ['anthropic', 'openai', 'mock'];
+
+const DEFAULT_EXTRACTION_PROVIDER: ExtractionProviderName = 'anthropic';
+
+// ============================================================================
+// ANTHROPIC
+// ============================================================================
+
+const anthropicProvider: ExtractionProvider = {
+  name: 'anthropic',
+
+  classifyDocument(file, maxPages) {
+    return classifyDocumentFile(file, maxPages);
+  },
+
+  extractDocument(file, documentType, options = {}) {
+    return extractDocumentData(
+      file,
+      documentType,
+      options.userMetadata,
+      options.userInstructions,
+      options.onProgress,
+      options.model,
+      options.checkpoint
+    );
+  }
+};
+
+// ============================================================================
+// OPENAI
+// ============================================================================
+
+const OPENAI_CHAT_COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions';
+
+const DEFAULT_OPENAI_EXTRACTION_MODEL = 'gpt-4o';
+
+/**
+ * Output token limit for OpenAI extraction calls (gpt-4o maximum)
+ */
+const OPENAI_MAX_OUTPUT_TOKENS = 16384;
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail: 'high' } }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
+/**
+ * Get OpenAI API key from environment
+ * Called at runtime to ensure we get the actual key, not a build-time placeholder
+ */
+function getOpenAIApiKey(): string {
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY environment variable is not configured');
+  }
+
+  return apiKey;
+}
+
+/**
+ * Send one Chat Completions request in JSON mode
+ * @returns Response text and whether it stopped at the output token limit
+ */
+async function requestOpenAICompletion(
+  content: OpenAIContentPart[],
+  system: string,
+  maxTokens: number,
+  model: string = process.env.OPENAI_EXTRACTION_MODEL || DEFAULT_OPENAI_EXTRACTION_MODEL
+): Promise<{ text: string; truncated: boolean }> {
+  console.log(`[OpenAI] Calling ${model} (max_tokens ${maxTokens})`);
+
+  const response = await fetch(OPENAI_CHAT_COMPLETIONS_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${getOpenAIApiKey()}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      model,
+      temperature: 0,
+      max_tokens: maxTokens,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content }
+      ]
+    })
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => '');
+    console.error(`[OpenAI] Request failed with status ${response.status}:`, errorBody.substring(0, 500));
+
+    if (response.status === 401) {
+      throw new Error('OpenAI API authentication failed. Please check your API key.');
+    } else if (response.status === 429) {
+      throw new Error('OpenAI API rate limit exceeded. Please try again later.');
+    } else if (response.status >= 500) {
+      throw new Error('OpenAI API server error. Please try again later.');
+    }
+    throw new Error(`OpenAI API request failed with status ${response.status}`);
+  }
+
+  const completion = await response.json() as {
+    choices?: { message?: { content?: string | null }; finish_reason?: string }[];
+  };
+  const choice = completion.choices?.[0];
+  const text = choice?.message?.content;
+  if (!text) {
+    throw new Error('No text content in OpenAI response');
+  }
+
+  return { text, truncated: choice?.finish_reason === 'length' };
+}
+
+/**
+ * Build the document part of an OpenAI message - PDFs are sent as files, everything else as page images
+ */
+async function buildOpenAIDocumentContent(file: File): Promise<OpenAIContentPart[]> {
+  if (file.type === 'application/pdf') {
+    return [{
+      type: 'file',
+      file: { filename: file.name, file_data: `data:application/pdf;base64,${await fileToBase64(file)}` }
+    }];
+  }
+
+  let imageDataUrls: string[];
+  if (isMultiPageImageFile(file)) {
+    imageDataUrls = await readMultiPageImageDataUrls(file);
+  } else if (file.type.startsWith('image/')) {
+    imageDataUrls = [`data:${file.type};base64,${await fileToBase64(file)}`];
+  } else {
+    throw new Error(
+      `Unsupported file type: ${file.type}. ` +
+      `Supported types: PDF, JPEG, PNG, GIF, WebP, or multi-page JSON`
+    );
+  }
+
+  return imageDataUrls.map(url => ({ type: 'image_url', image_url: { url, detail: 'high' } }));
+}
+
+const openaiProvider: ExtractionProvider = {
+  name: 'openai',
+
+  classifyDocument(file, maxPages) {
+    return classifyDocumentFile(file, maxPages, async (imageDataUrls): Promise<DocumentClassification> => {
+      const completion = await requestOpenAICompletion(
+        [
+          ...imageDataUrls.map((url): OpenAIContentPart => ({ type: 'image_url', image_url: { url, detail: 'high' } })),
+          { type: 'text', text: CLASSIFICATION_PROMPT }
+        ],
+        'You are an expert commercial real estate professional with 20+ years of experience analyzing property investment documents. Respond only with valid JSON.',
+        500
+      );
+      return normalizeClassification(extractJSONFromResponse(completion.text) as Record<string, unknown>);
+    });
+  },
+
+  async extractDocument(file, documentType, options = {}) {
+    // Package segmentation relies on Claude reading page ranges of a native PDF
+    if (documentType === 'document_package') {
+      throw new Error('Document packages are not supported by the openai extraction provider');
+    }
+
+    // Citations need physical page numbers, which are only reliable for native PDFs
+    const isPdf = file.type === 'application/pdf';
+    const prompt = buildExtractionPrompt(documentType, options.userInstructions)
+      + (isPdf ? CITATION_INSTRUCTIONS : '')
+      + CONFIDENCE_INSTRUCTIONS;
+
+    const startTime = Date.now();
+    const completion = await requestOpenAICompletion(
+      [...await buildOpenAIDocumentContent(file), { type: 'text', text: prompt }],
+      'You are an expert commercial real estate analyst. Extract data exactly as it appears in the document. Respond only with valid JSON.',
+      OPENAI_MAX_OUTPUT_TOKENS,
+      options.model
+    );
+    console.log(`[OpenAI] ${documentType} response received in ${Date.now() - startTime}ms`);
+
+    const extractedData = extractJSONFromResponse(completion.text) as ExtractedData;
+    extractedData.documentType = extractedData.documentType || documentType;
+    extractedData.citations = isPdf ? normalizeCitations(extractedData.citations) : undefined;
+    extractedData.fieldConfidence = normalizeFieldConfidence(extractedData.fieldConfidence);
+    extractedData.completeness = {
+      isComplete: !completion.truncated,
+      chunkCount: 1,
+      continuationCalls: 0,
+      truncatedChunks: []
+    };
+
+    if (options.userMetadata) {
+      extractedData.metadata = { ...extractedData.metadata, ...options.userMetadata };
+    }
+
+    // Validation only - the repair pass is Claude-specific
+    const failedFields = validateExtractedDataShape(extractedData.documentType, extractedData.data);
+    if (failedFields.length > 0) {
+      console.warn(`[OpenAI] ${documentType} output failed schema with ${failedFields.length} issue(s)`);
+    }
+
+    return {
+      ...extractedData,
+      schemaValidation: {
+        isValid: failedFields.length === 0,
+        repairAttempted: false,
+        failedFields,
+        remainingIssues: failedFields
+      }
+    };
+  }
+};
+
+// ============================================================================
+// MOCK
+// ============================================================================
+
+/**
+ * File name patterns used by the mock classifier, checked in order
+ * Lease comparables must be checked before lease agreements
+ */
+const MOCK_CLASSIFICATION_PATTERNS: [DocumentType, RegExp][] = [
+  ['rent_roll', /rent[\s_-]*roll/i],
+  ['operating_budget', /budget|pro[\s_-]*forma/i],
+  ['broker_sales_comparables', /sales?[\s_-]*comp/i],
+  ['broker_lease_comparables', /lease[\s_-]*comp/i],
+  ['broker_listing', /listing/i],
+  ['offering_memo', /offering|memorandum|\bom\b/i],
+  ['lease_agreement', /lease/i],
+  ['financial_statements', /financial|statement|t[\s_-]?12/i]
+];
+
+/**
+ * Segments returned for a mock document package
+ */
+const MOCK_PACKAGE_SEGMENTS: { documentType: DocumentType; startPage: number; endPage: number; title: string }[] = [
+  { documentType: 'offering_memo', startPage: 1, endPage: 4, title: 'Offering Memorandum' },
+  { documentType: 'rent_roll', startPage: 5, endPage: 6, title: 'Rent Roll' },
+  { documentType: 'operating_budget', startPage: 7, endPage: 7, title: '2025 Operating Budget' }
+];
+
+/**
+ * Build a mock extraction from the fixture for a document type
+ */
+function buildMockExtraction(documentType: DocumentType, file: File, userMetadata?: ExtractionUserMetadata): ExtractedData {
+  const fixture = getMockExtractionFixture(documentType);
+  if (!fixture) {
+    throw new Error(`No mock extraction fixture for document type: ${documentType}`);
+  }
+
+  const failedFields = validateExtractedDataShape(documentType, fixture.data);
+
+  return {
+    documentType,
+    metadata: {
+      pdfFileName: file.name,
+      rexeliUserName: 'Mock User',
+      rexeliUserEmail: 'mock@rexeli.com',
+      extractionTimestamp: `${fixture.metadata.extractedDate}T00:00:00.000Z`,
+      documentId: `doc_mock_${documentType}`,
+      ...fixture.metadata,
+      ...userMetadata
+    },
+    data: fixture.data,
+    citations: fixture.citations || {},
+    fieldConfidence: fixture.fieldConfidence || {},
+    completeness: { isComplete: true, chunkCount: 1, continuationCalls: 0, truncatedChunks: [] },
+    schemaValidation: {
+      isValid: failedFields.length === 0,
+      repairAttempted: false,
+      failedFields,
+      remainingIssues: failedFields
+    }
+  };
+}
+
+const mockProvider: ExtractionProvider = {
+  name: 'mock',
+
+  async classifyDocument(file) {
+    const match = MOCK_CLASSIFICATION_PATTERNS.find(([, pattern]) => pattern.test(file.name));
+    const classification: DocumentClassification = match
+      ? { type: match[0], confidence: 0.95, reasoning: `Mock classification from file name "${file.name}"` }
+      : { type: 'unknown', confidence: 0, reasoning: `Mock classifier found no document type in file name "${file.name}"` };
+
+    return {
+      classification,
+      pagesAnalyzed: 1,
+      confidenceThreshold: CLASSIFICATION_CONFIDENCE_THRESHOLD,
+      autoAccepted: classification.type !== 'unknown' && classification.confidence >= CLASSIFICATION_CONFIDENCE_THRESHOLD
+    };
+  },
+
+  async extractDocument(file, documentType, options = {}) {
+    console.log(`[Mock Provider] Returning fixture for ${documentType} (${file.name})`);
+    const delayMs = Math.max(parseInt(process.env.MOCK_EXTRACTION_DELAY_MS || '', 10) || 0, 0);
+
+    if (documentType !== 'document_package') {
+      options.onProgress?.(`Extracting ${documentType} (mock)`, 0);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      return buildMockExtraction(documentType, file, options.userMetadata);
+    }
+
+    const segments: DocumentSegment[] = [];
+    for (const [segmentIndex, boundary] of MOCK_PACKAGE_SEGMENTS.entries()) {
+      options.onProgress?.(
+        `Extracting document ${segmentIndex + 1} of ${MOCK_PACKAGE_SEGMENTS.length} (pages ${boundary.startPage}-${boundary.endPage})`,
+        segmentIndex / MOCK_PACKAGE_SEGMENTS.length
+      );
+      await new Promise(resolve => setTimeout(resolve, delayMs / MOCK_PACKAGE_SEGMENTS.length));
+      segments.push({
+        ...boundary,
+        confidence: 0.95,
+        extractedData: buildMockExtraction(boundary.documentType, file, options.userMetadata)
+      });
+    }
+
+    const packageData: DocumentPackageData = {
+      totalPages: MOCK_PACKAGE_SEGMENTS[MOCK_PACKAGE_SEGMENTS.length - 1].endPage,
+      segments
+    };
+    const { metadata } = segments[0].extractedData;
+
+    return {
+      documentType: 'document_package',
+      metadata: {
+        extractedDate: metadata.extractedDate,
+        propertyName: metadata.propertyName ?? null,
+        propertyAddress: metadata.propertyAddress ?? null,
+        pdfFileName: metadata.pdfFileName,
+        rexeliUserName: metadata.rexeliUserName,
+        rexeliUserEmail: metadata.rexeliUserEmail,
+        extractionTimestamp: metadata.extractionTimestamp,
+        documentId: metadata.documentId
+      },
+      data: packageData
+    };
+  }
+};
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+const EXTRACTION_PROVIDERS: Record<ExtractionProviderName, ExtractionProvider> = {
+  anthropic: anthropicProvider,
+  openai: openaiProvider,
+  mock: mockProvider
+};
+
+function parseProviderName(value: string | undefined, source: string): ExtractionProviderName | null {
+  const name = value?.trim().toLowerCase();
+  if (!name) return null;
+
+  if (!EXTRACTION_PROVIDER_NAMES.includes(name as ExtractionProviderName)) {
+    console.warn(`[Extraction Provider] Ignoring unknown provider "${value}" in ${source}`);
+    return null;
+  }
+  return name as ExtractionProviderName;
+}
+
+/**
+ * Parse EXTRACTION_PROVIDER_OVERRIDES ("rent_roll:openai,lease_agreement:mock")
+ */
+function getProviderOverrides(): Partial<Record<DocumentType, ExtractionProviderName>> {
+  const overrides: Partial<Record<DocumentType, ExtractionProviderName>> = {};
+
+  for (const entry of (process.env.EXTRACTION_PROVIDER_OVERRIDES || '').split(',')) {
+    const [documentType, providerName] = entry.split(':').map(part => part.trim());
+    if (!documentType) continue;
+
+    const provider = parseProviderName(providerName, 'EXTRACTION_PROVIDER_OVERRIDES');
+    if (provider) {
+      overrides[documentType as DocumentType] = provider;
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Resolve the provider name for a document type (or the deployment default)
+ * Read from the environment on every call so tests and scripts can switch providers at runtime
+ */
+export function getExtractionProviderName(documentType?: DocumentType): ExtractionProviderName {
+  const override = documentType ? getProviderOverrides()[documentType] : undefined;
+  return override
+    || parseProviderName(process.env.EXTRACTION_PROVIDER, 'EXTRACTION_PROVIDER')
+    || DEFAULT_EXTRACTION_PROVIDER;
+}
+
+/**
+ * Get the provider that serves a model id (e.g. a deployed model version)
+ * @returns Provider, or null when the model id does not identify a vendor
+ */
+export function getExtractionProviderForModel(modelId: string): ExtractionProvider | null {
+  if (/^claude-/i.test(modelId)) return anthropicProvider;
+  if (/^(ft:)?(gpt-|o\d)/i.test(modelId)) return openaiProvider;
+  return null;
+}
+
+/**
+ * Get the extraction provider for a document type
+ * Classification runs before the type is known, so it uses the deployment default
+ *
+ * @param documentType - Document type being extracted; omit for classification
+ *
+ * @example
+ * const provider = getExtractionProvider('rent_roll');
+ * const data = await provider.extractDocument(file, 'rent_roll', { userMetadata });
+ */
+export function getExtractionProvider(documentType?: DocumentType): ExtractionProvider {
+  return EXTRACTION_PROVIDERS[getExtractionProviderName(documentType)];
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { applyRepairPatches, getRepairScopes, pickRepairScopes } from './extraction-repair';
+
+describe('getRepairScopes', () => {
+  it('scopes field issues to their row or object', () => {
+    expect(getRepairScopes([
+      { path: 'tenants.3.baseRent', message: 'Expected number' },
+      { path: 'tenants.3.leaseEnd', message: 'Expected string' },
+      { path: 'summary.totalUnits', message: 'Expected number' },
+      { path: 'tenants.7', message: 'Unrecognized key' }
+    ])).toEqual(['summary', 'tenants.3', 'tenants.7']);
+  });
+
+  it('folds nested scopes into their parent scope', () => {
+    expect(getRepairScopes([
+      { path: 'tenants', message: 'Required' },
+      { path: 'tenants.2.baseRent', message: 'Expected number' }
+    ])).toEqual(['tenants']);
+  });
+
+  it('returns null for root issues', () => {
+    expect(getRepairScopes([{ path: '(root)', message: 'Expected object' }])).toBeNull();
+  });
+});
+
+describe('pickRepairScopes', () => {
+  it('sends only the failing parts, with null for missing scopes', () => {
+    const data = { tenants: [{ suiteUnit: '101' }, { suiteUnit: '102', baseRent: '$1,200' }] };
+
+    expect(pickRepairScopes(data, ['summary', 'tenants.1'])).toEqual({
+      summary: null,
+      'tenants.1': { suiteUnit: '102', baseRent: '$1,200' }
+    });
+  });
+});
+
+describe('applyRepairPatches', () => {
+  const data = {
+    tenants: [{ suiteUnit: '101', baseRent: 1000 }, { suiteUnit: '102', baseRent: '$1,200' }],
+    summary: { totalUnits: 2 }
+  };
+
+  it('patches only the requested scopes and leaves the original untouched', () => {
+    const patched = applyRepairPatches(data, ['tenants.1'], {
+      'tenants.1': { suiteUnit: '102', baseRent: 1200 },
+      'tenants.0': { suiteUnit: 'changed' },
+      summary: null
+    });
+
+    expect(patched).toEqual({
+      tenants: [{ suiteUnit: '101', baseRent: 1000 }, { suiteUnit: '102', baseRent: 1200 }],
+      summary: { totalUnits: 2 }
+    });
+    expect(data.tenants[1].baseRent).toBe('$1,200');
+  });
+
+  it('adds missing scopes', () => {
+    const patched = applyRepairPatches({ tenants: [] }, ['summary'], { summary: { totalUnits: null } });
+
+    expect(patched).toEqual({ tenants: [], summary: { totalUnits: null } });
+  });
+
+  it('keeps an array scope whose length changed', () => {
+    const patched = applyRepairPatches(data, ['tenants'], { tenants: [{ suiteUnit: '101', baseRent: 1000 }] });
+
+    expect(patched).toEqual(data);
+  });
+});
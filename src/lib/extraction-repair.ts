@@ -0,0 +1,94 @@
+/**
+ * Extraction Repair Scoping
+ *
+ * Schema repair (see validateAndRepairExtraction in anthropic.ts) only sends the parts of the
+ * extraction that failed validation, and only patches those parts back. Everything outside the
+ * failing scopes is left untouched, so a repair can never drop rows or rewrite valid fields.
+ */
+
+import type { ExtractionSchemaIssue } from './types';
+
+/**
+ * Largest scoped payload sent for repair; bigger repairs are skipped rather than truncated
+ */
+export const REPAIR_MAX_PAYLOAD_CHARS = 40000;
+
+function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let parent: Record<string, unknown> = target;
+
+  keys.slice(0, -1).forEach((key, index) => {
+    const next = parent[key];
+    if (next === null || typeof next !== 'object') {
+      // Missing parents are created as arrays when the next key is an index
+      parent[key] = /^\d+$/.test(keys[index + 1]) ? [] : {};
+    }
+    parent = parent[key] as Record<string, unknown>;
+  });
+
+  parent[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Work out which parts of the data to send for repair
+ * A failing field is repaired together with its row or object ("tenants.3.baseRent" -> "tenants.3",
+ * "summary.totalUnits" -> "summary"); nested scopes are folded into their parent scope
+ *
+ * @returns Scope paths, or null when an issue targets the whole data object
+ */
+export function getRepairScopes(issues: ExtractionSchemaIssue[]): string[] | null {
+  const scopes = new Set<string>();
+
+  for (const { path } of issues) {
+    if (!path || path === '(root)') return null;
+
+    const keys = path.split('.');
+    const lastKey = keys[keys.length - 1];
+    scopes.add(keys.length === 1 || /^\d+$/.test(lastKey) ? path : keys.slice(0, -1).join('.'));
+  }
+
+  return Array.from(scopes)
+    .filter(scope => !Array.from(scopes).some(other => other !== scope && scope.startsWith(`${other}.`)))
+    .sort();
+}
+
+/**
+ * Collect the current value of each scope, keyed by scope path
+ * Missing scopes are sent as null so Claude can add them
+ */
+export function pickRepairScopes(data: unknown, scopes: string[]): Record<string, unknown> {
+  return Object.fromEntries(scopes.map(scope => [scope, getPath(data, scope) ?? null]));
+}
+
+/**
+ * Patch repaired scope values into a copy of the data
+ * Keys that are not requested scopes are ignored, and an array scope keeps its original value
+ * when the repair changed its length
+ *
+ * @returns Patched copy of the data; the original is not modified
+ */
+export function applyRepairPatches(data: unknown, scopes: string[], patches: Record<string, unknown>): unknown {
+  const patched = structuredClone((data ?? {}) as Record<string, unknown>);
+
+  for (const scope of scopes) {
+    if (!(scope in patches)) continue;
+
+    const original = getPath(data, scope);
+    const repaired = patches[scope];
+    if (Array.isArray(original) && (!Array.isArray(repaired) || repaired.length !== original.length)) {
+      console.warn(`[Schema Validation] Repair changed the length of ${scope} - keeping original`);
+      continue;
+    }
+
+    setPath(patched, scope, repaired);
+  }
+
+  return patched;
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { buildFinancialModel, evaluateFinancialModel, type FinancialModel } from './financial-model';
+import type { ExtractedData } from './types';
+
+function extraction(documentType: string, data: Record<string, unknown>, metadata: Record<string, unknown> = {}): ExtractedData {
+  return { documentType, metadata, data } as unknown as ExtractedData;
+}
+
+function budget(overrides: Record<string, unknown> = {}): ExtractedData {
+  return extraction('operating_budget', {
+    period: 'FY 2026',
+    income: { baseRent: 1000000, vacancyLoss: -50000, effectiveGrossIncome: 950000, otherIncome: 20000, totalIncome: 970000 },
+    expenses: { taxes: 200000, insurance: '$50,000', totalOperatingExpenses: 250000 },
+    noi: 720000,
+    capexForecast: 20000,
+    cashFlow: 700000,
+    ...overrides
+  }, { totalSquareFeet: '100,000', totalUnits: null });
+}
+
+function model(extractedData: ExtractedData): FinancialModel {
+  const built = buildFinancialModel(extractedData);
+  expect(built).not.toBeNull();
+  return built!;
+}
+
+describe('buildFinancialModel', () => {
+  it('lays out inputs and totals in calculation order', () => {
+    const { title, period, lines } = model(budget());
+
+    expect(title).toBe('Operating Budget');
+    expect(period).toBe('FY 2026');
+    expect(lines.map(line => line.key)).toEqual([
+      'squareFeet',
+      'income.baseRent',
+      'income.vacancyLoss',
+      'egi',
+      'income.otherIncome',
+      'totalIncome',
+      'expenses.taxes',
+      'expenses.insurance',
+      'totalExpenses',
+      'noi',
+      'capex',
+      'cashFlow',
+      'expenseRatio',
+      'noiMargin',
+      'incomePerSf',
+      'expensesPerSf',
+      'noiPerSf'
+    ]);
+  });
+
+  it('subtracts deductions whichever sign they were reported with', () => {
+    const egi = model(budget()).lines.find(line => line.key === 'egi');
+
+    expect(egi?.calculation).toEqual({
+      type: 'sum',
+      terms: [{ key: 'income.baseRent', sign: 1, absolute: undefined }, { key: 'income.vacancyLoss', sign: -1, absolute: true }]
+    });
+  });
+
+  it('keeps a total without line items as an input for the lines below it', () => {
+    const { lines } = model(budget({ expenses: { totalOperatingExpenses: 250000 } }));
+
+    expect(lines.find(line => line.key === 'totalExpenses')).toEqual({
+      key: 'totalExpenses',
+      label: 'Total Operating Expenses',
+      section: 'Expenses',
+      format: 'currency',
+      value: 250000,
+      isTotal: true
+    });
+  });
+
+  it('is null for document types without a line-item model', () => {
+    expect(buildFinancialModel(extraction('rent_roll', { tenants: [] }))).toBeNull();
+  });
+});
+
+describe('evaluateFinancialModel', () => {
+  it('calculates every line and matches the reported totals', () => {
+    for (const vacancyLoss of [-50000, 50000]) {
+      const { values, checks } = evaluateFinancialModel(model(budget({
+        income: { baseRent: 1000000, vacancyLoss, effectiveGrossIncome: 950000, otherIncome: 20000, totalIncome: 970000 }
+      })));
+
+      expect(values.get('egi')).toBe(950000);
+      expect(values.get('noi')).toBe(720000);
+      expect(values.get('cashFlow')).toBe(700000);
+      expect(values.get('incomePerSf')).toBe(9.7);
+      expect(values.get('expenseRatio')).toBeCloseTo(250000 / 970000);
+      expect(checks.map(check => [check.field, check.matches])).toEqual([
+        ['income.effectiveGrossIncome', true],
+        ['income.totalIncome', true],
+        ['expenses.totalOperatingExpenses', true],
+        ['noi', true],
+        ['cashFlow', true]
+      ]);
+    }
+  });
+
+  it('reports totals that differ from the calculation beyond the tolerance', () => {
+    const { checks } = evaluateFinancialModel(model(budget({ noi: 800000 })));
+
+    expect(checks.find(check => check.key === 'noi')).toEqual({
+      key: 'noi',
+      label: 'Net Operating Income',
+      field: 'noi',
+      calculated: 720000,
+      reported: 800000,
+      difference: -80000,
+      matches: false
+    });
+    // 3,000 of 723,000 is within rounding
+    expect(evaluateFinancialModel(model(budget({ noi: 723000 }))).checks.find(check => check.key === 'noi')?.matches).toBe(true);
+  });
+
+  it('leaves ratios with a zero denominator blank', () => {
+    const { values } = evaluateFinancialModel(model(extraction('operating_budget', budget().data as Record<string, unknown>, { totalSquareFeet: 0 })));
+
+    expect(values.get('squareFeet')).toBe(0);
+    expect(values.get('incomePerSf')).toBeNull();
+  });
+
+  it('models financial statements through cash flow, DSCR and the balance sheet', () => {
+    const statements = model(extraction('financial_statements', {
+      operatingIncome: { grossRent: 500000, vacancyLoss: 25000, totalIncome: 500000, effectiveGrossIncome: 475000 },
+      operatingExpenses: { repairs: 100000, totalExpenses: 100000 },
+      noi: 375000,
+      debtService: 250000,
+      cashFlow: 125000,
+      capex: { currentYear: 30000, forecast: [40000, 50000] },
+      balanceSheet: {
+        assets: { cash: 100000, property: 900000, totalAssets: 1000000 },
+        liabilities: { mortgage: 600000, totalLiabilities: 600000 },
+        equity: 400000
+      }
+    }));
+    const { values, checks } = evaluateFinancialModel(statements);
+
+    expect(statements.title).toBe('Financial Statements');
+    expect(values.get('egi')).toBe(475000);
+    expect(values.get('noi')).toBe(375000);
+    expect(values.get('cashFlow')).toBe(125000);
+    expect(values.get('dscr')).toBe(1.5);
+    expect(values.get('capex.forecast.1')).toBe(50000);
+    expect(values.get('liabilitiesAndEquity')).toBe(1000000);
+    expect(checks.every(check => check.matches)).toBe(true);
+    expect(checks.filter(check => check.field === 'balanceSheet.assets.totalAssets').map(check => check.key))
+      .toEqual(['totalAssets', 'liabilitiesAndEquity']);
+  });
+});
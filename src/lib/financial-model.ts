@@ -0,0 +1,316 @@
+/**
+ * Financial Model
+ *
+ * Line-item model of an operating budget or financial statement: extracted inputs (income and
+ * expense lines, debt service, SF, units) and the calculations built on them (subtotals, EGI,
+ * NOI, cash flow, expense ratio, per-SF and per-unit metrics). Excel exports write the
+ * calculations as live formulas; evaluating the same model here gives the formulas' cached
+ * results and the consistency check of calculated values against the totals in the document.
+ */
+
+import { camelCaseToTitleCase, flattenObject } from './export-tables';
+import { RECONCILIATION_TOLERANCE, parseNumericValue } from './reconciliation';
+import type { ExtractedData } from './types';
+
+export type ModelLineFormat = 'currency' | 'currency_detail' | 'number' | 'percent' | 'multiple';
+
+export interface ModelTerm {
+  key: string;
+  sign?: 1 | -1;      // Default 1
+  absolute?: boolean; // Use the absolute value - deductions such as vacancy are reported with either sign
+}
+
+export type ModelCalculation =
+  | { type: 'sum'; terms: ModelTerm[] }
+  | { type: 'ratio'; numerator: string; denominator: string };
+
+export interface ModelLine {
+  key: string;
+  label: string;
+  section: string;
+  format: ModelLineFormat;
+  value?: number | null;         // Extracted input
+  calculation?: ModelCalculation;
+  reported?: number | null;      // Extracted total the calculation should reproduce
+  reportedPath?: string;         // Dot-notation path of the reported total within `data`
+  isTotal?: boolean;
+}
+
+export interface FinancialModel {
+  title: string;
+  period: string | null;
+  lines: ModelLine[];
+}
+
+export interface ModelCheck {
+  key: string;
+  label: string;
+  field: string;
+  calculated: number | null;
+  reported: number;
+  difference: number | null;
+  matches: boolean;
+}
+
+export interface ModelEvaluation {
+  values: Map<string, number | null>;
+  checks: ModelCheck[];
+}
+
+type ExtractedRecord = Record<string, unknown>;
+
+const DEDUCTION_PATTERN = /vacancy|loss|concession|bad ?debt/i;
+const OTHER_INCOME_PATTERN = /other/i;
+
+function asRecord(value: unknown): ExtractedRecord {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as ExtractedRecord : {};
+}
+
+/**
+ * Numeric input lines of a section, skipping the totals the model calculates itself
+ */
+function inputLines(source: unknown, prefix: string, section: string, skip: (key: string) => boolean): ModelLine[] {
+  return Object.entries(flattenObject(source, '', null))
+    .filter(([key]) => !skip(key.split('.').pop()!))
+    .map(([key, value]) => ({ key: `${prefix}.${key}`, value: parseNumericValue(value) }))
+    .filter(line => line.value !== null)
+    .map(line => ({ ...line, label: camelCaseToTitleCase(line.key), section, format: 'currency' as const }));
+}
+
+/**
+ * Terms adding up input lines - deductions (vacancy, credit loss) are subtracted
+ */
+function sumOf(lines: ModelLine[]): ModelTerm[] {
+  return lines.map(line => ({
+    key: line.key,
+    sign: DEDUCTION_PATTERN.test(line.key) ? -1 : 1,
+    absolute: DEDUCTION_PATTERN.test(line.key) || undefined
+  }));
+}
+
+function input(key: string, label: string, section: string, value: unknown, format: ModelLineFormat = 'currency'): ModelLine {
+  return { key, label, section, format, value: parseNumericValue(value) };
+}
+
+function total(
+  key: string,
+  label: string,
+  section: string,
+  terms: ModelTerm[],
+  reportedPath?: string,
+  reported?: unknown
+): ModelLine {
+  return {
+    key,
+    label,
+    section,
+    format: 'currency',
+    calculation: { type: 'sum', terms },
+    reportedPath,
+    reported: reportedPath ? parseNumericValue(reported) : undefined,
+    isTotal: true
+  };
+}
+
+function ratio(key: string, label: string, numerator: string, denominator: string, format: ModelLineFormat): ModelLine {
+  return { key, label, section: 'Ratios & Metrics', format, calculation: { type: 'ratio', numerator, denominator } };
+}
+
+/**
+ * Expense ratio, NOI margin and per-SF / per-unit metrics on the calculated lines
+ */
+function metricLines(incomeKey: string, expensesKey: string): ModelLine[] {
+  return [
+    ratio('expenseRatio', 'Expense Ratio', expensesKey, incomeKey, 'percent'),
+    ratio('noiMargin', 'NOI Margin', 'noi', incomeKey, 'percent'),
+    ratio('incomePerSf', 'Income per SF', incomeKey, 'squareFeet', 'currency_detail'),
+    ratio('expensesPerSf', 'Expenses per SF', expensesKey, 'squareFeet', 'currency_detail'),
+    ratio('noiPerSf', 'NOI per SF', 'noi', 'squareFeet', 'currency_detail'),
+    ratio('incomePerUnit', 'Income per Unit', incomeKey, 'units', 'currency'),
+    ratio('expensesPerUnit', 'Expenses per Unit', expensesKey, 'units', 'currency'),
+    ratio('noiPerUnit', 'NOI per Unit', 'noi', 'units', 'currency')
+  ];
+}
+
+function propertyLines(extractedData: ExtractedData): ModelLine[] {
+  return [
+    input('squareFeet', 'Total SF', 'Property', extractedData.metadata?.totalSquareFeet, 'number'),
+    input('units', 'Total Units', 'Property', extractedData.metadata?.totalUnits, 'number')
+  ];
+}
+
+function buildOperatingBudgetModel(extractedData: ExtractedData): ModelLine[] {
+  const data = asRecord(extractedData.data);
+  const incomeInputs = inputLines(data.income, 'income', 'Income', key => /^(totalIncome|effectiveGrossIncome)$/.test(key));
+  const expenseInputs = inputLines(data.expenses, 'expenses', 'Expenses', key => /^total/i.test(key));
+  const otherIncome = incomeInputs.filter(line => OTHER_INCOME_PATTERN.test(line.key));
+  const rentalIncome = incomeInputs.filter(line => !OTHER_INCOME_PATTERN.test(line.key));
+  const income = asRecord(data.income);
+
+  return [
+    ...propertyLines(extractedData),
+    ...rentalIncome,
+    total('egi', 'Effective Gross Income', 'Income', sumOf(rentalIncome), 'income.effectiveGrossIncome', income.effectiveGrossIncome),
+    ...otherIncome,
+    total('totalIncome', 'Total Income', 'Income', [{ key: 'egi' }, ...sumOf(otherIncome)], 'income.totalIncome', income.totalIncome),
+    ...expenseInputs,
+    total(
+      'totalExpenses', 'Total Operating Expenses', 'Expenses', sumOf(expenseInputs),
+      'expenses.totalOperatingExpenses', asRecord(data.expenses).totalOperatingExpenses ?? asRecord(data.expenses).totalExpenses
+    ),
+    total('noi', 'Net Operating Income', 'Cash Flow', [{ key: 'totalIncome' }, { key: 'totalExpenses', sign: -1 }], 'noi', data.noi),
+    input('capex', 'CapEx Forecast', 'Cash Flow', data.capexForecast),
+    total('cashFlow', 'Cash Flow', 'Cash Flow', [{ key: 'noi' }, { key: 'capex', sign: -1, absolute: true }], 'cashFlow', data.cashFlow),
+    ...metricLines('totalIncome', 'totalExpenses')
+  ];
+}
+
+function buildFinancialStatementsModel(extractedData: ExtractedData): ModelLine[] {
+  const data = asRecord(extractedData.data);
+  const incomeInputs = inputLines(data.operatingIncome, 'operatingIncome', 'Operating Income', key => /^(totalIncome|effectiveGrossIncome)$/.test(key));
+  const expenseInputs = inputLines(data.operatingExpenses, 'operatingExpenses', 'Operating Expenses', key => /^total/i.test(key));
+  const grossIncome = incomeInputs.filter(line => !DEDUCTION_PATTERN.test(line.key));
+  const deductions = incomeInputs.filter(line => DEDUCTION_PATTERN.test(line.key));
+  const income = asRecord(data.operatingIncome);
+
+  const capex = asRecord(data.capex);
+  const balanceSheet = asRecord(data.balanceSheet);
+  const assetInputs = inputLines(balanceSheet.assets, 'balanceSheet.assets', 'Balance Sheet', key => /^total/i.test(key));
+  const liabilityInputs = inputLines(balanceSheet.liabilities, 'balanceSheet.liabilities', 'Balance Sheet', key => /^total/i.test(key));
+
+  return [
+    ...propertyLines(extractedData),
+    ...grossIncome,
+    total('totalIncome', 'Total Income', 'Operating Income', sumOf(grossIncome), 'operatingIncome.totalIncome', income.totalIncome),
+    ...deductions,
+    total(
+      'egi', 'Effective Gross Income', 'Operating Income', [{ key: 'totalIncome' }, ...sumOf(deductions)],
+      'operatingIncome.effectiveGrossIncome', income.effectiveGrossIncome
+    ),
+    ...expenseInputs,
+    total('totalExpenses', 'Total Expenses', 'Operating Expenses', sumOf(expenseInputs), 'operatingExpenses.totalExpenses', asRecord(data.operatingExpenses).totalExpenses),
+    total('noi', 'Net Operating Income', 'Cash Flow', [{ key: 'egi' }, { key: 'totalExpenses', sign: -1 }], 'noi', data.noi),
+    input('debtService', 'Debt Service', 'Cash Flow', data.debtService),
+    total('cashFlow', 'Cash Flow', 'Cash Flow', [{ key: 'noi' }, { key: 'debtService', sign: -1, absolute: true }], 'cashFlow', data.cashFlow),
+    input('capex.currentYear', 'CapEx (Current Year)', 'Cash Flow', capex.currentYear),
+    ...(Array.isArray(capex.forecast) ? capex.forecast : []).map((amount, index) =>
+      input(`capex.forecast.${index}`, `CapEx Forecast Year ${index + 1}`, 'Cash Flow', amount)
+    ),
+    ...assetInputs,
+    total('totalAssets', 'Total Assets', 'Balance Sheet', sumOf(assetInputs), 'balanceSheet.assets.totalAssets', asRecord(balanceSheet.assets).totalAssets),
+    ...liabilityInputs,
+    total(
+      'totalLiabilities', 'Total Liabilities', 'Balance Sheet', sumOf(liabilityInputs),
+      'balanceSheet.liabilities.totalLiabilities', asRecord(balanceSheet.liabilities).totalLiabilities
+    ),
+    input('equity', 'Equity', 'Balance Sheet', balanceSheet.equity),
+    total(
+      'liabilitiesAndEquity', 'Liabilities + Equity', 'Balance Sheet', [{ key: 'totalLiabilities' }, { key: 'equity' }],
+      'balanceSheet.assets.totalAssets', asRecord(balanceSheet.assets).totalAssets
+    ),
+    ...metricLines('egi', 'totalExpenses'),
+    ratio('dscr', 'Debt Service Coverage', 'noi', 'debtService', 'multiple')
+  ];
+}
+
+/**
+ * Keys a calculation reads
+ */
+export function getCalculationKeys(calculation: ModelCalculation): string[] {
+  return calculation.type === 'sum'
+    ? calculation.terms.map(term => term.key)
+    : [calculation.numerator, calculation.denominator];
+}
+
+/**
+ * Drop calculations with nothing to calculate from, and terms pointing at dropped lines
+ * Lines are in dependency order, so one pass is enough
+ */
+function pruneLines(lines: ModelLine[]): ModelLine[] {
+  const kept = new Map<string, ModelLine>();
+
+  lines.forEach(line => {
+    if (!line.calculation) {
+      if (line.value !== null && line.value !== undefined) kept.set(line.key, line);
+      return;
+    }
+
+    if (line.calculation.type === 'ratio') {
+      if (kept.has(line.calculation.numerator) && kept.has(line.calculation.denominator)) kept.set(line.key, line);
+      return;
+    }
+
+    const terms = line.calculation.terms.filter(term => kept.has(term.key));
+    if (terms.length > 0) {
+      kept.set(line.key, { ...line, calculation: { type: 'sum', terms } });
+    } else if (line.reported !== null && line.reported !== undefined) {
+      // Only the total was extracted - keep it as an input so the lines below can use it
+      kept.set(line.key, { key: line.key, label: line.label, section: line.section, format: line.format, value: line.reported, isTotal: true });
+    }
+  });
+
+  return [...kept.values()];
+}
+
+/**
+ * Model for an operating budget or financial statement
+ *
+ * @returns Model, or null for other document types
+ */
+export function buildFinancialModel(extractedData: ExtractedData): FinancialModel | null {
+  const lines = extractedData.documentType === 'operating_budget'
+    ? buildOperatingBudgetModel(extractedData)
+    : extractedData.documentType === 'financial_statements'
+      ? buildFinancialStatementsModel(extractedData)
+      : null;
+  if (!lines) return null;
+
+  const data = asRecord(extractedData.data);
+  return {
+    title: extractedData.documentType === 'operating_budget' ? 'Operating Budget' : 'Financial Statements',
+    period: typeof data.period === 'string' ? data.period : null,
+    lines: pruneLines(lines)
+  };
+}
+
+/**
+ * Calculate every line the way the exported formulas do (blank inputs count as zero,
+ * ratios with a zero denominator are blank) and compare totals with the reported ones
+ */
+export function evaluateFinancialModel(model: FinancialModel): ModelEvaluation {
+  const values = new Map<string, number | null>();
+
+  model.lines.forEach(line => {
+    const calculation = line.calculation;
+    if (!calculation) {
+      values.set(line.key, line.value ?? null);
+    } else if (calculation.type === 'sum') {
+      values.set(line.key, calculation.terms.reduce((sum, term) => {
+        const value = values.get(term.key) ?? 0;
+        return sum + (term.sign ?? 1) * (term.absolute ? Math.abs(value) : value);
+      }, 0));
+    } else {
+      const denominator = values.get(calculation.denominator) ?? 0;
+      values.set(line.key, denominator === 0 ? null : (values.get(calculation.numerator) ?? 0) / denominator);
+    }
+  });
+
+  const checks = model.lines
+    .filter(line => line.reportedPath && line.reported !== null && line.reported !== undefined)
+    .map(line => {
+      const calculated = values.get(line.key) ?? null;
+      const reported = line.reported as number;
+      const difference = calculated === null ? null : calculated - reported;
+      return {
+        key: line.key,
+        label: line.label,
+        field: line.reportedPath!,
+        calculated,
+        reported,
+        difference,
+        matches: difference !== null && Math.abs(difference) <= Math.max(Math.abs(reported), 1) * RECONCILIATION_TOLERANCE
+      };
+    });
+
+  return { values, checks };
+}
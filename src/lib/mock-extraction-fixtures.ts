@@ -0,0 +1,554 @@
+/**
+ * Mock Extraction Fixtures
+ *
+ * Deterministic extraction results returned by the mock extraction provider, one per
+ * document type. All fixtures describe the same fictional property, and their totals
+ * reconcile (tenant rents sum to total rent, income minus expenses equals NOI, ...)
+ * so the full upload → extract → export flow can run offline and in CI.
+ * A few fields score below the review threshold to exercise low-confidence highlighting.
+ */
+
+import type {
+  DocumentType,
+  ExtractedData,
+  ExtractedDataMetadata,
+  FieldCitation,
+  RentRollData,
+  OperatingBudgetData,
+  BrokerSalesComparablesData,
+  BrokerLeaseComparablesData,
+  BrokerListingData,
+  OfferingMemoData,
+  LeaseData,
+  FinancialStatementsData
+} from './types';
+
+export interface MockExtractionFixture {
+  // Document metadata only - user metadata is merged in by the provider
+  metadata: Partial<ExtractedDataMetadata> & { extractedDate: string };
+  data: ExtractedData['data'];
+  citations?: Record<string, FieldCitation>;
+  fieldConfidence?: Record<string, number>;
+}
+
+const PROPERTY_NAME = 'Maple Ridge Commons';
+const PROPERTY_ADDRESS = '2450 Maple Ridge Blvd, Austin, TX 78741';
+const EXTRACTED_DATE = '2025-01-15';
+
+const rentRoll: RentRollData = {
+  tenants: [
+    {
+      tenantName: 'Acme Dental Group',
+      suiteUnit: '100',
+      leaseStart: '2021-03-01',
+      leaseEnd: '2031-02-28',
+      baseRent: 21000,
+      rentEscalations: '3% annually',
+      leaseType: 'NNN',
+      camReimbursements: 2800,
+      securityDeposit: 42000,
+      renewalOptions: 'Two 5-year options',
+      squareFootage: 8400,
+      occupancyStatus: 'occupied'
+    },
+    {
+      tenantName: 'Harbor Coffee Co.',
+      suiteUnit: '110',
+      leaseStart: '2022-07-01',
+      leaseEnd: '2027-06-30',
+      baseRent: 10500,
+      rentEscalations: '$0.50/SF annually',
+      leaseType: 'NNN',
+      camReimbursements: 1400,
+      securityDeposit: 21000,
+      squareFootage: 4200,
+      occupancyStatus: 'occupied'
+    },
+    {
+      tenantName: 'Summit Insurance Agency',
+      suiteUnit: '120',
+      leaseStart: '2019-01-01',
+      leaseEnd: '2026-12-31',
+      baseRent: 14700,
+      leaseType: 'Modified Gross',
+      securityDeposit: 14700,
+      freeRentConcessions: '2 months free at commencement',
+      squareFootage: 6300,
+      occupancyStatus: 'notice'
+    },
+    {
+      tenantName: 'Vacant',
+      suiteUnit: '130',
+      leaseStart: '',
+      leaseEnd: '',
+      baseRent: 0,
+      leaseType: 'NNN',
+      squareFootage: 5100,
+      occupancyStatus: 'vacant'
+    },
+    {
+      tenantName: 'Northside Fitness LLC',
+      suiteUnit: '140',
+      leaseStart: '2023-05-01',
+      leaseEnd: '2033-04-30',
+      rentCommencementDate: '2023-08-01',
+      baseRent: 35000,
+      rentEscalations: '2.5% annually',
+      leaseType: 'NNN',
+      camReimbursements: 4700,
+      securityDeposit: 70000,
+      renewalOptions: 'One 10-year option',
+      freeRentConcessions: '3 months free rent',
+      squareFootage: 14000,
+      occupancyStatus: 'occupied'
+    }
+  ],
+  summary: {
+    totalRent: 81200,
+    occupancyRate: 0.8,
+    totalSquareFeet: 38000,
+    averageRentPsf: 2.47,
+    totalUnits: 5,
+    vacantUnits: 1
+  }
+};
+
+const operatingBudget: OperatingBudgetData = {
+  period: 'January 2025 - December 2025',
+  income: {
+    grossRentalIncome: 1250000,
+    vacancyAllowance: -62500,
+    effectiveGrossIncome: 1187500,
+    otherIncome: 35000,
+    totalIncome: 1222500
+  },
+  expenses: {
+    propertyTaxes: 185000,
+    insurance: 42000,
+    utilities: 68000,
+    maintenance: 96000,
+    management: 48900,
+    marketing: 12000,
+    totalOperatingExpenses: 451900
+  },
+  noi: 770600,
+  capexForecast: 60000,
+  cashFlow: 710600
+};
+
+const brokerSalesComparables: BrokerSalesComparablesData = {
+  comparables: [
+    {
+      propertyAddress: '1800 Riverside Dr, Austin, TX 78741',
+      propertyType: 'Retail',
+      saleDate: '2024-09-12',
+      salePrice: 9450000,
+      pricePerSF: 315,
+      buildingSize: 30000,
+      landSize: 112000,
+      yearBuilt: 2004,
+      occupancyAtSale: 0.94,
+      capRate: 0.062,
+      noiAtSale: 585900,
+      buyer: 'Lone Star Retail Partners',
+      seller: 'Riverside Holdings LP'
+    },
+    {
+      propertyAddress: '5120 Burnet Rd, Austin, TX 78756',
+      propertyType: 'Retail',
+      saleDate: '2024-06-03',
+      salePrice: 14300000,
+      pricePerSF: 344.58,
+      buildingSize: 41500,
+      yearBuilt: 2011,
+      yearRenovated: 2020,
+      occupancyAtSale: 0.97,
+      capRate: 0.058,
+      noiAtSale: 829400,
+      buyer: 'Burnet Capital LLC'
+    },
+    {
+      propertyAddress: '901 E Oltorf St, Austin, TX 78704',
+      propertyType: 'Retail',
+      saleDate: '2024-02-20',
+      salePrice: 7200000,
+      pricePerSF: 300,
+      buildingSize: 24000,
+      yearBuilt: 1998,
+      occupancyAtSale: 0.88,
+      capRate: 0.065,
+      seller: 'Oltorf Plaza Associates'
+    }
+  ],
+  summary: {
+    averagePricePerSF: 319.86,
+    averageCapRate: 0.0617,
+    priceRange: { min: 7200000, max: 14300000 }
+  }
+};
+
+const brokerLeaseComparables: BrokerLeaseComparablesData = {
+  comparables: [
+    {
+      propertyAddress: '3300 S Lamar Blvd, Austin, TX 78704',
+      propertyType: 'Retail',
+      leaseCommencementDate: '2024-10-01',
+      tenantIndustry: 'Medical',
+      leaseTerm: 120,
+      squareFootage: 5200,
+      baseRent: 32,
+      rentEscalations: '3% annually',
+      leaseType: 'NNN',
+      concessions: '4 months free, $40/SF TI',
+      effectiveRent: 30.4
+    },
+    {
+      propertyAddress: '7010 E Riverside Dr, Austin, TX 78741',
+      propertyType: 'Retail',
+      leaseCommencementDate: '2024-07-15',
+      tenantIndustry: 'Food & Beverage',
+      leaseTerm: 60,
+      squareFootage: 2400,
+      baseRent: 28.5,
+      leaseType: 'NNN',
+      concessions: '3 months free',
+      effectiveRent: 27
+    },
+    {
+      propertyAddress: '2110 W Slaughter Ln, Austin, TX 78748',
+      propertyType: 'Retail',
+      leaseCommencementDate: '2024-04-01',
+      tenantIndustry: 'Fitness',
+      leaseTerm: 84,
+      squareFootage: 11800,
+      baseRent: 35,
+      rentEscalations: '2.5% annually',
+      leaseType: 'Modified Gross',
+      concessions: '$25/SF TI',
+      effectiveRent: 33.25
+    }
+  ],
+  summary: {
+    averageBaseRent: 31.83,
+    averageEffectiveRent: 30.22,
+    rentRange: { min: 28.5, max: 35 }
+  }
+};
+
+const brokerListing: BrokerListingData = {
+  listingDetails: {
+    propertyOwner: 'Maple Ridge Commons LLC',
+    brokerFirm: 'Capitol Commercial Advisors',
+    brokerName: 'Jordan Ellis',
+    listingPrice: 12850000,
+    listingType: 'sale',
+    commissionStructure: '3% of gross sale price, 1.5% to cooperating broker',
+    listingTerm: '6 months',
+    listingDate: '2025-01-06',
+    expirationDate: '2025-07-06'
+  },
+  propertyDetails: {
+    address: PROPERTY_ADDRESS,
+    propertyType: 'Retail',
+    squareFootage: 38000,
+    lotSize: 3.2,
+    yearBuilt: 2008,
+    parking: '190 surface spaces (5.0/1,000 SF)',
+    zoning: 'CS - General Commercial Services'
+  },
+  brokerDuties: [
+    'Prepare offering memorandum and marketing materials',
+    'List the property on commercial listing services',
+    'Qualify prospective buyers and coordinate tours'
+  ],
+  terminationProvisions: [
+    'Either party may terminate with 30 days written notice after the first 90 days',
+    'Commission is owed on sales to registered prospects within 90 days after expiration'
+  ]
+};
+
+const offeringMemo: OfferingMemoData = {
+  propertyOverview: {
+    name: PROPERTY_NAME,
+    address: PROPERTY_ADDRESS,
+    propertyType: 'Neighborhood Retail Center',
+    yearBuilt: 2008,
+    totalSquareFeet: 38000,
+    lotSize: 3.2
+  },
+  investmentHighlights: [
+    '80% leased to a mix of medical, fitness and service tenants',
+    'Anchor tenant on a new 10-year NNN lease through 2033',
+    'Below-market rents on 20% of the rentable area'
+  ],
+  marketOverview: 'Southeast Austin retail vacancy is 4.1% with average asking rents of $31/SF NNN.',
+  rentRollSummary: {
+    totalUnits: 5,
+    occupancyRate: 0.8,
+    averageRent: 16240
+  },
+  operatingStatement: {
+    grossIncome: 1222500,
+    operatingExpenses: 451900,
+    noi: 770600
+  },
+  leaseTerms: [
+    'Predominantly NNN leases with annual escalations',
+    'Tenants reimburse CAM, taxes and insurance pro rata'
+  ],
+  comparables: [
+    { address: '1800 Riverside Dr, Austin, TX 78741', salePrice: 9450000, capRate: 0.062 },
+    { address: '5120 Burnet Rd, Austin, TX 78756', salePrice: 14300000, capRate: 0.058 },
+    { address: '901 E Oltorf St, Austin, TX 78704', salePrice: 7200000, capRate: 0.065 }
+  ],
+  pricing: {
+    askingPrice: 12850000,
+    capRate: 0.06,
+    pricePerSF: 338.16
+  },
+  locationData: {
+    neighborhood: 'Riverside / Southeast Austin',
+    demographics: '112,000 residents within 3 miles, median household income $78,400',
+    transportation: 'Frontage on Maple Ridge Blvd, 0.5 miles from SH 71'
+  }
+};
+
+const leaseAgreement: LeaseData = {
+  parties: {
+    tenant: 'Northside Fitness LLC',
+    landlord: 'Maple Ridge Commons LLC'
+  },
+  premises: {
+    propertyAddress: PROPERTY_ADDRESS,
+    squareFeet: 14000,
+    description: 'Suite 140, approximately 14,000 rentable square feet'
+  },
+  leaseTerm: {
+    startDate: '2023-05-01',
+    endDate: '2033-04-30',
+    termMonths: 120
+  },
+  rentSchedule: {
+    baseRent: 35000,
+    rentEscalations: '2.5% annually on each lease anniversary',
+    rentPerSqFt: 30
+  },
+  operatingExpenses: {
+    responsibilityType: 'NNN',
+    camCharges: 4700,
+    utilities: 'Paid directly by tenant',
+    taxes: 'Pro rata share reimbursed monthly',
+    insurance: 'Pro rata share of landlord property insurance'
+  },
+  securityDeposit: 70000,
+  renewalOptions: ['One 10-year option at 95% of fair market rent'],
+  maintenanceObligations: {
+    landlord: ['Roof and structure', 'Parking lot and common areas'],
+    tenant: ['Interior of premises', 'HVAC serving the premises']
+  },
+  assignmentProvisions: 'Assignment requires landlord consent, not to be unreasonably withheld',
+  defaultRemedies: [
+    'Monetary default: 10 days after written notice',
+    'Non-monetary default: 30 days after written notice'
+  ],
+  insuranceRequirements: [
+    'Commercial general liability of $2,000,000 per occurrence',
+    'Property insurance on tenant improvements at full replacement cost'
+  ]
+};
+
+const financialStatements: FinancialStatementsData = {
+  period: 'Trailing 12 months ending December 31, 2024',
+  operatingIncome: {
+    rentalIncome: 1180000,
+    otherIncome: 34000,
+    totalIncome: 1155000,
+    vacancyLoss: 59000,
+    effectiveGrossIncome: 1121000
+  },
+  operatingExpenses: {
+    propertyTaxes: 182000,
+    insurance: 41000,
+    utilities: 66500,
+    maintenance: 91000,
+    management: 46200,
+    professionalFees: 14800,
+    otherExpenses: 9500,
+    totalExpenses: 451000
+  },
+  noi: 704000,
+  debtService: 412000,
+  cashFlow: 292000,
+  balanceSheet: {
+    assets: {
+      realEstate: 14200000,
+      cash: 385000,
+      otherAssets: 115000,
+      totalAssets: 14700000
+    },
+    liabilities: {
+      mortgage: 9600000,
+      otherLiabilities: 240000,
+      totalLiabilities: 9840000
+    },
+    equity: 4860000
+  },
+  capex: {
+    currentYear: 58000,
+    forecast: [60000, 45000, 72000]
+  }
+};
+
+const MOCK_EXTRACTION_FIXTURES: Partial<Record<DocumentType, MockExtractionFixture>> = {
+  rent_roll: {
+    metadata: {
+      propertyName: PROPERTY_NAME,
+      propertyAddress: PROPERTY_ADDRESS,
+      totalSquareFeet: 38000,
+      totalUnits: 5,
+      asOfDate: '2025-01-01',
+      extractedDate: EXTRACTED_DATE
+    },
+    data: rentRoll,
+    citations: {
+      'tenants.0': { page: 1 },
+      'tenants.1': { page: 1 },
+      'tenants.2': { page: 1 },
+      'tenants.3': { page: 2 },
+      'tenants.4': { page: 2 },
+      'summary.totalRent': { page: 2, snippet: 'Total Monthly Rent  $81,200.00' }
+    },
+    fieldConfidence: {
+      'tenants.0': 0.96,
+      'tenants.1': 0.93,
+      'tenants.2': 0.64,
+      'tenants.2.leaseEnd': 0.58,
+      'tenants.2.baseRent': 0.81,
+      'tenants.3': 0.9,
+      'tenants.4': 0.95,
+      'summary.totalRent': 0.98,
+      'summary.occupancyRate': 0.88
+    }
+  },
+  operating_budget: {
+    metadata: {
+      propertyName: PROPERTY_NAME,
+      propertyAddress: PROPERTY_ADDRESS,
+      budgetPeriod: '2025',
+      extractedDate: EXTRACTED_DATE
+    },
+    data: operatingBudget,
+    citations: {
+      'income.totalIncome': { page: 1, snippet: 'Total Income  1,222,500' },
+      noi: { page: 1, snippet: 'Net Operating Income  770,600' }
+    },
+    fieldConfidence: {
+      'income.totalIncome': 0.97,
+      'expenses.marketing': 0.66,
+      'expenses.totalOperatingExpenses': 0.95,
+      noi: 0.97
+    }
+  },
+  broker_sales_comparables: {
+    metadata: {
+      propertyName: PROPERTY_NAME,
+      reportTitle: 'Southeast Austin Retail Sales Comparables',
+      preparedBy: 'Capitol Commercial Advisors',
+      reportDate: '2025-01-10',
+      extractedDate: EXTRACTED_DATE
+    },
+    data: brokerSalesComparables,
+    fieldConfidence: {
+      'comparables.0': 0.94,
+      'comparables.1': 0.92,
+      'comparables.1.pricePerSF': 0.68,
+      'comparables.2': 0.9
+    }
+  },
+  broker_lease_comparables: {
+    metadata: {
+      propertyName: PROPERTY_NAME,
+      surveyTitle: 'Southeast Austin Retail Lease Comparables',
+      surveyDate: '2025-01-10',
+      extractedDate: EXTRACTED_DATE
+    },
+    data: brokerLeaseComparables,
+    fieldConfidence: {
+      'comparables.0': 0.95,
+      'comparables.1': 0.91,
+      'comparables.2': 0.69,
+      'comparables.2.effectiveRent': 0.62
+    }
+  },
+  broker_listing: {
+    metadata: {
+      propertyName: PROPERTY_NAME,
+      propertyAddress: PROPERTY_ADDRESS,
+      totalSquareFeet: 38000,
+      extractedDate: EXTRACTED_DATE
+    },
+    data: brokerListing,
+    fieldConfidence: {
+      'listingDetails.listingPrice': 0.97,
+      'listingDetails.commissionStructure': 0.85,
+      'propertyDetails.lotSize': 0.67
+    }
+  },
+  offering_memo: {
+    metadata: {
+      propertyName: PROPERTY_NAME,
+      propertyAddress: PROPERTY_ADDRESS,
+      totalSquareFeet: 38000,
+      totalUnits: 5,
+      extractedDate: EXTRACTED_DATE
+    },
+    data: offeringMemo,
+    fieldConfidence: {
+      'pricing.askingPrice': 0.98,
+      'operatingStatement.noi': 0.95,
+      'comparables.2': 0.66,
+      'comparables.2.capRate': 0.61
+    }
+  },
+  lease_agreement: {
+    metadata: {
+      propertyName: PROPERTY_NAME,
+      propertyAddress: PROPERTY_ADDRESS,
+      totalSquareFeet: 14000,
+      extractedDate: EXTRACTED_DATE
+    },
+    data: leaseAgreement,
+    fieldConfidence: {
+      'rentSchedule.baseRent': 0.97,
+      'leaseTerm.endDate': 0.95,
+      assignmentProvisions: 0.64
+    }
+  },
+  financial_statements: {
+    metadata: {
+      propertyName: PROPERTY_NAME,
+      propertyAddress: PROPERTY_ADDRESS,
+      period: 'T-12 December 2024',
+      statementType: 'Operating Statement',
+      extractedDate: EXTRACTED_DATE
+    },
+    data: financialStatements,
+    fieldConfidence: {
+      'operatingIncome.totalIncome': 0.96,
+      'operatingExpenses.otherExpenses': 0.63,
+      noi: 0.96,
+      'balanceSheet.equity': 0.84
+    }
+  }
+};
+
+/**
+ * Get the fixture for a document type
+ * Returns a deep copy so callers can transform the result without changing later runs
+ *
+ * @returns Fixture, or null when no fixture exists for the type (legacy types, unknown)
+ */
+export function getMockExtractionFixture(documentType: DocumentType): MockExtractionFixture | null {
+  const fixture = MOCK_EXTRACTION_FIXTURES[documentType];
+  return fixture ? structuredClone(fixture) : null;
+}
@@ -0,0 +1,128 @@
+/**
+ * Model Version Routing
+ *
+ * Deployed model versions (model_versions rows with deployment_status 'active' or 'testing')
+ * receive their traffic_percentage share of extractions for their document type; the remaining
+ * traffic goes to the provider's base model. Every extraction served by a model version updates
+ * its total_requests / successful_extractions / failed_extractions counters.
+ */
+
+import { supabaseAdmin as supabase } from './supabase';
+import {
+  getExtractionProvider,
+  getExtractionProviderForModel,
+  type ExtractionProviderOptions
+} from './extraction-providers';
+import type { DeploymentStatus, DocumentType, ExtractedData, ModelVersion } from './types';
+
+/**
+ * Deployment statuses that receive extraction traffic
+ */
+const ROUTABLE_DEPLOYMENT_STATUSES: DeploymentStatus[] = ['active', 'testing'];
+
+export type RoutableModelVersion = Pick<
+  ModelVersion,
+  'id' | 'model_id' | 'version_number' | 'deployment_status' | 'traffic_percentage'
+>;
+
+/**
+ * Load the model versions that receive traffic for a document type, newest first
+ * Returns an empty list on database errors so extraction falls back to the base model
+ */
+export async function getRoutableModelVersions(documentType: DocumentType): Promise<RoutableModelVersion[]> {
+  const { data, error } = await supabase
+    .from('model_versions')
+    .select('id, model_id, version_number, deployment_status, traffic_percentage')
+    .eq('document_type', documentType)
+    .in('deployment_status', ROUTABLE_DEPLOYMENT_STATUSES)
+    .gt('traffic_percentage', 0)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    console.error('[Model Routing] Failed to load model versions - using base model:', error);
+    return [];
+  }
+
+  return (data as RoutableModelVersion[]) || [];
+}
+
+/**
+ * Pick the model version for one extraction
+ * Each version takes its traffic_percentage out of 100 in list order; the remainder uses the base model.
+ * Percentages adding up to more than 100 are scaled down proportionally.
+ *
+ * @param versions - Routable versions (newest first)
+ * @param roll - Number in [0, 100) deciding the split (random by default)
+ * @returns Selected version, or null for the base model
+ */
+export function pickModelVersion(
+  versions: RoutableModelVersion[],
+  roll: number = Math.random() * 100
+): RoutableModelVersion | null {
+  const totalTraffic = versions.reduce((sum, version) => sum + version.traffic_percentage, 0);
+  const scale = totalTraffic > 100 ? 100 / totalTraffic : 1;
+
+  let threshold = 0;
+  for (const version of versions) {
+    threshold += version.traffic_percentage * scale;
+    if (roll < threshold) {
+      return version;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record the outcome of an extraction served by a model version
+ * Never throws - counter updates must not fail the extraction
+ */
+export async function recordModelVersionOutcome(modelVersionId: string, success: boolean): Promise<void> {
+  const { error } = await supabase.rpc('record_model_version_extraction', {
+    p_model_version_id: modelVersionId,
+    p_success: success
+  });
+
+  if (error) {
+    console.error(`[Model Routing] Failed to record outcome for model version ${modelVersionId}:`, error);
+  }
+}
+
+/**
+ * Extract a document with the model chosen by traffic routing
+ * Mock extractions and document packages (no model versions) skip routing
+ *
+ * @example
+ * const data = await extractWithModelRouting(file, 'rent_roll', { userMetadata });
+ */
+export async function extractWithModelRouting(
+  file: File,
+  documentType: DocumentType,
+  options: ExtractionProviderOptions = {}
+): Promise<ExtractedData> {
+  const defaultProvider = getExtractionProvider(documentType);
+  if (defaultProvider.name === 'mock' || documentType === 'document_package') {
+    return defaultProvider.extractDocument(file, documentType, options);
+  }
+
+  const modelVersion = pickModelVersion(await getRoutableModelVersions(documentType));
+  if (!modelVersion) {
+    console.log(`[Model Routing] ${documentType}: base model (${defaultProvider.name})`);
+    return defaultProvider.extractDocument(file, documentType, options);
+  }
+
+  const provider = getExtractionProviderForModel(modelVersion.model_id) || defaultProvider;
+  console.log(
+    `[Model Routing] ${documentType}: model version ${modelVersion.version_number} ` +
+    `(${modelVersion.model_id}, ${modelVersion.deployment_status}, ${modelVersion.traffic_percentage}% traffic) via ${provider.name}`
+  );
+
+  try {
+    const extractedData = await provider.extractDocument(file, documentType, { ...options, model: modelVersion.model_id });
+    await recordModelVersionOutcome(modelVersion.id, true);
+    return extractedData;
+  } catch (error) {
+    await recordModelVersionOutcome(modelVersion.id, false);
+    throw error;
+  }
+}
@@ -0,0 +1,90 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { ODS_CONTENT_TYPE, toOpenFormula, writeOdsBuffer } from './ods-export';
+
+/**
+ * Write a workbook as .ods and read the archive back
+ */
+async function writeAndOpen(workbook: ExcelJS.Workbook): Promise<{ zip: JSZip; content: string; settings: string }> {
+  const zip = await JSZip.loadAsync(await writeOdsBuffer(workbook));
+  return {
+    zip,
+    content: await zip.file('content.xml')!.async('string'),
+    settings: await zip.file('settings.xml')!.async('string')
+  };
+}
+
+describe('toOpenFormula', () => {
+  it('brackets references and separates arguments with semicolons', () => {
+    expect(toOpenFormula('IF(ABS(D9)<=MAX(ABS(C9),1)*0.01,"OK","CHECK")'))
+      .toBe('of:=IF(ABS([.D9])<=MAX(ABS([.C9]);1)*0.01;"OK";"CHECK")');
+    expect(toOpenFormula('=SUM($B$2:B10)')).toBe('of:=SUM([.$B$2:.B10])');
+  });
+
+  it('qualifies references to other sheets', () => {
+    expect(toOpenFormula("'Rent Roll'!C5+Summary!A1:B2")).toBe("of:=[$'Rent Roll'.C5]+[$'Summary'.A1:.B2]");
+  });
+
+  it('leaves string literals untouched', () => {
+    expect(toOpenFormula('CONCATENATE("A1, B2",C3)')).toBe('of:=CONCATENATE("A1, B2";[.C3])');
+  });
+});
+
+describe('writeOdsBuffer', () => {
+  it('stores the mimetype first and uncompressed', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Summary').getCell('A1').value = 'Total';
+
+    const buffer = await writeOdsBuffer(workbook);
+    const { zip } = await writeAndOpen(workbook);
+
+    // Local file header: name at offset 30, data right after it for a stored entry
+    expect(buffer.subarray(30, 38).toString()).toBe('mimetype');
+    expect(buffer.subarray(38, 38 + ODS_CONTENT_TYPE.length).toString()).toBe(ODS_CONTENT_TYPE);
+    expect(Object.values(zip.files).filter(file => !file.dir).map(file => file.name))
+      .toEqual(['mimetype', 'META-INF/manifest.xml', 'content.xml', 'settings.xml']);
+  });
+
+  it('escapes text, sheet names and notes', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('P&L <2026>');
+    sheet.getCell('A1').value = 'Smith & Sons "Retail" <Suite 100>\u0007';
+    sheet.getCell('A1').note = 'Page 3 & 4';
+
+    const { content } = await writeAndOpen(workbook);
+
+    expect(content).toContain('<table:table table:name="P&amp;L &lt;2026&gt;">');
+    expect(content).toContain('<text:p>Smith &amp; Sons &quot;Retail&quot; &lt;Suite 100&gt;</text:p>');
+    expect(content).toContain('<office:annotation><text:p>Page 3 &amp; 4</text:p></office:annotation>');
+  });
+
+  it('writes numbers, formulas with their cached results and internal links', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Summary');
+    sheet.getCell('A1').value = 1500;
+    sheet.getCell('A2').value = { formula: 'A1*12', result: 18000 };
+    sheet.getCell('A3').value = { text: 'Rent Roll', hyperlink: "#'Rent Roll'!A1" };
+
+    const { content } = await writeAndOpen(workbook);
+
+    expect(content).toContain('office:value-type="float" office:value="1500"');
+    expect(content).toContain('table:formula="of:=[.A1]*12" office:value-type="float" office:value="18000"');
+    expect(content).toContain('<text:a xlink:type="simple" xlink:href="#\'Rent Roll\'.A1">Rent Roll</text:a>');
+  });
+
+  it('spans merged ranges and keeps frozen panes', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Tenants', { views: [{ state: 'frozen', xSplit: 0, ySplit: 1 }] });
+    sheet.getCell('A1').value = 'Rent Roll';
+    sheet.mergeCells('A1:C1');
+    sheet.getCell('A2').value = 'Tenant';
+
+    const { content, settings } = await writeAndOpen(workbook);
+
+    expect(content).toContain('table:number-columns-spanned="3" table:number-rows-spanned="1"');
+    expect(content.match(/<table:covered-table-cell\/>/g)).toHaveLength(2);
+    expect(settings).toContain('<config:config-item-map-entry config:name="Tenants">');
+    expect(settings).toContain('<config:config-item config:name="VerticalSplitPosition" config:type="int">1</config:config-item>');
+  });
+});
@@ -0,0 +1,502 @@
+/**
+ * OpenDocument Spreadsheet Export
+ *
+ * Converts a finished ExcelJS workbook into an .ods file for LibreOffice users, so the
+ * OpenDocument export has exactly the sheets, values and formulas of the Excel export.
+ * Carried over: values and number formats, formulas (with their cached results), merged
+ * ranges, frozen rows/columns, column widths, row heights, bold/italic/colour/fill/borders,
+ * alignment, hyperlinks, cell notes and images. Conditional formatting, print setup and
+ * charts drawn by Excel itself are not.
+ */
+
+import type ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+
+export const ODS_CONTENT_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:number="urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:of="urn:oasis:names:tc:opendocument:xmlns:of:1.2"',
+  'xmlns:config="urn:oasis:names:tc:opendocument:xmlns:config:1.0"'
+].join(' ');
+
+// Excel column width is in characters of the default font (~7px plus 5px padding at 96 DPI)
+const DEFAULT_COLUMN_WIDTH = 9.14;
+const PX_PER_INCH = 96;
+
+type ValueKind = 'float' | 'percentage' | 'date';
+
+interface DataStyle {
+  name: string;
+  kind: ValueKind;
+  xml: string;
+}
+
+interface Picture {
+  path: string;
+  mediaType: string;
+  buffer: Buffer;
+}
+
+/**
+ * Collects the automatic styles referenced from content.xml, one per distinct combination
+ */
+class StyleRegistry {
+  private cellStyles = new Map<string, string>();
+  private columnStyles = new Map<string, string>();
+  private rowStyles = new Map<string, string>();
+  private dataStyles = new Map<string, DataStyle | null>();
+  private xml: string[] = [];
+
+  cell(cell: ExcelJS.Cell): { name: string | null; kind: ValueKind } {
+    const dataStyle = this.dataStyle(cell.numFmt);
+    const cellProperties: string[] = [];
+    const paragraphProperties: string[] = [];
+    const textProperties: string[] = [];
+
+    const fill = cell.fill;
+    if (fill?.type === 'pattern' && fill.pattern === 'solid') {
+      const color = toHexColor(fill.fgColor?.argb);
+      if (color) cellProperties.push(`fo:background-color="${color}"`);
+    }
+
+    const border = cell.border;
+    (['top', 'bottom', 'left', 'right'] as const).forEach(side => {
+      const edge = border?.[side];
+      if (edge?.style) {
+        const width = edge.style === 'medium' || edge.style === 'thick' ? '1.5pt' : '0.5pt';
+        cellProperties.push(`fo:border-${side}="${width} solid ${toHexColor(edge.color?.argb) || '#000000'}"`);
+      }
+    });
+
+    const alignment = cell.alignment;
+    if (alignment?.wrapText) cellProperties.push('fo:wrap-option="wrap"');
+    if (alignment?.vertical) {
+      cellProperties.push(`style:vertical-align="${alignment.vertical === 'top' ? 'top' : alignment.vertical === 'bottom' ? 'bottom' : 'middle'}"`);
+    }
+    if (alignment?.horizontal === 'center' || alignment?.horizontal === 'centerContinuous') {
+      paragraphProperties.push('fo:text-align="center"');
+    } else if (alignment?.horizontal === 'right') {
+      paragraphProperties.push('fo:text-align="end"');
+    } else if (alignment?.horizontal === 'left') {
+      paragraphProperties.push('fo:text-align="start"');
+    }
+
+    const font = cell.font;
+    if (font?.bold) textProperties.push('fo:font-weight="bold"');
+    if (font?.italic) textProperties.push('fo:font-style="italic"');
+    if (font?.size) textProperties.push(`fo:font-size="${font.size}pt"`);
+    const fontColor = toHexColor(font?.color?.argb);
+    if (fontColor) textProperties.push(`fo:color="${fontColor}"`);
+
+    if (!dataStyle && cellProperties.length === 0 && paragraphProperties.length === 0 && textProperties.length === 0) {
+      return { name: null, kind: 'float' };
+    }
+
+    const body = [
+      cellProperties.length > 0 ? `<style:table-cell-properties ${cellProperties.join(' ')}/>` : '',
+      paragraphProperties.length > 0 ? `<style:paragraph-properties ${paragraphProperties.join(' ')}/>` : '',
+      textProperties.length > 0 ? `<style:text-properties ${textProperties.join(' ')}/>` : ''
+    ].join('');
+    const key = `${dataStyle?.name ?? ''}|${body}`;
+
+    let name = this.cellStyles.get(key);
+    if (!name) {
+      name = `ce${this.cellStyles.size + 1}`;
+      this.cellStyles.set(key, name);
+      const dataStyleAttribute = dataStyle ? ` style:data-style-name="${dataStyle.name}"` : '';
+      this.xml.push(`<style:style style:name="${name}" style:family="table-cell"${dataStyleAttribute}>${body}</style:style>`);
+    }
+    return { name, kind: dataStyle?.kind ?? 'float' };
+  }
+
+  column(width: number | undefined): string {
+    const inches = ((width || DEFAULT_COLUMN_WIDTH) * 7 + 5) / PX_PER_INCH;
+    const key = inches.toFixed(3);
+    let name = this.columnStyles.get(key);
+    if (!name) {
+      name = `co${this.columnStyles.size + 1}`;
+      this.columnStyles.set(key, name);
+      this.xml.push(`<style:style style:name="${name}" style:family="table-column"><style:table-column-properties style:column-width="${key}in"/></style:style>`);
+    }
+    return name;
+  }
+
+  row(height: number | undefined): string | null {
+    if (!height) return null;
+    const key = `${height}pt`;
+    let name = this.rowStyles.get(key);
+    if (!name) {
+      name = `ro${this.rowStyles.size + 1}`;
+      this.rowStyles.set(key, name);
+      this.xml.push(`<style:style style:name="${name}" style:family="table-row"><style:table-row-properties style:row-height="${key}" style:use-optimal-row-height="false"/></style:style>`);
+    }
+    return name;
+  }
+
+  toXml(): string {
+    return this.xml.join('');
+  }
+
+  /**
+   * OpenDocument data style for an Excel number format - covers the formats the exports
+   * use ($#,##0.00, #,##0, 0.0%, 0.00"x", mm/dd/yyyy); anything else falls back to General
+   */
+  private dataStyle(numFmt: string | undefined): DataStyle | null {
+    if (!numFmt || numFmt === 'General') return null;
+    if (this.dataStyles.has(numFmt)) return this.dataStyles.get(numFmt)!;
+
+    const name = `N${this.dataStyles.size + 1}`;
+    const dataStyle = toDataStyle(name, numFmt);
+    this.dataStyles.set(numFmt, dataStyle);
+    if (dataStyle) this.xml.push(dataStyle.xml);
+    return dataStyle;
+  }
+}
+
+function toDataStyle(name: string, numFmt: string): DataStyle | null {
+  const numeric = numFmt.match(/^(\$)?(#,##)?0(?:\.(0*)(#*))?(%)?(?:"([^"]*)")?$/);
+  if (numeric) {
+    const [, currency, grouping, zeros = '', optional = '', percent, suffix] = numeric;
+    const number = `<number:number number:decimal-places="${zeros.length + optional.length}" number:min-decimal-places="${zeros.length}" number:min-integer-digits="1"${grouping ? ' number:grouping="true"' : ''}/>`;
+    const parts = [
+      currency ? '<number:currency-symbol>$</number:currency-symbol>' : '',
+      number,
+      percent ? '<number:text>%</number:text>' : '',
+      suffix ? `<number:text>${escapeXml(suffix)}</number:text>` : ''
+    ].join('');
+    const element = percent ? 'number:percentage-style' : currency ? 'number:currency-style' : 'number:number-style';
+    return {
+      name,
+      kind: percent ? 'percentage' : 'float',
+      xml: `<${element} style:name="${name}">${parts}</${element}>`
+    };
+  }
+
+  if (/^[dmy/\-. ]+$/i.test(numFmt) && /y/i.test(numFmt)) {
+    const parts = numFmt.match(/y+|m+|d+|[^ymd]+/gi)!.map(token => {
+      const lower = token.toLowerCase();
+      if (lower.startsWith('y')) return `<number:year${lower.length > 2 ? ' number:style="long"' : ''}/>`;
+      if (lower.startsWith('m')) return `<number:month${lower.length > 1 ? ' number:style="long"' : ''}/>`;
+      if (lower.startsWith('d')) return `<number:day${lower.length > 1 ? ' number:style="long"' : ''}/>`;
+      return `<number:text>${escapeXml(token)}</number:text>`;
+    });
+    return { name, kind: 'date', xml: `<number:date-style style:name="${name}">${parts.join('')}</number:date-style>` };
+  }
+
+  return null;
+}
+
+function escapeXml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toHexColor(argb: string | undefined): string | null {
+  return argb && /^[0-9A-F]{8}$/i.test(argb) ? `#${argb.slice(2)}` : null;
+}
+
+function columnNumber(letters: string): number {
+  return letters.toUpperCase().split('').reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0);
+}
+
+/**
+ * Parse an A1 range ("A1:E1") into 1-based row/column bounds
+ */
+function parseRange(range: string): { top: number; left: number; bottom: number; right: number } | null {
+  const match = range.replace(/\$/g, '').match(/^([A-Z]+)(\d+)(?::([A-Z]+)(\d+))?$/i);
+  if (!match) return null;
+  const [, leftLetters, top, rightLetters = leftLetters, bottom = top] = match;
+  return { top: Number(top), left: columnNumber(leftLetters), bottom: Number(bottom), right: columnNumber(rightLetters) };
+}
+
+function toOdsSheetReference(sheet: string | undefined): string {
+  if (!sheet) return '.';
+  const name = sheet.startsWith("'") ? sheet : `'${sheet}'`;
+  return `$${name}.`;
+}
+
+/**
+ * Translate an Excel formula to OpenFormula: A1 references become [.A1] / [$'Sheet'.A1:.B2]
+ * and argument separators become semicolons. String literals are left untouched.
+ *
+ * @example
+ * toOpenFormula('IF(ABS(D9)<=MAX(ABS(C9),1)*0.01,"OK","CHECK")')
+ * // 'of:=IF(ABS([.D9])<=MAX(ABS([.C9]);1)*0.01;"OK";"CHECK")'
+ */
+export function toOpenFormula(formula: string): string {
+  const reference = /(?<![\w$.'])(?:('(?:[^']|'')+'|[A-Za-z_][\w.]*)!)?(\$?[A-Z]{1,3}\$?\d+)(?::(\$?[A-Z]{1,3}\$?\d+))?(?![\w(])/g;
+
+  const translated = formula
+    .replace(/^=/, '')
+    .split(/("(?:[^"]|"")*")/)
+    .map((part, index) => {
+      if (index % 2 === 1) return part; // String literal
+      return part
+        .replace(reference, (_match, sheet: string | undefined, start: string, end: string | undefined) => {
+          const prefix = toOdsSheetReference(sheet);
+          return end ? `[${prefix}${start}:.${end}]` : `[${prefix}${start}]`;
+        })
+        .replace(/,/g, ';');
+    })
+    .join('');
+
+  return `of:=${translated}`;
+}
+
+/**
+ * Excel internal link (#'Sheet'!A1) to its OpenDocument form (#'Sheet'.A1)
+ */
+function toOdsHyperlink(hyperlink: string): string {
+  const internal = hyperlink.match(/^#('(?:[^']|'')+'|[^!']+)!(\$?[A-Z]+\$?\d+)$/i);
+  return internal ? `#${internal[1]}.${internal[2].replace(/\$/g, '')}` : hyperlink;
+}
+
+function toParagraphs(text: string, link?: string): string {
+  return text.split(/\r?\n/)
+    .map(line => {
+      const content = link
+        ? `<text:a xlink:type="simple" xlink:href="${escapeXml(toOdsHyperlink(link))}">${escapeXml(line)}</text:a>`
+        : escapeXml(line);
+      return `<text:p>${content}</text:p>`;
+    })
+    .join('');
+}
+
+function toPlainText(value: ExcelJS.CellValue): string {
+  if (value && typeof value === 'object' && 'richText' in value) {
+    return value.richText.map(run => run.text).join('');
+  }
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function toNoteText(note: ExcelJS.Cell['note']): string {
+  if (!note) return '';
+  if (typeof note === 'string') return note;
+  return (note.texts || []).map(run => run.text).join('');
+}
+
+function toDateValue(date: Date): string {
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+/**
+ * Value attributes and paragraph text for a plain (non-formula) value
+ */
+function toValueXml(value: unknown, kind: ValueKind): { attributes: string; text: string } {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return { attributes: ` office:value-type="${kind === 'percentage' ? 'percentage' : 'float'}" office:value="${value}"`, text: '' };
+  }
+  if (typeof value === 'boolean') {
+    return { attributes: ` office:value-type="boolean" office:boolean-value="${value}"`, text: '' };
+  }
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return { attributes: ` office:value-type="date" office:date-value="${toDateValue(value)}"`, text: '' };
+  }
+  if (value && typeof value === 'object' && 'error' in value) {
+    return { attributes: ' office:value-type="string"', text: toParagraphs(String((value as ExcelJS.CellErrorValue).error)) };
+  }
+  const text = toPlainText(value as ExcelJS.CellValue);
+  return text ? { attributes: ' office:value-type="string"', text: toParagraphs(text) } : { attributes: '', text: '' };
+}
+
+function toCellXml(cell: ExcelJS.Cell, styles: StyleRegistry, span: string, frames: string): string {
+  const { name, kind } = styles.cell(cell);
+  const styleAttribute = name ? ` table:style-name="${name}"` : '';
+  const value = cell.value;
+  let attributes = '';
+  let text = '';
+
+  if (value && typeof value === 'object' && ('formula' in value || 'sharedFormula' in value)) {
+    const formula = ('formula' in value && value.formula) || cell.formula || '';
+    const result = toValueXml(value.result, kind);
+    attributes = ` table:formula="${escapeXml(toOpenFormula(formula))}"${result.attributes}`;
+    text = result.text;
+  } else if (value && typeof value === 'object' && 'hyperlink' in value) {
+    attributes = ' office:value-type="string"';
+    text = toParagraphs(toPlainText(value.text as ExcelJS.CellValue), value.hyperlink);
+  } else {
+    ({ attributes, text } = toValueXml(value, kind));
+  }
+
+  const noteText = toNoteText(cell.note);
+  const annotation = noteText ? `<office:annotation>${toParagraphs(noteText)}</office:annotation>` : '';
+  const content = annotation + frames + text;
+
+  return content
+    ? `<table:table-cell${styleAttribute}${span}${attributes}>${content}</table:table-cell>`
+    : `<table:table-cell${styleAttribute}${span}${attributes}/>`;
+}
+
+/**
+ * Images anchored to each cell ("row:col", 1-based) as draw:frame elements
+ */
+function collectFrames(workbook: ExcelJS.Workbook, sheet: ExcelJS.Worksheet, pictures: Picture[]): Map<string, string> {
+  const frames = new Map<string, string>();
+
+  sheet.getImages().forEach(image => {
+    const media = workbook.getImage(Number(image.imageId));
+    const buffer = media?.buffer
+      ? Buffer.from(media.buffer as unknown as ArrayBuffer)
+      : media?.base64 ? Buffer.from(media.base64.replace(/^data:[^,]*,/, ''), 'base64') : null;
+    if (!buffer) return;
+
+    const path = `Pictures/image${pictures.length + 1}.${media.extension}`;
+    pictures.push({ path, mediaType: `image/${media.extension}`, buffer });
+
+    const range = image.range as ExcelJS.ImageRange & { ext?: { width: number; height: number } };
+    const width = range.ext?.width ?? 480;
+    const height = range.ext?.height ?? 288;
+    const key = `${Math.floor(range.tl.row) + 1}:${Math.floor(range.tl.col) + 1}`;
+    const frame = `<draw:frame svg:x="0in" svg:y="0in" svg:width="${(width / PX_PER_INCH).toFixed(3)}in" svg:height="${(height / PX_PER_INCH).toFixed(3)}in">` +
+      `<draw:image xlink:href="${path}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/></draw:frame>`;
+    frames.set(key, (frames.get(key) || '') + frame);
+  });
+
+  return frames;
+}
+
+function toTableXml(workbook: ExcelJS.Workbook, sheet: ExcelJS.Worksheet, styles: StyleRegistry, pictures: Picture[]): string {
+  const frames = collectFrames(workbook, sheet, pictures);
+
+  // Merged ranges: span on the top-left cell, every other cell in the range is covered
+  const spans = new Map<string, string>();
+  const covered = new Set<string>();
+  (sheet.model.merges || []).forEach(merge => {
+    const range = parseRange(merge);
+    if (!range) return;
+    spans.set(
+      `${range.top}:${range.left}`,
+      ` table:number-columns-spanned="${range.right - range.left + 1}" table:number-rows-spanned="${range.bottom - range.top + 1}"`
+    );
+    for (let row = range.top; row <= range.bottom; row++) {
+      for (let col = range.left; col <= range.right; col++) {
+        if (row !== range.top || col !== range.left) covered.add(`${row}:${col}`);
+      }
+    }
+  });
+
+  let rowCount = sheet.rowCount;
+  let columnCount = Math.max(sheet.columnCount, 1);
+  frames.forEach((_frame, key) => {
+    const [row, col] = key.split(':').map(Number);
+    rowCount = Math.max(rowCount, row);
+    columnCount = Math.max(columnCount, col);
+  });
+
+  const columns: string[] = [];
+  for (let col = 1; col <= columnCount; col++) {
+    columns.push(`<table:table-column table:style-name="${styles.column(sheet.getColumn(col).width)}"/>`);
+  }
+
+  const rows: string[] = [];
+  for (let rowNumber = 1; rowNumber <= rowCount; rowNumber++) {
+    const row = sheet.getRow(rowNumber);
+    const cells: string[] = [];
+    for (let col = 1; col <= columnCount; col++) {
+      const key = `${rowNumber}:${col}`;
+      if (covered.has(key)) {
+        cells.push('<table:covered-table-cell/>');
+      } else {
+        cells.push(toCellXml(row.getCell(col), styles, spans.get(key) || '', frames.get(key) || ''));
+      }
+    }
+    const rowStyle = styles.row(row.height);
+    rows.push(`<table:table-row${rowStyle ? ` table:style-name="${rowStyle}"` : ''}>${cells.join('')}</table:table-row>`);
+  }
+
+  return `<table:table table:name="${escapeXml(sheet.name)}">${columns.join('')}${rows.join('')}</table:table>`;
+}
+
+/**
+ * settings.xml carrying each sheet's frozen rows/columns
+ */
+function toSettingsXml(workbook: ExcelJS.Workbook): string {
+  const item = (name: string, type: string, value: string | number) =>
+    `<config:config-item config:name="${name}" config:type="${type}">${value}</config:config-item>`;
+
+  const tables: string[] = [];
+  workbook.eachSheet(sheet => {
+    const view = sheet.views?.[0];
+    if (view?.state !== 'frozen') return;
+    const rows = view.ySplit || 0;
+    const cols = view.xSplit || 0;
+    if (rows === 0 && cols === 0) return;
+
+    tables.push(
+      `<config:config-item-map-entry config:name="${escapeXml(sheet.name)}">` +
+      item('HorizontalSplitMode', 'short', cols > 0 ? 2 : 0) +
+      item('VerticalSplitMode', 'short', rows > 0 ? 2 : 0) +
+      item('HorizontalSplitPosition', 'int', cols) +
+      item('VerticalSplitPosition', 'int', rows) +
+      item('ActiveSplitRange', 'short', rows > 0 ? 2 : 3) +
+      item('PositionLeft', 'int', 0) +
+      item('PositionRight', 'int', cols) +
+      item('PositionTop', 'int', 0) +
+      item('PositionBottom', 'int', rows) +
+      '</config:config-item-map-entry>'
+    );
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8"?>' +
+    `<office:document-settings ${NAMESPACES} office:version="1.2"><office:settings>` +
+    '<config:config-item-set config:name="ooo:view-settings">' +
+    '<config:config-item-map-indexed config:name="Views"><config:config-item-map-entry>' +
+    item('ViewId', 'string', 'view1') +
+    `<config:config-item-map-named config:name="Tables">${tables.join('')}</config:config-item-map-named>` +
+    '</config:config-item-map-entry></config:config-item-map-indexed>' +
+    '</config:config-item-set></office:settings></office:document-settings>';
+}
+
+/**
+ * Write an ExcelJS workbook as an OpenDocument spreadsheet (.ods)
+ *
+ * @param workbook - Fully generated workbook (the same one the xlsx export would write)
+ * @returns .ods file contents
+ */
+export async function writeOdsBuffer(workbook: ExcelJS.Workbook): Promise<Buffer> {
+  const styles = new StyleRegistry();
+  const pictures: Picture[] = [];
+  const tables: string[] = [];
+  workbook.eachSheet(sheet => {
+    tables.push(toTableXml(workbook, sheet, styles, pictures));
+  });
+
+  const content = '<?xml version="1.0" encoding="UTF-8"?>' +
+    `<office:document-content ${NAMESPACES} office:version="1.2">` +
+    `<office:automatic-styles>${styles.toXml()}</office:automatic-styles>` +
+    `<office:body><office:spreadsheet>${tables.join('')}</office:spreadsheet></office:body>` +
+    '</office:document-content>';
+
+  const manifest = '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">' +
+    `<manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${ODS_CONTENT_TYPE}"/>` +
+    '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>' +
+    '<manifest:file-entry manifest:full-path="settings.xml" manifest:media-type="text/xml"/>' +
+    pictures.map(picture => `<manifest:file-entry manifest:full-path="${picture.path}" manifest:media-type="${picture.mediaType}"/>`).join('') +
+    '</manifest:manifest>';
+
+  // The mimetype entry must come first and be stored uncompressed
+  const zip = new JSZip();
+  zip.file('mimetype', ODS_CONTENT_TYPE, { compression: 'STORE' });
+  zip.file('META-INF/manifest.xml', manifest);
+  zip.file('content.xml', content);
+  zip.file('settings.xml', toSettingsXml(workbook));
+  pictures.forEach(picture => zip.file(picture.path, picture.buffer));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
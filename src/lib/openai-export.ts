@@ -61,6 +61,9 @@ Analyze financial performance, trends, ratios, and investment returns. Provide p
 
   financial_statement: `You are a commercial real estate financial analyst with expertise in property accounting and financial statement analysis. Extract comprehensive financial data including income statements, balance sheets, cash flows, and performance metrics.`,
 
+  // Composite results are split into their component documents before training
+  document_package: `You are an expert real estate document analyst. Identify each distinct document bundled in this package and extract its data in a structured format.`,
+
   unknown: `You are an expert real estate document analyst. Extract all relevant information from this document in a structured format. Identify the document type and extract applicable data points.`
 };
 
@@ -89,6 +92,8 @@ const EXTRACTION_INSTRUCTIONS: Record<DocumentType, string> = {
 
   financial_statement: `Extract comprehensive data from this financial statement document. Analyze operating income, expenses, NOI, and financial metrics.`,
 
+  document_package: `Extract comprehensive data from every document contained in this package, keeping each document's data separate.`,
+
   unknown: `Extract all relevant information from this document in a structured format.`
 };
 
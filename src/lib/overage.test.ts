@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const stripeRequest = vi.fn();
+// Result of single() per table, and of the list query (limit) per table
+const rowResults: Record<string, { data: unknown; error: unknown }> = {};
+const listResults: Record<string, { data: unknown; error: unknown }> = {};
+const queries: { table: string; query: ReturnType<typeof createQuery> }[] = [];
+
+/**
+ * Chainable stand-in for a Supabase query: every builder method returns the query;
+ * single() resolves to the table's row, limit() to its list and awaiting it to no error
+ */
+function createQuery(table: string) {
+  const query = {
+    select: vi.fn(() => query),
+    update: vi.fn(() => query),
+    eq: vi.fn(() => query),
+    gt: vi.fn(() => query),
+    is: vi.fn(() => query),
+    lt: vi.fn(() => query),
+    order: vi.fn(() => query),
+    single: vi.fn(async () => rowResults[table] ?? { data: null, error: null }),
+    limit: vi.fn(async () => listResults[table] ?? { data: [], error: null }),
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve({ error: null }).then(resolve)
+  };
+  queries.push({ table, query });
+  return query;
+}
+
+vi.mock('./supabase', () => ({ supabaseAdmin: { from: vi.fn(createQuery) } }));
+vi.mock('./stripe', async () => ({
+  ...await vi.importActual<typeof import('./stripe')>('./stripe'),
+  isStripeApiConfigured: () => true,
+  stripeRequest
+}));
+
+vi.stubEnv('STRIPE_PRICE_OVERAGE_PROFESSIONAL_MONTHLY', 'price_overage_professional_monthly');
+
+const { checkOverage, getOverageStatus, reportOverageUsage, reportPendingOverageUsage } = await import('./overage');
+
+const user = {
+  id: 'user-1',
+  group_id: null,
+  subscription_type: 'professional_monthly',
+  subscription_status: 'active',
+  stripe_customer_id: 'cus_1',
+  stripe_subscription_id: 'sub_1',
+  overage_enabled: true,
+  overage_monthly_cap: '100.00',
+  overage_month: '2026-01-01',
+  overage_pages: 125,
+  overage_spend: '10.00'
+};
+
+const reservation = {
+  id: 'res-1',
+  user_id: 'user-1',
+  status: 'committed',
+  overage_pages: 40,
+  overage_reported_at: null,
+  overage_report_attempts: 0,
+  settled_at: '2026-01-16T00:00:00.000Z'
+};
+
+/**
+ * Values passed to update() on a table
+ */
+function updates(table: string): unknown[] {
+  return queries.filter(entry => entry.table === table).flatMap(entry => entry.query.update.mock.calls.map(call => (call as unknown[])[0]));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  queries.length = 0;
+  for (const results of [rowResults, listResults]) {
+    for (const table of Object.keys(results)) delete results[table];
+  }
+  rowResults.users = { data: user, error: null };
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-01-16T00:00:00.000Z'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('checkOverage', () => {
+  it('allows pages whose cost fits under the cap left this month', async () => {
+    await expect(checkOverage('user-1', 40)).resolves.toEqual({ allowed: true, pages: 40, cost: 3.2, remainingCap: 90 });
+  });
+
+  it('refuses pages that would go past the cap', async () => {
+    rowResults.users = { data: { ...user, overage_spend: '99.00' }, error: null };
+
+    await expect(checkOverage('user-1', 40)).resolves.toMatchObject({ allowed: false, cost: 3.2, remainingCap: 1 });
+  });
+
+  it("does not count a previous month's spend", async () => {
+    rowResults.users = { data: { ...user, overage_month: '2025-12-01', overage_spend: '99.00' }, error: null };
+
+    await expect(checkOverage('user-1', 40)).resolves.toMatchObject({ allowed: true, remainingCap: 100 });
+  });
+
+  it('is null for annual plans and users with overage off', async () => {
+    rowResults.users = { data: { ...user, subscription_type: 'professional_annual' }, error: null };
+    await expect(checkOverage('user-1', 40)).resolves.toBeNull();
+
+    rowResults.users = { data: { ...user, overage_enabled: false }, error: null };
+    await expect(checkOverage('user-1', 40)).resolves.toBeNull();
+  });
+});
+
+describe('getOverageStatus', () => {
+  it("projects this month's spend to the end of the month", async () => {
+    // 15 of 31 days elapsed: $10 so far projects to $20.67
+    await expect(getOverageStatus('user-1')).resolves.toMatchObject({
+      enabled: true,
+      available: true,
+      rate: 0.08,
+      pagesThisMonth: 125,
+      spendThisMonth: 10,
+      projectedSpend: 20.67,
+      planPrice: 89,
+      projectedBill: 109.67
+    });
+  });
+
+  it('caps the projection at the monthly cap', async () => {
+    rowResults.users = { data: { ...user, overage_spend: '80.00' }, error: null };
+
+    await expect(getOverageStatus('user-1')).resolves.toMatchObject({ projectedSpend: 100, projectedBill: 189 });
+  });
+
+  it('does not project spend on the first day of the month', async () => {
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    rowResults.users = { data: { ...user, overage_spend: '4.00' }, error: null };
+
+    await expect(getOverageStatus('user-1')).resolves.toMatchObject({ projectedSpend: 4 });
+  });
+
+  it('reports overage as off and unavailable on an annual plan', async () => {
+    rowResults.users = { data: { ...user, subscription_type: 'professional_annual' }, error: null };
+
+    await expect(getOverageStatus('user-1')).resolves.toMatchObject({
+      enabled: false,
+      available: false,
+      unavailableReason: 'Overage is available on monthly plans only - annual plans can add credit packs',
+      rate: null,
+      projectedSpend: 10,
+      projectedBill: null
+    });
+  });
+});
+
+describe('reportOverageUsage', () => {
+  it('reports the overage pages to the meter once, keyed by the reservation', async () => {
+    rowResults.credit_reservations = { data: reservation, error: null };
+    stripeRequest.mockResolvedValue({});
+
+    await expect(reportOverageUsage('res-1')).resolves.toBe(true);
+
+    expect(stripeRequest).toHaveBeenCalledWith('POST', '/v1/billing/meter_events', {
+      event_name: 'overage_pages',
+      identifier: 'overage-res-1',
+      timestamp: Math.floor(Date.parse(reservation.settled_at) / 1000),
+      payload: { stripe_customer_id: 'cus_1', value: '40' }
+    });
+    expect(updates('credit_reservations')).toEqual([
+      { overage_reported_at: '2026-01-16T00:00:00.000Z', overage_report_error: null }
+    ]);
+  });
+
+  it('has nothing to report for reported, refunded or credit-only reservations', async () => {
+    for (const settled of [
+      { ...reservation, overage_reported_at: '2026-01-16T00:00:00.000Z' },
+      { ...reservation, status: 'released' },
+      { ...reservation, overage_pages: 0 }
+    ]) {
+      rowResults.credit_reservations = { data: settled, error: null };
+      await expect(reportOverageUsage('res-1')).resolves.toBe(true);
+    }
+
+    expect(stripeRequest).not.toHaveBeenCalled();
+  });
+
+  it('records a failed report for the retry cron instead of throwing', async () => {
+    rowResults.credit_reservations = { data: { ...reservation, overage_report_attempts: 2 }, error: null };
+    stripeRequest.mockRejectedValue(new Error('Stripe unavailable'));
+
+    await expect(reportOverageUsage('res-1')).resolves.toBe(false);
+
+    expect(updates('credit_reservations')).toEqual([
+      { overage_report_attempts: 3, overage_report_error: 'Stripe unavailable' }
+    ]);
+  });
+
+  it('fails the report when the user has no Stripe customer', async () => {
+    rowResults.credit_reservations = { data: reservation, error: null };
+    rowResults.users = { data: { stripe_customer_id: null }, error: null };
+
+    await expect(reportOverageUsage('res-1')).resolves.toBe(false);
+    expect(stripeRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('reportPendingOverageUsage', () => {
+  it('reports each unreported reservation and counts the failures', async () => {
+    listResults.credit_reservations = { data: [{ id: 'res-1' }, { id: 'res-2' }], error: null };
+    rowResults.credit_reservations = { data: reservation, error: null };
+    stripeRequest.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error('Stripe unavailable'));
+
+    await expect(reportPendingOverageUsage()).resolves.toEqual({ reported: 1, failed: 1 });
+    expect(stripeRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws when the pending reservations cannot be read', async () => {
+    listResults.credit_reservations = { data: null, error: new Error('connection lost') };
+
+    await expect(reportPendingOverageUsage()).rejects.toThrow('connection lost');
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Overage Billing
+ *
+ * Subscribers who opt in keep processing after their credits run out. The extra pages are
+ * reserved as overage by reserve_effective_credits (migration 033) at the plan's extraPagePrice,
+ * as long as the month's overage stays under the user's cap. Once the extraction commits, the
+ * pages are reported to the Stripe Billing Meter and billed on the next invoice through the
+ * plan's metered overage price. Group members draw from the group pool and have no overage.
+ *
+ * Overage is for monthly plans only: Stripe bills metered usage at the subscription's interval,
+ * so on an annual plan the month's overage would only be invoiced at the yearly renewal.
+ */
+
+import { supabaseAdmin as supabase } from './supabase';
+import { isStripeApiConfigured, stripeRequest } from './stripe';
+import { OVERAGE_BILLING, STRIPE_PRICE_IDS, SUBSCRIPTION_PRICING } from './stripe-config';
+import { BillingError } from './billing';
+
+// Report cron gives up on a reservation after this many attempts
+export const MAX_OVERAGE_REPORT_ATTEMPTS = 10;
+
+const OVERAGE_USER_COLUMNS = 'id, group_id, subscription_type, subscription_status, stripe_customer_id, stripe_subscription_id, overage_enabled, overage_monthly_cap, overage_month, overage_pages, overage_spend';
+
+interface OverageUser {
+  id: string;
+  group_id: string | null;
+  subscription_type: string;
+  subscription_status: string;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  overage_enabled: boolean;
+  overage_monthly_cap: number | string;
+  overage_month: string | null;
+  overage_pages: number;
+  overage_spend: number | string;
+}
+
+export interface OverageStatus {
+  enabled: boolean;
+  // Whether overage can be turned on, and why not
+  available: boolean;
+  unavailableReason: string | null;
+  rate: number | null;
+  monthlyCap: number;
+  maxMonthlyCap: number;
+  pagesThisMonth: number;
+  spendThisMonth: number;
+  // This month's overage extrapolated to the end of the month, at most the cap
+  projectedSpend: number;
+  // Monthly plan price - null without a plan that has overage
+  planPrice: number | null;
+  projectedBill: number | null;
+}
+
+export interface OverageCheck {
+  allowed: boolean;
+  pages: number;
+  cost: number;
+  remainingCap: number;
+}
+
+/**
+ * Monthly plan of a subscription_type that has an overage rate
+ *
+ * @example
+ * getOveragePlan('professional_monthly') // { plan: 'professional', rate: 0.08 }
+ * getOveragePlan('professional_annual')  // null
+ */
+function getOveragePlan(subscriptionType: string): { plan: string; rate: number } | null {
+  const match = /^(\w+?)_monthly$/.exec(subscriptionType);
+  const pricing = match ? SUBSCRIPTION_PRICING[match[1] as keyof typeof SUBSCRIPTION_PRICING] : undefined;
+
+  if (!match || !pricing?.extraPagePrice) {
+    return null;
+  }
+
+  return { plan: match[1], rate: pricing.extraPagePrice };
+}
+
+function getOveragePriceId(subscriptionType: string): string {
+  return STRIPE_PRICE_IDS[`overage_${subscriptionType}` as keyof typeof STRIPE_PRICE_IDS] || '';
+}
+
+/**
+ * Why the user cannot use overage, null when they can
+ */
+function getUnavailableReason(user: OverageUser): string | null {
+  if (!isStripeApiConfigured()) {
+    return 'Online payments are not available yet';
+  }
+  if (user.group_id) {
+    return 'Group members use the group credit pool';
+  }
+  if (user.subscription_type.endsWith('_annual')) {
+    return 'Overage is available on monthly plans only - annual plans can add credit packs';
+  }
+  if (!getOveragePlan(user.subscription_type)) {
+    return 'Overage is available on the Entrepreneur, Professional and Business plans';
+  }
+  if (user.subscription_status !== 'active' || !user.stripe_customer_id || !user.stripe_subscription_id) {
+    return 'Overage needs an active subscription paid through online billing';
+  }
+  if (!getOveragePriceId(user.subscription_type)) {
+    return 'Overage is not available for your plan yet';
+  }
+  return null;
+}
+
+/**
+ * This month's overage totals - totals of a previous month no longer count
+ */
+function getMonthTotals(user: OverageUser): { pages: number; spend: number } {
+  const month = new Date().toISOString().slice(0, 7);
+  if (!user.overage_month || user.overage_month.slice(0, 7) !== month) {
+    return { pages: 0, spend: 0 };
+  }
+  return { pages: user.overage_pages, spend: Number(user.overage_spend) };
+}
+
+async function getOverageUser(userId: string): Promise<OverageUser> {
+  const { data, error } = await supabase
+    .from('users')
+    .select(OVERAGE_USER_COLUMNS)
+    .eq('id', userId)
+    .single();
+
+  if (error || !data) {
+    throw new BillingError('User not found', 404);
+  }
+
+  return data as OverageUser;
+}
+
+/**
+ * Per-page overage rate to reserve with, null when the user has overage off or cannot use it
+ * A null rate keeps the credit balance a hard limit
+ */
+export async function getOverageRate(userId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select(OVERAGE_USER_COLUMNS)
+    .eq('id', userId)
+    .single();
+
+  if (error || !data) {
+    console.error('[Overage] Failed to read overage settings:', error);
+    return null;
+  }
+
+  const user = data as OverageUser;
+  if (!user.overage_enabled || getUnavailableReason(user)) {
+    return null;
+  }
+
+  return getOveragePlan(user.subscription_type)?.rate ?? null;
+}
+
+/**
+ * Whether the pages the balance cannot cover fit under the user's overage cap this month
+ * Null when the user has overage off or cannot use it
+ *
+ * @example
+ * await checkOverage(userId, 40); // { allowed: true, pages: 40, cost: 3.2, remainingCap: 96.8 } at $0.08/page
+ */
+export async function checkOverage(userId: string, pages: number): Promise<OverageCheck | null> {
+  const user = await getOverageUser(userId);
+  const plan = getOveragePlan(user.subscription_type);
+
+  if (!user.overage_enabled || !plan || getUnavailableReason(user)) {
+    return null;
+  }
+
+  const remainingCap = Math.max(0, Number(user.overage_monthly_cap) - getMonthTotals(user).spend);
+  const cost = Math.round(pages * plan.rate * 100) / 100;
+
+  return { allowed: cost <= remainingCap, pages, cost, remainingCap };
+}
+
+/**
+ * Overage settings, this month's overage and the projected bill for the usage page
+ */
+export async function getOverageStatus(userId: string): Promise<OverageStatus> {
+  const user = await getOverageUser(userId);
+  const plan = getOveragePlan(user.subscription_type);
+  const unavailableReason = getUnavailableReason(user);
+  const monthlyCap = Number(user.overage_monthly_cap);
+  const { pages, spend } = getMonthTotals(user);
+
+  // Extrapolate from the days elapsed this month (UTC)
+  const now = new Date();
+  const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+  const elapsed = (now.getUTCDate() - 1 + now.getUTCHours() / 24) / daysInMonth;
+  const projectedSpend = Math.round(Math.min(monthlyCap, Math.max(spend, elapsed > 0 ? spend / elapsed : spend)) * 100) / 100;
+
+  const pricing = plan ? SUBSCRIPTION_PRICING[plan.plan as keyof typeof SUBSCRIPTION_PRICING] : null;
+  const planPrice = pricing?.monthly ?? null;
+  // Overage stays off after a switch to a plan without it, even if the setting is on
+  const enabled = user.overage_enabled && !unavailableReason;
+
+  return {
+    enabled,
+    available: !unavailableReason,
+    unavailableReason,
+    rate: plan?.rate ?? null,
+    monthlyCap,
+    maxMonthlyCap: OVERAGE_BILLING.maxMonthlyCap,
+    pagesThisMonth: pages,
+    spendThisMonth: spend,
+    projectedSpend: enabled ? projectedSpend : spend,
+    planPrice,
+    projectedBill: planPrice !== null ? planPrice + (enabled ? projectedSpend : spend) : null,
+  };
+}
+
+/**
+ * Make sure the subscription carries the plan's metered overage price, so reported pages are billed
+ */
+async function ensureOverageSubscriptionItem(user: OverageUser): Promise<void> {
+  const priceId = getOveragePriceId(user.subscription_type);
+  const subscription = await stripeRequest<{ id: string; items: { data: { price: { id: string } }[] } }>(
+    'GET',
+    `/v1/subscriptions/${user.stripe_subscription_id}`
+  );
+
+  if (subscription.items.data.some(item => item.price.id === priceId)) {
+    return;
+  }
+
+  // Metered prices take no quantity
+  await stripeRequest('POST', '/v1/subscription_items', {
+    subscription: subscription.id,
+    price: priceId,
+  }, `overage-item-${subscription.id}-${priceId}`);
+
+  console.log(`[Overage] Added overage price ${priceId} to subscription ${subscription.id} of user ${user.id}`);
+}
+
+/**
+ * Turn overage on or off and set the monthly cap
+ * Lowering the cap below this month's spend stops further overage until next month
+ *
+ * @throws BillingError (409) when turning overage on for a user who cannot use it
+ * @throws StripeApiError when the overage price cannot be added to the subscription
+ */
+export async function updateOverageSettings(
+  userId: string,
+  settings: { enabled: boolean; monthlyCap?: number }
+): Promise<OverageStatus> {
+  const user = await getOverageUser(userId);
+
+  if (settings.enabled) {
+    const reason = getUnavailableReason(user);
+    if (reason) {
+      throw new BillingError(reason, 409);
+    }
+    await ensureOverageSubscriptionItem(user);
+  }
+
+  const { error } = await supabase
+    .from('users')
+    .update({
+      overage_enabled: settings.enabled,
+      ...(settings.monthlyCap !== undefined && { overage_monthly_cap: settings.monthlyCap }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  console.log(`[Overage] User ${userId} turned overage ${settings.enabled ? 'on' : 'off'}${settings.monthlyCap !== undefined ? ` (cap $${settings.monthlyCap})` : ''}`);
+  return getOverageStatus(userId);
+}
+
+/**
+ * Report a committed reservation's overage pages to the Stripe meter, once
+ * The reservation id is the meter event identifier, so Stripe drops a repeated report.
+ * Never throws - unreported overage is retried by the report-overage-usage cron.
+ *
+ * @returns True when there is nothing (left) to report
+ */
+export async function reportOverageUsage(reservationId: string): Promise<boolean> {
+  const { data: reservation, error } = await supabase
+    .from('credit_reservations')
+    .select('id, user_id, status, overage_pages, overage_reported_at, overage_report_attempts, settled_at')
+    .eq('id', reservationId)
+    .single();
+
+  if (error || !reservation) {
+    console.error(`[Overage] Failed to read reservation ${reservationId}:`, error);
+    return false;
+  }
+
+  if (reservation.status !== 'committed' || reservation.overage_pages <= 0 || reservation.overage_reported_at) {
+    return true;
+  }
+
+  try {
+    const { data: user } = await supabase
+      .from('users')
+      .select('stripe_customer_id')
+      .eq('id', reservation.user_id)
+      .single();
+
+    if (!user?.stripe_customer_id) {
+      throw new Error(`User ${reservation.user_id} has no Stripe customer`);
+    }
+
+    await stripeRequest('POST', '/v1/billing/meter_events', {
+      event_name: OVERAGE_BILLING.meterEventName,
+      identifier: `overage-${reservation.id}`,
+      timestamp: Math.floor(new Date(reservation.settled_at).getTime() / 1000),
+      payload: {
+        stripe_customer_id: user.stripe_customer_id,
+        value: String(reservation.overage_pages),
+      },
+    });
+
+    await supabase
+      .from('credit_reservations')
+      .update({ overage_reported_at: new Date().toISOString(), overage_report_error: null })
+      .eq('id', reservation.id);
+
+    console.log(`[Overage] Reported ${reservation.overage_pages} overage pages of reservation ${reservation.id}`);
+    return true;
+  } catch (reportError) {
+    const message = reportError instanceof Error ? reportError.message : String(reportError);
+    console.error(`[Overage] Failed to report reservation ${reservation.id}:`, reportError);
+
+    await supabase
+      .from('credit_reservations')
+      .update({
+        overage_report_attempts: reservation.overage_report_attempts + 1,
+        overage_report_error: message,
+      })
+      .eq('id', reservation.id);
+
+    return false;
+  }
+}
+
+/**
+ * Report committed overage that was not reported yet, oldest first
+ * For the report-overage-usage cron
+ */
+export async function reportPendingOverageUsage(limit: number = 50): Promise<{
+  reported: number;
+  failed: number;
+}> {
+  const { data, error } = await supabase
+    .from('credit_reservations')
+    .select('id')
+    .eq('status', 'committed')
+    .gt('overage_pages', 0)
+    .is('overage_reported_at', null)
+    .lt('overage_report_attempts', MAX_OVERAGE_REPORT_ATTEMPTS)
+    .order('settled_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  let reported = 0;
+  let failed = 0;
+
+  for (const row of data || []) {
+    if (await reportOverageUsage(row.id)) {
+      reported++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { reported, failed };
+}
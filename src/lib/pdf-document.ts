@@ -0,0 +1,260 @@
+/**
+ * PDF Document
+ *
+ * Minimal PDF 1.4 writer for generated reports: US Letter pages, text in the standard
+ * Helvetica / Helvetica-Bold fonts (no embedding needed), filled/stroked rectangles and
+ * lines. Coordinates are in points measured from the TOP-left corner of the page, which
+ * suits top-down report layout; they are flipped to PDF's bottom-left origin on output.
+ */
+
+import { deflateSync } from 'zlib';
+
+export const PDF_PAGE_WIDTH = 612;  // 8.5in
+export const PDF_PAGE_HEIGHT = 792; // 11in
+
+export interface PdfTextOptions {
+  size?: number;                        // Default 10pt
+  bold?: boolean;
+  color?: string;                       // #RRGGBB, default black
+  align?: 'left' | 'center' | 'right';  // Relative to x
+}
+
+export interface PdfShapeOptions {
+  fill?: string;        // #RRGGBB
+  stroke?: string;      // #RRGGBB
+  lineWidth?: number;   // Default 0.5pt
+}
+
+// Advance widths (1/1000 em) of the printable ASCII characters 32-126 - from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+const DEFAULT_GLYPH_WIDTH = 556;
+
+// Unicode punctuation that WinAnsiEncoding has a code for outside Latin-1
+const WIN_ANSI_CODES: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+/**
+ * Encode text as WinAnsi bytes (as a latin1 string) - characters the standard fonts cannot show become "?"
+ */
+function toWinAnsi(text: string): string {
+  return Array.from(text.replace(/[\r\n\t]+/g, ' '))
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return char;
+      return WIN_ANSI_CODES[char] !== undefined ? String.fromCharCode(WIN_ANSI_CODES[char]) : '?';
+    })
+    .join('');
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function toRgb(hex: string): string {
+  const value = hex.replace('#', '');
+  return [0, 2, 4]
+    .map(offset => (parseInt(value.substring(offset, offset + 2), 16) / 255).toFixed(3))
+    .join(' ');
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function toPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private current = -1;
+
+  constructor(private title: string) {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  get pageIndex(): number {
+    return this.current;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /**
+   * Switch to an existing page - used to draw footers once the page count is known
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) throw new Error(`Page ${index} does not exist`);
+    this.current = index;
+  }
+
+  /**
+   * Width of a line of text in points
+   */
+  measureText(text: string, size: number = 10, bold: boolean = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const units = Array.from(toWinAnsi(text)).reduce((total, char) => {
+      const code = char.charCodeAt(0);
+      return total + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH);
+    }, 0);
+    return (units * size) / 1000;
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth (words longer than a line are cut)
+   */
+  wrapText(text: string, maxWidth: number, size: number = 10, bold: boolean = false): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (this.measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (this.measureText(line, size, bold) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && this.measureText(line.substring(0, cut), size, bold) > maxWidth) cut--;
+        lines.push(line.substring(0, cut));
+        line = line.substring(cut);
+      }
+    });
+
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  /**
+   * Shorten text with an ellipsis so it fits maxWidth
+   */
+  truncateText(text: string, maxWidth: number, size: number = 10, bold: boolean = false): string {
+    if (this.measureText(text, size, bold) <= maxWidth) return text;
+    let end = text.length;
+    while (end > 0 && this.measureText(`${text.substring(0, end)}...`, size, bold) > maxWidth) end--;
+    return end > 0 ? `${text.substring(0, end)}...` : '';
+  }
+
+  /**
+   * Draw one line of text with its baseline at y
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const { size = 10, bold = false, color = '#000000', align = 'left' } = options;
+    const width = this.measureText(text, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+
+    this.pages[this.current].push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${toRgb(color)} rg ` +
+      `${formatNumber(left)} ${formatNumber(PDF_PAGE_HEIGHT - y)} Td (${escapePdfString(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}): void {
+    const { fill, stroke, lineWidth = 0.5 } = options;
+    if (!fill && !stroke) return;
+
+    const operators = [
+      fill ? `${toRgb(fill)} rg` : '',
+      stroke ? `${toRgb(stroke)} RG ${lineWidth} w` : '',
+      `${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`,
+      fill && stroke ? 'B' : fill ? 'f' : 'S'
+    ];
+    this.pages[this.current].push(operators.filter(Boolean).join(' '));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions = {}): void {
+    const { stroke = '#000000', lineWidth = 0.5 } = options;
+    this.pages[this.current].push(
+      `${toRgb(stroke)} RG ${lineWidth} w ${formatNumber(x1)} ${formatNumber(PDF_PAGE_HEIGHT - y1)} m ` +
+      `${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBuffer(): Buffer {
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page + content stream per page
+    const firstPage = 6;
+    const pageIds = this.pages.map((_, index) => firstPage + index * 2);
+    const objects: Buffer[] = [];
+    const add = (body: string | Buffer) => {
+      objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    };
+
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    add(`<< /Title (${escapePdfString(toWinAnsi(this.title))}) /Producer (RExeli V1) /CreationDate (${toPdfDate(new Date())}) >>`);
+
+    this.pages.forEach((operators, index) => {
+      const contentId = pageIds[index] + 1;
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+      const stream = deflateSync(Buffer.from(operators.join('\n'), 'latin1'));
+      add(Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        stream,
+        Buffer.from('\nendstream', 'latin1')
+      ]));
+    });
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+    const offsets: number[] = [];
+    let length = chunks[0].length;
+
+    objects.forEach((body, index) => {
+      const object = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        body,
+        Buffer.from('\nendobj\n', 'latin1')
+      ]);
+      offsets.push(length);
+      chunks.push(object);
+      length += object.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+      'startxref',
+      String(length),
+      '%%EOF'
+    ].join('\n');
+    chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,533 @@
+/**
+ * PDF Extraction Summary
+ *
+ * One-page-and-up branded summary of an extraction for investment committee packets:
+ * property overview, the headline metrics shown per document type on the results page,
+ * the tenant table (or the document's main table), the lease expiration profile and
+ * validation warnings, with the extraction metadata in every page footer.
+ * Document packages repeat the metrics and table for each detected document.
+ */
+
+import { getLeaseExpirationSeries, type ChartSeries } from './export-charts';
+import { buildExportTables, camelCaseToTitleCase, type ExportTable } from './export-tables';
+import { getLowConfidenceFields } from './confidence';
+import { parseNumericValue, reconcileExtractedData } from './reconciliation';
+import { getRentRollTenants } from './rent-roll-analytics';
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfDocument } from './pdf-document';
+import type { DocumentPackageData, DocumentType, ExtractedData } from './types';
+
+type MetricFormat = 'currency' | 'currency_detail' | 'percent' | 'number' | 'text' | 'months' | 'currency_range';
+
+interface MetricSpec {
+  label: string;
+  paths: string[];  // First path with a value wins - extraction layouts vary between documents
+  format: MetricFormat;
+}
+
+interface SummaryMetric {
+  label: string;
+  value: string;
+}
+
+interface ReportColumn {
+  header: string;
+  path: string;
+  format: MetricFormat;
+  width: number; // Share of the table width
+}
+
+// Headline metrics per document type - the summary cards at the top of each results page view
+const KEY_METRICS: Partial<Record<DocumentType, MetricSpec[]>> = {
+  rent_roll: [
+    { label: 'Total Monthly Rent', paths: ['summary.totalRent'], format: 'currency' },
+    { label: 'Occupancy Rate', paths: ['summary.occupancyRate'], format: 'percent' },
+    { label: 'Total Sq Ft', paths: ['summary.totalSquareFeet'], format: 'number' },
+    { label: 'Avg Rent PSF', paths: ['summary.averageRentPsf'], format: 'currency_detail' }
+  ],
+  operating_budget: [
+    { label: 'Total Income', paths: ['income.totalIncome'], format: 'currency' },
+    { label: 'Operating Expenses', paths: ['expenses.totalOperatingExpenses'], format: 'currency' },
+    { label: 'NOI', paths: ['noi'], format: 'currency' },
+    { label: 'Period', paths: ['period'], format: 'text' }
+  ],
+  broker_sales_comparables: [
+    { label: 'Avg Price/SF', paths: ['summary.averagePricePerSF', 'marketAnalysis.pricingAnalysis.averagePricePerSF'], format: 'currency' },
+    { label: 'Avg Cap Rate', paths: ['summary.averageCapRate', 'marketAnalysis.capRateAnalysis.averageCapRate'], format: 'percent' },
+    { label: 'Price Range', paths: ['summary.priceRange', 'marketAnalysis.pricingAnalysis.pricePerSFRange'], format: 'currency_range' }
+  ],
+  broker_lease_comparables: [
+    { label: 'Avg Base Rent/SF', paths: ['summary.averageBaseRent'], format: 'currency_detail' },
+    { label: 'Avg Effective Rent/SF', paths: ['summary.averageEffectiveRent'], format: 'currency_detail' },
+    { label: 'Rent Range/SF', paths: ['summary.rentRange'], format: 'currency_range' }
+  ],
+  broker_listing: [
+    { label: 'Listing Price', paths: ['listingDetails.listingPrice'], format: 'currency' },
+    { label: 'Asking Rent/SF', paths: ['listingDetails.askingRent'], format: 'currency_detail' }
+  ],
+  offering_memo: [
+    { label: 'Asking Price', paths: ['pricing.askingPrice'], format: 'currency' },
+    { label: 'Cap Rate', paths: ['pricing.capRate'], format: 'percent' },
+    { label: 'NOI', paths: ['operatingStatement.noi'], format: 'currency' },
+    { label: 'Occupancy', paths: ['rentRollSummary.occupancyRate'], format: 'percent' }
+  ],
+  lease_agreement: [
+    { label: 'Monthly Base Rent', paths: ['rentSchedule.baseRent'], format: 'currency' },
+    { label: 'Rent Per SF', paths: ['rentSchedule.rentPerSqFt'], format: 'currency_detail' },
+    { label: 'Square Feet', paths: ['premises.squareFeet'], format: 'number' },
+    { label: 'Lease Term', paths: ['leaseTerm.termMonths'], format: 'months' }
+  ],
+  financial_statements: [
+    { label: 'Total Income', paths: ['operatingIncome.totalIncome'], format: 'currency' },
+    { label: 'Total Expenses', paths: ['operatingExpenses.totalExpenses'], format: 'currency' },
+    { label: 'NOI', paths: ['noi'], format: 'currency' },
+    { label: 'Cash Flow', paths: ['cashFlow'], format: 'currency' }
+  ],
+  document_package: [
+    { label: 'Documents', paths: ['segments.length'], format: 'number' },
+    { label: 'Pages', paths: ['totalPages'], format: 'number' }
+  ]
+};
+
+const TENANT_COLUMNS: ReportColumn[] = [
+  { header: 'Suite', path: 'suiteUnit', format: 'text', width: 0.1 },
+  { header: 'Tenant', path: 'tenantName', format: 'text', width: 0.3 },
+  { header: 'Sq Ft', path: 'squareFootage', format: 'number', width: 0.12 },
+  { header: 'Monthly Rent', path: 'baseRent', format: 'currency', width: 0.16 },
+  { header: 'Lease Type', path: 'leaseType', format: 'text', width: 0.14 },
+  { header: 'Lease End', path: 'leaseEnd', format: 'text', width: 0.18 }
+];
+
+// Other document types show their main detail table, limited to the first columns
+const MAX_TABLE_COLUMNS = 6;
+const MAX_TABLE_ROWS = 200;
+
+const COLORS = {
+  brand: '#047857',      // Emerald 700
+  brandLight: '#ECFDF5', // Emerald 50
+  bar: '#059669',        // Emerald 600 - same as the Excel chart bars
+  text: '#111827',
+  muted: '#6B7280',
+  border: '#D1D5DB',
+  stripe: '#F9FAFB',
+  warning: '#B45309',
+  warningLight: '#FFFBEB',
+  white: '#FFFFFF'
+};
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 44;
+const CONTENT_BOTTOM = PDF_PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+
+function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+function formatValue(value: unknown, format: MetricFormat): string | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  if (format === 'currency_range') {
+    const min = parseNumericValue(getPath(value, 'min'));
+    const max = parseNumericValue(getPath(value, 'max'));
+    if (min === null || max === null || (min === 0 && max === 0)) return null;
+    return `${formatValue(min, 'currency')} - ${formatValue(max, 'currency')}`;
+  }
+
+  if (format === 'text') return String(value);
+
+  const number = parseNumericValue(value);
+  if (number === null) return String(value);
+
+  switch (format) {
+    case 'currency':
+      return `${number < 0 ? '-' : ''}$${Math.round(Math.abs(number)).toLocaleString('en-US')}`;
+    case 'currency_detail':
+      return `${number < 0 ? '-' : ''}$${Math.abs(number).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'percent':
+      // Rates are extracted as decimals (0.925); treat anything above 1 as already a percentage
+      return `${(Math.abs(number) <= 1 ? number * 100 : number).toFixed(1)}%`;
+    case 'months':
+      return `${number} mo`;
+    default:
+      // Keep small rates (0.055) readable rather than rounding them to 0.06
+      return number.toLocaleString('en-US', { maximumFractionDigits: Math.abs(number) < 1 ? 4 : 2 });
+  }
+}
+
+function getDocumentTypeLabel(type: string): string {
+  return type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Headline metrics for a document, skipping any the extraction did not find
+ */
+function getKeyMetrics(extractedData: ExtractedData): SummaryMetric[] {
+  return (KEY_METRICS[extractedData.documentType] || [])
+    .map(spec => {
+      const value = spec.paths.map(path => formatValue(getPath(extractedData.data, path), spec.format)).find(Boolean);
+      return value ? { label: spec.label, value } : null;
+    })
+    .filter((metric): metric is SummaryMetric => metric !== null);
+}
+
+/**
+ * Main detail table of a non rent roll document - the largest table other than summary/metadata
+ */
+function getPrimaryTable(extractedData: ExtractedData): ExportTable | null {
+  return buildExportTables(extractedData)
+    .filter(table => table.name !== 'metadata' && table.name !== 'summary' && table.rows.length > 1)
+    .sort((a, b) => b.rows.length - a.rows.length)[0] || null;
+}
+
+/**
+ * Top-down page layout: tracks the cursor and starts a new page when a block does not fit
+ */
+class ReportLayout {
+  y = MARGIN;
+
+  constructor(readonly pdf: PdfDocument) {}
+
+  ensureSpace(height: number): void {
+    if (this.y + height <= CONTENT_BOTTOM) return;
+    this.pdf.addPage();
+    this.y = MARGIN;
+  }
+
+  sectionHeading(title: string): void {
+    this.ensureSpace(48);
+    this.y += 14;
+    this.pdf.text(title, MARGIN, this.y + 12, { size: 13, bold: true, color: COLORS.brand });
+    this.y += 18;
+    this.pdf.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, { stroke: COLORS.brand, lineWidth: 1 });
+    this.y += 8;
+  }
+
+  paragraph(text: string, options: { size?: number; color?: string } = {}): void {
+    const size = options.size ?? 9;
+    this.pdf.wrapText(text, CONTENT_WIDTH, size).forEach(line => {
+      this.ensureSpace(size + 4);
+      this.pdf.text(line, MARGIN, this.y + size, { size, color: options.color ?? COLORS.text });
+      this.y += size + 4;
+    });
+  }
+
+  /**
+   * Label/value pairs in two columns
+   */
+  keyValues(pairs: [string, string][]): void {
+    const columnWidth = CONTENT_WIDTH / 2;
+    for (let index = 0; index < pairs.length; index += 2) {
+      this.ensureSpace(16);
+      pairs.slice(index, index + 2).forEach(([label, value], column) => {
+        const x = MARGIN + column * columnWidth;
+        this.pdf.text(label, x, this.y + 10, { size: 9, bold: true, color: COLORS.muted });
+        this.pdf.text(this.pdf.truncateText(value, columnWidth - 110, 9), x + 100, this.y + 10, { size: 9, color: COLORS.text });
+      });
+      this.y += 16;
+    }
+  }
+
+  /**
+   * Metric tiles, four per row
+   */
+  metrics(metrics: SummaryMetric[]): void {
+    const gap = 8;
+    const tileWidth = (CONTENT_WIDTH - gap * 3) / 4;
+    const tileHeight = 44;
+
+    for (let index = 0; index < metrics.length; index += 4) {
+      this.ensureSpace(tileHeight + gap);
+      metrics.slice(index, index + 4).forEach((metric, column) => {
+        const x = MARGIN + column * (tileWidth + gap);
+        this.pdf.rect(x, this.y, tileWidth, tileHeight, { fill: COLORS.brandLight, stroke: COLORS.border });
+        this.pdf.text(this.pdf.truncateText(metric.value, tileWidth - 12, 13, true), x + tileWidth / 2, this.y + 20, {
+          size: 13, bold: true, color: COLORS.brand, align: 'center'
+        });
+        this.pdf.text(metric.label, x + tileWidth / 2, this.y + 35, { size: 8, color: COLORS.muted, align: 'center' });
+      });
+      this.y += tileHeight + gap;
+    }
+  }
+
+  /**
+   * Table with a header row repeated on every page it spans
+   */
+  table(columns: ReportColumn[], rows: string[][]): void {
+    const rowHeight = 16;
+    const widths = columns.map(column => column.width * CONTENT_WIDTH);
+    const isNumeric = columns.map(column => column.format !== 'text');
+
+    const drawHeader = () => {
+      this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, rowHeight, { fill: COLORS.bar });
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        const label = this.pdf.truncateText(column.header, widths[index] - 8, 8, true);
+        this.pdf.text(label, isNumeric[index] ? x + widths[index] - 4 : x + 4, this.y + 11, {
+          size: 8, bold: true, color: COLORS.white, align: isNumeric[index] ? 'right' : 'left'
+        });
+        x += widths[index];
+      });
+      this.y += rowHeight;
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+
+    rows.forEach((row, rowIndex) => {
+      if (this.y + rowHeight > CONTENT_BOTTOM) {
+        this.pdf.addPage();
+        this.y = MARGIN;
+        drawHeader();
+      }
+      if (rowIndex % 2 === 1) {
+        this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, rowHeight, { fill: COLORS.stripe });
+      }
+      let x = MARGIN;
+      row.forEach((cell, index) => {
+        const text = this.pdf.truncateText(cell, widths[index] - 8, 8);
+        this.pdf.text(text, isNumeric[index] ? x + widths[index] - 4 : x + 4, this.y + 11, {
+          size: 8, color: COLORS.text, align: isNumeric[index] ? 'right' : 'left'
+        });
+        x += widths[index];
+      });
+      this.y += rowHeight;
+      this.pdf.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, { stroke: COLORS.border, lineWidth: 0.25 });
+    });
+  }
+
+  /**
+   * Horizontal bar chart, drawn as vectors so it stays sharp when printed
+   */
+  barChart(series: ChartSeries, caption: string): void {
+    const barHeight = 14;
+    const gap = 5;
+    const labelWidth = 120;
+    const valueWidth = 80;
+    const barAreaWidth = CONTENT_WIDTH - labelWidth - valueWidth;
+    const maxValue = Math.max(...series.points.map(point => point.value), 1);
+
+    this.ensureSpace(Math.min(series.points.length, 4) * (barHeight + gap));
+    series.points.forEach(point => {
+      this.ensureSpace(barHeight + gap);
+      const barWidth = Math.max((point.value / maxValue) * barAreaWidth, 1);
+      this.pdf.text(this.pdf.truncateText(point.label, labelWidth - 10, 9), MARGIN + labelWidth - 8, this.y + 10, {
+        size: 9, color: COLORS.text, align: 'right'
+      });
+      this.pdf.rect(MARGIN + labelWidth, this.y, barWidth, barHeight, { fill: COLORS.bar });
+      this.pdf.text(formatValue(point.value, 'currency') || '', MARGIN + labelWidth + barWidth + 6, this.y + 10, {
+        size: 9, color: COLORS.text
+      });
+      this.y += barHeight + gap;
+    });
+    this.paragraph(caption, { size: 8, color: COLORS.muted });
+  }
+
+  warning(text: string): void {
+    const lines = this.pdf.wrapText(text, CONTENT_WIDTH - 20, 9);
+    const height = lines.length * 12 + 8;
+    this.ensureSpace(height + 4);
+    this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, height, { fill: COLORS.warningLight });
+    this.pdf.rect(MARGIN, this.y, 3, height, { fill: COLORS.warning });
+    lines.forEach((line, index) => {
+      this.pdf.text(line, MARGIN + 12, this.y + 14 + index * 12, { size: 9, color: COLORS.warning });
+    });
+    this.y += height + 4;
+  }
+}
+
+function drawBanner(layout: ReportLayout, extractedData: ExtractedData): void {
+  const { pdf } = layout;
+  const metadata = extractedData.metadata || {};
+
+  pdf.rect(0, 0, PDF_PAGE_WIDTH, 72, { fill: COLORS.brand });
+  pdf.text('RExeli', MARGIN, 34, { size: 22, bold: true, color: COLORS.white });
+  pdf.text('Extraction Summary', MARGIN, 54, { size: 11, color: COLORS.white });
+  pdf.text(getDocumentTypeLabel(extractedData.documentType), PDF_PAGE_WIDTH - MARGIN, 34, {
+    size: 12, bold: true, color: COLORS.white, align: 'right'
+  });
+  pdf.text(new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }), PDF_PAGE_WIDTH - MARGIN, 54, {
+    size: 9, color: COLORS.white, align: 'right'
+  });
+
+  layout.y = 100;
+  pdf.wrapText(metadata.propertyName || 'Unknown Property', CONTENT_WIDTH, 18, true).forEach(line => {
+    pdf.text(line, MARGIN, layout.y + 16, { size: 18, bold: true, color: COLORS.text });
+    layout.y += 22;
+  });
+  if (metadata.propertyAddress) {
+    pdf.text(pdf.truncateText(metadata.propertyAddress, CONTENT_WIDTH, 10), MARGIN, layout.y + 10, { size: 10, color: COLORS.muted });
+    layout.y += 16;
+  }
+}
+
+function drawPropertyOverview(layout: ReportLayout, extractedData: ExtractedData): void {
+  const metadata = extractedData.metadata || {};
+  const pairs: [string, unknown][] = [
+    ['Document Type', getDocumentTypeLabel(extractedData.documentType)],
+    ['Property', metadata.propertyName],
+    ['Address', metadata.propertyAddress],
+    ['Total Sq Ft', formatValue(metadata.totalSquareFeet, 'number')],
+    ['Total Units', formatValue(metadata.totalUnits, 'number')],
+    ['As Of', metadata.asOfDate],
+    ['Period', metadata.period || metadata.budgetPeriod],
+    ['Statement Type', metadata.statementType],
+    ['Report', metadata.reportTitle || metadata.surveyTitle],
+    ['Report Date', metadata.reportDate || metadata.surveyDate],
+    ['Prepared By', metadata.preparedBy]
+  ];
+
+  layout.sectionHeading('Property Overview');
+  layout.keyValues(
+    pairs
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([label, value]) => [label, String(value)])
+  );
+}
+
+/**
+ * Key metrics and the tenant / main table for one document
+ */
+function drawDocumentSections(layout: ReportLayout, extractedData: ExtractedData, headingPrefix: string = ''): void {
+  const metrics = getKeyMetrics(extractedData);
+  if (metrics.length > 0) {
+    layout.sectionHeading(`${headingPrefix}Key Metrics`);
+    layout.metrics(metrics);
+  }
+
+  if (extractedData.documentType === 'rent_roll') {
+    const tenants = getRentRollTenants(extractedData);
+    if (tenants.length === 0) return;
+
+    layout.sectionHeading(`${headingPrefix}Tenants (${tenants.length})`);
+    layout.table(
+      TENANT_COLUMNS,
+      tenants.slice(0, MAX_TABLE_ROWS).map(tenant =>
+        TENANT_COLUMNS.map(column => formatValue(tenant[column.path], column.format) || '-')
+      )
+    );
+    if (tenants.length > MAX_TABLE_ROWS) {
+      layout.paragraph(`First ${MAX_TABLE_ROWS} of ${tenants.length} tenants - see the Excel export for the full rent roll`, { size: 8, color: COLORS.muted });
+    }
+    return;
+  }
+
+  if (extractedData.documentType === 'document_package') return;
+
+  const table = getPrimaryTable(extractedData);
+  if (!table) return;
+
+  const columns = table.columns.slice(0, MAX_TABLE_COLUMNS);
+  const reportColumns: ReportColumn[] = columns.map(column => ({
+    header: column.header,
+    path: column.path,
+    format: column.type === 'number' ? 'number' : 'text',
+    width: 1 / columns.length
+  }));
+
+  layout.sectionHeading(`${headingPrefix}${camelCaseToTitleCase(table.name.split('.').pop() || table.name)} (${table.rows.length})`);
+  layout.table(
+    reportColumns,
+    table.rows.slice(0, MAX_TABLE_ROWS).map(row =>
+      reportColumns.map((column, index) => formatValue(row[index], column.format) || '-')
+    )
+  );
+}
+
+function drawValidationWarnings(layout: ReportLayout, extractedData: ExtractedData): void {
+  const reconciliation = reconcileExtractedData(extractedData);
+  const lowConfidence = getLowConfidenceFields(extractedData);
+
+  layout.sectionHeading('Validation Warnings');
+  if (reconciliation.discrepancies.length === 0 && lowConfidence.length === 0) {
+    layout.paragraph(
+      reconciliation.checksRun > 0
+        ? `All ${reconciliation.checksRun} cross-checks passed and no fields were flagged as low confidence.`
+        : 'No validation warnings.',
+      { color: COLORS.muted }
+    );
+    return;
+  }
+
+  reconciliation.discrepancies.forEach(discrepancy => {
+    layout.warning(discrepancy.message);
+  });
+  if (lowConfidence.length > 0) {
+    layout.warning(
+      `Low-confidence fields - verify against the source document: ${lowConfidence
+        .map(field => `${field.path} (${Math.round(field.confidence * 100)}%)`)
+        .join(', ')}`
+    );
+  }
+}
+
+/**
+ * Extraction metadata and page numbers at the bottom of every page
+ */
+function drawFooters(pdf: PdfDocument, extractedData: ExtractedData): void {
+  const metadata = extractedData.metadata || {};
+  const top = PDF_PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT + 12;
+  const source = [
+    metadata.pdfFileName ? `Source: ${metadata.pdfFileName}` : null,
+    metadata.documentId ? `Document ID: ${metadata.documentId}` : null
+  ].filter(Boolean).join('  |  ');
+  const extraction = [
+    `Extracted ${metadata.extractionTimestamp || metadata.extractedDate || 'N/A'}`,
+    metadata.rexeliUserName ? `by ${metadata.rexeliUserName}` : null,
+    'RExeli V1'
+  ].filter(Boolean).join(' ');
+
+  for (let index = 0; index < pdf.pageCount; index++) {
+    pdf.setPage(index);
+    pdf.line(MARGIN, top, MARGIN + CONTENT_WIDTH, top, { stroke: COLORS.border });
+    pdf.text(pdf.truncateText(source, CONTENT_WIDTH - 80, 7), MARGIN, top + 14, { size: 7, color: COLORS.muted });
+    pdf.text(pdf.truncateText(extraction, CONTENT_WIDTH - 80, 7), MARGIN, top + 24, { size: 7, color: COLORS.muted });
+    pdf.text(`Page ${index + 1} of ${pdf.pageCount}`, MARGIN + CONTENT_WIDTH, top + 14, {
+      size: 7, color: COLORS.muted, align: 'right'
+    });
+  }
+}
+
+/**
+ * Generate the PDF extraction summary for a document
+ *
+ * @param extractedData - Extraction result, as sent to /api/export
+ * @returns PDF file contents
+ *
+ * @example
+ * const pdf = generateSummaryPdf(extractedData);
+ * // Property overview, key metrics, tenants, lease expiration profile, validation warnings
+ */
+export function generateSummaryPdf(extractedData: ExtractedData): Buffer {
+  const metadata = extractedData.metadata || {};
+  const pdf = new PdfDocument(`Extraction Summary - ${metadata.propertyName || getDocumentTypeLabel(extractedData.documentType)}`);
+  const layout = new ReportLayout(pdf);
+
+  drawBanner(layout, extractedData);
+  drawPropertyOverview(layout, extractedData);
+  drawDocumentSections(layout, extractedData);
+
+  if (extractedData.documentType === 'document_package') {
+    ((extractedData.data as DocumentPackageData).segments || []).forEach((segment, index) => {
+      const pages = segment.startPage === segment.endPage ? `p. ${segment.startPage}` : `pp. ${segment.startPage}-${segment.endPage}`;
+      layout.sectionHeading(`${index + 1}. ${getDocumentTypeLabel(segment.documentType)} (${pages})`);
+      if (segment.title) layout.paragraph(segment.title, { color: COLORS.muted });
+      drawDocumentSections(layout, segment.extractedData, `${index + 1}. `);
+    });
+  }
+
+  const tenants = getRentRollTenants(extractedData);
+  const expirations = tenants.length > 0 ? getLeaseExpirationSeries({ tenants }) : null;
+  if (expirations) {
+    layout.sectionHeading(expirations.title);
+    layout.barChart(expirations, 'Monthly base rent expiring per year, from the rent roll lease end dates');
+  }
+
+  drawValidationWarnings(layout, extractedData);
+  drawFooters(pdf, extractedData);
+
+  console.log(`[Export] PDF summary of ${extractedData.documentType}: ${pdf.pageCount} pages`);
+  return pdf.toBuffer();
+}
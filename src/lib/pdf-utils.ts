@@ -433,6 +433,89 @@ export async function getPdfInfo(file: File): Promise<{
   }
 }
 
+/**
+ * Normalize text for fuzzy snippet matching (case, whitespace, currency formatting)
+ */
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/[$,]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Render a single PDF page and highlight the text runs that match a citation snippet
+ * Used by DocumentPreview to show where an extracted value came from
+ * @param url - URL of the PDF (e.g. Supabase public URL)
+ * @param pageNumber - 1-based page to render
+ * @param snippet - Source text to highlight (optional)
+ * @returns PNG data URL of the rendered page, page count, and whether the snippet was found
+ */
+export async function renderPdfPageWithHighlight(
+  url: string,
+  pageNumber: number,
+  snippet?: string | null
+): Promise<{
+  dataUrl: string;
+  numPages: number;
+  matched: boolean;
+}> {
+  // Check if we're in server environment
+  if (typeof window === 'undefined') {
+    throw new Error('PDF processing is not available on the server. This function should be called from the client side.');
+  }
+
+  const pdfjs = await loadPdfjs();
+  const pdfDocument = await pdfjs.getDocument({ url }).promise;
+
+  try {
+    const numPages = pdfDocument.numPages;
+    if (pageNumber < 1 || pageNumber > numPages) {
+      throw new Error(`Page ${pageNumber} is out of range (document has ${numPages} pages)`);
+    }
+
+    const page = await pdfDocument.getPage(pageNumber);
+    const scale = 1.5; // Same scale as convertPdfToImage
+    const viewport = page.getViewport({ scale });
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Unable to create canvas 2D context');
+    }
+
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    // Highlight text items that are part of the snippet (or contain it)
+    let matched = false;
+    const target = snippet ? normalizeForMatch(snippet) : '';
+    if (target) {
+      const textContent = await page.getTextContent();
+      context.fillStyle = 'rgba(250, 204, 21, 0.4)';
+
+      for (const item of textContent.items) {
+        if (!('str' in item)) continue;
+        const text = normalizeForMatch(item.str);
+        // Skip very short runs ("1", "$") - they match almost any snippet
+        if (text.length < 3 || !(target.includes(text) || text.includes(target))) continue;
+
+        const transform = pdfjs.Util.transform(viewport.transform, item.transform);
+        const height = Math.hypot(transform[2], transform[3]);
+        context.fillRect(transform[4], transform[5] - height, item.width * scale, height * 1.2);
+        matched = true;
+      }
+    }
+
+    return {
+      dataUrl: canvas.toDataURL('image/png'),
+      numPages,
+      matched
+    };
+  } finally {
+    await pdfDocument.destroy();
+  }
+}
+
 /**
  * Pre-load PDF.js library for better user experience
  * Call this function early in the application lifecycle
@@ -15,6 +15,8 @@
 import 'pdf-parse/worker';
 // Import the main parser (ESM style - works with Next.js 15 and serverExternalPackages)
 import { PDFParse } from 'pdf-parse';
+// pdf-lib copies pages between documents without re-rendering them
+import { PDFDocument } from 'pdf-lib';
 
 /**
  * Get accurate page count from a PDF file
@@ -112,6 +114,67 @@ export async function getPDFMetadata(fileBuffer: Buffer) {
   }
 }
 
+/**
+ * Render the first pages of a PDF as PNG data URLs
+ * Used for lightweight vision tasks (e.g. classification) that only need a few pages
+ * @param fileBuffer - Buffer containing the PDF file data
+ * @param maxPages - Number of leading pages to render (default 3)
+ * @returns Array of PNG data URLs, one per rendered page
+ */
+export async function renderPageImages(fileBuffer: Buffer, maxPages: number = 3): Promise<string[]> {
+  try {
+    const parser = new PDFParse({ data: fileBuffer });
+    const screenshots = await parser.getScreenshot({
+      first: maxPages,
+      desiredWidth: 1200,
+      imageDataUrl: true,
+      imageBuffer: false,
+    });
+
+    await parser.destroy();
+
+    return screenshots.pages.map(page => page.dataUrl);
+  } catch (error) {
+    console.error('Error rendering PDF pages:', error);
+    throw new Error('Unable to render PDF pages. Please ensure the file is not corrupted.');
+  }
+}
+
+/**
+ * Split a PDF into smaller PDFs, one per page range
+ * Used to send only the pages of a window to Claude instead of the whole document
+ * @param fileBuffer - Buffer containing the PDF file data
+ * @param ranges - 1-based, inclusive page ranges
+ * @returns One PDF buffer per range, in the same order
+ */
+export async function splitPdfPages(
+  fileBuffer: Buffer,
+  ranges: { startPage: number; endPage: number }[]
+): Promise<Buffer[]> {
+  try {
+    const source = await PDFDocument.load(fileBuffer, { ignoreEncryption: true });
+    const pageCount = source.getPageCount();
+
+    const parts: Buffer[] = [];
+    for (const { startPage, endPage } of ranges) {
+      if (startPage < 1 || endPage < startPage || endPage > pageCount) {
+        throw new Error(`Invalid page range ${startPage}-${endPage} for a ${pageCount}-page PDF`);
+      }
+
+      const part = await PDFDocument.create();
+      const pageIndices = Array.from({ length: endPage - startPage + 1 }, (_, offset) => startPage - 1 + offset);
+      const pages = await part.copyPages(source, pageIndices);
+      pages.forEach(page => part.addPage(page));
+      parts.push(Buffer.from(await part.save()));
+    }
+
+    return parts;
+  } catch (error) {
+    console.error('Error splitting PDF pages:', error);
+    throw new Error('Unable to split PDF pages. Please ensure the file is not corrupted.');
+  }
+}
+
 /**
  * Calculate credits required for a file
  * @param file - File object
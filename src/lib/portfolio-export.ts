@@ -0,0 +1,368 @@
+/**
+ * Portfolio Export
+ *
+ * Combines many saved extractions into one workbook for portfolio underwriting: a consolidated
+ * "Portfolio" sheet (rent, SF and occupancy per property plus a lease expiration schedule merged
+ * across every rent roll) followed by one sheet per property with each document's tables.
+ * Documents are grouped into properties by their extracted property name.
+ */
+
+import ExcelJS from 'exceljs';
+import { supabaseAdmin as supabase } from './supabase';
+import { parseNumericValue } from './reconciliation';
+import { buildExportTables, camelCaseToTitleCase, type ExportTable } from './export-tables';
+import { analyzeRentRoll, getRentRollTenants } from './rent-roll-analytics';
+import {
+  freezeRows,
+  setColumnWidths,
+  styleDataRow,
+  styleHeaderRow,
+  styleKeyValueRow,
+  styleSectionHeader,
+  styleTitleRow,
+  toUniqueSheetName
+} from './excel-styles';
+import type { DocumentPackageData, ExtractedData } from './types';
+
+const CURRENCY_FORMAT = '$#,##0';
+const NUMBER_FORMAT = '#,##0';
+const PERCENT_FORMAT = '0.0%';
+
+export interface PortfolioDocument {
+  id: string;
+  fileName: string;
+  extractedData: ExtractedData;
+}
+
+export interface PortfolioProperty {
+  name: string;
+  address: string | null;
+  documents: PortfolioDocument[];  // Newest first
+  tenants: Record<string, unknown>[]; // From the newest rent roll of the property
+  tenantCount: number;
+  totalSquareFeet: number;
+  occupiedSquareFeet: number;
+  occupancyRate: number | null;    // 0-1, null when the property has no rent roll with square footage
+  monthlyRent: number;
+}
+
+/**
+ * Saved documents a user picked for a portfolio export
+ * Only documents the user can see are returned: their own, plus their group's when the
+ * group shares documents (the same rule as the documents list)
+ */
+export async function getPortfolioDocuments(
+  userId: string,
+  documentIds: string[]
+): Promise<{ id: string; file_name: string; processing_status: string; created_at: string; extracted_data: ExtractedData | null }[]> {
+  const { data: userData } = await supabase
+    .from('users')
+    .select('group_id')
+    .eq('id', userId)
+    .single();
+
+  let sharedGroupId: string | null = null;
+  if (userData?.group_id) {
+    const { data: groupData } = await supabase
+      .from('user_groups')
+      .select('id, document_visibility, is_active')
+      .eq('id', userData.group_id)
+      .single();
+
+    if (groupData?.is_active && groupData.document_visibility === 'shared') {
+      sharedGroupId = groupData.id;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('user_documents')
+    .select('id, file_name, processing_status, created_at, extracted_data')
+    .in('id', documentIds)
+    .or(sharedGroupId ? `user_id.eq.${userId},group_id.eq.${sharedGroupId}` : `user_id.eq.${userId}`)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[Portfolio Export] Failed to load documents:', error);
+    throw new Error('Failed to load documents');
+  }
+
+  return data || [];
+}
+
+function getPropertyName(extractedData: ExtractedData): string | null {
+  if (extractedData.metadata?.propertyName) return extractedData.metadata.propertyName;
+
+  if (extractedData.documentType === 'document_package') {
+    const segments = (extractedData.data as DocumentPackageData).segments || [];
+    return segments.map(segment => segment.extractedData.metadata?.propertyName).find(Boolean) || null;
+  }
+
+  return null;
+}
+
+function sumTenants(tenants: Record<string, unknown>[], field: string): number {
+  return tenants.reduce((sum, tenant) => sum + (parseNumericValue(tenant[field]) ?? 0), 0);
+}
+
+function isOccupied(tenant: Record<string, unknown>): boolean {
+  return tenant.occupancyStatus !== 'vacant';
+}
+
+/**
+ * Group documents into properties by extracted property name
+ * Rent, SF and occupancy come from the newest rent roll of each property, so an updated
+ * rent roll exported next to an older one is not counted twice
+ *
+ * @param documents - Documents sorted newest first
+ */
+export function groupPortfolioProperties(documents: PortfolioDocument[]): PortfolioProperty[] {
+  const groups = new Map<string, PortfolioDocument[]>();
+
+  documents.forEach(document => {
+    const propertyName = getPropertyName(document.extractedData);
+    const key = propertyName ? propertyName.trim().toLowerCase() : `document:${document.id}`;
+    groups.set(key, [...(groups.get(key) || []), document]);
+  });
+
+  return [...groups.values()].map(propertyDocuments => {
+    const tenants = propertyDocuments
+      .map(document => getRentRollTenants(document.extractedData))
+      .find(rentRollTenants => rentRollTenants.length > 0) || [];
+
+    const tenantSquareFeet = sumTenants(tenants, 'squareFootage');
+    const reportedSquareFeet = propertyDocuments
+      .map(document => parseNumericValue(document.extractedData.metadata?.totalSquareFeet))
+      .find((squareFeet): squareFeet is number => squareFeet !== null);
+    const occupiedSquareFeet = sumTenants(tenants.filter(isOccupied), 'squareFootage');
+
+    return {
+      name: propertyDocuments.map(document => getPropertyName(document.extractedData)).find(Boolean)
+        || propertyDocuments[0].fileName,
+      address: propertyDocuments.map(document => document.extractedData.metadata?.propertyAddress).find(Boolean) || null,
+      documents: propertyDocuments,
+      tenants,
+      tenantCount: tenants.filter(isOccupied).length,
+      totalSquareFeet: tenantSquareFeet || reportedSquareFeet || 0,
+      occupiedSquareFeet,
+      occupancyRate: tenantSquareFeet > 0 ? occupiedSquareFeet / tenantSquareFeet : null,
+      monthlyRent: sumTenants(tenants.filter(isOccupied), 'baseRent')
+    };
+  });
+}
+
+function formatDocumentType(documentType: string): string {
+  return documentType.split('_').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' ');
+}
+
+/**
+ * Readable table title - "segment_2_rent_roll.tenants" becomes "2. Rent Roll - Tenants"
+ */
+function formatTableName(name: string): string {
+  const segment = name.match(/^segment_(\d+)_([a-z_]+)\.(.+)$/);
+  return segment
+    ? `${segment[1]}. ${formatDocumentType(segment[2])} - ${camelCaseToTitleCase(segment[3])}`
+    : camelCaseToTitleCase(name);
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+function applyNumberFormats(row: ExcelJS.Row, formats: Record<number, string>) {
+  Object.entries(formats).forEach(([column, format]) => {
+    row.getCell(Number(column)).numFmt = format;
+  });
+}
+
+function fillPortfolioSheet(sheet: ExcelJS.Worksheet, properties: PortfolioProperty[], sheetNames: Map<PortfolioProperty, string>) {
+  const totals = properties.reduce(
+    (sum, property) => ({
+      totalSquareFeet: sum.totalSquareFeet + property.totalSquareFeet,
+      occupiedSquareFeet: sum.occupiedSquareFeet + property.occupiedSquareFeet,
+      // Occupancy is weighted by the SF of properties that have a rent roll
+      rentRollSquareFeet: sum.rentRollSquareFeet + (property.occupancyRate === null ? 0 : property.totalSquareFeet),
+      monthlyRent: sum.monthlyRent + property.monthlyRent,
+      tenantCount: sum.tenantCount + property.tenantCount,
+      documentCount: sum.documentCount + property.documents.length
+    }),
+    { totalSquareFeet: 0, occupiedSquareFeet: 0, rentRollSquareFeet: 0, monthlyRent: 0, tenantCount: 0, documentCount: 0 }
+  );
+  const occupancyRate = ratio(totals.occupiedSquareFeet, totals.rentRollSquareFeet);
+  const annualRent = totals.monthlyRent * 12;
+
+  // Every property's leases together, measured against the whole portfolio's SF
+  const { expirationSchedule: schedule, waltByRent } = analyzeRentRoll(
+    properties.flatMap(property => property.tenants),
+    { totalSquareFeet: totals.totalSquareFeet }
+  );
+
+  styleTitleRow(sheet.addRow(['Portfolio Summary']), sheet, 10);
+
+  const summaryRows: [string, number | string | null, string?][] = [
+    ['Properties', properties.length],
+    ['Documents', totals.documentCount],
+    ['Total SF', totals.totalSquareFeet, NUMBER_FORMAT],
+    ['Occupied SF', totals.occupiedSquareFeet, NUMBER_FORMAT],
+    ['Occupancy', occupancyRate, PERCENT_FORMAT],
+    ['Monthly Rent', totals.monthlyRent, CURRENCY_FORMAT],
+    ['Annual Rent', annualRent, CURRENCY_FORMAT],
+    ['WALT (years, by rent)', waltByRent, '0.00'],
+    ['Generated', new Date().toISOString()]
+  ];
+  summaryRows.forEach(([label, value, format]) => {
+    const row = sheet.addRow([label, value ?? 'N/A']);
+    if (format && value !== null) row.getCell(2).numFmt = format;
+    styleKeyValueRow(row);
+  });
+  sheet.addRow([]);
+
+  styleSectionHeader(sheet.addRow(['Properties']), sheet, 10);
+  styleHeaderRow(sheet.addRow([
+    'Property', 'Address', 'Documents', 'Tenants', 'Total SF', 'Occupied SF', 'Occupancy', 'Monthly Rent', 'Annual Rent', 'Sheet'
+  ]));
+
+  const propertyFormats = { 5: NUMBER_FORMAT, 6: NUMBER_FORMAT, 7: PERCENT_FORMAT, 8: CURRENCY_FORMAT, 9: CURRENCY_FORMAT };
+  properties.forEach((property, index) => {
+    const sheetName = sheetNames.get(property) || '';
+    const row = sheet.addRow([
+      property.name,
+      property.address || 'N/A',
+      property.documents.length,
+      property.tenantCount,
+      property.totalSquareFeet,
+      property.occupiedSquareFeet,
+      property.occupancyRate ?? 'N/A',
+      property.monthlyRent,
+      property.monthlyRent * 12,
+      sheetName
+    ]);
+    applyNumberFormats(row, propertyFormats);
+    if (sheetName) {
+      const sheetCell = row.getCell(10);
+      sheetCell.value = { text: sheetName, hyperlink: `#'${sheetName.replace(/'/g, "''")}'!A1` };
+      sheetCell.font = { color: { argb: 'FF0563C1' }, underline: true };
+    }
+    styleDataRow(row, index % 2 === 1);
+  });
+
+  const totalRow = sheet.addRow([
+    'Portfolio Total', '', totals.documentCount, totals.tenantCount, totals.totalSquareFeet,
+    totals.occupiedSquareFeet, occupancyRate ?? 'N/A', totals.monthlyRent, annualRent, ''
+  ]);
+  applyNumberFormats(totalRow, propertyFormats);
+  styleDataRow(totalRow);
+  totalRow.font = { bold: true };
+  sheet.addRow([]);
+
+  styleSectionHeader(sheet.addRow(['Lease Expiration Schedule']), sheet, 10);
+  styleHeaderRow(sheet.addRow([
+    'Expiration Year', 'Leases', 'SF Expiring', '% of Portfolio SF', 'Annual Rent Expiring', '% of Portfolio Rent', 'Cumulative % of Rent'
+  ]));
+
+  const expirationFormats = { 3: NUMBER_FORMAT, 4: PERCENT_FORMAT, 5: CURRENCY_FORMAT, 6: PERCENT_FORMAT, 7: PERCENT_FORMAT };
+  schedule.forEach((expiration, index) => {
+    const row = sheet.addRow([
+      expiration.year === null ? 'No end date / MTM' : String(expiration.year),
+      expiration.leaseCount,
+      expiration.squareFeet,
+      expiration.percentOfGla ?? 'N/A',
+      expiration.annualRent,
+      expiration.percentOfRent ?? 'N/A',
+      expiration.cumulativePercentOfRent ?? 'N/A'
+    ]);
+    applyNumberFormats(row, expirationFormats);
+    styleDataRow(row, index % 2 === 1);
+  });
+
+  if (schedule.length === 0) {
+    sheet.addRow(['No rent roll leases in the selected documents']);
+  }
+
+  setColumnWidths(sheet, [32, 36, 14, 16, 18, 20, 22, 22, 16, 24]);
+  freezeRows(sheet, 1);
+}
+
+/**
+ * Write one export table: single-row tables as label/value pairs, others as a grid
+ */
+function writeTable(sheet: ExcelJS.Worksheet, table: ExportTable) {
+  const titleRow = sheet.addRow([formatTableName(table.name)]);
+  titleRow.font = { bold: true };
+
+  if (table.rows.length === 1) {
+    table.columns.forEach((column, index) => {
+      styleKeyValueRow(sheet.addRow([column.header, table.rows[0][index] ?? 'N/A']));
+    });
+    return;
+  }
+
+  styleHeaderRow(sheet.addRow(table.columns.map(column => column.header)));
+  table.rows.forEach((values, index) => {
+    styleDataRow(sheet.addRow(values), index % 2 === 1);
+  });
+}
+
+function generatePropertySheet(workbook: ExcelJS.Workbook, property: PortfolioProperty): string {
+  const sheet = workbook.addWorksheet(toUniqueSheetName(workbook, property.name));
+
+  styleTitleRow(sheet.addRow([property.name]), sheet, 6);
+
+  const overviewRows: [string, number | string | null, string?][] = [
+    ['Address', property.address],
+    ['Documents', property.documents.map(document => document.fileName).join(', ')],
+    ['Tenants', property.tenantCount],
+    ['Total SF', property.totalSquareFeet, NUMBER_FORMAT],
+    ['Occupied SF', property.occupiedSquareFeet, NUMBER_FORMAT],
+    ['Occupancy', property.occupancyRate, PERCENT_FORMAT],
+    ['Monthly Rent', property.monthlyRent, CURRENCY_FORMAT],
+    ['Annual Rent', property.monthlyRent * 12, CURRENCY_FORMAT]
+  ];
+  overviewRows.forEach(([label, value, format]) => {
+    const row = sheet.addRow([label, value ?? 'N/A']);
+    if (format && value !== null) row.getCell(2).numFmt = format;
+    styleKeyValueRow(row);
+  });
+
+  property.documents.forEach(document => {
+    sheet.addRow([]);
+    styleSectionHeader(
+      sheet.addRow([`${document.fileName} - ${formatDocumentType(document.extractedData.documentType)}`]),
+      sheet,
+      6
+    );
+
+    // Metadata is covered by the property overview above
+    buildExportTables(document.extractedData)
+      .filter(table => !table.name.endsWith('metadata'))
+      .forEach(table => {
+        sheet.addRow([]);
+        writeTable(sheet, table);
+      });
+  });
+
+  setColumnWidths(sheet, [30, ...Array(15).fill(18)]);
+  freezeRows(sheet, 1);
+  return sheet.name;
+}
+
+/**
+ * Build the portfolio workbook
+ *
+ * @param documents - Completed extractions, newest first
+ * @returns Workbook with the "Portfolio" sheet first, then one sheet per property
+ */
+export function generatePortfolioWorkbook(documents: PortfolioDocument[]): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'RExeli';
+  workbook.created = new Date();
+
+  const properties = groupPortfolioProperties(documents);
+
+  // Added first so it is the first tab, filled last so it can link to the property sheets
+  const portfolioSheet = workbook.addWorksheet('Portfolio');
+  const sheetNames = new Map(properties.map(property => [property, generatePropertySheet(workbook, property)]));
+  fillPortfolioSheet(portfolioSheet, properties, sheetNames);
+
+  console.log(`[Portfolio Export] ${documents.length} documents, ${properties.length} properties`);
+  return workbook;
+}
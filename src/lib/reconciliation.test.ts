@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseNumericValue, reconcileExtractedData } from './reconciliation';
+import type { DocumentType, ExtractedData } from './types';
+
+function extraction(documentType: DocumentType, data: unknown): ExtractedData {
+  return { documentType, metadata: {}, data } as unknown as ExtractedData;
+}
+
+const tenants = [
+  { tenantName: 'Acme Dental', baseRent: 1000, squareFootage: 500 },
+  { tenantName: 'Blue Bottle', baseRent: '$2,000', squareFootage: '1,000' },
+  { tenantName: 'Vacant', baseRent: 0, squareFootage: 500 }
+];
+
+function rentRoll(summary: Record<string, unknown>, rows: unknown[] = tenants): ExtractedData {
+  return extraction('rent_roll', {
+    tenants: rows,
+    summary: { totalRent: 3000, totalSquareFeet: 2000, totalUnits: 3, occupancyRate: '66.7%', ...summary }
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('parseNumericValue', () => {
+  it('parses numbers and formatted strings', () => {
+    expect(parseNumericValue(4000)).toBe(4000);
+    expect(parseNumericValue('$4,000.50')).toBe(4000.5);
+    expect(parseNumericValue('(1,200)')).toBe(-1200);
+    expect(parseNumericValue('-75')).toBe(-75);
+    expect(parseNumericValue('92%')).toBe(0.92);
+  });
+
+  it('is null for missing and non-numeric values', () => {
+    for (const value of [null, undefined, '', 'N/A', NaN, {}]) {
+      expect(parseNumericValue(value)).toBeNull();
+    }
+  });
+});
+
+describe('reconcileExtractedData', () => {
+  it('finds no discrepancies when a rent roll adds up', () => {
+    expect(reconcileExtractedData(rentRoll({}))).toEqual({ checksRun: 4, discrepancies: [] });
+  });
+
+  it('treats differences within the tolerance as rounding', () => {
+    // 10 / 3000 = 0.33%
+    expect(reconcileExtractedData(rentRoll({ totalRent: 3010 })).discrepancies).toEqual([]);
+  });
+
+  it('reports a warning above the tolerance and an error above the error threshold', () => {
+    expect(reconcileExtractedData(rentRoll({ totalRent: 3060 })).discrepancies).toEqual([{
+      check: 'Tenant rents sum to total rent',
+      field: 'summary.totalRent',
+      expected: 3000,
+      actual: 3060,
+      difference: 60,
+      severity: 'warning',
+      message: 'Tenant rents sum to total rent: expected 3,000, found 3,060'
+    }]);
+
+    expect(reconcileExtractedData(rentRoll({ totalRent: 3600 })).discrepancies[0]).toMatchObject({ severity: 'error', difference: 600 });
+  });
+
+  it('compares rates on an absolute scale', () => {
+    const [discrepancy] = reconcileExtractedData(rentRoll({ occupancyRate: 90 })).discrepancies;
+
+    expect(discrepancy).toMatchObject({
+      field: 'summary.occupancyRate',
+      severity: 'error',
+      message: 'Occupancy rate matches vacant vs. total units: expected 66.7%, found 90.0%'
+    });
+  });
+
+  it('counts zero-rent vacant rows as units but not as occupied', () => {
+    const rows = [
+      { tenantName: 'Acme Dental', baseRent: 1500, squareFootage: 1000 },
+      { tenantName: 'Suite 200', occupancyStatus: 'vacant', baseRent: 0, squareFootage: 1000 }
+    ];
+
+    expect(reconcileExtractedData(rentRoll({ totalRent: 1500, totalUnits: 2, occupancyRate: 0.5 }, rows)))
+      .toEqual({ checksRun: 4, discrepancies: [] });
+  });
+
+  it('skips checks missing either side of the comparison', () => {
+    const rows = tenants.map(({ tenantName, squareFootage }) => ({ tenantName, squareFootage }));
+
+    // No row has a rent, and the summary has no units to derive occupancy from
+    expect(reconcileExtractedData(rentRoll({ totalUnits: null }, rows)).checksRun).toBe(1);
+    expect(reconcileExtractedData(rentRoll({}, []))).toEqual({ checksRun: 0, discrepancies: [] });
+  });
+
+  it('checks NOI against income minus expenses', () => {
+    const budget = extraction('operating_budget', {
+      income: { totalIncome: '$500,000' },
+      expenses: { totalOperatingExpenses: 200000 },
+      noi: 350000
+    });
+
+    expect(reconcileExtractedData(budget).discrepancies).toMatchObject([{ field: 'noi', expected: 300000, actual: 350000, severity: 'error' }]);
+  });
+
+  it('runs no checks for document types without arithmetic relationships', () => {
+    expect(reconcileExtractedData(extraction('lease_agreement', { baseRent: 1000 }))).toEqual({ checksRun: 0, discrepancies: [] });
+  });
+
+  it('reconciles each document package segment with its segment number in the field', () => {
+    const result = reconcileExtractedData(extraction('document_package', {
+      totalPages: 7,
+      segments: [
+        { documentType: 'lease_agreement', startPage: 1, endPage: 4, extractedData: extraction('lease_agreement', {}) },
+        { documentType: 'rent_roll', startPage: 5, endPage: 7, extractedData: rentRoll({ totalRent: 3600 }) }
+      ]
+    }));
+
+    expect(result.checksRun).toBe(4);
+    expect(result.discrepancies.map(discrepancy => discrepancy.field)).toEqual(['segments.2.summary.totalRent']);
+  });
+});
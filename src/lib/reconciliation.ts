@@ -0,0 +1,345 @@
+/**
+ * Reconciliation Engine
+ *
+ * Arithmetic cross-checks on transformed extraction data (totals vs. line items,
+ * income minus expenses vs. NOI, occupancy vs. unit counts). Runs after
+ * transformExtractedData and reports discrepancies without modifying the data.
+ */
+
+import type {
+  ExtractedData,
+  DocumentType,
+  DocumentPackageData,
+  DiscrepancySeverity,
+  ReconciliationDiscrepancy,
+  ReconciliationResult
+} from './types';
+
+/**
+ * Relative differences at or below this are treated as rounding (no discrepancy)
+ */
+export const RECONCILIATION_TOLERANCE = 0.005;
+
+/**
+ * Relative differences above this are reported as errors instead of warnings
+ */
+export const RECONCILIATION_ERROR_THRESHOLD = 0.05;
+
+type ExtractedRecord = Record<string, unknown>;
+
+type Check = (data: ExtractedRecord) => CheckOutcome[];
+
+interface CheckOutcome {
+  check: string;
+  field: string;
+  expected: number | null;
+  actual: number | null;
+  // Ratios (occupancy, cap rate) are compared on an absolute scale
+  isRate?: boolean;
+}
+
+/**
+ * Parse a value that may be a number or a formatted string ("$4,000", "(1,200)", "92%")
+ * @returns Number, or null when the value is missing or not numeric
+ */
+export function parseNumericValue(value: unknown): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  const isNegative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const numeric = parseFloat(trimmed.replace(/[^0-9.]/g, ''));
+  if (isNaN(numeric)) return null;
+
+  const signed = isNegative ? -numeric : numeric;
+  return trimmed.endsWith('%') ? signed / 100 : signed;
+}
+
+/**
+ * Normalize a rate to a decimal (92, "92%" and 0.92 all become 0.92)
+ */
+function parseRateValue(value: unknown): number | null {
+  const rate = parseNumericValue(value);
+  if (rate === null) return null;
+  return Math.abs(rate) > 1 ? rate / 100 : rate;
+}
+
+function asRecord(value: unknown): ExtractedRecord {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as ExtractedRecord : {};
+}
+
+function asRecordArray(value: unknown): ExtractedRecord[] {
+  return Array.isArray(value) ? value.map(asRecord) : [];
+}
+
+/**
+ * Return the first numeric value among alternative field names
+ * Extraction prompts and display interfaces use different names for the same total
+ */
+function pickNumber(source: unknown, ...keys: string[]): number | null {
+  const record = asRecord(source);
+  for (const key of keys) {
+    const value = parseNumericValue(record[key]);
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+function sumField(items: ExtractedRecord[], ...keys: string[]): number | null {
+  const values = items.map(item => pickNumber(item, ...keys)).filter((value): value is number => value !== null);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+}
+
+function isVacantTenant(tenant: ExtractedRecord): boolean {
+  return tenant.occupancyStatus === 'vacant' || /^vacant$/i.test(String(tenant.tenantName || '').trim());
+}
+
+function getSeverity(difference: number, expected: number, isRate: boolean): DiscrepancySeverity | null {
+  const relative = isRate ? Math.abs(difference) : Math.abs(difference) / Math.max(Math.abs(expected), 1);
+  if (relative <= RECONCILIATION_TOLERANCE) return null;
+  return relative > RECONCILIATION_ERROR_THRESHOLD ? 'error' : 'warning';
+}
+
+// ============================================================================
+// CHECKS BY DOCUMENT TYPE
+// ============================================================================
+
+const checkRentRoll: Check = (data) => {
+  const tenants = asRecordArray(data.tenants);
+  const summary = asRecord(data.summary);
+  if (tenants.length === 0) return [];
+
+  const totalUnits = pickNumber(summary, 'totalUnits');
+  const vacantUnits = pickNumber(summary, 'vacantUnits') ?? tenants.filter(isVacantTenant).length;
+  const reportedOccupancy = parseRateValue(summary.occupancyRate);
+
+  return [
+    {
+      check: 'Tenant rents sum to total rent',
+      field: 'summary.totalRent',
+      expected: sumField(tenants, 'baseRent', 'monthlyRent'),
+      actual: pickNumber(summary, 'totalRent', 'totalMonthlyRent')
+    },
+    {
+      check: 'Tenant square footage sums to total square feet',
+      field: 'summary.totalSquareFeet',
+      expected: sumField(tenants, 'squareFootage', 'rentableSF'),
+      actual: pickNumber(summary, 'totalSquareFeet', 'totalSquareFootage')
+    },
+    {
+      check: 'Total units matches tenant rows',
+      field: 'summary.totalUnits',
+      expected: tenants.length,
+      actual: totalUnits
+    },
+    {
+      check: 'Occupancy rate matches vacant vs. total units',
+      field: 'summary.occupancyRate',
+      expected: totalUnits ? (totalUnits - vacantUnits) / totalUnits : null,
+      actual: reportedOccupancy,
+      isRate: true
+    }
+  ];
+};
+
+const checkOperatingBudget: Check = (data) => {
+  const totalIncome = pickNumber(data.income, 'totalIncome', 'effectiveGrossIncome');
+  const totalExpenses = pickNumber(data.expenses, 'totalOperatingExpenses', 'totalExpenses');
+
+  return [
+    {
+      check: 'Income minus expenses equals NOI',
+      field: 'noi',
+      expected: totalIncome !== null && totalExpenses !== null ? totalIncome - totalExpenses : null,
+      actual: parseNumericValue(data.noi)
+    }
+  ];
+};
+
+const checkFinancialStatements: Check = (data) => {
+  const balanceSheet = asRecord(data.balanceSheet);
+  const totalIncome = pickNumber(data.operatingIncome, 'totalIncome', 'effectiveGrossIncome');
+  const totalExpenses = pickNumber(data.operatingExpenses, 'totalExpenses');
+  const noi = parseNumericValue(data.noi);
+  const debtService = parseNumericValue(data.debtService);
+  const assets = pickNumber(balanceSheet.assets, 'totalAssets');
+  const liabilities = pickNumber(balanceSheet.liabilities, 'totalLiabilities');
+  const equity = parseNumericValue(balanceSheet.equity);
+
+  return [
+    {
+      check: 'Income minus expenses equals NOI',
+      field: 'noi',
+      expected: totalIncome !== null && totalExpenses !== null ? totalIncome - totalExpenses : null,
+      actual: noi
+    },
+    {
+      check: 'NOI minus debt service equals cash flow',
+      field: 'cashFlow',
+      expected: noi !== null && debtService !== null ? noi - debtService : null,
+      actual: parseNumericValue(data.cashFlow)
+    },
+    {
+      check: 'Assets equal liabilities plus equity',
+      field: 'balanceSheet.assets.totalAssets',
+      expected: liabilities !== null && equity !== null ? liabilities + equity : null,
+      actual: assets
+    }
+  ];
+};
+
+const checkLegacyFinancial: Check = (data) => {
+  const totalRevenue = pickNumber(data.revenue, 'totalRevenue');
+  const totalExpenses = pickNumber(data.expenses, 'totalExpenses');
+
+  return [
+    {
+      check: 'Revenue minus expenses equals NOI',
+      field: 'netOperatingIncome',
+      expected: totalRevenue !== null && totalExpenses !== null ? totalRevenue - totalExpenses : null,
+      actual: parseNumericValue(data.netOperatingIncome)
+    }
+  ];
+};
+
+const checkOfferingMemo: Check = (data) => {
+  const pricing = asRecord(data.pricing);
+  const grossIncome = pickNumber(data.operatingStatement, 'grossIncome');
+  const operatingExpenses = pickNumber(data.operatingStatement, 'operatingExpenses');
+  const noi = pickNumber(data.operatingStatement, 'noi');
+  const askingPrice = pickNumber(pricing, 'askingPrice');
+
+  return [
+    {
+      check: 'Gross income minus expenses equals NOI',
+      field: 'operatingStatement.noi',
+      expected: grossIncome !== null && operatingExpenses !== null ? grossIncome - operatingExpenses : null,
+      actual: noi
+    },
+    {
+      check: 'Cap rate equals NOI / asking price',
+      field: 'pricing.capRate',
+      expected: noi !== null && askingPrice ? noi / askingPrice : null,
+      actual: parseRateValue(pricing.capRate),
+      isRate: true
+    }
+  ];
+};
+
+const checkBrokerSalesComparables: Check = (data) => {
+  const comparables = asRecordArray(data.comparables);
+
+  return comparables.map((comp, index) => {
+    const salePrice = pickNumber(comp, 'salePrice');
+    const buildingSize = pickNumber(comp, 'buildingSize');
+    return {
+      check: 'Price per SF equals sale price / building size',
+      field: `comparables.${index}.pricePerSF`,
+      expected: salePrice !== null && buildingSize ? salePrice / buildingSize : null,
+      actual: pickNumber(comp, 'pricePerSF')
+    };
+  });
+};
+
+const checkBrokerLeaseComparables: Check = (data) => {
+  const comparables = asRecordArray(data.comparables);
+  const baseRents = comparables.map(comp => pickNumber(comp, 'baseRent')).filter((rent): rent is number => rent !== null);
+
+  return [
+    {
+      check: 'Average base rent matches comparables',
+      field: 'summary.averageBaseRent',
+      expected: baseRents.length > 0 ? baseRents.reduce((sum, rent) => sum + rent, 0) / baseRents.length : null,
+      actual: pickNumber(data.summary, 'averageBaseRent')
+    }
+  ];
+};
+
+/**
+ * Checks for each document type - types without arithmetic relationships have none
+ */
+const RECONCILIATION_CHECKS: Partial<Record<DocumentType, Check>> = {
+  rent_roll: checkRentRoll,
+  operating_budget: checkOperatingBudget,
+  financial_statements: checkFinancialStatements,
+  financial_statement: checkLegacyFinancial,
+  offering_memo: checkOfferingMemo,
+  broker_sales_comparables: checkBrokerSalesComparables,
+  broker_lease_comparables: checkBrokerLeaseComparables
+};
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+/**
+ * Run all checks registered for the document type
+ * Checks missing either side of the comparison are skipped (not counted)
+ */
+function runChecks(documentType: DocumentType, data: unknown, fieldPrefix: string = ''): ReconciliationResult {
+  const check = RECONCILIATION_CHECKS[documentType];
+  if (!check) return { checksRun: 0, discrepancies: [] };
+
+  let outcomes: CheckOutcome[];
+  try {
+    outcomes = check(asRecord(data));
+  } catch (error) {
+    console.error(`[Reconciliation] Checks failed for ${documentType}:`, error);
+    return { checksRun: 0, discrepancies: [] };
+  }
+
+  let checksRun = 0;
+  const discrepancies: ReconciliationDiscrepancy[] = [];
+
+  for (const outcome of outcomes) {
+    if (outcome.expected === null || outcome.actual === null) continue;
+    checksRun++;
+
+    const difference = outcome.actual - outcome.expected;
+    const severity = getSeverity(difference, outcome.expected, outcome.isRate === true);
+    if (!severity) continue;
+
+    discrepancies.push({
+      check: outcome.check,
+      field: `${fieldPrefix}${outcome.field}`,
+      expected: outcome.expected,
+      actual: outcome.actual,
+      difference,
+      severity,
+      message: `${outcome.check}: expected ${formatCheckValue(outcome.expected, outcome.isRate)}, found ${formatCheckValue(outcome.actual, outcome.isRate)}`
+    });
+  }
+
+  return { checksRun, discrepancies };
+}
+
+function formatCheckValue(value: number, isRate?: boolean): string {
+  return isRate
+    ? `${(value * 100).toFixed(1)}%`
+    : value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+/**
+ * Reconcile transformed extraction data
+ * Document packages are reconciled per segment, with fields prefixed by segment number
+ *
+ * @param extractedData - Data returned by transformExtractedData
+ * @returns Number of checks run and any discrepancies found
+ */
+export function reconcileExtractedData(extractedData: ExtractedData): ReconciliationResult {
+  if (extractedData.documentType === 'document_package') {
+    const packageData = extractedData.data as DocumentPackageData;
+    const results = (packageData.segments || []).map((segment, index) =>
+      runChecks(segment.extractedData.documentType, segment.extractedData.data, `segments.${index + 1}.`)
+    );
+
+    return {
+      checksRun: results.reduce((count, result) => count + result.checksRun, 0),
+      discrepancies: results.flatMap(result => result.discrepancies)
+    };
+  }
+
+  const result = runChecks(extractedData.documentType, extractedData.data);
+  console.log(`[Reconciliation] ${extractedData.documentType}: ${result.checksRun} checks run, ${result.discrepancies.length} discrepancies`);
+  return result;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeRentRoll, getRentRollAnalytics, parseDateParts } from './rent-roll-analytics';
+import type { ExtractedData } from './types';
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const tenants = [
+  { tenantName: 'Acme', suiteUnit: '100', baseRent: 5000, squareFootage: 3000, leaseEnd: '2028-01-01' },
+  { tenantName: 'Blue Bottle', suiteUnit: '200', baseRent: '$2,500', squareFootage: '2,000', leaseEnd: '12/31/26' },
+  { tenantName: 'ACME ', suiteUnit: '300', baseRent: 1000, squareFootage: 1000, leaseEnd: 'Dec 2027' },
+  { tenantName: 'Vacant', suiteUnit: '400', occupancyStatus: 'vacant', baseRent: 0, squareFootage: 2000 },
+  { tenantName: 'Corner Cafe', suiteUnit: '500', baseRent: 0, squareFootage: 500, leaseEnd: 'MTM' }
+];
+
+describe('parseDateParts', () => {
+  it('parses ISO and US dates', () => {
+    expect(parseDateParts('2031-02-28')).toEqual({ year: 2031, month: 2, day: 28 });
+    expect(parseDateParts('2/28/2031')).toEqual({ year: 2031, month: 2, day: 28 });
+    expect(parseDateParts('2-28-31')).toEqual({ year: 2031, month: 2, day: 28 });
+  });
+
+  it('is null for text without a full date', () => {
+    for (const value of ['MTM', 'Dec 2027', '', null, 20310228]) {
+      expect(parseDateParts(value)).toBeNull();
+    }
+  });
+});
+
+describe('analyzeRentRoll', () => {
+  const analytics = analyzeRentRoll(tenants, { asOfDate: '2026-01-01' });
+
+  it('annualizes rent over occupied leases and counts vacant suites towards GLA only', () => {
+    expect(analytics).toMatchObject({
+      asOfDate: '2026-01-01',
+      leaseCount: 4,
+      totalSquareFeet: 8500,
+      occupiedSquareFeet: 6500,
+      vacantSquareFeet: 2000,
+      annualRent: 102000
+    });
+  });
+
+  it('groups lease expirations by year with leases without a readable end date last', () => {
+    expect(analytics.expirationSchedule.map(row => [row.year, row.leaseCount, row.squareFeet, row.annualRent])).toEqual([
+      [2026, 1, 2000, 30000],
+      [2027, 1, 1000, 12000],
+      [2028, 1, 3000, 60000],
+      [null, 1, 500, 0]
+    ]);
+    expect(analytics.expirationSchedule[0].percentOfGla).toBeCloseTo(2000 / 8500);
+    expect(analytics.expirationSchedule.map(row => row.cumulativePercentOfRent)).toEqual([30000 / 102000, 42000 / 102000, 1, 1]);
+  });
+
+  it('weights WALT by rent and by square feet, leaving out leases without an end date or weight', () => {
+    const acmeYears = 730 * DAY_MS / YEAR_MS;
+    const blueBottleYears = 364 * DAY_MS / YEAR_MS;
+
+    expect(analytics.waltByRent).toBeCloseTo((acmeYears * 60000 + blueBottleYears * 30000) / 90000, 6);
+    expect(analytics.waltBySquareFeet).toBeCloseTo((acmeYears * 3000 + blueBottleYears * 2000) / 5000, 6);
+  });
+
+  it('counts expired leases as no remaining term', () => {
+    expect(analyzeRentRoll([tenants[1]], { asOfDate: '2027-06-30' }).waltByRent).toBe(0);
+  });
+
+  it('combines suites of the same tenant and flags concentrated tenants', () => {
+    expect(analytics.concentration.map(row => [row.tenantName, row.leaseCount, row.annualRent, row.isConcentrated])).toEqual([
+      ['Acme', 2, 72000, true],
+      ['Blue Bottle', 1, 30000, true],
+      ['Corner Cafe', 1, 0, false]
+    ]);
+    expect(analytics.topFiveShareOfRent).toBe(1);
+  });
+
+  it('compares in-place rent to a market rent per square foot', () => {
+    const markToMarket = analyzeRentRoll(tenants, { asOfDate: '2026-01-01', marketRentPsf: 30 }).markToMarket!;
+
+    expect(markToMarket).toMatchObject({
+      marketRentPsf: 30,
+      annualInPlaceRent: 102000,
+      annualMarketRent: 195000,
+      annualDifference: 93000
+    });
+    expect(markToMarket.percentDifference).toBeCloseTo(93000 / 102000);
+    expect(markToMarket.tenants[0]).toEqual({
+      tenantName: 'Acme',
+      suiteUnit: '100',
+      squareFeet: 3000,
+      inPlaceRentPsf: 20,
+      annualInPlaceRent: 60000,
+      annualMarketRent: 90000,
+      annualDifference: 30000
+    });
+    expect(analytics.markToMarket).toBeNull();
+  });
+
+  it('uses a larger GLA than the square feet listed in the rent roll', () => {
+    expect(analyzeRentRoll(tenants, { totalSquareFeet: 10000 })).toMatchObject({ totalSquareFeet: 10000, vacantSquareFeet: 3500 });
+    expect(analyzeRentRoll(tenants, { totalSquareFeet: 5000 }).totalSquareFeet).toBe(8500);
+  });
+
+  it('has no ratios for a rent roll without rent or square feet', () => {
+    const empty = analyzeRentRoll([{ tenantName: 'Vacant', occupancyStatus: 'vacant' }], { asOfDate: '2026-01-01' });
+
+    expect(empty).toMatchObject({ leaseCount: 0, annualRent: 0, waltByRent: null, waltBySquareFeet: null, topFiveShareOfRent: null });
+    expect(empty.expirationSchedule).toEqual([]);
+  });
+});
+
+describe('getRentRollAnalytics', () => {
+  function extraction(documentType: string, data: unknown, metadata: Record<string, unknown> = {}): ExtractedData {
+    return { documentType, metadata, data } as unknown as ExtractedData;
+  }
+
+  it("measures from the rent roll's as-of date and GLA", () => {
+    const analytics = getRentRollAnalytics(extraction('rent_roll', { tenants }, { asOfDate: '2026-01-01', totalSquareFeet: '10,000' }));
+
+    expect(analytics).toMatchObject({ asOfDate: '2026-01-01', totalSquareFeet: 10000 });
+  });
+
+  it('collects the tenants of every rent roll segment in a package', () => {
+    const analytics = getRentRollAnalytics(extraction('document_package', {
+      totalPages: 9,
+      segments: [
+        { documentType: 'offering_memo', extractedData: extraction('offering_memo', {}) },
+        { documentType: 'rent_roll', extractedData: extraction('rent_roll', { tenants: tenants.slice(0, 2) }) },
+        { documentType: 'rent_roll', extractedData: extraction('rent_roll', { tenants: tenants.slice(2) }) }
+      ]
+    }), { asOfDate: '2026-01-01' });
+
+    expect(analytics).toMatchObject({ leaseCount: 4, annualRent: 102000 });
+  });
+
+  it('is null without rent roll tenants', () => {
+    expect(getRentRollAnalytics(extraction('rent_roll', { tenants: [] }))).toBeNull();
+    expect(getRentRollAnalytics(extraction('offering_memo', { tenants }))).toBeNull();
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Rent Roll Analytics
+ *
+ * Figures underwriters otherwise work out by hand from a rent roll: the lease expiration
+ * schedule (by year, with % of GLA and % of rent), WALT, tenant concentration and - when a
+ * market rent is supplied - mark-to-market. Base rent in a rent roll is monthly; every rent
+ * figure here is annualized. Pure functions, shared by the results view and the exports.
+ */
+
+import { parseNumericValue } from './reconciliation';
+import type { DocumentPackageData, ExtractedData, RentRollData } from './types';
+
+/**
+ * Tenants paying at least this share of total rent are flagged as a concentration risk
+ */
+export const TENANT_CONCENTRATION_THRESHOLD = 0.1;
+
+const TOP_TENANT_COUNT = 10;
+
+type TenantRecord = Record<string, unknown>;
+
+export interface LeaseExpirationYear {
+  year: number | null;        // null for leases without a readable end date (MTM)
+  leaseCount: number;
+  squareFeet: number;
+  percentOfGla: number | null;
+  annualRent: number;
+  percentOfRent: number | null;
+  cumulativePercentOfRent: number | null;
+}
+
+export interface TenantConcentration {
+  tenantName: string;
+  leaseCount: number;         // Suites leased by the tenant
+  squareFeet: number;
+  percentOfGla: number | null;
+  annualRent: number;
+  percentOfRent: number | null;
+  isConcentrated: boolean;    // At or above TENANT_CONCENTRATION_THRESHOLD of rent
+}
+
+export interface MarkToMarketTenant {
+  tenantName: string;
+  suiteUnit: string;
+  squareFeet: number;
+  inPlaceRentPsf: number;     // Annual $/SF
+  annualInPlaceRent: number;
+  annualMarketRent: number;
+  annualDifference: number;   // Market minus in-place (positive: below market)
+}
+
+export interface MarkToMarket {
+  marketRentPsf: number;      // Annual $/SF supplied by the user
+  inPlaceRentPsf: number | null;
+  annualInPlaceRent: number;
+  annualMarketRent: number;
+  annualDifference: number;
+  percentDifference: number | null; // Difference relative to in-place rent
+  tenants: MarkToMarketTenant[];
+}
+
+export interface RentRollAnalytics {
+  asOfDate: string;           // YYYY-MM-DD the remaining terms are measured from
+  leaseCount: number;         // Occupied leases
+  totalSquareFeet: number;
+  occupiedSquareFeet: number;
+  vacantSquareFeet: number;
+  annualRent: number;
+  expirationSchedule: LeaseExpirationYear[];
+  waltByRent: number | null;  // Years, weighted by annual rent
+  waltBySquareFeet: number | null;
+  concentration: TenantConcentration[]; // Largest tenants by rent
+  topFiveShareOfRent: number | null;
+  markToMarket: MarkToMarket | null;
+}
+
+export interface RentRollAnalyticsOptions {
+  asOfDate?: string | null;       // Defaults to the rent roll's as-of date, then today
+  marketRentPsf?: number | null;  // Annual $/SF - enables mark-to-market
+  totalSquareFeet?: number | null; // GLA, when larger than the SF listed in the rent roll
+}
+
+/**
+ * Rent roll tenant rows - the rent roll itself, or every rent roll segment of a package
+ */
+export function getRentRollTenants(extractedData: ExtractedData): TenantRecord[] {
+  if (extractedData.documentType === 'rent_roll') {
+    return ((extractedData.data as RentRollData).tenants || []) as unknown as TenantRecord[];
+  }
+
+  if (extractedData.documentType === 'document_package') {
+    return ((extractedData.data as DocumentPackageData).segments || [])
+      .flatMap(segment => getRentRollTenants(segment.extractedData));
+  }
+
+  return [];
+}
+
+/**
+ * Parse an ISO (2031-02-28) or US (2/28/2031, 2/28/31) date into its parts
+ */
+export function parseDateParts(value: unknown): { year: number; month: number; day: number } | null {
+  if (typeof value !== 'string') return null;
+
+  const iso = value.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+
+  const us = value.match(/(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})\b/);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    return { year, month: Number(us[1]), day: Number(us[2]) };
+  }
+
+  return null;
+}
+
+/**
+ * Year a lease ends - from a full date, or any four-digit year in the text ("Dec 2027")
+ */
+function getLeaseEndYear(leaseEnd: unknown): number | null {
+  const parts = parseDateParts(leaseEnd);
+  if (parts) return parts.year;
+
+  const match = typeof leaseEnd === 'string' ? leaseEnd.match(/\b(19|20)\d{2}\b/) : null;
+  return match ? Number(match[0]) : null;
+}
+
+function toUtcTime(parts: { year: number; month: number; day: number }): number {
+  return Date.UTC(parts.year, parts.month - 1, parts.day);
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+function isOccupied(tenant: TenantRecord): boolean {
+  return tenant.occupancyStatus !== 'vacant';
+}
+
+function getSquareFeet(tenant: TenantRecord): number {
+  return parseNumericValue(tenant.squareFootage) ?? 0;
+}
+
+function getAnnualRent(tenant: TenantRecord): number {
+  return (parseNumericValue(tenant.baseRent) ?? 0) * 12;
+}
+
+function getTenantName(tenant: TenantRecord): string {
+  return String(tenant.tenantName || tenant.suiteUnit || 'Unnamed tenant').trim();
+}
+
+function buildExpirationSchedule(
+  leases: TenantRecord[],
+  totalSquareFeet: number,
+  annualRent: number
+): LeaseExpirationYear[] {
+  const byYear = new Map<number | null, LeaseExpirationYear>();
+
+  leases.forEach(tenant => {
+    const year = getLeaseEndYear(tenant.leaseEnd);
+    const row = byYear.get(year) || {
+      year, leaseCount: 0, squareFeet: 0, percentOfGla: null, annualRent: 0, percentOfRent: null, cumulativePercentOfRent: null
+    };
+    row.leaseCount++;
+    row.squareFeet += getSquareFeet(tenant);
+    row.annualRent += getAnnualRent(tenant);
+    byYear.set(year, row);
+  });
+
+  let cumulativeRent = 0;
+  return [...byYear.values()]
+    .sort((a, b) => (a.year ?? Infinity) - (b.year ?? Infinity))
+    .map(row => {
+      cumulativeRent += row.annualRent;
+      return {
+        ...row,
+        percentOfGla: ratio(row.squareFeet, totalSquareFeet),
+        percentOfRent: ratio(row.annualRent, annualRent),
+        cumulativePercentOfRent: ratio(cumulativeRent, annualRent)
+      };
+    });
+}
+
+/**
+ * Weighted average remaining lease term in years
+ * Leases already expired count as zero; leases without an end date are left out
+ */
+function getWalt(leases: TenantRecord[], asOfTime: number, weight: (tenant: TenantRecord) => number): number | null {
+  let weightedYears = 0;
+  let totalWeight = 0;
+
+  leases.forEach(tenant => {
+    const leaseEnd = parseDateParts(tenant.leaseEnd);
+    const tenantWeight = weight(tenant);
+    if (!leaseEnd || tenantWeight <= 0) return;
+
+    const remainingYears = Math.max(toUtcTime(leaseEnd) - asOfTime, 0) / (365.25 * 24 * 60 * 60 * 1000);
+    weightedYears += remainingYears * tenantWeight;
+    totalWeight += tenantWeight;
+  });
+
+  return totalWeight > 0 ? weightedYears / totalWeight : null;
+}
+
+/**
+ * Rent per tenant (suites of the same tenant combined), largest first
+ */
+function buildConcentration(leases: TenantRecord[], totalSquareFeet: number, annualRent: number): TenantConcentration[] {
+  const byTenant = new Map<string, TenantConcentration>();
+
+  leases.forEach(tenant => {
+    const tenantName = getTenantName(tenant);
+    const key = tenantName.toLowerCase();
+    const row = byTenant.get(key) || {
+      tenantName, leaseCount: 0, squareFeet: 0, percentOfGla: null, annualRent: 0, percentOfRent: null, isConcentrated: false
+    };
+    row.leaseCount++;
+    row.squareFeet += getSquareFeet(tenant);
+    row.annualRent += getAnnualRent(tenant);
+    byTenant.set(key, row);
+  });
+
+  return [...byTenant.values()]
+    .map(row => {
+      const percentOfRent = ratio(row.annualRent, annualRent);
+      return {
+        ...row,
+        percentOfGla: ratio(row.squareFeet, totalSquareFeet),
+        percentOfRent,
+        isConcentrated: percentOfRent !== null && percentOfRent >= TENANT_CONCENTRATION_THRESHOLD
+      };
+    })
+    .sort((a, b) => b.annualRent - a.annualRent);
+}
+
+function buildMarkToMarket(leases: TenantRecord[], marketRentPsf: number): MarkToMarket {
+  const tenants = leases
+    .filter(tenant => getSquareFeet(tenant) > 0)
+    .map(tenant => {
+      const squareFeet = getSquareFeet(tenant);
+      const annualInPlaceRent = getAnnualRent(tenant);
+      const annualMarketRent = marketRentPsf * squareFeet;
+      return {
+        tenantName: getTenantName(tenant),
+        suiteUnit: String(tenant.suiteUnit ?? ''),
+        squareFeet,
+        inPlaceRentPsf: annualInPlaceRent / squareFeet,
+        annualInPlaceRent,
+        annualMarketRent,
+        annualDifference: annualMarketRent - annualInPlaceRent
+      };
+    });
+
+  const squareFeet = tenants.reduce((sum, tenant) => sum + tenant.squareFeet, 0);
+  const annualInPlaceRent = tenants.reduce((sum, tenant) => sum + tenant.annualInPlaceRent, 0);
+  const annualMarketRent = tenants.reduce((sum, tenant) => sum + tenant.annualMarketRent, 0);
+
+  return {
+    marketRentPsf,
+    inPlaceRentPsf: ratio(annualInPlaceRent, squareFeet),
+    annualInPlaceRent,
+    annualMarketRent,
+    annualDifference: annualMarketRent - annualInPlaceRent,
+    percentDifference: ratio(annualMarketRent - annualInPlaceRent, annualInPlaceRent),
+    tenants
+  };
+}
+
+/**
+ * Analyze rent roll tenants
+ *
+ * @param tenants - Tenant rows (vacant suites count towards GLA only)
+ * @param options - As-of date, market rent and GLA overrides
+ */
+export function analyzeRentRoll(tenants: TenantRecord[], options: RentRollAnalyticsOptions = {}): RentRollAnalytics {
+  const leases = tenants.filter(isOccupied);
+  const listedSquareFeet = tenants.reduce((sum, tenant) => sum + getSquareFeet(tenant), 0);
+  const totalSquareFeet = Math.max(listedSquareFeet, options.totalSquareFeet ?? 0);
+  const occupiedSquareFeet = leases.reduce((sum, tenant) => sum + getSquareFeet(tenant), 0);
+  const annualRent = leases.reduce((sum, tenant) => sum + getAnnualRent(tenant), 0);
+
+  const asOfParts = parseDateParts(options.asOfDate);
+  const asOfTime = asOfParts ? toUtcTime(asOfParts) : Date.now();
+  const concentration = buildConcentration(leases, totalSquareFeet, annualRent);
+  const marketRentPsf = options.marketRentPsf ?? null;
+
+  return {
+    asOfDate: new Date(asOfTime).toISOString().slice(0, 10),
+    leaseCount: leases.length,
+    totalSquareFeet,
+    occupiedSquareFeet,
+    vacantSquareFeet: Math.max(totalSquareFeet - occupiedSquareFeet, 0),
+    annualRent,
+    expirationSchedule: buildExpirationSchedule(leases, totalSquareFeet, annualRent),
+    waltByRent: getWalt(leases, asOfTime, getAnnualRent),
+    waltBySquareFeet: getWalt(leases, asOfTime, getSquareFeet),
+    concentration: concentration.slice(0, TOP_TENANT_COUNT),
+    topFiveShareOfRent: ratio(concentration.slice(0, 5).reduce((sum, row) => sum + row.annualRent, 0), annualRent),
+    markToMarket: marketRentPsf && marketRentPsf > 0 ? buildMarkToMarket(leases, marketRentPsf) : null
+  };
+}
+
+/**
+ * Analytics for an extraction with rent roll tenants (a rent roll or a package containing one)
+ *
+ * @returns Analytics, or null when there are no tenants to analyze
+ */
+export function getRentRollAnalytics(
+  extractedData: ExtractedData,
+  options: Omit<RentRollAnalyticsOptions, 'totalSquareFeet'> = {}
+): RentRollAnalytics | null {
+  const tenants = getRentRollTenants(extractedData);
+  if (tenants.length === 0) return null;
+
+  return analyzeRentRoll(tenants, {
+    ...options,
+    asOfDate: options.asOfDate ?? extractedData.metadata?.asOfDate,
+    totalSquareFeet: parseNumericValue(extractedData.metadata?.totalSquareFeet)
+  });
+}
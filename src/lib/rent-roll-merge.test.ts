@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { mergeRentRollPathMaps, mergeRentRollTenants, offsetCitationPages } from './rent-roll-merge';
+
+describe('mergeRentRollTenants', () => {
+  it('keeps document order and rows from every window', () => {
+    const merged = mergeRentRollTenants([
+      [{ suiteUnit: '101', tenantName: 'Acme' }, { suiteUnit: '102', tenantName: 'Beta' }],
+      [{ suiteUnit: '103', tenantName: 'Gamma' }]
+    ]);
+
+    expect(merged.map(tenant => tenant.suiteUnit)).toEqual(['101', '102', '103']);
+  });
+
+  it('deduplicates by suite and normalized tenant name', () => {
+    const merged = mergeRentRollTenants([
+      [{ suiteUnit: '101', tenantName: 'Acme  Corp' }],
+      [{ suiteUnit: ' 101 ', tenantName: 'acme corp' }]
+    ]);
+
+    expect(merged).toHaveLength(1);
+  });
+
+  it('never lets empty values overwrite populated ones', () => {
+    const merged = mergeRentRollTenants([
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1200, leaseEnd: null, notes: '' }],
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: null, leaseEnd: '2027-01-31', notes: '', squareFeet: 900 }]
+    ]);
+
+    expect(merged).toEqual([
+      { suiteUnit: '101', tenantName: 'Acme', baseRent: 1200, leaseEnd: '2027-01-31', notes: '', squareFeet: 900 }
+    ]);
+  });
+
+  it('prefers the more complete copy when both have a value', () => {
+    const merged = mergeRentRollTenants([
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1000 }],
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1200, squareFeet: 900, leaseEnd: '2027-01-31' }]
+    ]);
+
+    expect(merged[0].baseRent).toBe(1200);
+  });
+
+  it('keeps the first copy when the later one is less complete', () => {
+    const merged = mergeRentRollTenants([
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1000, squareFeet: 900 }],
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1200 }]
+    ]);
+
+    expect(merged[0]).toEqual({ suiteUnit: '101', tenantName: 'Acme', baseRent: 1000, squareFeet: 900 });
+  });
+
+  it('keeps same-tenant rows within a window', () => {
+    const merged = mergeRentRollTenants([
+      [
+        { suiteUnit: '101', tenantName: 'Acme', chargeCode: 'RENT', amount: 1000 },
+        { suiteUnit: '101', tenantName: 'Acme', chargeCode: 'CAM', amount: 150 },
+        { suiteUnit: '102', tenantName: 'Beta', chargeCode: 'RENT', amount: 900 },
+        { suiteUnit: '101', tenantName: 'Acme', chargeCode: 'TAX', amount: 80 }
+      ]
+    ]);
+
+    expect(merged.map(tenant => tenant.chargeCode)).toEqual(['RENT', 'CAM', 'RENT', 'TAX']);
+  });
+
+  it('only merges rows that meet at a window boundary', () => {
+    const merged = mergeRentRollTenants([
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1000 }, { suiteUnit: '102', tenantName: 'Beta', leaseEnd: null }],
+      [{ suiteUnit: '102', tenantName: 'Beta', leaseEnd: '2027-01-31' }, { suiteUnit: '101', tenantName: 'Acme', baseRent: 150 }]
+    ]);
+
+    expect(merged).toEqual([
+      { suiteUnit: '101', tenantName: 'Acme', baseRent: 1000 },
+      { suiteUnit: '102', tenantName: 'Beta', leaseEnd: '2027-01-31' },
+      { suiteUnit: '101', tenantName: 'Acme', baseRent: 150 }
+    ]);
+  });
+
+  it('keeps every row without a suite or tenant name', () => {
+    const merged = mergeRentRollTenants([
+      [{ baseRent: 100 }, { baseRent: 100 }],
+      [{ suiteUnit: null, tenantName: '' }]
+    ]);
+
+    expect(merged).toHaveLength(3);
+  });
+});
+
+describe('mergeRentRollPathMaps', () => {
+  it('re-indexes tenant paths onto the merged array and keeps other paths', () => {
+    const tenantChunks = [
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1000 }],
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: null }, { suiteUnit: '102', tenantName: 'Beta', baseRent: 900 }]
+    ];
+
+    const paths = mergeRentRollPathMaps(tenantChunks, [
+      { 'tenants.0.baseRent': 0.9 },
+      { 'tenants.0': 0.6, 'tenants.1': 0.8, 'tenants.1.baseRent': 0.5, 'summary.totalUnits': 0.7 }
+    ]);
+
+    expect(paths).toEqual({
+      'tenants.0.baseRent': 0.9,
+      'tenants.0': 0.6,
+      'tenants.1': 0.8,
+      'tenants.1.baseRent': 0.5,
+      'summary.totalUnits': 0.7
+    });
+  });
+
+  it('takes a field entry from the copy the merged value came from', () => {
+    const tenantChunks = [
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1000 }],
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1200, squareFeet: 900, leaseEnd: '2027-01-31' }]
+    ];
+
+    const citations = mergeRentRollPathMaps(tenantChunks, [
+      { 'tenants.0': { page: 20 }, 'tenants.0.baseRent': { page: 20, snippet: '$1,000' } },
+      { 'tenants.0': { page: 21 }, 'tenants.0.baseRent': { page: 21, snippet: '$1,200' } }
+    ]);
+
+    expect(mergeRentRollTenants(tenantChunks)[0].baseRent).toBe(1200);
+    expect(citations).toEqual({ 'tenants.0': { page: 20 }, 'tenants.0.baseRent': { page: 21, snippet: '$1,200' } });
+  });
+
+  it("keeps the first copy's entry when the later copy only filled other fields", () => {
+    const tenantChunks = [
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1000, squareFeet: 900 }],
+      [{ suiteUnit: '101', tenantName: 'Acme', baseRent: 1000, leaseEnd: '2027-01-31' }]
+    ];
+
+    const confidence = mergeRentRollPathMaps(tenantChunks, [
+      { 'tenants.0.baseRent': 0.6 },
+      { 'tenants.0.baseRent': 0.95, 'tenants.0.leaseEnd': 0.8 }
+    ]);
+
+    expect(confidence).toEqual({ 'tenants.0.baseRent': 0.6, 'tenants.0.leaseEnd': 0.8 });
+  });
+
+  it('keeps entries of same-tenant rows within a window apart', () => {
+    const tenantChunks = [[
+      { suiteUnit: '101', tenantName: 'Acme', chargeCode: 'RENT', amount: 1000 },
+      { suiteUnit: '101', tenantName: 'Acme', chargeCode: 'CAM', amount: 150 }
+    ]];
+
+    expect(mergeRentRollPathMaps(tenantChunks, [{ 'tenants.0.amount': 0.9, 'tenants.1.amount': 0.6 }]))
+      .toEqual({ 'tenants.0.amount': 0.9, 'tenants.1.amount': 0.6 });
+  });
+});
+
+describe('offsetCitationPages', () => {
+  it('shifts window page numbers onto the full document', () => {
+    expect(offsetCitationPages({ 'tenants.0.baseRent': { page: 2, snippet: '$1,200' } }, 20)).toEqual({
+      'tenants.0.baseRent': { page: 22, snippet: '$1,200' }
+    });
+  });
+});
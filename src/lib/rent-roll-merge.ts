@@ -0,0 +1,169 @@
+/**
+ * Rent Roll Merging
+ *
+ * Large rent rolls are extracted in page windows (see extractRentRollInChunks in anthropic.ts).
+ * These helpers combine the windows: a row split by the page break between two windows comes
+ * back as the last row of one window and the first row of the next, and the two copies are
+ * merged when they share a suite/tenant key. Rows within a window are never deduplicated - a
+ * tenant can legitimately have several rows (charge codes, suites). The windows' citations and
+ * field confidence are then re-indexed onto the merged tenant array.
+ */
+
+import type { FieldCitation } from './types';
+
+/**
+ * Build a dedupe key for a rent roll row from its suite and tenant name
+ * The two halves of a row split across a window boundary share the same key
+ */
+export function getTenantKey(tenant: Record<string, unknown>): string {
+  const suite = tenant.suiteUnit ?? tenant.unitNumber ?? tenant.space ?? '';
+  const name = tenant.tenantName ?? '';
+  return `${String(suite).trim().toLowerCase()}|${String(name).trim().toLowerCase().replace(/\s+/g, ' ')}`;
+}
+
+function isPopulated(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+/**
+ * Count populated fields so the most complete duplicate row wins conflicts
+ */
+function countPopulatedFields(row: Record<string, unknown>): number {
+  return Object.values(row).filter(isPopulated).length;
+}
+
+/**
+ * Merge two copies of the same row field by field
+ * Empty values never replace populated ones; when both copies have a value, the more
+ * complete copy's value is kept
+ *
+ * @returns Merged row and the populated fields whose value came from `incoming`
+ */
+function mergeTenantRows(
+  existing: Record<string, unknown>,
+  incoming: Record<string, unknown>
+): { merged: Record<string, unknown>; incomingFields: string[] } {
+  const incomingWins = countPopulatedFields(incoming) > countPopulatedFields(existing);
+  const merged: Record<string, unknown> = { ...existing };
+  const incomingFields: string[] = [];
+
+  for (const [field, value] of Object.entries(incoming)) {
+    if (!isPopulated(value)) {
+      if (!(field in merged)) merged[field] = value;
+    } else if (!isPopulated(merged[field]) || incomingWins) {
+      merged[field] = value;
+      incomingFields.push(field);
+    }
+  }
+
+  return { merged, incomingFields };
+}
+
+interface RentRollRowPlacement {
+  tenants: Record<string, unknown>[];
+  // Merged index of every chunk row: positions[chunk][row]
+  positions: number[][];
+  // Chunk row ("<chunk>.<row>") each merged field value came from, keyed by "<mergedIndex>.<field>"
+  fieldSources: Map<string, string>;
+}
+
+/**
+ * Place chunk rows onto the merged tenant array
+ * Only the first row of a window can merge, with the last row of the previous window
+ */
+function placeRentRollRows(chunks: Record<string, unknown>[][]): RentRollRowPlacement {
+  const tenants: Record<string, unknown>[] = [];
+  const positions: number[][] = [];
+  const fieldSources = new Map<string, string>();
+
+  chunks.forEach((rows, chunkIndex) => {
+    const previousRows = chunkIndex > 0 ? positions[chunkIndex - 1] : [];
+
+    positions.push(rows.map((row, rowIndex) => {
+      const source = `${chunkIndex}.${rowIndex}`;
+      const key = getTenantKey(row);
+      const boundaryIndex = rowIndex === 0 ? previousRows[previousRows.length - 1] : undefined;
+
+      // Rows with neither suite nor tenant name cannot be matched - keep every one
+      if (boundaryIndex !== undefined && key !== '|' && getTenantKey(tenants[boundaryIndex]) === key) {
+        const { merged, incomingFields } = mergeTenantRows(tenants[boundaryIndex], row);
+        tenants[boundaryIndex] = merged;
+        incomingFields.forEach(field => fieldSources.set(`${boundaryIndex}.${field}`, source));
+        return boundaryIndex;
+      }
+
+      tenants.push(row);
+      Object.keys(row).forEach(field => fieldSources.set(`${tenants.length - 1}.${field}`, source));
+      return tenants.length - 1;
+    }));
+  });
+
+  return { tenants, positions, fieldSources };
+}
+
+/**
+ * Merge tenant arrays from rent roll chunks in document order
+ * A row split across the boundary of two windows is merged field by field; every other row is kept
+ *
+ * @example
+ * mergeRentRollTenants([
+ *   [{ suiteUnit: '100', tenantName: 'Beta' }, { suiteUnit: '101', tenantName: 'Acme', baseRent: 1200, leaseEnd: null }],
+ *   [{ suiteUnit: '101', tenantName: 'Acme', baseRent: null, leaseEnd: '2027-01-31' }]
+ * ]); // [{ suiteUnit: '100', ... }, { suiteUnit: '101', tenantName: 'Acme', baseRent: 1200, leaseEnd: '2027-01-31' }]
+ */
+export function mergeRentRollTenants(chunks: Record<string, unknown>[][]): Record<string, unknown>[] {
+  return placeRentRollRows(chunks).tenants;
+}
+
+/**
+ * Re-index chunk path maps (citations, field confidence) onto the merged tenant array
+ * Chunk paths like "tenants.4.baseRent" or "tenants.4" refer to the chunk's own array and are moved
+ * to the row's merged position; other paths (summary) are kept as-is. A field entry is taken from
+ * the copy the merged value came from, a row entry from the first copy that has one.
+ */
+export function mergeRentRollPathMaps<T>(
+  tenantChunks: Record<string, unknown>[][],
+  chunkMaps: Record<string, T>[]
+): Record<string, T> {
+  const { positions, fieldSources } = placeRentRollRows(tenantChunks);
+
+  const merged: Record<string, T> = {};
+  chunkMaps.forEach((pathMap, chunkIndex) => {
+    for (const [path, value] of Object.entries(pathMap)) {
+      const match = path.match(/^tenants\.(\d+)(?:\.([^.]+)(\..+)?)?$/);
+      if (!match) {
+        merged[path] = value;
+        continue;
+      }
+
+      const rowIndex = Number(match[1]);
+      const mergedIndex = positions[chunkIndex]?.[rowIndex];
+      if (mergedIndex === undefined) continue;
+
+      const [, , field, rest = ''] = match;
+      if (!field) {
+        merged[`tenants.${mergedIndex}`] ??= value;
+      } else if (fieldSources.get(`${mergedIndex}.${field}`) === `${chunkIndex}.${rowIndex}`) {
+        merged[`tenants.${mergedIndex}.${field}${rest}`] = value;
+      }
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Shift citations of a page window onto the full document's page numbers
+ * A window is sent as its own PDF, so Claude cites its pages from 1
+ *
+ * @example
+ * offsetCitationPages({ 'tenants.0.baseRent': { page: 2 } }, 20); // { 'tenants.0.baseRent': { page: 22 } }
+ */
+export function offsetCitationPages(
+  citations: Record<string, FieldCitation>,
+  pageOffset: number
+): Record<string, FieldCitation> {
+  return Object.fromEntries(
+    Object.entries(citations).map(([path, citation]) => [path, { ...citation, page: citation.page + pageOffset }])
+  );
+}
@@ -28,6 +28,16 @@ export const STRIPE_PRICE_IDS = {
   one_time_standard: process.env.STRIPE_PRICE_STANDARD || '',
   one_time_pro: process.env.STRIPE_PRICE_PRO || '',
   one_time_enterprise: process.env.STRIPE_PRICE_ENTERPRISE || '',
+
+  // Group seat add-on (recurring, quantity = extra members)
+  group_seat_monthly: process.env.STRIPE_PRICE_GROUP_SEAT_MONTHLY || '',
+  group_seat_annual: process.env.STRIPE_PRICE_GROUP_SEAT_ANNUAL || '',
+
+  // Overage (metered, billed per page past the plan's credits - see OVERAGE_BILLING)
+  // Monthly plans only: metered usage is invoiced at the plan's interval
+  overage_entrepreneur_monthly: process.env.STRIPE_PRICE_OVERAGE_ENTREPRENEUR_MONTHLY || '',
+  overage_professional_monthly: process.env.STRIPE_PRICE_OVERAGE_PROFESSIONAL_MONTHLY || '',
+  overage_business_monthly: process.env.STRIPE_PRICE_OVERAGE_BUSINESS_MONTHLY || '',
 } as const;
 
 /**
@@ -122,6 +132,26 @@ export const GROUP_PRICING = {
   },
 } as const;
 
+/**
+ * Extra group member on top of the plan's seats (Stripe seat add-on)
+ */
+export const GROUP_SEAT_PRICING = {
+  monthly: 25,
+  annual: 275,        // 1 month free ($25 * 11)
+  maxExtraSeats: 50,
+} as const;
+
+/**
+ * Overage billing: monthly subscribers who opt in keep processing past their plan's credits
+ * Extra pages are charged at the plan's extraPagePrice and reported to a Stripe Billing Meter;
+ * the metered overage prices (STRIPE_PRICE_IDS.overage_*) must use that meter and rate.
+ * Spending stops at the user's monthly cap (calendar month, UTC; $100 unless the user sets one).
+ */
+export const OVERAGE_BILLING = {
+  meterEventName: process.env.STRIPE_OVERAGE_METER_EVENT || 'overage_pages',
+  maxMonthlyCap: 5000,
+} as const;
+
 /**
  * Helper to get subscription type from Stripe price ID
  */
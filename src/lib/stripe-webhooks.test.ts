@@ -0,0 +1,435 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StripeEvent } from './stripe';
+
+const rpc = vi.fn();
+const stripeRequest = vi.fn();
+// Result of the awaited query per table (user_groups lookup, stripe_events updates, ...)
+const tableResults: Record<string, { data: unknown; error: unknown }> = {};
+
+/**
+ * Chainable stand-in for a Supabase query: every builder method returns the query, and
+ * awaiting it (or maybeSingle / limit) resolves to the table's result
+ */
+function createQuery(table: string) {
+  const result = () => Promise.resolve(tableResults[table] ?? { data: null, error: null });
+  const query = {
+    select: vi.fn(() => query),
+    update: vi.fn(() => query),
+    eq: vi.fn(() => query),
+    in: vi.fn(() => query),
+    lt: vi.fn(() => query),
+    order: vi.fn(() => query),
+    limit: vi.fn(result),
+    maybeSingle: vi.fn(result),
+    then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) => result().then(resolve, reject)
+  };
+  return query;
+}
+
+const from = vi.fn(createQuery);
+
+vi.mock('./supabase', () => ({ supabaseAdmin: { rpc, from } }));
+vi.mock('./stripe', () => ({ stripeRequest }));
+
+vi.stubEnv('STRIPE_PRICE_ENTREPRENEUR_MONTHLY', 'price_entrepreneur_monthly');
+vi.stubEnv('STRIPE_PRICE_PROFESSIONAL_MONTHLY', 'price_professional_monthly');
+vi.stubEnv('STRIPE_PRICE_BUSINESS_ANNUAL', 'price_business_annual');
+vi.stubEnv('STRIPE_PRICE_BASIC', 'price_basic');
+vi.stubEnv('STRIPE_PRICE_GROUP_SEAT_MONTHLY', 'price_group_seat_monthly');
+vi.stubEnv('STRIPE_PRICE_OVERAGE_PROFESSIONAL_MONTHLY', 'price_overage_professional_monthly');
+
+const { handleStripeEvent, retryFailedStripeEvents } = await import('./stripe-webhooks');
+const { GROUP_SUBSCRIPTION_CREDITS, SUBSCRIPTION_CREDITS } = await import('./subscriptionManager');
+
+const PERIOD = { start: 1767225600, end: 1769904000 }; // 2026-01-01 .. 2026-02-01
+
+function event(type: string, object: Record<string, unknown>, created: number = 1767225600): StripeEvent {
+  return { id: `evt_${type}`, type, created, livemode: false, data: { object: { id: 'obj_1', ...object } } };
+}
+
+function invoice(billingReason: string, lines: Record<string, unknown>[]): Record<string, unknown> {
+  return {
+    id: 'in_1',
+    customer: 'cus_1',
+    subscription: 'sub_1',
+    payment_intent: 'pi_1',
+    amount_paid: 8900,
+    amount_due: 8900,
+    currency: 'usd',
+    description: null,
+    billing_reason: billingReason,
+    lines: { data: lines }
+  };
+}
+
+function planLine(priceId: string, proration: boolean = false): Record<string, unknown> {
+  return { type: proration ? 'invoiceitem' : 'subscription', proration, price: { id: priceId }, period: PERIOD };
+}
+
+/**
+ * Arguments of the calls to one RPC
+ */
+function rpcCalls(name: string): Record<string, unknown>[] {
+  return rpc.mock.calls.filter(([called]) => called === name).map(([, args]) => args as Record<string, unknown>);
+}
+
+/**
+ * First query made on a table
+ */
+function tableQuery(table: string): ReturnType<typeof createQuery> | undefined {
+  const index = from.mock.calls.findIndex(([called]) => called === table);
+  return index >= 0 ? from.mock.results[index].value : undefined;
+}
+
+/**
+ * Answer claim_stripe_event with `claimed` and every other RPC from `results`
+ */
+function mockRpc(results: Record<string, unknown>, claimed: boolean = true) {
+  rpc.mockImplementation(async (name: string) => ({
+    data: name === 'claim_stripe_event' ? claimed : results[name] ?? null,
+    error: null
+  }));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  for (const table of Object.keys(tableResults)) delete tableResults[table];
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('subscription invoices', () => {
+  it('renews the plan credits on a billing cycle invoice', async () => {
+    mockRpc({ record_stripe_invoice_payment: 'user-1' });
+
+    await expect(handleStripeEvent(event('invoice.payment_succeeded', invoice('subscription_cycle', [
+      planLine('price_professional_monthly'),
+      { type: 'invoiceitem', proration: false, price: { id: 'price_overage_professional_monthly' } }
+    ])))).resolves.toBe('processed');
+
+    expect(rpcCalls('record_stripe_invoice_payment')[0]).toMatchObject({
+      p_plan_type: 'professional_monthly',
+      p_credits: SUBSCRIPTION_CREDITS.professional_monthly,
+      p_amount: 89,
+      p_status: 'succeeded',
+      p_period_start: '2026-01-01',
+      p_period_end: '2026-02-01'
+    });
+  });
+
+  it('records a plan switch proration invoice without renewing credits', async () => {
+    mockRpc({ record_stripe_invoice_payment: 'user-1' });
+
+    // Unused time on the old plan is credited, remaining time on the new plan is charged
+    await handleStripeEvent(event('invoice.payment_succeeded', invoice('subscription_update', [
+      planLine('price_entrepreneur_monthly', true),
+      planLine('price_professional_monthly', true)
+    ])));
+
+    expect(rpcCalls('record_stripe_invoice_payment')[0]).toMatchObject({
+      p_plan_type: null,
+      p_credits: 0,
+      p_period_start: null,
+      p_period_end: null
+    });
+  });
+
+  it('takes the plan from the subscription line, not a proration line of the old plan', async () => {
+    mockRpc({ record_stripe_invoice_payment: 'user-1' });
+
+    await handleStripeEvent(event('invoice.payment_succeeded', invoice('subscription_cycle', [
+      { ...planLine('price_entrepreneur_monthly'), type: 'subscription', proration: true },
+      planLine('price_professional_monthly')
+    ])));
+
+    expect(rpcCalls('record_stripe_invoice_payment')[0]).toMatchObject({
+      p_plan_type: 'professional_monthly',
+      p_credits: SUBSCRIPTION_CREDITS.professional_monthly
+    });
+  });
+
+  it('records a failed payment without credits', async () => {
+    mockRpc({ record_stripe_invoice_payment: 'user-1' });
+
+    await handleStripeEvent(event('invoice.payment_failed', invoice('subscription_cycle', [planLine('price_professional_monthly')])));
+
+    expect(rpcCalls('record_stripe_invoice_payment')[0]).toMatchObject({
+      p_status: 'failed',
+      p_description: 'Payment failed'
+    });
+  });
+
+  it('fails the event when no user has the customer', async () => {
+    mockRpc({ record_stripe_invoice_payment: null });
+
+    await expect(handleStripeEvent(event('invoice.payment_succeeded', invoice('subscription_create', [
+      planLine('price_professional_monthly')
+    ])))).rejects.toThrow('No user linked to Stripe customer cus_1');
+  });
+});
+
+describe('group invoices', () => {
+  it('renews the group credit pool from the plan line and ignores seat add-ons', async () => {
+    tableResults.user_groups = { data: { id: 'group-1' }, error: null };
+    mockRpc({ record_stripe_group_invoice_payment: 'group-1' });
+
+    await handleStripeEvent(event('invoice.payment_succeeded', invoice('subscription_create', [
+      { type: 'subscription', proration: false, price: { id: 'price_group_seat_monthly' }, period: PERIOD },
+      planLine('price_professional_monthly')
+    ])));
+
+    expect(rpcCalls('record_stripe_invoice_payment')).toHaveLength(0);
+    expect(rpcCalls('record_stripe_group_invoice_payment')[0]).toMatchObject({
+      p_plan_type: 'professional_monthly',
+      p_credits: GROUP_SUBSCRIPTION_CREDITS.professional_monthly
+    });
+  });
+
+  it('does not renew the pool on a proration invoice for added seats', async () => {
+    tableResults.user_groups = { data: { id: 'group-1' }, error: null };
+    mockRpc({ record_stripe_group_invoice_payment: 'group-1' });
+
+    await handleStripeEvent(event('invoice.payment_succeeded', invoice('subscription_update', [
+      { type: 'invoiceitem', proration: true, price: { id: 'price_group_seat_monthly' }, period: PERIOD }
+    ])));
+
+    expect(rpcCalls('record_stripe_group_invoice_payment')[0]).toMatchObject({ p_credits: 0 });
+  });
+});
+
+describe('handleStripeEvent', () => {
+  it('claims the event, runs its handler and marks it processed', async () => {
+    mockRpc({ record_stripe_invoice_payment: 'user-1' });
+    const paid = event('invoice.payment_succeeded', invoice('subscription_cycle', [planLine('price_professional_monthly')]));
+
+    await expect(handleStripeEvent(paid)).resolves.toBe('processed');
+
+    expect(rpc).toHaveBeenNthCalledWith(1, 'claim_stripe_event', {
+      p_event_id: paid.id,
+      p_type: 'invoice.payment_succeeded',
+      p_object_id: 'in_1',
+      p_created_at: '2026-01-01T00:00:00.000Z',
+      p_payload: paid
+    });
+    expect(rpcCalls('record_stripe_invoice_payment')[0]).toMatchObject({ p_event_id: paid.id });
+    const ledger = tableQuery('stripe_events');
+    expect(ledger?.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'processed', last_error: null }));
+  });
+
+  it('skips an event that was already processed or is being processed', async () => {
+    mockRpc({}, false);
+
+    await expect(handleStripeEvent(event('invoice.payment_succeeded', invoice('subscription_cycle', []))))
+      .resolves.toBe('duplicate');
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('throws when the event cannot be recorded', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'connection lost' } });
+
+    await expect(handleStripeEvent(event('invoice.payment_succeeded', invoice('subscription_cycle', []))))
+      .rejects.toThrow('Failed to record Stripe event evt_invoice.payment_succeeded: connection lost');
+  });
+
+  it('marks a failing event as failed and rethrows so Stripe redelivers it', async () => {
+    mockRpc({ record_stripe_invoice_payment: null });
+
+    await expect(handleStripeEvent(event('invoice.payment_succeeded', invoice('subscription_cycle', []))))
+      .rejects.toThrow('No user linked');
+
+    const ledger = tableQuery('stripe_events');
+    expect(ledger?.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'failed',
+      last_error: 'No user linked to Stripe customer cus_1',
+      processed_at: null
+    }));
+  });
+
+  it('ignores event types it does not handle', async () => {
+    mockRpc({});
+
+    await expect(handleStripeEvent(event('customer.created', {}))).resolves.toBe('ignored');
+  });
+});
+
+describe('credit pack checkout', () => {
+  const session = {
+    mode: 'payment',
+    payment_status: 'paid',
+    customer: 'cus_1',
+    customer_email: null,
+    subscription: null,
+    payment_intent: 'pi_1',
+    client_reference_id: 'user-1',
+    amount_total: 4000,
+    currency: 'usd'
+  };
+
+  it('grants the credits of every credit pack line item with its quantity', async () => {
+    stripeRequest.mockResolvedValue({ data: [{ quantity: 2, description: 'Basic', price: { id: 'price_basic' } }] });
+    mockRpc({ record_stripe_credit_purchase: true });
+
+    await expect(handleStripeEvent(event('checkout.session.completed', session))).resolves.toBe('processed');
+
+    expect(stripeRequest).toHaveBeenCalledWith('GET', '/v1/checkout/sessions/obj_1/line_items', { limit: 100 });
+    expect(rpcCalls('record_stripe_credit_purchase')[0]).toMatchObject({
+      p_event_id: 'evt_checkout.session.completed',
+      p_user_id: 'user-1',
+      p_amount: 40,
+      p_plan_type: 'one_time_basic x2',
+      p_credits: SUBSCRIPTION_CREDITS.one_time_basic * 2
+    });
+  });
+
+  it('ignores a checkout without credit pack line items', async () => {
+    stripeRequest.mockResolvedValue({ data: [{ quantity: 1, description: 'Plan', price: { id: 'price_professional_monthly' } }] });
+    mockRpc({});
+
+    await expect(handleStripeEvent(event('checkout.session.completed', session))).resolves.toBe('ignored');
+    expect(rpcCalls('record_stripe_credit_purchase')).toHaveLength(0);
+  });
+
+  it('ignores an unpaid checkout without reading its line items', async () => {
+    mockRpc({});
+
+    await expect(handleStripeEvent(event('checkout.session.completed', { ...session, payment_status: 'unpaid' })))
+      .resolves.toBe('ignored');
+    expect(stripeRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('subscription events', () => {
+  const subscription = {
+    id: 'sub_1',
+    customer: 'cus_1',
+    status: 'active',
+    items: { data: [{ price: { id: 'price_overage_professional_monthly' } }, { price: { id: 'price_professional_monthly' } }] }
+  };
+
+  it('applies the plan item, not the metered overage item', async () => {
+    mockRpc({ apply_stripe_subscription_event: 'applied' });
+
+    await expect(handleStripeEvent(event('customer.subscription.updated', subscription))).resolves.toBe('processed');
+
+    expect(rpcCalls('apply_stripe_subscription_event')).toEqual([{
+      p_customer_id: 'cus_1',
+      p_subscription_id: 'sub_1',
+      p_event_created_at: '2026-01-01T00:00:00.000Z',
+      p_subscription_type: 'professional_monthly',
+      p_subscription_status: 'active',
+      p_deleted: false,
+      p_current_state: false
+    }]);
+  });
+
+  it('applies the current subscription from Stripe for an event created in the same second', async () => {
+    rpc.mockImplementation(async (name: string, args: Record<string, unknown>) => ({
+      data: name === 'claim_stripe_event' ? true : args.p_current_state ? 'applied' : 'tie',
+      error: null
+    }));
+    stripeRequest.mockResolvedValue({ ...subscription, items: { data: [{ price: { id: 'price_business_annual' } }] } });
+
+    await expect(handleStripeEvent(event('customer.subscription.updated', subscription))).resolves.toBe('processed');
+
+    expect(stripeRequest).toHaveBeenCalledWith('GET', '/v1/subscriptions/sub_1');
+    expect(rpcCalls('apply_stripe_subscription_event')[1]).toMatchObject({
+      p_subscription_type: 'business_annual',
+      p_current_state: true,
+      p_deleted: false
+    });
+  });
+
+  it('applies a cancellation found when breaking a tie', async () => {
+    rpc.mockImplementation(async (name: string, args: Record<string, unknown>) => ({
+      data: name === 'claim_stripe_event' ? true : args.p_current_state ? 'applied' : 'tie',
+      error: null
+    }));
+    stripeRequest.mockResolvedValue({ ...subscription, status: 'canceled' });
+
+    await handleStripeEvent(event('customer.subscription.updated', subscription));
+
+    expect(rpcCalls('apply_stripe_subscription_event')[1]).toMatchObject({
+      p_subscription_status: 'cancelled',
+      p_deleted: true,
+      p_current_state: true
+    });
+  });
+
+  it('ignores an event older than the last one applied', async () => {
+    mockRpc({ apply_stripe_subscription_event: 'stale' });
+
+    await expect(handleStripeEvent(event('customer.subscription.updated', subscription))).resolves.toBe('ignored');
+    expect(stripeRequest).not.toHaveBeenCalled();
+  });
+
+  it('fails the event until the checkout linking the customer was processed', async () => {
+    mockRpc({ apply_stripe_subscription_event: 'not_found' });
+
+    await expect(handleStripeEvent(event('customer.subscription.created', subscription)))
+      .rejects.toThrow('No user linked to Stripe customer cus_1');
+  });
+});
+
+describe('retryFailedStripeEvents', () => {
+  it('re-runs claimable events and counts the outcomes', async () => {
+    const failing = event('invoice.payment_succeeded', invoice('subscription_cycle', []));
+    const taken = event('invoice.payment_failed', invoice('subscription_cycle', []));
+    tableResults.stripe_events = {
+      data: [
+        { id: failing.id, type: failing.type, object_id: 'in_1', stripe_created_at: '2026-01-01T00:00:00.000Z', payload: failing },
+        { id: taken.id, type: taken.type, object_id: 'in_1', stripe_created_at: '2026-01-01T00:00:00.000Z', payload: taken }
+      ],
+      error: null
+    };
+    // The second event was claimed by a concurrent delivery
+    rpc.mockImplementation(async (name: string, args: Record<string, unknown>) => ({
+      data: name === 'claim_stripe_event' ? args.p_event_id === failing.id : null,
+      error: null
+    }));
+
+    await expect(retryFailedStripeEvents()).resolves.toEqual({ retried: 1, processed: 0, failed: 1 });
+  });
+});
+
+describe('group subscription events', () => {
+  it('sets the group plan seats and the seat add-on quantity', async () => {
+    mockRpc({ apply_stripe_group_subscription_event: 'applied' });
+
+    await expect(handleStripeEvent(event('customer.subscription.updated', {
+      id: 'sub_group',
+      customer: 'cus_group',
+      status: 'active',
+      metadata: { billing_scope: 'group' },
+      items: { data: [{ price: { id: 'price_group_seat_monthly' }, quantity: 4 }, { price: { id: 'price_professional_monthly' } }] }
+    }))).resolves.toBe('processed');
+
+    expect(rpcCalls('apply_stripe_subscription_event')).toHaveLength(0);
+    expect(rpcCalls('apply_stripe_group_subscription_event')[0]).toMatchObject({
+      p_subscription_type: 'professional_monthly',
+      p_plan_seats: 3,
+      p_extra_seats: 4,
+      p_deleted: false
+    });
+  });
+
+  it('routes events of a customer linked to a group without group metadata', async () => {
+    tableResults.user_groups = { data: { id: 'group-1' }, error: null };
+    mockRpc({ apply_stripe_group_subscription_event: 'applied' });
+
+    await handleStripeEvent(event('customer.subscription.deleted', {
+      id: 'sub_group',
+      customer: 'cus_group',
+      status: 'canceled',
+      items: { data: [{ price: { id: 'price_professional_monthly' } }] }
+    }));
+
+    expect(rpcCalls('apply_stripe_group_subscription_event')[0]).toMatchObject({
+      p_subscription_status: 'cancelled',
+      p_extra_seats: 0,
+      p_deleted: true
+    });
+  });
+});
@@ -0,0 +1,577 @@
+/**
+ * Stripe Webhook Processing
+ *
+ * Events are recorded in the stripe_events ledger (migration 030) and processed at most once
+ * successfully: a delivery claims the event, runs its handler and marks it processed, or
+ * failed with the error so Stripe's next delivery (or the retry cron) can run it again.
+ * Handlers write through transactional RPCs keyed by the event id, so even a handler that
+ * runs twice cannot insert a payment or grant credits twice.
+ *
+ * Group subscriptions (migration 031) are billed to the group's own Stripe customer: events
+ * for a customer linked to user_groups update the group's plan, seats and credit pool instead
+ * of a user's.
+ */
+
+import { supabaseAdmin as supabase } from './supabase';
+import { stripeRequest, type StripeEvent } from './stripe';
+import { getSubscriptionTypeFromPriceId } from './stripe-config';
+import {
+  GROUP_MAX_MEMBERS,
+  GROUP_SUBSCRIPTION_CREDITS,
+  SUBSCRIPTION_CREDITS,
+  type SubscriptionType
+} from './subscriptionManager';
+import type { GroupSubscriptionType } from './types';
+
+// Retry cron gives up on an event after this many attempts
+export const MAX_STRIPE_EVENT_ATTEMPTS = 10;
+
+export type StripeEventOutcome = 'processed' | 'ignored' | 'duplicate' | 'failed';
+
+interface CheckoutSessionObject {
+  id: string;
+  mode: 'payment' | 'subscription' | 'setup';
+  payment_status: string;
+  customer: string | null;
+  customer_email: string | null;
+  customer_details?: { email?: string | null } | null;
+  subscription: string | null;
+  payment_intent: string | null;
+  client_reference_id: string | null;
+  metadata?: Record<string, string> | null;
+  amount_total: number | null;
+  currency: string | null;
+}
+
+interface SubscriptionObject {
+  id: string;
+  customer: string;
+  status: string;
+  metadata?: Record<string, string> | null;
+  items?: { data?: { price?: { id: string }; quantity?: number }[] };
+}
+
+interface InvoiceObject {
+  id: string;
+  customer: string;
+  subscription: string | null;
+  payment_intent: string | null;
+  amount_paid: number;
+  amount_due: number;
+  currency: string;
+  description: string | null;
+  billing_reason: string | null;
+  lines?: { data?: InvoiceLineObject[] };
+}
+
+interface InvoiceLineObject {
+  type?: 'subscription' | 'invoiceitem';
+  proration?: boolean;
+  price?: { id: string } | null;
+  period?: { start: number; end: number };
+}
+
+interface LineItem {
+  quantity: number | null;
+  description: string | null;
+  price: { id: string } | null;
+}
+
+// Event handled but intentionally not acted on (unknown price, unpaid session, ...)
+class IgnoredStripeEvent extends Error {}
+
+/**
+ * Record, claim and process a verified webhook event
+ * Throws when the handler fails - the route answers 500 so Stripe retries the delivery
+ *
+ * @example
+ * const outcome = await handleStripeEvent(event); // 'processed' | 'ignored' | 'duplicate'
+ */
+export async function handleStripeEvent(event: StripeEvent): Promise<StripeEventOutcome> {
+  const { data: claimed, error } = await supabase.rpc('claim_stripe_event', {
+    p_event_id: event.id,
+    p_type: event.type,
+    p_object_id: event.data.object.id ?? null,
+    p_created_at: new Date(event.created * 1000).toISOString(),
+    p_payload: event,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record Stripe event ${event.id}: ${error.message}`);
+  }
+
+  if (!claimed) {
+    console.log(`[Stripe] Event ${event.id} (${event.type}) already processed or in progress - skipping`);
+    return 'duplicate';
+  }
+
+  return processClaimedEvent(event, true);
+}
+
+/**
+ * Re-run failed events and events stuck in processing, oldest first
+ * For the retry cron - Stripe stops retrying a delivery after about three days
+ */
+export async function retryFailedStripeEvents(limit: number = 25): Promise<{
+  retried: number;
+  processed: number;
+  failed: number;
+}> {
+  const { data: events, error } = await supabase
+    .from('stripe_events')
+    .select('id, type, object_id, stripe_created_at, payload')
+    .in('status', ['failed', 'processing'])
+    .lt('attempts', MAX_STRIPE_EVENT_ATTEMPTS)
+    .order('stripe_created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  let processed = 0;
+  let failed = 0;
+
+  for (const row of events || []) {
+    const { data: claimed } = await supabase.rpc('claim_stripe_event', {
+      p_event_id: row.id,
+      p_type: row.type,
+      p_object_id: row.object_id,
+      p_created_at: row.stripe_created_at,
+      p_payload: row.payload,
+    });
+    if (!claimed) continue;
+
+    const outcome = await processClaimedEvent(row.payload as StripeEvent, false);
+    if (outcome === 'failed') {
+      failed++;
+    } else {
+      processed++;
+    }
+  }
+
+  return { retried: processed + failed, processed, failed };
+}
+
+/**
+ * Run the handler of a claimed event and store the result in the ledger
+ */
+async function processClaimedEvent(event: StripeEvent, rethrow: boolean): Promise<StripeEventOutcome> {
+  try {
+    await dispatchStripeEvent(event);
+    await markStripeEvent(event.id, 'processed');
+    return 'processed';
+  } catch (error) {
+    if (error instanceof IgnoredStripeEvent) {
+      console.log(`[Stripe] Event ${event.id} (${event.type}) ignored: ${error.message}`);
+      await markStripeEvent(event.id, 'ignored', error.message);
+      return 'ignored';
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Stripe] Event ${event.id} (${event.type}) failed:`, error);
+    await markStripeEvent(event.id, 'failed', message);
+
+    if (rethrow) throw error;
+    return 'failed';
+  }
+}
+
+async function markStripeEvent(eventId: string, status: 'processed' | 'ignored' | 'failed', message?: string): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('stripe_events')
+    .update({
+      status,
+      last_error: message ?? null,
+      processed_at: status === 'failed' ? null : now,
+      updated_at: now,
+    })
+    .eq('id', eventId);
+
+  if (error) {
+    console.error(`[Stripe] Failed to mark event ${eventId} as ${status}:`, error);
+  }
+}
+
+async function dispatchStripeEvent(event: StripeEvent): Promise<void> {
+  const createdAt = new Date(event.created * 1000).toISOString();
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutComplete(event.id, event.data.object as unknown as CheckoutSessionObject);
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      return handleSubscriptionChange(event.data.object as unknown as SubscriptionObject, createdAt, false);
+
+    case 'customer.subscription.deleted':
+      return handleSubscriptionChange(event.data.object as unknown as SubscriptionObject, createdAt, true);
+
+    case 'invoice.payment_succeeded':
+      return handleInvoice(event.id, event.data.object as unknown as InvoiceObject, 'succeeded');
+
+    case 'invoice.payment_failed':
+      return handleInvoice(event.id, event.data.object as unknown as InvoiceObject, 'failed');
+
+    default:
+      throw new IgnoredStripeEvent(`Unhandled event type: ${event.type}`);
+  }
+}
+
+/**
+ * Plan credits for a subscription_type / SUBSCRIPTION_CREDITS key, 0 when unknown
+ */
+function getPlanCredits(planType: string | null): number {
+  return planType ? SUBSCRIPTION_CREDITS[planType as SubscriptionType] ?? 0 : 0;
+}
+
+/**
+ * Subscription plan of a price: undefined for prices that are not a plan (credit packs,
+ * group seat add-ons, metered overage) or unknown
+ */
+function getPlanTypeFromPriceId(priceId: string | undefined): string | undefined {
+  const planType = priceId ? getSubscriptionTypeFromPriceId(priceId) : null;
+  return planType && !['one_time_', 'group_seat_', 'overage_'].some(prefix => planType.startsWith(prefix))
+    ? planType
+    : undefined;
+}
+
+function isGroupSeatPrice(priceId: string | undefined): boolean {
+  return !!priceId && !!getSubscriptionTypeFromPriceId(priceId)?.startsWith('group_seat_');
+}
+
+/**
+ * Whether the Stripe customer pays for a group rather than a user
+ */
+async function isGroupCustomer(customerId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_groups')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Find the user a checkout belongs to: the user who started it (client_reference_id),
+ * the linked Stripe customer, or the customer's email for sessions created elsewhere
+ */
+async function findCheckoutUser(session: CheckoutSessionObject): Promise<string | null> {
+  const userId = session.client_reference_id || session.metadata?.user_id;
+  if (userId) return userId;
+
+  if (session.customer) {
+    const { data } = await supabase.from('users').select('id').eq('stripe_customer_id', session.customer).maybeSingle();
+    if (data) return data.id;
+  }
+
+  const email = session.customer_email || session.customer_details?.email;
+  if (email) {
+    const { data } = await supabase.from('users').select('id').eq('email', email).maybeSingle();
+    if (data) return data.id;
+  }
+
+  return null;
+}
+
+/**
+ * Completed checkout: link the Stripe customer and subscription, and for one-time payments
+ * grant the credits of every credit pack line item
+ */
+async function handleCheckoutComplete(eventId: string, session: CheckoutSessionObject): Promise<void> {
+  if (session.metadata?.billing_scope === 'group') {
+    return handleGroupCheckoutComplete(session);
+  }
+
+  const userId = await findCheckoutUser(session);
+  console.log('Checkout completed:', { sessionId: session.id, mode: session.mode, userId });
+
+  if (!userId) {
+    // Retried - the customer may be linked by a later event
+    throw new Error(`No user found for checkout session ${session.id}`);
+  }
+
+  if (session.mode === 'subscription') {
+    // Plan and status follow from customer.subscription.* and credits from the first invoice
+    const { error } = await supabase
+      .from('users')
+      .update({
+        ...(session.customer ? { stripe_customer_id: session.customer } : {}),
+        ...(session.subscription ? { stripe_subscription_id: session.subscription } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId);
+
+    if (error) throw error;
+    return;
+  }
+
+  if (session.mode !== 'payment' || session.payment_status !== 'paid') {
+    throw new IgnoredStripeEvent(`Checkout session ${session.id} is ${session.mode}/${session.payment_status}`);
+  }
+
+  const lineItems = await stripeRequest<{ data: LineItem[] }>(
+    'GET',
+    `/v1/checkout/sessions/${session.id}/line_items`,
+    { limit: 100 }
+  );
+
+  const packs = lineItems.data
+    .map(item => {
+      const planType = item.price ? getSubscriptionTypeFromPriceId(item.price.id) : null;
+      return { planType, quantity: item.quantity ?? 1 };
+    })
+    .filter((item): item is { planType: string; quantity: number } => !!item.planType?.startsWith('one_time_'));
+
+  const credits = packs.reduce((sum, pack) => sum + getPlanCredits(pack.planType) * pack.quantity, 0);
+  if (credits <= 0) {
+    throw new IgnoredStripeEvent(`Checkout session ${session.id} has no credit pack line items`);
+  }
+
+  const planType = packs.map(pack => pack.quantity > 1 ? `${pack.planType} x${pack.quantity}` : pack.planType).join(', ');
+  const { data: recorded, error } = await supabase.rpc('record_stripe_credit_purchase', {
+    p_event_id: eventId,
+    p_user_id: userId,
+    p_customer_id: session.customer,
+    p_payment_id: session.payment_intent,
+    p_amount: (session.amount_total ?? 0) / 100,
+    p_currency: session.currency || 'usd',
+    p_plan_type: planType,
+    p_credits: credits,
+    p_description: `Credit pack purchase: ${planType} (${credits} credits)`,
+  });
+
+  if (error) throw error;
+  console.log(recorded
+    ? `[Stripe] Added ${credits} credits to user ${userId} for ${planType}`
+    : `[Stripe] Credit purchase for event ${eventId} was already recorded`);
+}
+
+/**
+ * Completed group checkout: link the group's Stripe customer and subscription
+ * Plan, seats and credits follow from the subscription and invoice events
+ */
+async function handleGroupCheckoutComplete(session: CheckoutSessionObject): Promise<void> {
+  const groupId = session.metadata?.group_id;
+  console.log('Group checkout completed:', { sessionId: session.id, groupId });
+
+  if (!groupId || session.mode !== 'subscription') {
+    throw new IgnoredStripeEvent(`Group checkout session ${session.id} has no group subscription`);
+  }
+
+  const { data: group, error } = await supabase
+    .from('user_groups')
+    .update({
+      ...(session.customer ? { stripe_customer_id: session.customer } : {}),
+      ...(session.subscription ? { stripe_subscription_id: session.subscription } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', groupId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!group) {
+    throw new IgnoredStripeEvent(`Group ${groupId} of checkout session ${session.id} no longer exists`);
+  }
+}
+
+function getSubscriptionStatus(subscription: SubscriptionObject, deleted: boolean): string {
+  return deleted || subscription.status === 'canceled'
+    ? 'cancelled'
+    : ['active', 'trialing'].includes(subscription.status) ? 'active' : 'inactive';
+}
+
+/**
+ * Apply a subscription's plan and status to its user (apply_stripe_subscription_event)
+ * @returns RPC result: 'applied', 'stale', 'tie', 'other_subscription' or 'not_found'
+ */
+async function applySubscriptionEvent(
+  subscription: SubscriptionObject,
+  createdAt: string,
+  deleted: boolean,
+  currentState: boolean
+): Promise<string> {
+  // The plan item - the subscription may also carry the metered overage price
+  const planItem = subscription.items?.data?.find(item => getPlanTypeFromPriceId(item.price?.id));
+  const subscriptionType = getPlanTypeFromPriceId(planItem?.price?.id) ?? null;
+  const status = getSubscriptionStatus(subscription, deleted);
+
+  console.log('Subscription changed:', { subscriptionId: subscription.id, status: subscription.status, subscriptionType, deleted, currentState });
+
+  const { data: result, error } = await supabase.rpc('apply_stripe_subscription_event', {
+    p_customer_id: subscription.customer,
+    p_subscription_id: subscription.id,
+    p_event_created_at: createdAt,
+    p_subscription_type: subscriptionType,
+    p_subscription_status: status,
+    p_deleted: deleted,
+    p_current_state: currentState,
+  });
+
+  if (error) throw error;
+  return result as string;
+}
+
+/**
+ * Subscription created / updated / deleted - applied unless a newer event already was
+ * Events created in the same second as the last applied one cannot be ordered, so the
+ * subscription's current state is fetched from Stripe and applied instead
+ */
+async function handleSubscriptionChange(subscription: SubscriptionObject, createdAt: string, deleted: boolean): Promise<void> {
+  if (subscription.metadata?.billing_scope === 'group' || await isGroupCustomer(subscription.customer)) {
+    return handleGroupSubscriptionChange(subscription, createdAt, deleted);
+  }
+
+  let result = await applySubscriptionEvent(subscription, createdAt, deleted, false);
+
+  if (result === 'tie') {
+    const current = await stripeRequest<SubscriptionObject>('GET', `/v1/subscriptions/${subscription.id}`);
+    result = await applySubscriptionEvent(current, createdAt, current.status === 'canceled', true);
+  }
+
+  if (result === 'not_found') {
+    // The checkout that links the customer may not have been processed yet
+    throw new Error(`No user linked to Stripe customer ${subscription.customer}`);
+  }
+  if (result !== 'applied') {
+    throw new IgnoredStripeEvent(`Subscription ${subscription.id} event not applied: ${result}`);
+  }
+}
+
+/**
+ * Group subscription change: plan, status and seats (plan members + seat add-on quantity)
+ */
+async function handleGroupSubscriptionChange(subscription: SubscriptionObject, createdAt: string, deleted: boolean): Promise<void> {
+  const items = subscription.items?.data ?? [];
+  const planItem = items.find(item => getPlanTypeFromPriceId(item.price?.id));
+  const seatItem = items.find(item => isGroupSeatPrice(item.price?.id));
+  const planType = getPlanTypeFromPriceId(planItem?.price?.id) as GroupSubscriptionType | undefined;
+  const subscriptionType = planType && planType in GROUP_MAX_MEMBERS ? planType : null;
+  const extraSeats = seatItem?.quantity ?? 0;
+  const status = getSubscriptionStatus(subscription, deleted);
+
+  console.log('Group subscription changed:', { subscriptionId: subscription.id, status: subscription.status, subscriptionType, extraSeats, deleted });
+
+  const { data: result, error } = await supabase.rpc('apply_stripe_group_subscription_event', {
+    p_customer_id: subscription.customer,
+    p_subscription_id: subscription.id,
+    p_event_created_at: createdAt,
+    p_subscription_type: subscriptionType,
+    p_subscription_status: status,
+    p_plan_seats: subscriptionType ? GROUP_MAX_MEMBERS[subscriptionType] : null,
+    p_extra_seats: extraSeats,
+    p_deleted: deleted,
+  });
+
+  if (error) throw error;
+
+  if (result === 'not_found') {
+    // The group checkout that links the customer may not have been processed yet
+    throw new Error(`No group linked to Stripe customer ${subscription.customer}`);
+  }
+  if (result !== 'applied') {
+    throw new IgnoredStripeEvent(`Group subscription ${subscription.id} event not applied: ${result}`);
+  }
+}
+
+/**
+ * Plan line of a subscription invoice: the regular subscription line of the plan price
+ * Skips the overage line billed for the previous period and the proration lines a plan switch
+ * adds for the old and new plan
+ */
+function getInvoicePlanLine(invoice: InvoiceObject): InvoiceLineObject | undefined {
+  return invoice.lines?.data?.find(item =>
+    item.type === 'subscription' && item.proration === false && getPlanTypeFromPriceId(item.price?.id)
+  );
+}
+
+/**
+ * Only invoices that start a subscription or a new billing period renew plan credits -
+ * proration invoices of a plan switch (subscription_update) and manual invoices record the
+ * payment only
+ */
+function renewsPlanCredits(invoice: InvoiceObject): boolean {
+  return !!invoice.subscription && ['subscription_create', 'subscription_cycle'].includes(invoice.billing_reason ?? '');
+}
+
+function toDate(seconds?: number): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString().split('T')[0] : null;
+}
+
+/**
+ * Subscription invoice paid or failed - a paid invoice renews the plan's credits
+ */
+async function handleInvoice(eventId: string, invoice: InvoiceObject, status: 'succeeded' | 'failed'): Promise<void> {
+  if (await isGroupCustomer(invoice.customer)) {
+    return handleGroupInvoice(eventId, invoice, status);
+  }
+
+  const line = getInvoicePlanLine(invoice);
+  const planType = getPlanTypeFromPriceId(line?.price?.id) ?? null;
+  const credits = renewsPlanCredits(invoice) ? getPlanCredits(planType) : 0;
+
+  console.log(`Payment ${status}:`, { invoiceId: invoice.id, customerId: invoice.customer, planType, credits });
+
+  const { data: userId, error } = await supabase.rpc('record_stripe_invoice_payment', {
+    p_event_id: eventId,
+    p_customer_id: invoice.customer,
+    p_subscription_id: invoice.subscription,
+    p_payment_id: invoice.payment_intent,
+    p_invoice_id: invoice.id,
+    p_amount: (status === 'succeeded' ? invoice.amount_paid : invoice.amount_due) / 100,
+    p_currency: invoice.currency,
+    p_status: status,
+    p_plan_type: planType,
+    p_credits: credits,
+    p_period_start: toDate(line?.period?.start),
+    p_period_end: toDate(line?.period?.end),
+    p_description: status === 'succeeded' ? invoice.description || 'Subscription payment' : 'Payment failed',
+  });
+
+  if (error) throw error;
+
+  if (!userId) {
+    throw new Error(`No user linked to Stripe customer ${invoice.customer}`);
+  }
+}
+
+/**
+ * Group subscription invoice paid or failed - a paid invoice renews the group's credit pool
+ * Seat add-on lines are billed but carry no credits
+ */
+async function handleGroupInvoice(eventId: string, invoice: InvoiceObject, status: 'succeeded' | 'failed'): Promise<void> {
+  const line = getInvoicePlanLine(invoice);
+  const planType = getPlanTypeFromPriceId(line?.price?.id) ?? null;
+  const credits = renewsPlanCredits(invoice) && planType
+    ? GROUP_SUBSCRIPTION_CREDITS[planType as GroupSubscriptionType] ?? 0
+    : 0;
+
+  console.log(`Group payment ${status}:`, { invoiceId: invoice.id, customerId: invoice.customer, planType, credits });
+
+  const { data: groupId, error } = await supabase.rpc('record_stripe_group_invoice_payment', {
+    p_event_id: eventId,
+    p_customer_id: invoice.customer,
+    p_subscription_id: invoice.subscription,
+    p_payment_id: invoice.payment_intent,
+    p_invoice_id: invoice.id,
+    p_amount: (status === 'succeeded' ? invoice.amount_paid : invoice.amount_due) / 100,
+    p_currency: invoice.currency,
+    p_status: status,
+    p_plan_type: planType,
+    p_credits: credits,
+    p_period_start: toDate(line?.period?.start),
+    p_period_end: toDate(line?.period?.end),
+    p_description: status === 'succeeded' ? invoice.description || 'Group subscription payment' : 'Payment failed',
+  });
+
+  if (error) throw error;
+
+  if (!groupId) {
+    throw new Error(`No group linked to Stripe customer ${invoice.customer}`);
+  }
+}
@@ -0,0 +1,183 @@
+import { createHmac } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StripeApiError, constructStripeEvent, encodeStripeParams, stripeRequest } from './stripe';
+
+const SECRET = 'whsec_test';
+const PAYLOAD = JSON.stringify({ id: 'evt_1', type: 'invoice.payment_succeeded', created: 1767225600, data: { object: { id: 'in_1' } } });
+
+function sign(payload: string, timestamp: number, secret: string = SECRET): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+describe('constructStripeEvent', () => {
+  it('parses an event with a valid signature', () => {
+    const timestamp = now();
+
+    expect(constructStripeEvent(PAYLOAD, `t=${timestamp},v1=${sign(PAYLOAD, timestamp)}`, SECRET)).toMatchObject({
+      id: 'evt_1',
+      type: 'invoice.payment_succeeded'
+    });
+  });
+
+  it('accepts any matching v1 signature during secret rotation', () => {
+    const timestamp = now();
+    const header = `t=${timestamp},v1=${sign(PAYLOAD, timestamp, 'whsec_old')},v1=${sign(PAYLOAD, timestamp)}`;
+
+    expect(constructStripeEvent(PAYLOAD, header, SECRET).id).toBe('evt_1');
+  });
+
+  it('rejects a tampered payload', () => {
+    const timestamp = now();
+    const header = `t=${timestamp},v1=${sign(PAYLOAD, timestamp)}`;
+
+    expect(() => constructStripeEvent(PAYLOAD.replace('in_1', 'in_2'), header, SECRET))
+      .toThrow('No signature matches the expected signature for the payload');
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const timestamp = now();
+
+    expect(() => constructStripeEvent(PAYLOAD, `t=${timestamp},v1=${sign(PAYLOAD, timestamp, 'whsec_other')}`, SECRET))
+      .toThrow(StripeApiError);
+  });
+
+  it('rejects a signed timestamp outside the 300 second tolerance', () => {
+    const timestamp = now() - 301;
+
+    expect(() => constructStripeEvent(PAYLOAD, `t=${timestamp},v1=${sign(PAYLOAD, timestamp)}`, SECRET))
+      .toThrow('Webhook timestamp is outside the tolerance zone');
+  });
+
+  it('accepts a signed timestamp inside the tolerance', () => {
+    const timestamp = now() - 290;
+
+    expect(constructStripeEvent(PAYLOAD, `t=${timestamp},v1=${sign(PAYLOAD, timestamp)}`, SECRET).id).toBe('evt_1');
+  });
+
+  it('rejects a header without a timestamp or v1 signature', () => {
+    for (const header of ['', `v1=${sign(PAYLOAD, now())}`, `t=${now()}`, `t=${now()},v0=abc`]) {
+      expect(() => constructStripeEvent(PAYLOAD, header, SECRET)).toThrow('Unable to parse Stripe-Signature header');
+    }
+  });
+
+  it('reports verification failures as 400 signature errors', () => {
+    try {
+      constructStripeEvent(PAYLOAD, `t=${now()},v1=${'0'.repeat(64)}`, SECRET);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({ status: 400, type: 'signature_verification_error' });
+    }
+  });
+});
+
+describe('encodeStripeParams', () => {
+  it('encodes nested objects and arrays in bracket notation', () => {
+    const encoded = encodeStripeParams({
+      mode: 'subscription',
+      line_items: [{ price: 'price_1', quantity: 1 }, { price: 'price_2', quantity: 3 }],
+      metadata: { user_id: 'user-1' },
+      subscription_data: { metadata: { billing_scope: 'group' } }
+    });
+
+    expect(decodeURIComponent(encoded).split('&')).toEqual([
+      'mode=subscription',
+      'line_items[0][price]=price_1',
+      'line_items[0][quantity]=1',
+      'line_items[1][price]=price_2',
+      'line_items[1][quantity]=3',
+      'metadata[user_id]=user-1',
+      'subscription_data[metadata][billing_scope]=group'
+    ]);
+  });
+
+  it('encodes arrays of scalars by index', () => {
+    expect(decodeURIComponent(encodeStripeParams({ expand: ['subscription', 'customer'] })))
+      .toBe('expand[0]=subscription&expand[1]=customer');
+  });
+
+  it('skips undefined, sends null as empty and escapes reserved characters', () => {
+    expect(encodeStripeParams({ a: undefined, b: null, c: true, email: 'a+b@example.com', d: 'x&y=z' }))
+      .toBe('b=&c=true&email=a%2Bb%40example.com&d=x%26y%3Dz');
+  });
+});
+
+describe('stripeRequest', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_1');
+    vi.stubEnv('STRIPE_API_BASE', 'http://localhost:12111/');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  function respond(status: number, body: unknown) {
+    fetchMock.mockResolvedValue({ ok: status < 400, status, json: async () => body });
+  }
+
+  it('sends POST params as a form body with the idempotency key', async () => {
+    respond(200, { id: 'cus_1' });
+
+    await expect(stripeRequest('POST', '/v1/customers', { email: 'a@example.com' }, 'key-1')).resolves.toEqual({ id: 'cus_1' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:12111/v1/customers');
+    expect(init).toMatchObject({
+      method: 'POST',
+      body: 'email=a%40example.com',
+      headers: {
+        Authorization: 'Bearer sk_test_1',
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Idempotency-Key': 'key-1'
+      }
+    });
+  });
+
+  it('sends GET params as a query string', async () => {
+    respond(200, { data: [] });
+
+    await stripeRequest('GET', '/v1/checkout/sessions/cs_1/line_items', { limit: 100 });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:12111/v1/checkout/sessions/cs_1/line_items?limit=100');
+    expect(init.body).toBeUndefined();
+  });
+
+  it("maps Stripe's error to StripeApiError with status, type and code", async () => {
+    respond(402, { error: { message: 'Your card was declined.', type: 'card_error', code: 'card_declined' } });
+
+    await expect(stripeRequest('POST', '/v1/subscriptions', {})).rejects.toMatchObject({
+      name: 'StripeApiError',
+      message: 'Your card was declined.',
+      status: 402,
+      type: 'card_error',
+      code: 'card_declined'
+    });
+  });
+
+  it('names the request when the error response has no body', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 502, json: async () => { throw new SyntaxError('Unexpected token'); } });
+
+    await expect(stripeRequest('GET', '/v1/subscriptions/sub_1')).rejects.toMatchObject({
+      message: 'Stripe request failed: GET /v1/subscriptions/sub_1 (502)',
+      status: 502,
+      type: undefined
+    });
+  });
+
+  it('fails with 503 before calling Stripe when no secret key is configured', async () => {
+    vi.stubEnv('STRIPE_SECRET_KEY', '');
+
+    await expect(stripeRequest('GET', '/v1/prices')).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
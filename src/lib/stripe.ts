@@ -1,16 +1,25 @@
 /**
  * Stripe Client Configuration
  *
- * This file will be used to initialize the Stripe client once you have your API keys.
+ * Minimal client for the Stripe REST API (form-encoded requests, JSON responses) used by
+ * the checkout, billing portal and webhook routes.
  *
  * Required Environment Variables (add to Vercel when ready):
  * - STRIPE_SECRET_KEY: Your Stripe secret key (sk_live_xxx or sk_test_xxx)
  * - STRIPE_WEBHOOK_SECRET: Your Stripe webhook signing secret (whsec_xxx)
  * - NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY: Your Stripe publishable key (pk_live_xxx or pk_test_xxx)
+ *
+ * Optional:
+ * - STRIPE_API_BASE: API host, defaults to https://api.stripe.com. Point it at a local
+ *   stripe-mock (http://localhost:12111) to exercise the billing routes without a Stripe account
  */
 
-// Uncomment and use once Stripe is set up:
-// import Stripe from 'stripe';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const STRIPE_API_VERSION = '2024-11-20.acacia';
+
+// Webhook signatures older than this are rejected (replay protection), as in Stripe's libraries
+const WEBHOOK_TOLERANCE_SECONDS = 300;
 
 // Check if Stripe keys are configured
 export function isStripeConfigured(): boolean {
@@ -21,32 +30,159 @@ export function isStripeConfigured(): boolean {
   );
 }
 
+// Checkout and the billing portal only need the secret key
+export function isStripeApiConfigured(): boolean {
+  return !!process.env.STRIPE_SECRET_KEY;
+}
+
 // Get Stripe secret key with validation
 function getStripeSecretKey(): string {
   const key = process.env.STRIPE_SECRET_KEY;
 
   if (!key) {
-    // Return placeholder during build or if not configured
-    console.warn('STRIPE_SECRET_KEY not configured - Stripe features disabled');
-    return 'stripe-not-configured';
+    throw new StripeApiError('STRIPE_SECRET_KEY not configured - Stripe features disabled', 503);
   }
 
   return key;
 }
 
-// Stripe client instance (null if not configured)
-// Uncomment when you install stripe package and have API keys:
-/*
-export const stripe = isStripeConfigured()
-  ? new Stripe(getStripeSecretKey(), {
-      apiVersion: '2024-11-20.acacia',
-      typescript: true,
-    })
-  : null;
-*/
-
-// Placeholder until Stripe is configured
-export const stripe = null;
+function getStripeApiBase(): string {
+  return (process.env.STRIPE_API_BASE || 'https://api.stripe.com').replace(/\/+$/, '');
+}
+
+/**
+ * Error returned by the Stripe API (or raised before the request when Stripe is not configured)
+ */
+export class StripeApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly type?: string,
+    readonly code?: string
+  ) {
+    super(message);
+    this.name = 'StripeApiError';
+  }
+}
+
+export type StripeParams = { [key: string]: StripeParamValue };
+type StripeParamValue = string | number | boolean | null | undefined | StripeParams | StripeParamValue[];
+
+/**
+ * Encode parameters the way Stripe expects them: nested objects and arrays in bracket
+ * notation (line_items[0][price]=price_123, metadata[user_id]=...). Undefined values are
+ * skipped; null is sent as an empty string, which Stripe treats as "unset"
+ *
+ * @example
+ * encodeStripeParams({ mode: 'payment', line_items: [{ price: 'price_1', quantity: 1 }] })
+ * // 'mode=payment&line_items%5B0%5D%5Bprice%5D=price_1&line_items%5B0%5D%5Bquantity%5D=1'
+ */
+export function encodeStripeParams(params: StripeParams): string {
+  const pairs: string[] = [];
+
+  const append = (key: string, value: StripeParamValue) => {
+    if (value === undefined) return;
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => append(`${key}[${index}]`, item));
+    } else if (value !== null && typeof value === 'object') {
+      Object.entries(value).forEach(([childKey, child]) => append(`${key}[${childKey}]`, child));
+    } else {
+      pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(value === null ? '' : String(value))}`);
+    }
+  };
+
+  Object.entries(params).forEach(([key, value]) => append(key, value));
+  return pairs.join('&');
+}
+
+/**
+ * Call the Stripe API
+ *
+ * @param method - HTTP method
+ * @param path - API path, e.g. /v1/checkout/sessions
+ * @param params - Form parameters (query string for GET)
+ * @param idempotencyKey - Sent as Idempotency-Key so retried POSTs do not create duplicates
+ * @throws StripeApiError with Stripe's message, HTTP status, error type and code
+ *
+ * @example
+ * const customer = await stripeRequest<{ id: string }>('POST', '/v1/customers', { email });
+ */
+export async function stripeRequest<T>(
+  method: 'GET' | 'POST' | 'DELETE',
+  path: string,
+  params: StripeParams = {},
+  idempotencyKey?: string
+): Promise<T> {
+  const encoded = encodeStripeParams(params);
+  const url = `${getStripeApiBase()}${path}${method === 'GET' && encoded ? `?${encoded}` : ''}`;
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${getStripeSecretKey()}`,
+      'Stripe-Version': STRIPE_API_VERSION,
+      ...(method !== 'GET' ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+    },
+    body: method !== 'GET' && encoded ? encoded : undefined,
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const error = body?.error;
+    throw new StripeApiError(
+      error?.message || `Stripe request failed: ${method} ${path} (${response.status})`,
+      response.status,
+      error?.type,
+      error?.code
+    );
+  }
+
+  return body as T;
+}
+
+export interface StripeEvent<T = Record<string, unknown>> {
+  id: string;
+  type: string;
+  created: number;   // Unix seconds
+  livemode: boolean;
+  data: { object: T & { id?: string } };
+}
+
+/**
+ * Verify a webhook's Stripe-Signature header and parse the event
+ * The header carries a timestamp and one or more v1 HMAC-SHA256 signatures of "<timestamp>.<body>"
+ *
+ * @param payload - Raw request body, exactly as received
+ * @param signatureHeader - Stripe-Signature header (t=...,v1=...)
+ * @param secret - Endpoint signing secret (whsec_...)
+ * @throws StripeApiError (400) when the signature is missing, does not match or is too old
+ */
+export function constructStripeEvent(payload: string, signatureHeader: string, secret: string): StripeEvent {
+  const parts = signatureHeader.split(',').map(part => part.split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) {
+    throw new StripeApiError('Unable to parse Stripe-Signature header', 400, 'signature_verification_error');
+  }
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest();
+  const matches = signatures.some(signature =>
+    /^[0-9a-f]{64}$/i.test(signature) && timingSafeEqual(Buffer.from(signature, 'hex'), expected)
+  );
+
+  if (!matches) {
+    throw new StripeApiError('No signature matches the expected signature for the payload', 400, 'signature_verification_error');
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new StripeApiError('Webhook timestamp is outside the tolerance zone', 400, 'signature_verification_error');
+  }
+
+  return JSON.parse(payload) as StripeEvent;
+}
 
 // Stripe product/price IDs for your plans
 // Update these with your actual Stripe product IDs when created
@@ -179,7 +179,7 @@ export async function resetMonthlyCredits(): Promise<{
     // Get users whose billing cycle has ended
     const { data: usersToReset, error: fetchError } = await supabase
       .from('users')
-      .select('id, email, subscription_type, billing_cycle_end')
+      .select('id, email, subscription_type, billing_cycle_end, credits, purchased_credits')
       .eq('subscription_status', 'active')
       .lte('billing_cycle_end', new Date().toISOString())
       .in('subscription_type', [
@@ -208,6 +208,8 @@ export async function resetMonthlyCredits(): Promise<{
     for (const user of usersToReset) {
       const credits =
         SUBSCRIPTION_CREDITS[user.subscription_type as SubscriptionType] || 0;
+      // Purchased credits are kept; plan credits are spent first, so unused ones are replaced
+      const purchasedCredits = Math.min(Math.max(user.credits ?? 0, 0), Math.max(user.purchased_credits ?? 0, 0));
 
       // Calculate new billing cycle
       const newCycleStart = new Date();
@@ -223,7 +225,8 @@ export async function resetMonthlyCredits(): Promise<{
       const { error: updateError } = await supabase
         .from('users')
         .update({
-          credits: credits,
+          credits: purchasedCredits + credits,
+          purchased_credits: purchasedCredits,
           monthly_usage: 0,
           billing_cycle_start: newCycleStart.toISOString(),
           billing_cycle_end: newCycleEnd.toISOString(),
@@ -522,7 +525,14 @@ export async function assignGroupSubscriptionPlan(
 }> {
   try {
     const credits = GROUP_SUBSCRIPTION_CREDITS[planType] || 0;
-    const maxMembers = GROUP_MAX_MEMBERS[planType] || 3;
+
+    // Seats bought as a Stripe add-on stay on top of the plan's members
+    const { data: group } = await supabase
+      .from('user_groups')
+      .select('extra_seats')
+      .eq('id', groupId)
+      .single();
+    const maxMembers = (GROUP_MAX_MEMBERS[planType] || 3) + (group?.extra_seats || 0);
 
     console.log('[assignGroupSubscriptionPlan] Assigning plan:', {
       groupId,
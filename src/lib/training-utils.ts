@@ -13,6 +13,7 @@ import type {
   VerificationStatus,
   DatasetSplit
 } from './types';
+import { summarizeFieldConfidence } from './confidence';
 
 // Re-export supabase for backward compatibility
 export { supabase };
@@ -371,9 +372,15 @@ export async function autoAssignDatasetSplit(
 
 /**
  * Calculate extraction confidence score
- * Based on data completeness and quality indicators
+ * Aggregates the field-level confidences returned with the extraction; falls back to
+ * a completeness heuristic for extractions made before field confidence was recorded
  */
 export function calculateConfidenceScore(extraction: ExtractedData): number {
+  const fieldScore = summarizeFieldConfidence(extraction);
+  if (fieldScore !== null) {
+    return fieldScore;
+  }
+
   let score = 0.5; // Base score
 
   // Check metadata completeness
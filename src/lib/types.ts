@@ -37,8 +37,13 @@ export type DocumentType =
   // Legacy types for backward compatibility
   | 'comparable_sales'
   | 'financial_statement'
+  // Composite result for mixed-content PDFs split into per-document segments
+  | 'document_package'
   | 'unknown';
 
+// Document type chosen on upload - 'auto' asks the server to classify before extraction
+export type DocumentTypeSelection = DocumentType | 'auto';
+
 export interface ExtractedDataMetadata {
   // Document metadata (extracted from PDF content - can be null if not found):
   propertyName?: string | null;
@@ -72,7 +77,78 @@ export interface ExtractedDataMetadata {
 export interface ExtractedData {
   documentType: DocumentType;
   metadata: ExtractedDataMetadata;
-  data: RentRollData | OperatingBudgetData | BrokerSalesComparablesData | BrokerLeaseComparablesData | BrokerListingData | OfferingMemoData | LeaseData | FinancialStatementsData | ComparableData | FinancialData;
+  data: RentRollData | OperatingBudgetData | BrokerSalesComparablesData | BrokerLeaseComparablesData | BrokerListingData | OfferingMemoData | LeaseData | FinancialStatementsData | ComparableData | FinancialData | DocumentPackageData;
+  completeness?: ExtractionCompleteness;
+  schemaValidation?: ExtractionSchemaValidation;
+  reconciliation?: ReconciliationResult;
+  citations?: Record<string, FieldCitation>; // Keyed by dot-notation path into `data`: per table row ("tenants.3") and per value outside tables ("summary.totalRent")
+  fieldConfidence?: Record<string, number>; // 0-1 per table row ("tenants.3"), per value outside tables and per doubtful cell ("tenants.3.baseRent")
+}
+
+// Where an extracted value was found in the source PDF
+export interface FieldCitation {
+  page: number;             // 1-based page number in the PDF
+  snippet?: string | null;  // Source text the value was read from
+}
+
+export interface ExtractionSchemaIssue {
+  path: string;    // Dot-notation path within `data`, e.g. "tenants.3.baseRent"
+  message: string;
+}
+
+// Result of validating `data` against the strict schema for its document type
+export interface ExtractionSchemaValidation {
+  isValid: boolean;                         // Final data conforms to the schema
+  repairAttempted: boolean;
+  failedFields: ExtractionSchemaIssue[];    // Issues in the original extraction output
+  remainingIssues: ExtractionSchemaIssue[]; // Issues still present after repair
+}
+
+// Whether the model output was cut off at max_tokens in any extraction call
+export interface ExtractionCompleteness {
+  isComplete: boolean;
+  chunkCount: number;           // 1 for single-call extraction
+  continuationCalls: number;    // Extra calls made after a max_tokens stop
+  truncatedChunks: {            // Page windows whose output was still cut off
+    startPage: number;
+    endPage: number;
+  }[];
+}
+
+export type DiscrepancySeverity = 'warning' | 'error';
+
+// Arithmetic cross-check that failed (e.g. tenant rents vs. summary.totalRent)
+export interface ReconciliationDiscrepancy {
+  check: string;       // Human-readable check name
+  field: string;       // Dot-notation path of the reported value
+  expected: number;    // Value derived from the component figures
+  actual: number;      // Value reported in the document
+  difference: number;  // actual - expected
+  severity: DiscrepancySeverity;
+  message: string;
+}
+
+export interface ReconciliationResult {
+  checksRun: number;   // Checks with both sides present
+  discrepancies: ReconciliationDiscrepancy[];
+}
+
+// Page range of a single document detected inside a mixed-content PDF
+export interface DocumentSegmentBoundary {
+  documentType: DocumentType;
+  startPage: number; // 1-based, inclusive
+  endPage: number;   // 1-based, inclusive
+  title?: string | null;
+  confidence?: number;
+}
+
+export interface DocumentSegment extends DocumentSegmentBoundary {
+  extractedData: ExtractedData;
+}
+
+export interface DocumentPackageData {
+  totalPages: number;
+  segments: DocumentSegment[];
 }
 
 export interface RentRollData {
@@ -460,10 +536,19 @@ export interface ProcessingSession {
   updatedAt: string;
 }
 
+// File formats produced by /api/export (xlsx and ods are the formatted workbook, the rest are data exports)
+export type ExportFormat = 'xlsx' | 'ods' | 'csv' | 'json' | 'parquet';
+
+// xlsx styling profile - 'sheets' avoids merged cells and pane settings Google Sheets / LibreOffice mishandle
+export type ExportProfile = 'excel' | 'sheets';
+
 export interface ExcelExportOptions {
+  format?: ExportFormat;
+  profile?: ExportProfile;
   includeRawData: boolean;
   includeCharts: boolean;
   formatForPrint: boolean;
+  marketRentPsf?: number; // Annual market rent $/SF - adds mark-to-market to rent roll analytics
   documentType: DocumentType;
 }
 
@@ -483,12 +568,72 @@ export interface UploadResponse {
 
 export interface ClassificationResponse {
   classification: DocumentClassification;
-  extractionPrompt: string;
+  pagesAnalyzed: number;
+  confidenceThreshold: number;
+  autoAccepted: boolean; // true when confidence meets the threshold and extraction can proceed
 }
 
 export interface ExtractionResponse {
   extractedData: ExtractedData;
   processingTime: number;
+  creditsUsed?: number;
+  remainingCredits?: number;
+  classification?: ClassificationResponse; // Present when documentType was 'auto'
+}
+
+// Asynchronous extraction jobs (stored on user_documents)
+export type ExtractionJobStatus = 'processing' | 'completed' | 'failed';
+
+export type ExtractionJobStage = 'queued' | 'extracting' | 'validating' | 'saving' | 'completed' | 'failed';
+
+// Reports progress inside a long extraction (page windows, package segments); fraction is 0-1
+export type ExtractionProgressCallback = (message: string, fraction: number) => void;
+
+// A rent roll page window already extracted by Claude, saved so an interrupted job can resume
+export interface ExtractionWindowCheckpoint {
+  startPage: number;
+  endPage: number;
+  text: string;              // Raw model output for the window
+  truncated: boolean;
+  continuationCalls: number;
+}
+
+// Windows saved by an earlier attempt are reused; new windows are reported as they finish
+export interface ExtractionCheckpoint {
+  windows: ExtractionWindowCheckpoint[];
+  onWindowComplete: (window: ExtractionWindowCheckpoint) => void;
+}
+
+export interface ExtractionJobResult {
+  processingTime: number;
+  creditsUsed: number;
+  remainingCredits?: number;
+  partialSuccess: boolean;
+  warnings: string[];
+}
+
+export interface ExtractionJob {
+  id: string;
+  status: ExtractionJobStatus;
+  stage: ExtractionJobStage;
+  progress: number;          // 0-100
+  message?: string | null;   // Detail for the current stage, e.g. "Pages 21-40 of 60"
+  fileName: string;
+  filePath: string;
+  documentType: DocumentType;
+  pageCount: number;
+  error?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string | null;
+  extractedData?: ExtractedData; // Present once the job has completed
+  result?: ExtractionJobResult;
+}
+
+export interface ExtractionJobSubmission {
+  jobId: string;
+  status: ExtractionJobStatus;
+  classification?: ClassificationResponse; // Present when documentType was 'auto'
 }
 
 export interface ExportResponse {
@@ -985,6 +1130,11 @@ export interface UserGroup {
   billing_cycle_start?: string;
   billing_cycle_end?: string;
 
+  // Stripe billing (group owners, migration 031)
+  stripe_customer_id?: string | null;
+  stripe_subscription_id?: string | null;
+  extra_seats: number;           // Seat add-on on top of the plan's members, included in max_members
+
   // Group Settings
   document_visibility: GroupDocumentVisibility;
   max_members: number;
@@ -1185,4 +1335,84 @@ export interface UserGroupInfoResponse {
   group?: GroupWithMembers;
   is_member: boolean;
   role?: GroupMemberRole;
-}
\ No newline at end of file
+}
+// ============================================
+// Export Template Types
+// ============================================
+
+// Underwriting model an export template lays data out for
+export type ExportTemplateTarget = 'argus_enterprise' | 'pro_forma' | 'custom';
+
+// Conversion applied to a mapped tenant field before it is written
+export type ExportTemplateTransform =
+  | 'text'
+  | 'number'
+  | 'date'           // ISO / US date string -> date cell
+  | 'annual'         // Monthly amount x 12
+  | 'annual_per_sf'  // Monthly amount x 12 / squareFootage
+  | 'monthly_per_sf' // Monthly amount / squareFootage
+  | 'percent'        // First percentage in the text ("3% annually" -> 3)
+  | 'term_months'    // Months from leaseStart to leaseEnd (field not needed)
+  | 'recovery_type'  // leaseType -> recovery method (Net / Base Year Stop / None)
+  | 'lease_status';  // occupancyStatus -> Contract / Speculative
+
+export interface ExportTemplateColumn {
+  header: string;                     // Column header in the import layout
+  field?: string;                     // Tenant field path (e.g. "baseRent") or "property.<metadata field>"
+  transform?: ExportTemplateTransform;
+  value?: string | number;            // Constant written when no field is mapped or the field is empty
+}
+
+export interface ExportTemplate {
+  id: string;                         // UUID, or a slug for built-in templates
+  name: string;
+  description: string | null;
+  target_system: ExportTemplateTarget;
+  document_type: DocumentType;        // Document type the columns map from (rent_roll)
+  sheet_name: string;
+  columns: ExportTemplateColumn[];
+  user_id: string | null;             // Personal template owner
+  group_id: string | null;            // Group template (shared with all members)
+  created_by: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface ExportTemplatesResponse {
+  success: boolean;
+  templates: ExportTemplate[];
+  can_manage_group_templates: boolean;
+}
+
+// ============================================
+// Workbook Template Types (uploaded .xlsx templates)
+// ============================================
+
+// Binds a cell to a path in ExtractedData, e.g. "data.summary.totalRent" or "data.tenants[*].baseRent"
+// ([*] fills one row per array item, downward from the target cell)
+export interface WorkbookTemplateBinding {
+  target: string; // Defined name ("TotalRent") or cell reference ("Rent Roll!B4")
+  path: string;
+}
+
+export interface WorkbookTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  document_type: DocumentType | null; // Expected document type, null for any
+  file_name: string;
+  file_size: number;
+  storage_path: string;
+  bindings: WorkbookTemplateBinding[];
+  user_id: string | null;
+  group_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkbookTemplatesResponse {
+  success: boolean;
+  templates: WorkbookTemplate[];
+  can_manage_group_templates: boolean;
+}
@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import type { DocumentType, ExtractionSchemaIssue } from './types';
 
 // ============================================
 // Document Type Validation
@@ -21,6 +22,8 @@ export const DocumentTypeSchema = z.enum([
   // Legacy types for backward compatibility
   'comparable_sales',
   'financial_statement',
+  // Composite result for mixed-content PDFs
+  'document_package',
   'unknown'
 ]);
 
@@ -60,14 +63,21 @@ const ExtractedDataDataSchema = z.record(z.string(), z.any());
 const ExtractedDataSchema = z.object({
   documentType: DocumentTypeSchema,
   metadata: ExtractedDataMetadataSchema,
-  data: ExtractedDataDataSchema
+  data: ExtractedDataDataSchema,
+  fieldConfidence: z.record(z.string(), z.number().min(0).max(1)).optional()
 });
 
 // Export options schema
 const ExportOptionsSchema = z.object({
-  format: z.enum(['xlsx', 'csv']).optional(),
+  format: z.enum(['xlsx', 'ods', 'csv', 'json', 'parquet']).optional(),
+  profile: z.enum(['excel', 'sheets']).optional(),
   includeMetadata: z.boolean().optional(),
-  includeCharts: z.boolean().optional()
+  includeRawData: z.boolean().optional(),
+  includeCharts: z.boolean().optional(),
+  formatForPrint: z.boolean().optional(),
+  marketRentPsf: z.number().positive().max(100000).optional(), // Annual $/SF for mark-to-market
+  templateId: z.string().min(1).max(100).optional(), // Underwriting export template (built-in slug or UUID)
+  workbookTemplateId: z.string().uuid().optional()     // Uploaded .xlsx template to fill
 }).optional();
 
 // Complete export request schema
@@ -79,6 +89,22 @@ export const ExportRequestSchema = z.object({
 // Type inference for TypeScript
 export type ExportRequestInput = z.infer<typeof ExportRequestSchema>;
 
+// Re-export of a saved document (/api/user/documents/[id]/export) - the extracted data comes from the database
+export const SavedDocumentExportRequestSchema = z.object({
+  options: ExportOptionsSchema
+});
+
+export type SavedDocumentExportRequestInput = z.infer<typeof SavedDocumentExportRequestSchema>;
+
+// Portfolio export: saved documents combined into one workbook (/api/export/portfolio)
+export const PortfolioExportRequestSchema = z.object({
+  documentIds: z.array(z.string().uuid('Document ID must be a valid UUID'))
+    .min(1, 'Select at least one document')
+    .max(50, 'Cannot export more than 50 documents at once')
+});
+
+export type PortfolioExportRequestInput = z.infer<typeof PortfolioExportRequestSchema>;
+
 // ============================================
 // Extract API Validation (/api/extract)
 // ============================================
@@ -102,6 +128,128 @@ export const MultiPageDocumentSchema = z.object({
 // Type inference
 export type MultiPageDocumentInput = z.infer<typeof MultiPageDocumentSchema>;
 
+// ============================================
+// Export Template Validation (/api/user/export-templates)
+// ============================================
+
+const ExportTemplateColumnSchema = z.object({
+  header: z.string().trim().min(1, 'Column header is required').max(100),
+  field: z.string().trim().max(100).optional(),
+  transform: z.enum([
+    'text',
+    'number',
+    'date',
+    'annual',
+    'annual_per_sf',
+    'monthly_per_sf',
+    'percent',
+    'term_months',
+    'recovery_type',
+    'lease_status'
+  ]).optional(),
+  value: z.union([z.string().max(200), z.number()]).optional()
+});
+
+// Defaults are only applied on create so a partial update never resets fields
+const ExportTemplateFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(255),
+  description: z.string().max(1000).nullish(),
+  target_system: z.enum(['argus_enterprise', 'pro_forma', 'custom']),
+  sheet_name: z.string().trim().min(1).max(31).regex(/^[^\[\]:*?/\\]+$/, 'Sheet name cannot contain [ ] : * ? / \\'),
+  columns: z.array(ExportTemplateColumnSchema)
+    .min(1, 'Template needs at least one column')
+    .max(100, 'Template cannot have more than 100 columns')
+    .refine(
+      columns => new Set(columns.map(column => column.header.toLowerCase())).size === columns.length,
+      'Column headers must be unique'
+    )
+});
+
+export const CreateExportTemplateSchema = ExportTemplateFieldsSchema.extend({
+  target_system: ExportTemplateFieldsSchema.shape.target_system.default('custom'),
+  sheet_name: ExportTemplateFieldsSchema.shape.sheet_name.default('Rent Roll'),
+  scope: z.enum(['user', 'group']).default('user') // Group templates are shared with every group member
+});
+
+export const UpdateExportTemplateSchema = ExportTemplateFieldsSchema.partial();
+
+export type CreateExportTemplateInput = z.infer<typeof CreateExportTemplateSchema>;
+export type UpdateExportTemplateInput = z.infer<typeof UpdateExportTemplateSchema>;
+
+// ============================================
+// Workbook Template Validation (/api/user/workbook-templates)
+// ============================================
+
+const WorkbookTemplateBindingSchema = z.object({
+  target: z.string().trim().min(1, 'Binding target is required').max(300),
+  path: z.string()
+    .trim()
+    .regex(
+      /^(data|metadata|documentType|fieldConfidence)(\.[A-Za-z0-9_]+|\[(\*|\d+)\])*$/,
+      'Path must start with data, metadata, documentType or fieldConfidence (e.g. data.tenants[*].baseRent)'
+    )
+});
+
+// Multipart form fields sent with the uploaded file (bindings arrive as a JSON string)
+export const CreateWorkbookTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(255),
+  description: z.string().max(1000).nullish(),
+  document_type: DocumentTypeSchema.nullish(),
+  bindings: z.array(WorkbookTemplateBindingSchema).max(500).default([]),
+  scope: z.enum(['user', 'group']).default('group') // Firms share one model, so group is the default
+});
+
+export const UpdateWorkbookTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(255),
+  description: z.string().max(1000).nullish(),
+  document_type: DocumentTypeSchema.nullish(),
+  bindings: z.array(WorkbookTemplateBindingSchema).max(500)
+}).partial();
+
+export type CreateWorkbookTemplateInput = z.infer<typeof CreateWorkbookTemplateSchema>;
+export type UpdateWorkbookTemplateInput = z.infer<typeof UpdateWorkbookTemplateSchema>;
+
+// ============================================
+// Billing Validation (/api/user/billing/checkout)
+// ============================================
+
+export const CheckoutRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('credit_pack'),
+    pack: z.enum(['starter', 'basic', 'standard', 'pro', 'enterprise'])
+  }),
+  z.object({
+    type: z.literal('subscription'),
+    plan: z.enum(['entrepreneur', 'professional', 'business']),
+    interval: z.enum(['monthly', 'annual'])
+  })
+]);
+
+export type CheckoutRequestInput = z.infer<typeof CheckoutRequestSchema>;
+
+export const GroupCheckoutRequestSchema = z.object({
+  plan: z.enum(['professional', 'business']),
+  interval: z.enum(['monthly', 'annual']),
+  extraSeats: z.number()
+    .int('Extra seats must be a whole number')
+    .min(0, 'Extra seats cannot be negative')
+    .max(50, 'Cannot buy more than 50 extra seats')
+    .optional()
+    .default(0)
+});
+
+export type GroupCheckoutRequestInput = z.infer<typeof GroupCheckoutRequestSchema>;
+
+export const OverageSettingsSchema = z.object({
+  enabled: z.boolean(),
+  monthlyCap: z.number()
+    .min(1, 'Monthly overage cap must be at least $1')
+    .max(5000, 'Monthly overage cap cannot exceed $5,000')
+    .optional()
+});
+
+export type OverageSettingsInput = z.infer<typeof OverageSettingsSchema>;
+
 // ============================================
 // Training Process Batch Validation (/api/training/process-batch)
 // ============================================
@@ -131,6 +279,352 @@ export const ProcessBatchRequestSchema = z.object({
 // Type inference
 export type ProcessBatchRequestInput = z.infer<typeof ProcessBatchRequestSchema>;
 
+// ============================================
+// Extraction Output Validation (Claude responses)
+// ============================================
+// Mirrors the *Data interfaces in types.ts. Leaf values use .nullish() because the
+// extraction prompts ask for null when data is missing, and numbers may arrive
+// formatted ("$4,000", "92%", "60 months"). Objects use .passthrough() so extra
+// columns Claude finds in the document are kept.
+
+const ExtractedNumberSchema = z.union([
+  z.number(),
+  z.string().regex(/\d/, 'Expected a number or formatted numeric value')
+]).nullish();
+
+const ExtractedStringSchema = z.string().nullish();
+
+const LeaseTypeSchema = z.enum(['NNN', 'Gross', 'Modified Gross']).nullish();
+
+const NumberRangeSchema = z.object({
+  min: ExtractedNumberSchema,
+  max: ExtractedNumberSchema
+}).passthrough();
+
+export const RentRollDataSchema = z.object({
+  tenants: z.array(z.object({
+    tenantName: ExtractedStringSchema,
+    suiteUnit: z.union([z.string(), z.number()]).nullish(),
+    leaseStart: ExtractedStringSchema,
+    leaseEnd: ExtractedStringSchema,
+    rentCommencementDate: ExtractedStringSchema,
+    baseRent: ExtractedNumberSchema,
+    rentEscalations: ExtractedStringSchema,
+    leaseType: LeaseTypeSchema,
+    camReimbursements: ExtractedNumberSchema,
+    securityDeposit: ExtractedNumberSchema,
+    renewalOptions: ExtractedStringSchema,
+    freeRentConcessions: ExtractedStringSchema,
+    squareFootage: ExtractedNumberSchema,
+    occupancyStatus: z.enum(['occupied', 'vacant', 'notice']).nullish()
+  }).passthrough()),
+  summary: z.object({
+    totalRent: ExtractedNumberSchema,
+    occupancyRate: ExtractedNumberSchema,
+    totalSquareFeet: ExtractedNumberSchema,
+    averageRentPsf: ExtractedNumberSchema,
+    totalUnits: ExtractedNumberSchema,
+    vacantUnits: ExtractedNumberSchema
+  }).passthrough()
+}).passthrough();
+
+export const OfferingMemoDataSchema = z.object({
+  propertyOverview: z.object({
+    name: ExtractedStringSchema,
+    address: ExtractedStringSchema,
+    propertyType: ExtractedStringSchema,
+    yearBuilt: ExtractedNumberSchema,
+    totalSquareFeet: ExtractedNumberSchema,
+    lotSize: ExtractedNumberSchema
+  }).passthrough(),
+  investmentHighlights: z.array(z.string()),
+  marketOverview: ExtractedStringSchema,
+  rentRollSummary: z.object({
+    totalUnits: ExtractedNumberSchema,
+    occupancyRate: ExtractedNumberSchema,
+    averageRent: ExtractedNumberSchema
+  }).passthrough(),
+  operatingStatement: z.object({
+    grossIncome: ExtractedNumberSchema,
+    operatingExpenses: ExtractedNumberSchema,
+    noi: ExtractedNumberSchema
+  }).passthrough(),
+  leaseTerms: z.array(z.string()),
+  comparables: z.array(z.object({
+    address: ExtractedStringSchema,
+    salePrice: ExtractedNumberSchema,
+    capRate: ExtractedNumberSchema
+  }).passthrough()),
+  pricing: z.object({
+    askingPrice: ExtractedNumberSchema,
+    capRate: ExtractedNumberSchema,
+    pricePerSF: ExtractedNumberSchema
+  }).passthrough(),
+  locationData: z.object({
+    neighborhood: ExtractedStringSchema,
+    demographics: ExtractedStringSchema,
+    transportation: ExtractedStringSchema
+  }).passthrough()
+}).passthrough();
+
+export const LeaseDataSchema = z.object({
+  parties: z.object({
+    tenant: ExtractedStringSchema,
+    landlord: ExtractedStringSchema
+  }).passthrough(),
+  premises: z.object({
+    propertyAddress: ExtractedStringSchema,
+    squareFeet: ExtractedNumberSchema,
+    description: ExtractedStringSchema
+  }).passthrough(),
+  leaseTerm: z.object({
+    startDate: ExtractedStringSchema,
+    endDate: ExtractedStringSchema,
+    termMonths: ExtractedNumberSchema
+  }).passthrough(),
+  rentSchedule: z.object({
+    baseRent: ExtractedNumberSchema,
+    rentEscalations: ExtractedStringSchema,
+    rentPerSqFt: ExtractedNumberSchema
+  }).passthrough(),
+  operatingExpenses: z.object({
+    responsibilityType: LeaseTypeSchema,
+    camCharges: ExtractedNumberSchema,
+    utilities: ExtractedStringSchema,
+    taxes: ExtractedStringSchema,
+    insurance: ExtractedStringSchema
+  }).passthrough(),
+  securityDeposit: ExtractedNumberSchema,
+  renewalOptions: z.array(z.string()).nullish(),
+  maintenanceObligations: z.object({
+    landlord: z.array(z.string()),
+    tenant: z.array(z.string())
+  }).passthrough(),
+  assignmentProvisions: ExtractedStringSchema,
+  defaultRemedies: z.array(z.string()),
+  insuranceRequirements: z.array(z.string())
+}).passthrough();
+
+export const OperatingBudgetDataSchema = z.object({
+  period: ExtractedStringSchema,
+  income: z.object({
+    grossRentalIncome: ExtractedNumberSchema,
+    vacancyAllowance: ExtractedNumberSchema,
+    effectiveGrossIncome: ExtractedNumberSchema,
+    otherIncome: ExtractedNumberSchema,
+    totalIncome: ExtractedNumberSchema
+  }).passthrough(),
+  expenses: z.object({
+    propertyTaxes: ExtractedNumberSchema,
+    insurance: ExtractedNumberSchema,
+    utilities: ExtractedNumberSchema,
+    maintenance: ExtractedNumberSchema,
+    management: ExtractedNumberSchema,
+    marketing: ExtractedNumberSchema,
+    totalOperatingExpenses: ExtractedNumberSchema
+  }).passthrough(),
+  noi: ExtractedNumberSchema,
+  capexForecast: ExtractedNumberSchema,
+  cashFlow: ExtractedNumberSchema
+}).passthrough();
+
+export const BrokerSalesComparablesDataSchema = z.object({
+  comparables: z.array(z.object({
+    propertyAddress: ExtractedStringSchema,
+    propertyType: ExtractedStringSchema,
+    saleDate: ExtractedStringSchema,
+    salePrice: ExtractedNumberSchema,
+    pricePerSF: ExtractedNumberSchema,
+    pricePerUnit: ExtractedNumberSchema,
+    buildingSize: ExtractedNumberSchema,
+    landSize: ExtractedNumberSchema,
+    yearBuilt: ExtractedNumberSchema,
+    yearRenovated: ExtractedNumberSchema,
+    occupancyAtSale: ExtractedNumberSchema,
+    capRate: ExtractedNumberSchema,
+    noiAtSale: ExtractedNumberSchema,
+    buyer: ExtractedStringSchema,
+    seller: ExtractedStringSchema
+  }).passthrough()).optional(),
+  // Nested structure - sections are validated for shape only
+  comparableSales: z.array(z.object({
+    propertyAddress: ExtractedStringSchema,
+    transactionDetails: z.record(z.string(), z.unknown()).nullish(),
+    pricingMetrics: z.record(z.string(), z.unknown()).nullish(),
+    propertyCharacteristics: z.record(z.string(), z.unknown()).nullish(),
+    financialPerformance: z.record(z.string(), z.unknown()).nullish(),
+    transactionParties: z.record(z.string(), z.unknown()).nullish()
+  }).passthrough()).optional(),
+  summary: z.object({
+    averagePricePerSF: ExtractedNumberSchema,
+    averageCapRate: ExtractedNumberSchema,
+    priceRange: NumberRangeSchema.nullish()
+  }).passthrough().nullish(),
+  marketSummary: z.record(z.string(), z.unknown()).nullish(),
+  marketAnalysis: z.record(z.string(), z.unknown()).nullish()
+}).passthrough().refine(
+  data => Array.isArray(data.comparables) || Array.isArray(data.comparableSales),
+  { message: 'Either comparables or comparableSales must be an array', path: ['comparableSales'] }
+);
+
+export const BrokerLeaseComparablesDataSchema = z.object({
+  comparables: z.array(z.object({
+    propertyAddress: ExtractedStringSchema,
+    propertyType: ExtractedStringSchema,
+    leaseCommencementDate: ExtractedStringSchema,
+    tenantIndustry: ExtractedStringSchema,
+    leaseTerm: ExtractedNumberSchema,
+    squareFootage: ExtractedNumberSchema,
+    baseRent: ExtractedNumberSchema,
+    rentEscalations: ExtractedStringSchema,
+    leaseType: LeaseTypeSchema,
+    concessions: ExtractedStringSchema,
+    effectiveRent: ExtractedNumberSchema
+  }).passthrough()),
+  // Summary is calculated by transformBrokerLeaseComparables when missing
+  summary: z.object({
+    averageBaseRent: ExtractedNumberSchema,
+    averageEffectiveRent: ExtractedNumberSchema,
+    rentRange: NumberRangeSchema.nullish()
+  }).passthrough().optional()
+}).passthrough();
+
+export const BrokerListingDataSchema = z.object({
+  listingDetails: z.object({
+    propertyOwner: ExtractedStringSchema,
+    brokerFirm: ExtractedStringSchema,
+    brokerName: ExtractedStringSchema,
+    listingPrice: ExtractedNumberSchema,
+    askingRent: ExtractedNumberSchema,
+    listingType: z.enum(['sale', 'lease']).nullish(),
+    commissionStructure: ExtractedStringSchema,
+    listingTerm: ExtractedStringSchema,
+    listingDate: ExtractedStringSchema,
+    expirationDate: ExtractedStringSchema
+  }).passthrough(),
+  propertyDetails: z.object({
+    address: ExtractedStringSchema,
+    propertyType: ExtractedStringSchema,
+    squareFootage: ExtractedNumberSchema,
+    lotSize: ExtractedNumberSchema,
+    yearBuilt: ExtractedNumberSchema,
+    parking: ExtractedStringSchema,
+    zoning: ExtractedStringSchema
+  }).passthrough(),
+  brokerDuties: z.array(z.string()),
+  terminationProvisions: z.array(z.string())
+}).passthrough();
+
+export const FinancialStatementsDataSchema = z.object({
+  period: ExtractedStringSchema,
+  operatingIncome: z.object({
+    rentalIncome: ExtractedNumberSchema,
+    otherIncome: ExtractedNumberSchema,
+    totalIncome: ExtractedNumberSchema,
+    vacancyLoss: ExtractedNumberSchema,
+    effectiveGrossIncome: ExtractedNumberSchema
+  }).passthrough(),
+  operatingExpenses: z.object({
+    propertyTaxes: ExtractedNumberSchema,
+    insurance: ExtractedNumberSchema,
+    utilities: ExtractedNumberSchema,
+    maintenance: ExtractedNumberSchema,
+    management: ExtractedNumberSchema,
+    professionalFees: ExtractedNumberSchema,
+    otherExpenses: ExtractedNumberSchema,
+    totalExpenses: ExtractedNumberSchema
+  }).passthrough(),
+  noi: ExtractedNumberSchema,
+  debtService: ExtractedNumberSchema,
+  cashFlow: ExtractedNumberSchema,
+  balanceSheet: z.object({
+    assets: z.object({
+      realEstate: ExtractedNumberSchema,
+      cash: ExtractedNumberSchema,
+      otherAssets: ExtractedNumberSchema,
+      totalAssets: ExtractedNumberSchema
+    }).passthrough(),
+    liabilities: z.object({
+      mortgage: ExtractedNumberSchema,
+      otherLiabilities: ExtractedNumberSchema,
+      totalLiabilities: ExtractedNumberSchema
+    }).passthrough(),
+    equity: ExtractedNumberSchema
+  }).passthrough().nullish(),
+  capex: z.object({
+    currentYear: ExtractedNumberSchema,
+    forecast: z.array(ExtractedNumberSchema)
+  }).passthrough().nullish()
+}).passthrough();
+
+// Legacy types for backward compatibility
+export const ComparableDataSchema = z.object({
+  properties: z.array(z.object({
+    address: ExtractedStringSchema,
+    salePrice: ExtractedNumberSchema,
+    saleDate: ExtractedStringSchema,
+    squareFeet: ExtractedNumberSchema,
+    pricePerSqFt: ExtractedNumberSchema,
+    propertyType: ExtractedStringSchema,
+    yearBuilt: ExtractedNumberSchema
+  }).passthrough())
+}).passthrough();
+
+export const FinancialDataSchema = z.object({
+  period: ExtractedStringSchema,
+  revenue: z.object({
+    grossRent: ExtractedNumberSchema,
+    otherIncome: ExtractedNumberSchema,
+    totalRevenue: ExtractedNumberSchema
+  }).passthrough(),
+  expenses: z.object({
+    operatingExpenses: ExtractedNumberSchema,
+    maintenance: ExtractedNumberSchema,
+    insurance: ExtractedNumberSchema,
+    taxes: ExtractedNumberSchema,
+    utilities: ExtractedNumberSchema,
+    management: ExtractedNumberSchema,
+    totalExpenses: ExtractedNumberSchema
+  }).passthrough(),
+  netOperatingIncome: ExtractedNumberSchema
+}).passthrough();
+
+/**
+ * Data schema for each extractable document type
+ * document_package and unknown have no schema (segments are validated individually)
+ */
+export const EXTRACTED_DATA_SCHEMAS: Partial<Record<DocumentType, z.ZodTypeAny>> = {
+  rent_roll: RentRollDataSchema,
+  operating_budget: OperatingBudgetDataSchema,
+  broker_sales_comparables: BrokerSalesComparablesDataSchema,
+  broker_lease_comparables: BrokerLeaseComparablesDataSchema,
+  broker_listing: BrokerListingDataSchema,
+  offering_memo: OfferingMemoDataSchema,
+  lease_agreement: LeaseDataSchema,
+  financial_statements: FinancialStatementsDataSchema,
+  comparable_sales: ComparableDataSchema,
+  financial_statement: FinancialDataSchema
+};
+
+/**
+ * Validate extracted `data` against the schema for its document type
+ * @param documentType Document type the data was extracted as
+ * @param data The `data` section of an extraction result
+ * @returns Schema issues with dot-notation paths (empty when valid or when the type has no schema)
+ */
+export function validateExtractedDataShape(documentType: DocumentType, data: unknown): ExtractionSchemaIssue[] {
+  const schema = EXTRACTED_DATA_SCHEMAS[documentType];
+  if (!schema) return [];
+
+  const result = schema.safeParse(data);
+  if (result.success) return [];
+
+  return result.error.issues.map(issue => ({
+    path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    message: issue.message
+  }));
+}
+
 // ============================================
 // Generic Validation Helper
 // ============================================
@@ -0,0 +1,333 @@
+/**
+ * Workbook Templates
+ *
+ * User-uploaded .xlsx templates filled with extracted data on export. Cells are bound to paths
+ * in ExtractedData either by saved bindings (a defined name or "Sheet!B4" reference) or by
+ * {{path}} placeholders typed into the template. Paths with [*] (e.g. "data.tenants[*].baseRent")
+ * fill one row per array item, downward from the bound cell - within the defined range when the
+ * target is a multi-cell range. Everything else in the workbook (formulas, formatting, other
+ * sheets) is left as uploaded, and Excel recalculates the formulas when the file is opened.
+ */
+
+import ExcelJS from 'exceljs';
+import { supabaseAdmin as supabase } from './supabase';
+import { getUserGroupMembership } from './export-templates';
+import type { ExtractedData, WorkbookTemplate, WorkbookTemplateBinding } from './types';
+
+export const WORKBOOK_TEMPLATE_BUCKET = 'workbook-templates';
+
+/**
+ * Upload limit for template files (kept under the 4.5MB serverless request body limit)
+ */
+export const MAX_WORKBOOK_TEMPLATE_SIZE = 4 * 1024 * 1024;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const WHOLE_CELL_PLACEHOLDER_PATTERN = /^\s*\{\{\s*([^{}]+?)\s*\}\}\s*$/;
+
+interface ResolvedTarget {
+  sheet: ExcelJS.Worksheet;
+  row: number;
+  col: number;
+  maxRows: number; // Rows available for repeating values (Infinity for a single-cell target)
+}
+
+export interface WorkbookTemplateInspection {
+  sheetNames: string[];
+  definedNames: string[];
+  placeholders: WorkbookTemplateBinding[];
+}
+
+// ExcelJS types its Buffer against an older @types/node
+async function loadWorkbook(buffer: Buffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  return workbook;
+}
+
+/**
+ * Resolve a data path against the extraction
+ * "data.summary.totalRent" gives one value; "data.tenants[*].baseRent" one value per tenant
+ */
+export function resolveDataPath(extractedData: ExtractedData, path: string): { values: unknown[]; repeating: boolean } {
+  const segments = path
+    .replace(/\[(\*|\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+
+  let current: unknown[] = [extractedData];
+  let repeating = false;
+
+  for (const segment of segments) {
+    if (segment === '*') {
+      repeating = true;
+      current = current.flatMap(value => (Array.isArray(value) ? value : []));
+    } else {
+      current = current.map(value =>
+        value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined
+      );
+    }
+  }
+
+  return { values: current, repeating };
+}
+
+/**
+ * Convert an extracted value to something a cell can hold
+ */
+function toCellValue(value: unknown): ExcelJS.CellValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ');
+  return JSON.stringify(value);
+}
+
+/**
+ * Parse "Sheet Name!$B$4" or "'Sheet Name'!B4:B40" into a sheet and start cell
+ */
+function resolveReference(workbook: ExcelJS.Workbook, reference: string): ResolvedTarget | null {
+  const separator = reference.lastIndexOf('!');
+  if (separator < 0) return null;
+
+  const sheetName = reference.slice(0, separator).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+  const [start, end] = reference.slice(separator + 1).replace(/\$/g, '').split(':');
+  const sheet = workbook.getWorksheet(sheetName);
+  if (!sheet || !/^[A-Z]{1,3}\d+$/i.test(start) || (end && !/^[A-Z]{1,3}\d+$/i.test(end))) return null;
+
+  const startCell = sheet.getCell(start.toUpperCase());
+  const endRow = end ? sheet.getCell(end.toUpperCase()).row : null;
+  const row = Number(startCell.row);
+
+  return {
+    sheet,
+    row,
+    col: Number(startCell.col),
+    maxRows: endRow === null ? Infinity : Math.max(Number(endRow) - row + 1, 1)
+  };
+}
+
+/**
+ * Resolve a binding target - a cell reference, or a defined name pointing at one
+ */
+function resolveTarget(workbook: ExcelJS.Workbook, target: string): ResolvedTarget | null {
+  if (target.includes('!')) return resolveReference(workbook, target);
+
+  const definedName = workbook.definedNames.model.find(name => name.name.toLowerCase() === target.toLowerCase());
+  return definedName?.ranges[0] ? resolveReference(workbook, definedName.ranges[0]) : null;
+}
+
+/**
+ * Find {{path}} placeholders that fill a whole cell - these become bindings on the cell
+ */
+function findPlaceholderBindings(workbook: ExcelJS.Workbook): WorkbookTemplateBinding[] {
+  const bindings: WorkbookTemplateBinding[] = [];
+
+  workbook.eachSheet(sheet => {
+    sheet.eachRow(row => {
+      row.eachCell(cell => {
+        const match = typeof cell.value === 'string' ? cell.value.match(WHOLE_CELL_PLACEHOLDER_PATTERN) : null;
+        if (match) {
+          bindings.push({ target: `'${sheet.name.replace(/'/g, "''")}'!${cell.address}`, path: match[1] });
+        }
+      });
+    });
+  });
+
+  return bindings;
+}
+
+/**
+ * Replace placeholders inside longer text ("Rent roll as of {{metadata.asOfDate}}")
+ */
+function fillInlinePlaceholders(workbook: ExcelJS.Workbook, extractedData: ExtractedData) {
+  workbook.eachSheet(sheet => {
+    sheet.eachRow(row => {
+      row.eachCell(cell => {
+        if (typeof cell.value !== 'string' || !cell.value.includes('{{')) return;
+        cell.value = cell.value.replace(PLACEHOLDER_PATTERN, (_match, path: string) =>
+          resolveDataPath(extractedData, path).values
+            .map(value => toCellValue(value) ?? '')
+            .join(', ')
+        );
+      });
+    });
+  });
+}
+
+/**
+ * Sheets, defined names and placeholders found in an uploaded template
+ *
+ * @throws Error when the file is not a readable .xlsx workbook
+ */
+export async function inspectWorkbookTemplate(buffer: Buffer): Promise<WorkbookTemplateInspection> {
+  let workbook: ExcelJS.Workbook;
+  try {
+    workbook = await loadWorkbook(buffer);
+  } catch (error) {
+    console.error('[Workbook Templates] Failed to read template:', error);
+    throw new Error('Template is not a valid .xlsx workbook');
+  }
+
+  return {
+    sheetNames: workbook.worksheets.map(sheet => sheet.name),
+    definedNames: workbook.definedNames.model.map(name => name.name),
+    placeholders: findPlaceholderBindings(workbook)
+  };
+}
+
+/**
+ * Binding targets that do not exist in the template workbook
+ */
+export async function findUnresolvedBindings(buffer: Buffer, bindings: WorkbookTemplateBinding[]): Promise<string[]> {
+  const workbook = await loadWorkbook(buffer);
+  return bindings
+    .filter(binding => !resolveTarget(workbook, binding.target))
+    .map(binding => binding.target);
+}
+
+/**
+ * Fill a template with extracted data
+ *
+ * @param buffer - Template .xlsx file
+ * @param bindings - Saved bindings (placeholders in the workbook are bound automatically)
+ * @param extractedData - Extraction to write into the template
+ * @returns Filled .xlsx file
+ */
+export async function fillWorkbookTemplate(
+  buffer: Buffer,
+  bindings: WorkbookTemplateBinding[],
+  extractedData: ExtractedData
+): Promise<Buffer> {
+  const workbook = await loadWorkbook(buffer);
+  const allBindings = [...bindings, ...findPlaceholderBindings(workbook)];
+  let filledCells = 0;
+
+  for (const binding of allBindings) {
+    const target = resolveTarget(workbook, binding.target);
+    if (!target) {
+      console.warn(`[Workbook Templates] Binding target not found, skipping: ${binding.target}`);
+      continue;
+    }
+
+    const { values, repeating } = resolveDataPath(extractedData, binding.path);
+    const rowValues = repeating ? values.slice(0, target.maxRows) : [values[0]];
+    if (repeating && values.length > rowValues.length) {
+      console.warn(`[Workbook Templates] ${binding.target} holds ${target.maxRows} rows, ${values.length - rowValues.length} values of ${binding.path} not written`);
+    }
+
+    const anchor = target.sheet.getCell(target.row, target.col);
+    if (rowValues.length === 0) {
+      anchor.value = null; // Empty array - don't leave the placeholder behind
+    }
+
+    const anchorStyle = anchor.style;
+    rowValues.forEach((value, index) => {
+      const cell = target.sheet.getCell(target.row + index, target.col);
+      if (index > 0 && Object.keys(cell.style || {}).length === 0) {
+        cell.style = { ...anchorStyle };
+      }
+      cell.value = toCellValue(value);
+      filledCells++;
+    });
+  }
+
+  fillInlinePlaceholders(workbook, extractedData);
+
+  // Formulas referencing the filled cells keep their cached results until recalculated
+  workbook.calcProperties.fullCalcOnLoad = true;
+
+  console.log(`[Workbook Templates] Filled ${filledCells} cells from ${allBindings.length} bindings`);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Templates a user can export with: their own, then their group's
+ */
+export async function getAccessibleWorkbookTemplates(userId: string, groupId?: string | null): Promise<WorkbookTemplate[]> {
+  const ownerFilter = groupId ? `user_id.eq.${userId},group_id.eq.${groupId}` : `user_id.eq.${userId}`;
+
+  const { data, error } = await supabase
+    .from('workbook_templates')
+    .select('*')
+    .or(ownerFilter)
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('[Workbook Templates] Failed to load templates:', error);
+    throw new Error('Failed to load workbook templates');
+  }
+
+  return (data as WorkbookTemplate[]) || [];
+}
+
+/**
+ * Look up a template the user is allowed to export with
+ *
+ * @returns Template, or null when it does not exist or belongs to another user/group
+ */
+export async function getWorkbookTemplate(templateId: string, userId: string): Promise<WorkbookTemplate | null> {
+  const { data: template, error } = await supabase
+    .from('workbook_templates')
+    .select('*')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error || !template) {
+    if (error) console.error(`[Workbook Templates] Failed to load template ${templateId}:`, error);
+    return null;
+  }
+
+  if (template.user_id === userId) return template as WorkbookTemplate;
+
+  const membership = template.group_id ? await getUserGroupMembership(userId) : null;
+  return membership?.groupId === template.group_id ? template as WorkbookTemplate : null;
+}
+
+/**
+ * Personal templates are managed by their owner, group templates by the group owner
+ */
+export async function canManageWorkbookTemplate(template: WorkbookTemplate, userId: string): Promise<boolean> {
+  if (template.user_id) return template.user_id === userId;
+
+  const membership = await getUserGroupMembership(userId);
+  return membership?.groupId === template.group_id && membership.role === 'owner';
+}
+
+export async function uploadWorkbookTemplateFile(storagePath: string, buffer: Buffer): Promise<void> {
+  const { error } = await supabase.storage
+    .from(WORKBOOK_TEMPLATE_BUCKET)
+    .upload(storagePath, buffer, {
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      upsert: false
+    });
+
+  if (error) {
+    console.error('[Workbook Templates] Upload error:', error);
+    throw new Error(`Failed to upload template: ${error.message}`);
+  }
+}
+
+export async function downloadWorkbookTemplateFile(storagePath: string): Promise<Buffer> {
+  const { data, error } = await supabase.storage
+    .from(WORKBOOK_TEMPLATE_BUCKET)
+    .download(storagePath);
+
+  if (error || !data) {
+    console.error('[Workbook Templates] Download error:', error);
+    throw new Error('Failed to download workbook template');
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * Remove a template file - failures are logged, the database row is the source of truth
+ */
+export async function deleteWorkbookTemplateFile(storagePath: string): Promise<void> {
+  const { error } = await supabase.storage
+    .from(WORKBOOK_TEMPLATE_BUCKET)
+    .remove([storagePath]);
+
+  if (error) {
+    console.error(`[Workbook Templates] Failed to delete template file ${storagePath}:`, error);
+  }
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const rpc = vi.fn();
+const reportOverageUsage = vi.fn();
+
+vi.mock('@/lib/supabase', () => ({ supabaseAdmin: { rpc } }));
+vi.mock('@/lib/overage', () => ({
+  checkOverage: vi.fn(),
+  getOverageRate: vi.fn(async () => null),
+  reportOverageUsage
+}));
+
+const { commitCreditReservation, releaseCreditReservation, reserveCredits } = await import('./creditCheck');
+
+beforeEach(() => {
+  rpc.mockReset();
+  reportOverageUsage.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('reserveCredits', () => {
+  it('returns the reservation id and the balance left', async () => {
+    rpc.mockImplementation(async (name: string) => (
+      name === 'reserve_effective_credits' ? { data: 'res-1', error: null } : { data: 40, error: null }
+    ));
+
+    await expect(reserveCredits('user-1', 10, 'Document processing: a.pdf')).resolves.toEqual({
+      success: true,
+      reservationId: 'res-1',
+      remainingCredits: 40
+    });
+    expect(rpc).toHaveBeenCalledWith('reserve_effective_credits', {
+      p_user_id: 'user-1',
+      p_page_count: 10,
+      p_description: 'Document processing: a.pdf',
+      p_overage_rate: null
+    });
+  });
+
+  it('reports insufficient credits when nothing was reserved', async () => {
+    rpc.mockImplementation(async (name: string) => (
+      name === 'reserve_effective_credits' ? { data: null, error: null } : { data: 3, error: null }
+    ));
+
+    await expect(reserveCredits('user-1', 10)).resolves.toEqual({
+      success: false,
+      remainingCredits: 3,
+      error: 'Insufficient credits'
+    });
+  });
+
+  it('fails without throwing when the database call fails', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'connection lost' } });
+
+    await expect(reserveCredits('user-1', 10)).resolves.toMatchObject({ success: false, error: 'Failed to reserve credits' });
+  });
+});
+
+describe('commitCreditReservation', () => {
+  it('commits an open reservation and reports its overage', async () => {
+    rpc.mockResolvedValue({ data: true, error: null });
+
+    await expect(commitCreditReservation('res-1')).resolves.toBe(true);
+    expect(rpc).toHaveBeenCalledWith('commit_credit_reservation', { p_reservation_id: 'res-1' });
+    expect(reportOverageUsage).toHaveBeenCalledWith('res-1');
+  });
+
+  it('does not report overage for a reservation that was already settled', async () => {
+    rpc.mockResolvedValue({ data: false, error: null });
+
+    await expect(commitCreditReservation('res-1')).resolves.toBe(false);
+    expect(reportOverageUsage).not.toHaveBeenCalled();
+  });
+
+  it('returns false without throwing when the database call fails', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'connection lost' } });
+
+    await expect(commitCreditReservation('res-1')).resolves.toBe(false);
+    expect(reportOverageUsage).not.toHaveBeenCalled();
+  });
+});
+
+describe('releaseCreditReservation', () => {
+  it('returns the pages refunded with the reason', async () => {
+    rpc.mockResolvedValue({ data: 12, error: null });
+
+    await expect(releaseCreditReservation('res-1', 'Extraction failed')).resolves.toBe(12);
+    expect(rpc).toHaveBeenCalledWith('release_credit_reservation', { p_reservation_id: 'res-1', p_reason: 'Extraction failed' });
+  });
+
+  it('returns 0 for a reservation that was already settled', async () => {
+    rpc.mockResolvedValue({ data: 0, error: null });
+
+    await expect(releaseCreditReservation('res-1', 'Extraction failed')).resolves.toBe(0);
+  });
+
+  it('returns 0 without throwing when the database call fails', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'connection lost' } });
+
+    await expect(releaseCreditReservation('res-1', 'Extraction failed')).resolves.toBe(0);
+  });
+});
@@ -7,9 +7,16 @@
  * Supports both individual users and group users:
  * - Individual users: credits deducted from users.credits
  * - Group users: credits deducted from user_groups.credits (shared pool)
+ *
+ * Extraction reserves its credits before it starts (reserveCredits), then commits the
+ * reservation on success or releases it - a refund with the reason - on failure
+ *
+ * Individual subscribers with overage on keep processing past their balance: the missing
+ * pages are reserved as overage and billed through Stripe metered usage (see lib/overage)
  */
 
 import { supabaseAdmin as supabase } from '@/lib/supabase';
+import { checkOverage, getOverageRate, reportOverageUsage } from '@/lib/overage';
 
 /**
  * Get user's group information if they belong to a group
@@ -60,10 +67,12 @@ export async function getUserGroupInfo(userId: string): Promise<{
 /**
  * Check if user has sufficient credits for processing
  * Supports both individual users and group users (shared credit pool)
+ * Individual users with overage on also have enough when the pages past their balance fit
+ * under their monthly overage cap
  *
  * @param userId - User's UUID
  * @param requiredPages - Number of pages (credits) needed
- * @returns Object with hasCredits boolean, current credit balance, and group info
+ * @returns Object with hasCredits boolean, current credit balance, group info and any overage
  */
 export async function checkUserCredits(
   userId: string,
@@ -75,6 +84,9 @@ export async function checkUserCredits(
   isGroupMember?: boolean;
   groupId?: string;
   groupName?: string;
+  overagePages?: number;
+  overageCost?: number;
+  overageCapReached?: boolean;
 }> {
   try {
     // Get user's current info including group membership
@@ -127,6 +139,24 @@ export async function checkUserCredits(
     const currentCredits = user.credits || 0;
     const hasCredits = currentCredits >= requiredPages;
 
+    // Overage covers the pages past the balance, up to the monthly cap
+    if (!hasCredits) {
+      const overagePages = requiredPages - Math.max(currentCredits, 0);
+      const overage = await checkOverage(userId, overagePages);
+
+      if (overage) {
+        return {
+          hasCredits: overage.allowed,
+          currentCredits,
+          shortage: overage.allowed ? undefined : requiredPages - currentCredits,
+          isGroupMember: false,
+          overagePages,
+          overageCost: overage.cost,
+          overageCapReached: !overage.allowed,
+        };
+      }
+    }
+
     return {
       hasCredits,
       currentCredits,
@@ -142,6 +172,7 @@ export async function checkUserCredits(
 /**
  * Deduct credits from user account (or group pool if user is in a group)
  * Uses the deduct_effective_credits database function which handles both cases
+ * The balance is a hard limit here - overage is only reserved through reserveCredits
  *
  * @param userId - User's UUID
  * @param pageCount - Number of pages (credits) to deduct
@@ -246,6 +277,135 @@ export async function deductCredits(
   }
 }
 
+/**
+ * Current balance the user draws from (group pool for group members)
+ * @returns Credits, 0 when the balance cannot be read
+ */
+export async function getEffectiveCredits(userId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('get_effective_credits', { p_user_id: userId });
+
+  if (error) {
+    console.error('[Credits] Failed to read effective credits:', error);
+    return 0;
+  }
+
+  return data || 0;
+}
+
+/**
+ * Reserve credits before processing - taken from the balance at once, so concurrent
+ * requests cannot spend the same credits
+ * With overage on, pages past the balance are reserved as overage within the monthly cap
+ * Commit the reservation when processing succeeds, release it when it fails
+ *
+ * @param userId - User's UUID
+ * @param pageCount - Number of pages (credits) to reserve
+ * @param description - Credit history entry, e.g. 'Document processing: rent-roll.pdf'
+ * @returns Reservation id on success, and the balance left after the reservation
+ */
+export async function reserveCredits(
+  userId: string,
+  pageCount: number,
+  description: string = 'Document processing'
+): Promise<{
+  success: boolean;
+  reservationId?: string;
+  remainingCredits: number;
+  error?: string;
+}> {
+  try {
+    const { data: reservationId, error } = await supabase.rpc('reserve_effective_credits', {
+      p_user_id: userId,
+      p_page_count: pageCount,
+      p_description: description,
+      p_overage_rate: await getOverageRate(userId),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const remainingCredits = await getEffectiveCredits(userId);
+
+    if (!reservationId) {
+      return { success: false, remainingCredits, error: 'Insufficient credits' };
+    }
+
+    return { success: true, reservationId, remainingCredits };
+  } catch (error) {
+    console.error('Error reserving credits:', error);
+    return {
+      success: false,
+      remainingCredits: 0,
+      error: 'Failed to reserve credits',
+    };
+  }
+}
+
+/**
+ * Commit a reservation - processing succeeded and the credits are used
+ * Overage pages are reported to Stripe right away (retried by cron if that fails)
+ * Never throws
+ *
+ * @returns False when the reservation was already settled (or the call failed)
+ */
+export async function commitCreditReservation(reservationId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('commit_credit_reservation', {
+    p_reservation_id: reservationId,
+  });
+
+  if (error) {
+    console.error(`[Credits] Failed to commit reservation ${reservationId}:`, error);
+    return false;
+  }
+
+  if (data) {
+    await reportOverageUsage(reservationId);
+  }
+
+  return !!data;
+}
+
+/**
+ * Release a reservation - the credits are refunded with the reason shown in credit history
+ * and any overage pages are taken off the month's overage, unbilled
+ * Never throws
+ *
+ * @returns Pages released (credits and overage), 0 when the reservation was already settled (or the call failed)
+ */
+export async function releaseCreditReservation(reservationId: string, reason: string): Promise<number> {
+  const { data, error } = await supabase.rpc('release_credit_reservation', {
+    p_reservation_id: reservationId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    console.error(`[Credits] Failed to release reservation ${reservationId}:`, error);
+    return 0;
+  }
+
+  return data || 0;
+}
+
+/**
+ * Refund reservations of requests that crashed or timed out before settling them
+ * For the release-credit-reservations cron
+ *
+ * @param olderThanMinutes - Must exceed the extract route's maxDuration
+ * @returns Number of reservations released
+ */
+export async function releaseExpiredCreditReservations(olderThanMinutes: number = 15): Promise<number> {
+  const { data, error } = await supabase.rpc('release_expired_credit_reservations', {
+    p_older_than: `${olderThanMinutes} minutes`,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || 0;
+}
+
 /**
  * Log document processing usage
  * @param userId - User's UUID
@@ -259,6 +419,7 @@ export async function logUsage(
     fileName: string;
     filePath: string;
     pageCount: number;
+    creditsUsed?: number; // Defaults to pageCount - 0 when the credits were refunded
     processingStatus: 'success' | 'failed';
     tokensUsed?: number;
     processingTimeMs?: number;
@@ -274,7 +435,7 @@ export async function logUsage(
       file_name: documentData.fileName,
       file_path: documentData.filePath,
       page_count: documentData.pageCount,
-      credits_used: documentData.pageCount, // 1:1 ratio
+      credits_used: documentData.creditsUsed ?? documentData.pageCount, // 1:1 ratio
       processing_status: documentData.processingStatus,
       tokens_used: documentData.tokensUsed,
       processing_time_ms: documentData.processingTimeMs,
@@ -306,6 +467,7 @@ export async function logUsage(
 /**
  * Save processed document to user's history
  * Automatically sets group_id if user is part of a group (for shared document visibility)
+ * Asynchronous extraction jobs are saved with status 'processing' and no extracted data yet
  *
  * @param userId - User's UUID
  * @param documentData - Document data
@@ -319,7 +481,9 @@ export async function saveUserDocument(
     documentType: string;
     extractedData: any;
     pageCount: number;
-    processingStatus: 'completed' | 'failed';
+    creditsUsed?: number; // Defaults to pageCount - 0 when the credits were refunded
+    creditReservationId?: string; // Extraction jobs: refunded if the job is lost
+    processingStatus: 'completed' | 'failed' | 'processing';
   }
 ): Promise<string | null> {
   try {
@@ -339,10 +503,14 @@ export async function saveUserDocument(
       document_type: documentData.documentType,
       extracted_data: documentData.extractedData,
       page_count: documentData.pageCount,
-      credits_used: documentData.pageCount,
+      credits_used: documentData.creditsUsed ?? documentData.pageCount,
       processing_status: documentData.processingStatus,
     };
 
+    if (documentData.creditReservationId) {
+      insertData.credit_reservation_id = documentData.creditReservationId;
+    }
+
     // Add group_id if user is in a group (for shared document visibility)
     if (user?.group_id) {
       insertData.group_id = user.group_id;
@@ -539,6 +707,21 @@ export async function validateCreditTransaction(
   try {
     const creditCheck = await checkUserCredits(userId, pageCount);
 
+    if (creditCheck.overageCapReached) {
+      return {
+        isValid: false,
+        message: `Monthly overage cap reached. This document has ${pageCount} ${
+          pageCount === 1 ? 'page' : 'pages'
+        } and you have ${creditCheck.currentCredits} ${
+          creditCheck.currentCredits === 1 ? 'credit' : 'credits'
+        } remaining; the other ${creditCheck.overagePages} ${
+          creditCheck.overagePages === 1 ? 'page' : 'pages'
+        } ($${creditCheck.overageCost?.toFixed(2)}) would exceed your monthly overage cap. Raise the cap or upgrade your plan to continue.`,
+        currentCredits: creditCheck.currentCredits,
+        isGroupMember: false,
+      };
+    }
+
     if (!creditCheck.hasCredits) {
       const creditSource = creditCheck.isGroupMember && creditCheck.groupName
         ? `your group "${creditCheck.groupName}"`
@@ -571,6 +754,23 @@ export async function validateCreditTransaction(
       }
     }
 
+    if (creditCheck.overagePages) {
+      const creditPages = pageCount - creditCheck.overagePages;
+
+      return {
+        isValid: true,
+        message: `This document has ${pageCount} ${
+          pageCount === 1 ? 'page' : 'pages'
+        } and will use ${creditPages} ${
+          creditPages === 1 ? 'credit' : 'credits'
+        } and ${creditCheck.overagePages} overage ${
+          creditCheck.overagePages === 1 ? 'page' : 'pages'
+        } ($${creditCheck.overageCost?.toFixed(2)}).`,
+        currentCredits: creditCheck.currentCredits,
+        isGroupMember: false,
+      };
+    }
+
     const creditSource = creditCheck.isGroupMember && creditCheck.groupName
       ? `Your group "${creditCheck.groupName}" has`
       : 'You have';
@@ -0,0 +1,56 @@
+-- Migration: Asynchronous Extraction Jobs
+-- Description: Tracks extraction jobs on user_documents so the client can submit a document,
+-- receive a job id and poll or subscribe for stage updates instead of holding the request open.
+-- A job is a user_documents row created with processing_status = 'processing'; the result is
+-- written to extracted_data when the job completes.
+
+ALTER TABLE user_documents ADD COLUMN IF NOT EXISTS job_stage VARCHAR(30);
+ALTER TABLE user_documents ADD COLUMN IF NOT EXISTS job_progress INT DEFAULT 100;
+ALTER TABLE user_documents ADD COLUMN IF NOT EXISTS job_message TEXT;
+ALTER TABLE user_documents ADD COLUMN IF NOT EXISTS job_result JSONB;
+ALTER TABLE user_documents ADD COLUMN IF NOT EXISTS error_message TEXT;
+ALTER TABLE user_documents ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP;
+
+-- Stages reported while a job runs
+ALTER TABLE user_documents DROP CONSTRAINT IF EXISTS check_doc_job_stage;
+
+ALTER TABLE user_documents ADD CONSTRAINT check_doc_job_stage CHECK (
+  job_stage IS NULL OR job_stage IN (
+    'queued',
+    'extracting',
+    'validating',
+    'saving',
+    'completed',
+    'failed'
+  )
+);
+
+ALTER TABLE user_documents DROP CONSTRAINT IF EXISTS check_doc_job_progress;
+
+ALTER TABLE user_documents ADD CONSTRAINT check_doc_job_progress CHECK (
+  job_progress IS NULL OR (job_progress >= 0 AND job_progress <= 100)
+);
+
+-- Find a user's in-flight jobs quickly (resume after page reload, stale job sweep)
+CREATE INDEX IF NOT EXISTS idx_user_documents_processing
+  ON user_documents(user_id, updated_at DESC)
+  WHERE processing_status = 'processing';
+
+-- Realtime: job status updates are pushed to the tool page
+ALTER TABLE user_documents REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'user_documents'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE user_documents;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN user_documents.job_stage IS 'Current stage of an asynchronous extraction job';
+COMMENT ON COLUMN user_documents.job_progress IS 'Extraction job progress, 0-100';
+COMMENT ON COLUMN user_documents.job_message IS 'Human-readable detail for the current job stage';
+COMMENT ON COLUMN user_documents.job_result IS 'Job summary on completion: processing time, credits used, remaining credits, warnings';
+COMMENT ON COLUMN user_documents.error_message IS 'Failure reason when processing_status = failed';
@@ -0,0 +1,34 @@
+-- Migration: Model Version Routing
+-- Description: Extraction traffic is split between the base model and deployed model versions
+-- (deployment_status 'active' or 'testing') by traffic_percentage. Each routed extraction
+-- records its outcome on the model version with an atomic counter update.
+
+-- Find routable versions for a document type quickly
+CREATE INDEX IF NOT EXISTS idx_model_versions_routable
+  ON model_versions(document_type, version_number DESC)
+  WHERE deployment_status IN ('active', 'testing') AND traffic_percentage > 0;
+
+-- Function: Record the outcome of an extraction served by a model version
+CREATE OR REPLACE FUNCTION record_model_version_extraction(
+  p_model_version_id UUID,
+  p_success BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE model_versions
+  SET
+    total_requests = COALESCE(total_requests, 0) + 1,
+    successful_extractions = COALESCE(successful_extractions, 0) + CASE WHEN p_success THEN 1 ELSE 0 END,
+    failed_extractions = COALESCE(failed_extractions, 0) + CASE WHEN p_success THEN 0 ELSE 1 END,
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_model_version_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_model_version_extraction(UUID, BOOLEAN) TO service_role;
+
+COMMENT ON FUNCTION record_model_version_extraction(UUID, BOOLEAN) IS 'Increment total_requests and successful_extractions or failed_extractions for a model version';
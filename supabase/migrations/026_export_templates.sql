@@ -0,0 +1,89 @@
+-- Migration: Export Templates
+-- Description: Configurable column mappings that lay a rent roll out as an import file for an
+-- underwriting model (ARGUS Enterprise, in-house pro forma). Templates belong to either a user
+-- or a group; group templates are shared with every member. Built-in templates live in code.
+
+CREATE TABLE IF NOT EXISTS export_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Template Information
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  target_system VARCHAR(30) DEFAULT 'custom' NOT NULL,
+  document_type VARCHAR(50) DEFAULT 'rent_roll' NOT NULL,
+  sheet_name VARCHAR(31) DEFAULT 'Rent Roll' NOT NULL,
+
+  -- Column mapping: [{ header, field?, transform?, value? }, ...] in output order
+  columns JSONB NOT NULL,
+
+  -- Owner: exactly one of user_id / group_id
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  group_id UUID REFERENCES user_groups(id) ON DELETE CASCADE,
+
+  -- Audit
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_export_template_owner'
+  ) THEN
+    ALTER TABLE export_templates ADD CONSTRAINT check_export_template_owner CHECK (
+      (user_id IS NOT NULL AND group_id IS NULL) OR (user_id IS NULL AND group_id IS NOT NULL)
+    );
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_export_template_target'
+  ) THEN
+    ALTER TABLE export_templates ADD CONSTRAINT check_export_template_target CHECK (
+      target_system IN ('argus_enterprise', 'pro_forma', 'custom')
+    );
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_export_template_columns'
+  ) THEN
+    ALTER TABLE export_templates ADD CONSTRAINT check_export_template_columns CHECK (
+      jsonb_typeof(columns) = 'array' AND jsonb_array_length(columns) > 0
+    );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_export_templates_user ON export_templates(user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_export_templates_group ON export_templates(group_id) WHERE group_id IS NOT NULL;
+
+CREATE TRIGGER update_export_templates_updated_at BEFORE UPDATE ON export_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: the API reads and writes templates with the service role
+ALTER TABLE export_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on export_templates" ON export_templates
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Users can view their own templates and their group's templates
+CREATE POLICY "Users can view accessible export templates" ON export_templates
+  FOR SELECT TO authenticated
+  USING (
+    user_id IN (
+      SELECT id FROM users
+      WHERE auth_user_id = auth.uid()
+    )
+    OR group_id IN (
+      SELECT group_id FROM users
+      WHERE auth_user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE export_templates IS 'Underwriting export templates: column mappings from extracted rent rolls to model import layouts';
+COMMENT ON COLUMN export_templates.columns IS 'Ordered column mappings: header, tenant field path or property.<metadata field>, transform, constant value';
@@ -0,0 +1,94 @@
+-- Migration: Workbook Templates
+-- Description: User-uploaded .xlsx templates filled on export. Cells or defined names in the
+-- workbook are bound to paths in the extracted data; the export keeps the template's formulas
+-- and formatting. Templates are stored per group (shared by every member) or per user.
+-- Files live in the private workbook-templates storage bucket.
+
+CREATE TABLE IF NOT EXISTS workbook_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Template Information
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  document_type VARCHAR(50),  -- Expected document type, NULL for any
+
+  -- Stored File
+  file_name VARCHAR(255) NOT NULL,
+  file_size INT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+
+  -- Bindings: [{ target: "TotalRent" | "Rent Roll!B4", path: "data.summary.totalRent" }, ...]
+  bindings JSONB DEFAULT '[]'::jsonb NOT NULL,
+
+  -- Owner: exactly one of user_id / group_id
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  group_id UUID REFERENCES user_groups(id) ON DELETE CASCADE,
+
+  -- Audit
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_workbook_template_owner'
+  ) THEN
+    ALTER TABLE workbook_templates ADD CONSTRAINT check_workbook_template_owner CHECK (
+      (user_id IS NOT NULL AND group_id IS NULL) OR (user_id IS NULL AND group_id IS NOT NULL)
+    );
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_workbook_template_bindings'
+  ) THEN
+    ALTER TABLE workbook_templates ADD CONSTRAINT check_workbook_template_bindings CHECK (
+      jsonb_typeof(bindings) = 'array'
+    );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_workbook_templates_user ON workbook_templates(user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_workbook_templates_group ON workbook_templates(group_id) WHERE group_id IS NOT NULL;
+
+CREATE TRIGGER update_workbook_templates_updated_at BEFORE UPDATE ON workbook_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: the API reads and writes templates with the service role
+ALTER TABLE workbook_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on workbook_templates" ON workbook_templates
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Users can view their own templates and their group's templates
+CREATE POLICY "Users can view accessible workbook templates" ON workbook_templates
+  FOR SELECT TO authenticated
+  USING (
+    user_id IN (
+      SELECT id FROM users
+      WHERE auth_user_id = auth.uid()
+    )
+    OR group_id IN (
+      SELECT group_id FROM users
+      WHERE auth_user_id = auth.uid()
+    )
+  );
+
+-- Private bucket for the template files (only the service role reads and writes them)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'workbook-templates',
+  'workbook-templates',
+  false,
+  4194304,
+  ARRAY['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
+)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE workbook_templates IS 'User-uploaded Excel templates filled with extracted data on export';
+COMMENT ON COLUMN workbook_templates.bindings IS 'Cell / defined-name bindings to ExtractedData paths; [*] fills one row per array item';
+COMMENT ON COLUMN workbook_templates.storage_path IS 'Object path in the workbook-templates storage bucket';
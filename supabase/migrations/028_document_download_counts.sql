@@ -0,0 +1,37 @@
+-- Migration: Document Download Counts
+-- Description: Saved documents can be re-exported with the current export engine in any
+-- export format. download_count stays the overall total; download_counts breaks it down per
+-- format ({"raw": 2, "xlsx": 5, "ods": 1}, "raw" being the stored JSON download). Both are
+-- updated with one atomic statement so concurrent downloads are not lost.
+
+ALTER TABLE user_documents
+  ADD COLUMN IF NOT EXISTS download_counts JSONB DEFAULT '{}'::jsonb NOT NULL;
+
+-- Function: Record a download of a saved document in the given format
+CREATE OR REPLACE FUNCTION record_document_download(
+  p_document_id UUID,
+  p_format TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE user_documents
+  SET
+    download_count = COALESCE(download_count, 0) + 1,
+    download_counts = jsonb_set(
+      COALESCE(download_counts, '{}'::jsonb),
+      ARRAY[p_format],
+      to_jsonb(COALESCE((download_counts->>p_format)::INT, 0) + 1)
+    ),
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = p_document_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_document_download(UUID, TEXT) TO service_role;
+
+COMMENT ON COLUMN user_documents.download_counts IS 'Downloads per format: raw (stored JSON), xlsx, ods, csv, json, parquet';
+COMMENT ON FUNCTION record_document_download(UUID, TEXT) IS 'Increment download_count and the per-format counter in download_counts for a saved document';
@@ -0,0 +1,13 @@
+-- Migration: Stripe Subscription Link
+-- Description: Self-serve billing creates Checkout Sessions for credit packs and subscriptions.
+-- The user's current Stripe subscription is stored so a plan switch updates that subscription
+-- (prorated) instead of starting a second one. stripe_customer_id was added in migration 021.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_users_stripe_subscription_id
+  ON users(stripe_subscription_id)
+  WHERE stripe_subscription_id IS NOT NULL;
+
+COMMENT ON COLUMN users.stripe_subscription_id IS 'Current Stripe subscription, set when a subscription Checkout Session completes';
@@ -0,0 +1,280 @@
+-- Migration: Stripe Event Ledger
+-- Description: Every Stripe webhook event is recorded in stripe_events keyed by its event id
+-- before it is handled, so retried deliveries are processed once. A delivery claims the event
+-- (claim_stripe_event); events that failed can be claimed again by a later delivery or by the
+-- retry cron. Payments carry the event id (unique) and each handler writes in one transaction:
+-- - record_stripe_credit_purchase: payment + add_user_credits for one-time credit packs
+-- - record_stripe_invoice_payment: payment + subscription credit renewal
+-- - apply_stripe_subscription_event: plan/status change, skipped when an event created after
+--   it was already applied (Stripe does not guarantee delivery order)
+
+-- =====================================================
+-- Event ledger
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY,                 -- Stripe event id (evt_...)
+  type VARCHAR(100) NOT NULL,
+  object_id TEXT,                      -- data.object.id (cs_..., sub_..., in_...)
+  stripe_created_at TIMESTAMPTZ NOT NULL,
+  payload JSONB NOT NULL,
+
+  -- Processing state
+  status VARCHAR(20) DEFAULT 'pending' NOT NULL,
+  attempts INT DEFAULT 0 NOT NULL,
+  last_error TEXT,
+  last_attempt_at TIMESTAMPTZ,
+  processed_at TIMESTAMPTZ,
+
+  received_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_stripe_event_status'
+  ) THEN
+    ALTER TABLE stripe_events ADD CONSTRAINT check_stripe_event_status CHECK (
+      status IN ('pending', 'processing', 'processed', 'failed', 'ignored')
+    );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_retry
+  ON stripe_events(received_at)
+  WHERE status IN ('failed', 'processing');
+CREATE INDEX IF NOT EXISTS idx_stripe_events_object ON stripe_events(object_id);
+
+-- RLS: only the webhook (service role) reads and writes the ledger
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on stripe_events" ON stripe_events
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Payments are unique per Stripe event
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS stripe_event_id TEXT UNIQUE;
+
+-- Newest subscription event applied to the user, for out-of-order protection
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS stripe_subscription_event_at TIMESTAMPTZ;
+
+-- =====================================================
+-- Function: Claim an event for processing
+-- Records the event on first delivery. Returns true when the caller should process it: new,
+-- previously failed, or stuck in processing (a crashed attempt) for over 5 minutes.
+-- Processed and ignored events, and events another delivery is working on, return false.
+-- =====================================================
+CREATE OR REPLACE FUNCTION claim_stripe_event(
+  p_event_id TEXT,
+  p_type VARCHAR,
+  p_object_id TEXT,
+  p_created_at TIMESTAMPTZ,
+  p_payload JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO stripe_events (id, type, object_id, stripe_created_at, payload)
+  VALUES (p_event_id, p_type, p_object_id, p_created_at, p_payload)
+  ON CONFLICT (id) DO NOTHING;
+
+  UPDATE stripe_events
+  SET
+    status = 'processing',
+    attempts = attempts + 1,
+    last_attempt_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_event_id
+    AND (
+      status IN ('pending', 'failed')
+      OR (status = 'processing' AND last_attempt_at < NOW() - INTERVAL '5 minutes')
+    );
+
+  RETURN FOUND;
+END;
+$$;
+
+-- =====================================================
+-- Function: One-time credit pack purchase (checkout.session.completed)
+-- Returns false when the event was already recorded
+-- =====================================================
+CREATE OR REPLACE FUNCTION record_stripe_credit_purchase(
+  p_event_id TEXT,
+  p_user_id UUID,
+  p_customer_id TEXT,
+  p_payment_id TEXT,
+  p_amount DECIMAL,
+  p_currency TEXT,
+  p_plan_type TEXT,
+  p_credits INT,
+  p_description TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO payments (
+    user_id, stripe_event_id, stripe_payment_id, stripe_customer_id,
+    amount, currency, plan_type, status, description
+  )
+  VALUES (
+    p_user_id, p_event_id, p_payment_id, p_customer_id,
+    p_amount, p_currency, p_plan_type, 'succeeded', p_description
+  )
+  ON CONFLICT (stripe_event_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE users
+  SET stripe_customer_id = COALESCE(stripe_customer_id, p_customer_id)
+  WHERE id = p_user_id;
+
+  -- add_user_credits reports errors as false - raise so the payment row rolls back too
+  IF NOT add_user_credits(p_user_id, p_credits, 'purchase', NULL, p_description) THEN
+    RAISE EXCEPTION 'add_user_credits failed for user %', p_user_id;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- =====================================================
+-- Function: Subscription invoice paid or failed (invoice.payment_succeeded / _failed)
+-- Records the payment and, for a paid invoice with p_credits > 0, renews the plan's credits
+-- for the invoiced period. Returns the user id, NULL when no user has the Stripe customer.
+-- =====================================================
+CREATE OR REPLACE FUNCTION record_stripe_invoice_payment(
+  p_event_id TEXT,
+  p_customer_id TEXT,
+  p_subscription_id TEXT,
+  p_payment_id TEXT,
+  p_invoice_id TEXT,
+  p_amount DECIMAL,
+  p_currency TEXT,
+  p_status TEXT,
+  p_plan_type TEXT,
+  p_credits INT,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_description TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_subscription_type VARCHAR;
+BEGIN
+  SELECT id, subscription_type INTO v_user_id, v_subscription_type
+  FROM users
+  WHERE stripe_customer_id = p_customer_id
+  FOR UPDATE;
+
+  IF v_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO payments (
+    user_id, stripe_event_id, stripe_payment_id, stripe_customer_id, stripe_subscription_id,
+    amount, currency, plan_type, status, description, metadata
+  )
+  VALUES (
+    v_user_id, p_event_id, p_payment_id, p_customer_id, p_subscription_id,
+    p_amount, p_currency, COALESCE(p_plan_type, v_subscription_type, 'unknown'), p_status, p_description,
+    jsonb_build_object('invoice_id', p_invoice_id)
+  )
+  ON CONFLICT (stripe_event_id) DO NOTHING;
+
+  IF NOT FOUND OR p_status <> 'succeeded' OR COALESCE(p_credits, 0) <= 0 THEN
+    RETURN v_user_id;
+  END IF;
+
+  UPDATE users
+  SET
+    credits = p_credits,
+    monthly_usage = 0,
+    billing_cycle_start = COALESCE(p_period_start, billing_cycle_start),
+    billing_cycle_end = COALESCE(p_period_end, billing_cycle_end),
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = v_user_id;
+
+  INSERT INTO credit_transactions (user_id, amount, transaction_type, description)
+  VALUES (v_user_id, p_credits, 'subscription_reset', 'Subscription credits renewed: ' || COALESCE(p_plan_type, v_subscription_type) || ' (' || p_invoice_id || ')');
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- =====================================================
+-- Function: Subscription created / updated / deleted
+-- Returns 'applied', 'stale' (a newer event was already applied), 'other_subscription'
+-- (deletion of a subscription the user has since replaced) or 'not_found' (no user has the
+-- Stripe customer yet). p_subscription_type NULL keeps the current plan (unknown price).
+-- =====================================================
+CREATE OR REPLACE FUNCTION apply_stripe_subscription_event(
+  p_customer_id TEXT,
+  p_subscription_id TEXT,
+  p_event_created_at TIMESTAMPTZ,
+  p_subscription_type VARCHAR,
+  p_subscription_status VARCHAR,
+  p_deleted BOOLEAN
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user RECORD;
+BEGIN
+  SELECT id, stripe_subscription_id, stripe_subscription_event_at INTO v_user
+  FROM users
+  WHERE stripe_customer_id = p_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF p_deleted AND v_user.stripe_subscription_id IS NOT NULL AND v_user.stripe_subscription_id <> p_subscription_id THEN
+    RETURN 'other_subscription';
+  END IF;
+
+  IF v_user.stripe_subscription_event_at IS NOT NULL AND p_event_created_at < v_user.stripe_subscription_event_at THEN
+    RETURN 'stale';
+  END IF;
+
+  UPDATE users
+  SET
+    subscription_type = CASE WHEN p_deleted THEN 'free' ELSE COALESCE(p_subscription_type, subscription_type) END,
+    subscription_status = p_subscription_status,
+    stripe_subscription_id = CASE WHEN p_deleted THEN NULL ELSE p_subscription_id END,
+    stripe_subscription_event_at = p_event_created_at,
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = v_user.id;
+
+  RETURN 'applied';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_stripe_event(TEXT, VARCHAR, TEXT, TIMESTAMPTZ, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION record_stripe_credit_purchase(TEXT, UUID, TEXT, TEXT, DECIMAL, TEXT, TEXT, INT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION record_stripe_invoice_payment(TEXT, TEXT, TEXT, TEXT, TEXT, DECIMAL, TEXT, TEXT, TEXT, INT, DATE, DATE, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION apply_stripe_subscription_event(TEXT, TEXT, TIMESTAMPTZ, VARCHAR, VARCHAR, BOOLEAN) TO service_role;
+
+COMMENT ON TABLE stripe_events IS 'Stripe webhook event ledger: one row per event id with processing status, attempts and last error';
+COMMENT ON FUNCTION claim_stripe_event(TEXT, VARCHAR, TEXT, TIMESTAMPTZ, JSONB) IS 'Record a Stripe event and claim it for processing; false when already processed or being processed';
+COMMENT ON FUNCTION record_stripe_credit_purchase(TEXT, UUID, TEXT, TEXT, DECIMAL, TEXT, TEXT, INT, TEXT) IS 'Record a credit pack payment and add its credits in one transaction, once per Stripe event';
+COMMENT ON FUNCTION record_stripe_invoice_payment(TEXT, TEXT, TEXT, TEXT, TEXT, DECIMAL, TEXT, TEXT, TEXT, INT, DATE, DATE, TEXT) IS 'Record a subscription invoice payment and renew plan credits in one transaction, once per Stripe event';
+COMMENT ON FUNCTION apply_stripe_subscription_event(TEXT, TEXT, TIMESTAMPTZ, VARCHAR, VARCHAR, BOOLEAN) IS 'Apply a subscription change unless a newer subscription event was already applied';
@@ -0,0 +1,207 @@
+-- Migration: Group Billing
+-- Description: Group owners buy and manage group subscriptions through Stripe. A group has
+-- its own Stripe customer and subscription (separate from the owner's personal billing); the
+-- subscription carries the plan and an optional seat add-on whose quantity is extra_seats.
+-- max_members = the plan's seats (GROUP_MAX_MEMBERS) + extra_seats, and is now enforced in
+-- the database so concurrent invitations cannot exceed it.
+-- Webhook handlers (see 030_stripe_event_ledger.sql) update user_groups and
+-- group_credit_transactions through the functions below.
+
+ALTER TABLE user_groups
+  ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT,
+  ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT,
+  ADD COLUMN IF NOT EXISTS stripe_subscription_event_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS extra_seats INT DEFAULT 0 NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_groups_stripe_customer
+  ON user_groups(stripe_customer_id)
+  WHERE stripe_customer_id IS NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_group_extra_seats'
+  ) THEN
+    ALTER TABLE user_groups ADD CONSTRAINT check_group_extra_seats CHECK (extra_seats >= 0);
+  END IF;
+END $$;
+
+-- Group payments are recorded against the owner (payments.user_id) with the group referenced
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES user_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_group_id ON payments(group_id) WHERE group_id IS NOT NULL;
+
+-- =====================================================
+-- Seat limit: active members may not exceed max_members
+-- =====================================================
+CREATE OR REPLACE FUNCTION enforce_group_seat_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_max_members INT;
+  v_active_members INT;
+BEGIN
+  IF NOT NEW.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the group so concurrent inserts are counted one after another
+  SELECT max_members INTO v_max_members
+  FROM user_groups
+  WHERE id = NEW.group_id
+  FOR UPDATE;
+
+  SELECT COUNT(*) INTO v_active_members
+  FROM group_members
+  WHERE group_id = NEW.group_id
+    AND is_active = true
+    AND id <> NEW.id;
+
+  IF v_active_members >= v_max_members THEN
+    RAISE EXCEPTION 'Group has reached its seat limit (% members)', v_max_members
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_group_seat_limit ON group_members;
+CREATE TRIGGER enforce_group_seat_limit
+  BEFORE INSERT OR UPDATE OF group_id, is_active ON group_members
+  FOR EACH ROW EXECUTE FUNCTION enforce_group_seat_limit();
+
+-- =====================================================
+-- Function: Group subscription created / updated / deleted
+-- Same ordering rules as apply_stripe_subscription_event. p_subscription_type NULL keeps the
+-- current plan; a deleted subscription is cancelled and drops its extra seats.
+-- =====================================================
+CREATE OR REPLACE FUNCTION apply_stripe_group_subscription_event(
+  p_customer_id TEXT,
+  p_subscription_id TEXT,
+  p_event_created_at TIMESTAMPTZ,
+  p_subscription_type VARCHAR,
+  p_subscription_status VARCHAR,
+  p_plan_seats INT,
+  p_extra_seats INT,
+  p_deleted BOOLEAN
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group RECORD;
+BEGIN
+  SELECT id, stripe_subscription_id, stripe_subscription_event_at, max_members, extra_seats INTO v_group
+  FROM user_groups
+  WHERE stripe_customer_id = p_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF p_deleted AND v_group.stripe_subscription_id IS NOT NULL AND v_group.stripe_subscription_id <> p_subscription_id THEN
+    RETURN 'other_subscription';
+  END IF;
+
+  IF v_group.stripe_subscription_event_at IS NOT NULL AND p_event_created_at < v_group.stripe_subscription_event_at THEN
+    RETURN 'stale';
+  END IF;
+
+  UPDATE user_groups
+  SET
+    subscription_type = CASE WHEN p_deleted THEN subscription_type ELSE COALESCE(p_subscription_type, subscription_type) END,
+    subscription_status = p_subscription_status,
+    extra_seats = CASE WHEN p_deleted THEN 0 ELSE p_extra_seats END,
+    max_members = COALESCE(p_plan_seats, max_members - extra_seats) + CASE WHEN p_deleted THEN 0 ELSE p_extra_seats END,
+    stripe_subscription_id = CASE WHEN p_deleted THEN NULL ELSE p_subscription_id END,
+    stripe_subscription_event_at = p_event_created_at,
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = v_group.id;
+
+  RETURN 'applied';
+END;
+$$;
+
+-- =====================================================
+-- Function: Group subscription invoice paid or failed
+-- Records the payment (against the group owner) and, for a paid invoice, renews the group's
+-- credit pool. Returns the group id, NULL when no group has the Stripe customer.
+-- =====================================================
+CREATE OR REPLACE FUNCTION record_stripe_group_invoice_payment(
+  p_event_id TEXT,
+  p_customer_id TEXT,
+  p_subscription_id TEXT,
+  p_payment_id TEXT,
+  p_invoice_id TEXT,
+  p_amount DECIMAL,
+  p_currency TEXT,
+  p_status TEXT,
+  p_plan_type TEXT,
+  p_credits INT,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_description TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id UUID;
+  v_owner_id UUID;
+  v_subscription_type VARCHAR;
+BEGIN
+  SELECT id, owner_id, subscription_type INTO v_group_id, v_owner_id, v_subscription_type
+  FROM user_groups
+  WHERE stripe_customer_id = p_customer_id
+  FOR UPDATE;
+
+  IF v_group_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO payments (
+    user_id, group_id, stripe_event_id, stripe_payment_id, stripe_customer_id, stripe_subscription_id,
+    amount, currency, plan_type, status, description, metadata
+  )
+  VALUES (
+    v_owner_id, v_group_id, p_event_id, p_payment_id, p_customer_id, p_subscription_id,
+    p_amount, p_currency, 'group_' || COALESCE(p_plan_type, v_subscription_type), p_status, p_description,
+    jsonb_build_object('invoice_id', p_invoice_id)
+  )
+  ON CONFLICT (stripe_event_id) DO NOTHING;
+
+  IF NOT FOUND OR p_status <> 'succeeded' OR COALESCE(p_credits, 0) <= 0 THEN
+    RETURN v_group_id;
+  END IF;
+
+  UPDATE user_groups
+  SET
+    credits = p_credits,
+    monthly_usage = 0,
+    billing_cycle_start = COALESCE(p_period_start, billing_cycle_start),
+    billing_cycle_end = COALESCE(p_period_end, billing_cycle_end),
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = v_group_id;
+
+  INSERT INTO group_credit_transactions (group_id, user_id, amount, transaction_type, description)
+  VALUES (v_group_id, v_owner_id, p_credits, 'subscription_reset', 'Group subscription credits renewed: ' || COALESCE(p_plan_type, v_subscription_type) || ' (' || p_invoice_id || ')');
+
+  RETURN v_group_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_stripe_group_subscription_event(TEXT, TEXT, TIMESTAMPTZ, VARCHAR, VARCHAR, INT, INT, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION record_stripe_group_invoice_payment(TEXT, TEXT, TEXT, TEXT, TEXT, DECIMAL, TEXT, TEXT, TEXT, INT, DATE, DATE, TEXT) TO service_role;
+
+COMMENT ON COLUMN user_groups.extra_seats IS 'Seats bought as a Stripe add-on on top of the plan''s members; max_members includes them';
+COMMENT ON FUNCTION apply_stripe_group_subscription_event(TEXT, TEXT, TIMESTAMPTZ, VARCHAR, VARCHAR, INT, INT, BOOLEAN) IS 'Apply a group subscription change (plan, status, seats) unless a newer subscription event was already applied';
+COMMENT ON FUNCTION record_stripe_group_invoice_payment(TEXT, TEXT, TEXT, TEXT, TEXT, DECIMAL, TEXT, TEXT, TEXT, INT, DATE, DATE, TEXT) IS 'Record a group subscription invoice payment and renew the group credit pool in one transaction, once per Stripe event';
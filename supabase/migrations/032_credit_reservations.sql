@@ -0,0 +1,280 @@
+-- Migration: Credit Reservations
+-- Description: Extraction reserves its credits before it starts instead of checking the balance
+-- up front and deducting after success, so concurrent requests cannot overspend a balance.
+-- - reserve_effective_credits: takes the credits from the user's (or group's) balance, like
+--   deduct_effective_credits, and records a reservation
+-- - commit_credit_reservation: the extraction succeeded - the credits count as usage
+-- - release_credit_reservation: the extraction failed or returned partial results - the credits
+--   go back to the balance they were taken from with a 'refund' transaction and its reason
+-- Reservations of requests that crashed are released by release_expired_credit_reservations
+-- (cron: /api/cron/release-credit-reservations).
+
+CREATE TABLE IF NOT EXISTS credit_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  group_id UUID REFERENCES user_groups(id) ON DELETE SET NULL,  -- Set when taken from a group pool
+  amount INT NOT NULL,
+  description TEXT,
+
+  status VARCHAR(20) DEFAULT 'reserved' NOT NULL,
+  release_reason TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  settled_at TIMESTAMPTZ
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_credit_reservation_status'
+  ) THEN
+    ALTER TABLE credit_reservations ADD CONSTRAINT check_credit_reservation_status CHECK (
+      status IN ('reserved', 'committed', 'released')
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_credit_reservation_amount'
+  ) THEN
+    ALTER TABLE credit_reservations ADD CONSTRAINT check_credit_reservation_amount CHECK (amount > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_user ON credit_reservations(user_id);
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_open
+  ON credit_reservations(created_at)
+  WHERE status = 'reserved';
+
+-- RLS: only the server (service role) reads and writes reservations
+ALTER TABLE credit_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on credit_reservations" ON credit_reservations
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Asynchronous extraction jobs keep their reservation so a lost job can be refunded
+ALTER TABLE user_documents
+  ADD COLUMN IF NOT EXISTS credit_reservation_id UUID REFERENCES credit_reservations(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- Function: Reserve credits (handles both individual and group)
+-- Returns the reservation id, NULL when the balance is insufficient
+-- =====================================================
+CREATE OR REPLACE FUNCTION reserve_effective_credits(
+  p_user_id UUID,
+  p_page_count INT,
+  p_description TEXT DEFAULT 'Document processing'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_group_id UUID;
+  current_credits INT;
+  v_reservation_id UUID;
+BEGIN
+  IF p_page_count <= 0 THEN
+    RAISE EXCEPTION 'Reservation amount must be positive: %', p_page_count;
+  END IF;
+
+  -- Group pool when the user is in an active group, as checkUserCredits
+  SELECT g.id INTO user_group_id
+  FROM users u
+  JOIN user_groups g ON g.id = u.group_id AND g.is_active = true
+  WHERE u.id = p_user_id AND u.is_active = true;
+
+  IF user_group_id IS NOT NULL THEN
+    SELECT credits INTO current_credits
+    FROM user_groups
+    WHERE id = user_group_id
+    FOR UPDATE;  -- Lock row so concurrent reservations are checked one after another
+
+    IF COALESCE(current_credits, 0) < p_page_count THEN
+      RETURN NULL;
+    END IF;
+
+    UPDATE user_groups
+    SET
+      credits = credits - p_page_count,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = user_group_id;
+
+    INSERT INTO group_credit_transactions
+      (group_id, user_id, amount, transaction_type, description)
+    VALUES
+      (user_group_id, p_user_id, -p_page_count, 'deduction', p_description);
+  ELSE
+    SELECT credits INTO current_credits
+    FROM users
+    WHERE id = p_user_id AND is_active = true
+    FOR UPDATE;
+
+    IF COALESCE(current_credits, 0) < p_page_count THEN
+      RETURN NULL;
+    END IF;
+
+    UPDATE users
+    SET
+      credits = credits - p_page_count,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = p_user_id;
+
+    INSERT INTO credit_transactions
+      (user_id, amount, transaction_type, description)
+    VALUES
+      (p_user_id, -p_page_count, 'deduction', p_description);
+  END IF;
+
+  INSERT INTO credit_reservations (user_id, group_id, amount, description)
+  VALUES (p_user_id, user_group_id, p_page_count, p_description)
+  RETURNING id INTO v_reservation_id;
+
+  RETURN v_reservation_id;
+END;
+$$;
+
+-- =====================================================
+-- Function: Commit a reservation - the credits were used
+-- Returns false when the reservation is not open (already committed or released)
+-- =====================================================
+CREATE OR REPLACE FUNCTION commit_credit_reservation(p_reservation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation RECORD;
+BEGIN
+  SELECT id, user_id, group_id, amount INTO v_reservation
+  FROM credit_reservations
+  WHERE id = p_reservation_id AND status = 'reserved'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_reservation.group_id IS NOT NULL THEN
+    UPDATE user_groups
+    SET
+      monthly_usage = monthly_usage + v_reservation.amount,
+      lifetime_usage = lifetime_usage + v_reservation.amount,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = v_reservation.group_id;
+  ELSE
+    UPDATE users
+    SET
+      monthly_usage = monthly_usage + v_reservation.amount,
+      lifetime_usage = lifetime_usage + v_reservation.amount,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = v_reservation.user_id;
+  END IF;
+
+  UPDATE credit_reservations
+  SET status = 'committed', settled_at = NOW()
+  WHERE id = p_reservation_id;
+
+  RETURN true;
+END;
+$$;
+
+-- =====================================================
+-- Function: Release a reservation - refund the credits with a reason
+-- Credits return to the balance they were taken from, even if the user has since changed groups
+-- Returns the credits refunded, 0 when the reservation is not open
+-- =====================================================
+CREATE OR REPLACE FUNCTION release_credit_reservation(
+  p_reservation_id UUID,
+  p_reason TEXT
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation RECORD;
+BEGIN
+  SELECT id, user_id, group_id, amount INTO v_reservation
+  FROM credit_reservations
+  WHERE id = p_reservation_id AND status = 'reserved'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF v_reservation.group_id IS NOT NULL THEN
+    UPDATE user_groups
+    SET
+      credits = credits + v_reservation.amount,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = v_reservation.group_id;
+
+    INSERT INTO group_credit_transactions
+      (group_id, user_id, amount, transaction_type, description)
+    VALUES
+      (v_reservation.group_id, v_reservation.user_id, v_reservation.amount, 'refund', 'Refund: ' || p_reason);
+  ELSE
+    UPDATE users
+    SET
+      credits = credits + v_reservation.amount,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = v_reservation.user_id;
+
+    INSERT INTO credit_transactions
+      (user_id, amount, transaction_type, description)
+    VALUES
+      (v_reservation.user_id, v_reservation.amount, 'refund', 'Refund: ' || p_reason);
+  END IF;
+
+  UPDATE credit_reservations
+  SET status = 'released', release_reason = p_reason, settled_at = NOW()
+  WHERE id = p_reservation_id;
+
+  RETURN v_reservation.amount;
+END;
+$$;
+
+-- =====================================================
+-- Function: Release reservations left open by requests that crashed or timed out
+-- p_older_than must exceed the longest extraction (maxDuration). Returns the number released.
+-- =====================================================
+CREATE OR REPLACE FUNCTION release_expired_credit_reservations(
+  p_older_than INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation_id UUID;
+  v_released INT := 0;
+BEGIN
+  FOR v_reservation_id IN
+    SELECT id FROM credit_reservations
+    WHERE status = 'reserved' AND created_at < NOW() - p_older_than
+    ORDER BY created_at
+  LOOP
+    IF release_credit_reservation(v_reservation_id, 'Processing did not finish') > 0 THEN
+      v_released := v_released + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_released;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reserve_effective_credits(UUID, INT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION commit_credit_reservation(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION release_credit_reservation(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION release_expired_credit_reservations(INTERVAL) TO service_role;
+
+COMMENT ON TABLE credit_reservations IS 'Credits taken from a balance before extraction, committed on success or refunded on failure';
+COMMENT ON FUNCTION reserve_effective_credits(UUID, INT, TEXT) IS 'Atomically take credits from the user or group balance and record a reservation; NULL when insufficient';
+COMMENT ON FUNCTION commit_credit_reservation(UUID) IS 'Mark reserved credits as used and count them as usage';
+COMMENT ON FUNCTION release_credit_reservation(UUID, TEXT) IS 'Refund reserved credits to the balance they came from with a refund transaction';
+COMMENT ON FUNCTION release_expired_credit_reservations(INTERVAL) IS 'Refund reservations left open by requests that never finished';
@@ -0,0 +1,285 @@
+-- Migration: Overage Billing
+-- Description: Subscribers can opt into overage: when their credits run out, processing
+-- continues and the extra pages are billed through Stripe metered usage at the plan's
+-- per-page rate, up to a monthly spend cap the user sets (calendar month, UTC).
+-- Only individual balances have overage; group members draw from the group pool as before.
+--
+-- reserve_effective_credits takes the overage rate from the caller (NULL = overage not
+-- available for this user) and reserves the missing pages as overage when they fit under the
+-- cap. Committed overage is reported to Stripe once per reservation (overage_reported_at);
+-- released overage is taken off the month's totals, since it was never reported.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS overage_enabled BOOLEAN DEFAULT false NOT NULL,
+  ADD COLUMN IF NOT EXISTS overage_monthly_cap DECIMAL(10, 2) DEFAULT 100 NOT NULL,
+  ADD COLUMN IF NOT EXISTS overage_month DATE,                       -- Month the totals below belong to
+  ADD COLUMN IF NOT EXISTS overage_pages INT DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS overage_spend DECIMAL(10, 2) DEFAULT 0 NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'check_overage_monthly_cap'
+  ) THEN
+    ALTER TABLE users ADD CONSTRAINT check_overage_monthly_cap CHECK (overage_monthly_cap >= 0);
+  END IF;
+END $$;
+
+ALTER TABLE credit_reservations
+  ADD COLUMN IF NOT EXISTS overage_pages INT DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS overage_amount DECIMAL(10, 2) DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS overage_month DATE,
+  ADD COLUMN IF NOT EXISTS overage_reported_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS overage_report_attempts INT DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS overage_report_error TEXT;
+
+-- A reservation may be all overage (no credits left)
+ALTER TABLE credit_reservations DROP CONSTRAINT IF EXISTS check_credit_reservation_amount;
+ALTER TABLE credit_reservations ADD CONSTRAINT check_credit_reservation_amount CHECK (
+  amount >= 0 AND overage_pages >= 0 AND amount + overage_pages > 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_unreported_overage
+  ON credit_reservations(settled_at)
+  WHERE status = 'committed' AND overage_pages > 0 AND overage_reported_at IS NULL;
+
+-- =====================================================
+-- Function: Reserve credits, with overage past the balance when p_overage_rate is set
+-- Returns the reservation id, NULL when the balance (and overage cap) is insufficient
+-- =====================================================
+DROP FUNCTION IF EXISTS reserve_effective_credits(UUID, INT, TEXT);
+
+CREATE OR REPLACE FUNCTION reserve_effective_credits(
+  p_user_id UUID,
+  p_page_count INT,
+  p_description TEXT DEFAULT 'Document processing',
+  p_overage_rate DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_group_id UUID;
+  current_credits INT;
+  v_user RECORD;
+  v_month DATE := date_trunc('month', NOW() AT TIME ZONE 'UTC')::DATE;
+  v_month_pages INT;
+  v_month_spend DECIMAL;
+  v_credit_pages INT;
+  v_overage_pages INT := 0;
+  v_overage_amount DECIMAL := 0;
+  v_reservation_id UUID;
+BEGIN
+  IF p_page_count <= 0 THEN
+    RAISE EXCEPTION 'Reservation amount must be positive: %', p_page_count;
+  END IF;
+
+  -- Group pool when the user is in an active group, as checkUserCredits
+  SELECT g.id INTO user_group_id
+  FROM users u
+  JOIN user_groups g ON g.id = u.group_id AND g.is_active = true
+  WHERE u.id = p_user_id AND u.is_active = true;
+
+  IF user_group_id IS NOT NULL THEN
+    SELECT credits INTO current_credits
+    FROM user_groups
+    WHERE id = user_group_id
+    FOR UPDATE;  -- Lock row so concurrent reservations are checked one after another
+
+    IF COALESCE(current_credits, 0) < p_page_count THEN
+      RETURN NULL;
+    END IF;
+
+    UPDATE user_groups
+    SET
+      credits = credits - p_page_count,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = user_group_id;
+
+    INSERT INTO group_credit_transactions
+      (group_id, user_id, amount, transaction_type, description)
+    VALUES
+      (user_group_id, p_user_id, -p_page_count, 'deduction', p_description);
+
+    v_credit_pages := p_page_count;
+  ELSE
+    SELECT credits, overage_enabled, overage_monthly_cap, overage_month, overage_pages, overage_spend INTO v_user
+    FROM users
+    WHERE id = p_user_id AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN NULL;
+    END IF;
+
+    v_credit_pages := LEAST(GREATEST(COALESCE(v_user.credits, 0), 0), p_page_count);
+
+    IF v_credit_pages < p_page_count THEN
+      IF p_overage_rate IS NULL OR NOT v_user.overage_enabled THEN
+        RETURN NULL;
+      END IF;
+
+      -- Totals of a previous month no longer count against the cap
+      v_month_pages := CASE WHEN v_user.overage_month = v_month THEN v_user.overage_pages ELSE 0 END;
+      v_month_spend := CASE WHEN v_user.overage_month = v_month THEN v_user.overage_spend ELSE 0 END;
+
+      v_overage_pages := p_page_count - v_credit_pages;
+      v_overage_amount := ROUND(v_overage_pages * p_overage_rate, 2);
+
+      IF v_month_spend + v_overage_amount > v_user.overage_monthly_cap THEN
+        RETURN NULL;
+      END IF;
+
+      UPDATE users
+      SET
+        overage_month = v_month,
+        overage_pages = v_month_pages + v_overage_pages,
+        overage_spend = v_month_spend + v_overage_amount
+      WHERE id = p_user_id;
+    END IF;
+
+    IF v_credit_pages > 0 THEN
+      UPDATE users
+      SET
+        credits = credits - v_credit_pages,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = p_user_id;
+
+      INSERT INTO credit_transactions
+        (user_id, amount, transaction_type, description)
+      VALUES
+        (p_user_id, -v_credit_pages, 'deduction', p_description);
+    END IF;
+  END IF;
+
+  INSERT INTO credit_reservations (user_id, group_id, amount, description, overage_pages, overage_amount, overage_month)
+  VALUES (
+    p_user_id, user_group_id, v_credit_pages, p_description,
+    v_overage_pages, v_overage_amount, CASE WHEN v_overage_pages > 0 THEN v_month END
+  )
+  RETURNING id INTO v_reservation_id;
+
+  RETURN v_reservation_id;
+END;
+$$;
+
+-- =====================================================
+-- Function: Commit a reservation - credits and overage pages count as usage
+-- =====================================================
+CREATE OR REPLACE FUNCTION commit_credit_reservation(p_reservation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation RECORD;
+BEGIN
+  SELECT id, user_id, group_id, amount, overage_pages INTO v_reservation
+  FROM credit_reservations
+  WHERE id = p_reservation_id AND status = 'reserved'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_reservation.group_id IS NOT NULL THEN
+    UPDATE user_groups
+    SET
+      monthly_usage = monthly_usage + v_reservation.amount,
+      lifetime_usage = lifetime_usage + v_reservation.amount,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = v_reservation.group_id;
+  ELSE
+    UPDATE users
+    SET
+      monthly_usage = monthly_usage + v_reservation.amount + v_reservation.overage_pages,
+      lifetime_usage = lifetime_usage + v_reservation.amount + v_reservation.overage_pages,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = v_reservation.user_id;
+  END IF;
+
+  UPDATE credit_reservations
+  SET status = 'committed', settled_at = NOW()
+  WHERE id = p_reservation_id;
+
+  RETURN true;
+END;
+$$;
+
+-- =====================================================
+-- Function: Release a reservation - refund the credits and take the overage off the month
+-- Returns the pages released (credits + overage), 0 when the reservation is not open
+-- =====================================================
+CREATE OR REPLACE FUNCTION release_credit_reservation(
+  p_reservation_id UUID,
+  p_reason TEXT
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation RECORD;
+BEGIN
+  SELECT id, user_id, group_id, amount, overage_pages, overage_amount, overage_month INTO v_reservation
+  FROM credit_reservations
+  WHERE id = p_reservation_id AND status = 'reserved'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF v_reservation.group_id IS NOT NULL THEN
+    UPDATE user_groups
+    SET
+      credits = credits + v_reservation.amount,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = v_reservation.group_id;
+
+    INSERT INTO group_credit_transactions
+      (group_id, user_id, amount, transaction_type, description)
+    VALUES
+      (v_reservation.group_id, v_reservation.user_id, v_reservation.amount, 'refund', 'Refund: ' || p_reason);
+  ELSE
+    IF v_reservation.amount > 0 THEN
+      UPDATE users
+      SET
+        credits = credits + v_reservation.amount,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = v_reservation.user_id;
+
+      INSERT INTO credit_transactions
+        (user_id, amount, transaction_type, description)
+      VALUES
+        (v_reservation.user_id, v_reservation.amount, 'refund', 'Refund: ' || p_reason);
+    END IF;
+
+    IF v_reservation.overage_pages > 0 THEN
+      UPDATE users
+      SET
+        overage_pages = GREATEST(overage_pages - v_reservation.overage_pages, 0),
+        overage_spend = GREATEST(overage_spend - v_reservation.overage_amount, 0)
+      WHERE id = v_reservation.user_id
+        AND overage_month = v_reservation.overage_month;
+    END IF;
+  END IF;
+
+  UPDATE credit_reservations
+  SET status = 'released', release_reason = p_reason, settled_at = NOW()
+  WHERE id = p_reservation_id;
+
+  RETURN v_reservation.amount + v_reservation.overage_pages;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reserve_effective_credits(UUID, INT, TEXT, DECIMAL) TO service_role;
+
+COMMENT ON COLUMN users.overage_monthly_cap IS 'Most the user can be billed for overage in a calendar month (USD)';
+COMMENT ON COLUMN credit_reservations.overage_reported_at IS 'When the overage pages were reported to the Stripe meter; NULL until reported';
+COMMENT ON FUNCTION reserve_effective_credits(UUID, INT, TEXT, DECIMAL) IS 'Atomically take credits from the user or group balance, with capped overage past an individual balance when a rate is given; NULL when insufficient';
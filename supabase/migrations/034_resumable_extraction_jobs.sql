@@ -0,0 +1,39 @@
+-- Migration: Resumable Extraction Jobs
+-- Description: A long extraction can outlive the function that runs it (maxDuration). Jobs of rent
+-- rolls extracted in page windows now save each window as it finishes, so a job that stops reporting
+-- progress is resumed in a new invocation (job status poll or /api/cron/resume-extraction-jobs) and
+-- only extracts the windows that are still missing, instead of being marked as failed.
+-- - job_options: extraction options needed to resume (user metadata, user instructions)
+-- - job_resume_count: resumes since the job last saved a window; the job fails after too many
+-- - extraction_job_windows: raw model output of each finished page window
+
+ALTER TABLE user_documents ADD COLUMN IF NOT EXISTS job_options JSONB;
+ALTER TABLE user_documents ADD COLUMN IF NOT EXISTS job_resume_count INT DEFAULT 0 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS extraction_job_windows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES user_documents(id) ON DELETE CASCADE,
+  start_page INT NOT NULL,
+  end_page INT NOT NULL,
+  output_text TEXT NOT NULL,
+  truncated BOOLEAN DEFAULT false NOT NULL,
+  continuation_calls INT DEFAULT 0 NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE (job_id, start_page, end_page)
+);
+
+-- RLS: only the server (service role) reads and writes saved windows
+ALTER TABLE extraction_job_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on extraction_job_windows" ON extraction_job_windows
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Find stale jobs across users (resume cron)
+CREATE INDEX IF NOT EXISTS idx_user_documents_processing_updated
+  ON user_documents(updated_at)
+  WHERE processing_status = 'processing';
+
+COMMENT ON COLUMN user_documents.job_options IS 'Extraction options needed to resume a job: user metadata and user instructions';
+COMMENT ON COLUMN user_documents.job_resume_count IS 'Times the job was resumed since it last saved a page window';
+COMMENT ON TABLE extraction_job_windows IS 'Page windows already extracted by a job, reused when the job is resumed';
@@ -0,0 +1,207 @@
+-- Migration: Stripe Renewal Fixes
+-- Description: Two fixes to the Stripe webhook functions of migration 030.
+-- - Subscription events are ordered by their `created` second. An event created in the same
+--   second as the last applied one cannot be ordered, so apply_stripe_subscription_event now
+--   returns 'tie' for it; the webhook then applies the subscription's current state fetched
+--   from Stripe (p_current_state = true) instead of the event's.
+-- - A renewal replaced the balance with the plan's credits, wiping credits bought as packs.
+--   users.purchased_credits tracks how much of the balance was bought; renewals keep it and add
+--   the plan's credits. Plan credits are assumed to be spent first, so the purchased part is
+--   never more than the balance.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS purchased_credits INT DEFAULT 0 NOT NULL;
+
+-- =====================================================
+-- Function: One-time credit pack purchase (checkout.session.completed)
+-- Returns false when the event was already recorded
+-- =====================================================
+CREATE OR REPLACE FUNCTION record_stripe_credit_purchase(
+  p_event_id TEXT,
+  p_user_id UUID,
+  p_customer_id TEXT,
+  p_payment_id TEXT,
+  p_amount DECIMAL,
+  p_currency TEXT,
+  p_plan_type TEXT,
+  p_credits INT,
+  p_description TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO payments (
+    user_id, stripe_event_id, stripe_payment_id, stripe_customer_id,
+    amount, currency, plan_type, status, description
+  )
+  VALUES (
+    p_user_id, p_event_id, p_payment_id, p_customer_id,
+    p_amount, p_currency, p_plan_type, 'succeeded', p_description
+  )
+  ON CONFLICT (stripe_event_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE users
+  SET stripe_customer_id = COALESCE(stripe_customer_id, p_customer_id)
+  WHERE id = p_user_id;
+
+  -- add_user_credits reports errors as false - raise so the payment row rolls back too
+  IF NOT add_user_credits(p_user_id, p_credits, 'purchase', NULL, p_description) THEN
+    RAISE EXCEPTION 'add_user_credits failed for user %', p_user_id;
+  END IF;
+
+  -- Kept through subscription renewals
+  UPDATE users
+  SET purchased_credits = LEAST(GREATEST(credits, 0), GREATEST(purchased_credits, 0) + p_credits)
+  WHERE id = p_user_id;
+
+  RETURN true;
+END;
+$$;
+
+-- =====================================================
+-- Function: Subscription invoice paid or failed (invoice.payment_succeeded / _failed)
+-- Records the payment and, for a paid invoice with p_credits > 0, renews the plan's credits
+-- for the invoiced period: unused plan credits are replaced, purchased credits are kept.
+-- Returns the user id, NULL when no user has the Stripe customer.
+-- =====================================================
+CREATE OR REPLACE FUNCTION record_stripe_invoice_payment(
+  p_event_id TEXT,
+  p_customer_id TEXT,
+  p_subscription_id TEXT,
+  p_payment_id TEXT,
+  p_invoice_id TEXT,
+  p_amount DECIMAL,
+  p_currency TEXT,
+  p_status TEXT,
+  p_plan_type TEXT,
+  p_credits INT,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_description TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_subscription_type VARCHAR;
+  v_purchased INT;
+BEGIN
+  SELECT id, subscription_type, LEAST(GREATEST(credits, 0), GREATEST(purchased_credits, 0))
+  INTO v_user_id, v_subscription_type, v_purchased
+  FROM users
+  WHERE stripe_customer_id = p_customer_id
+  FOR UPDATE;
+
+  IF v_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO payments (
+    user_id, stripe_event_id, stripe_payment_id, stripe_customer_id, stripe_subscription_id,
+    amount, currency, plan_type, status, description, metadata
+  )
+  VALUES (
+    v_user_id, p_event_id, p_payment_id, p_customer_id, p_subscription_id,
+    p_amount, p_currency, COALESCE(p_plan_type, v_subscription_type, 'unknown'), p_status, p_description,
+    jsonb_build_object('invoice_id', p_invoice_id)
+  )
+  ON CONFLICT (stripe_event_id) DO NOTHING;
+
+  IF NOT FOUND OR p_status <> 'succeeded' OR COALESCE(p_credits, 0) <= 0 THEN
+    RETURN v_user_id;
+  END IF;
+
+  UPDATE users
+  SET
+    credits = v_purchased + p_credits,
+    purchased_credits = v_purchased,
+    monthly_usage = 0,
+    billing_cycle_start = COALESCE(p_period_start, billing_cycle_start),
+    billing_cycle_end = COALESCE(p_period_end, billing_cycle_end),
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = v_user_id;
+
+  INSERT INTO credit_transactions (user_id, amount, transaction_type, description)
+  VALUES (v_user_id, p_credits, 'subscription_reset', 'Subscription credits renewed: ' || COALESCE(p_plan_type, v_subscription_type) || ' (' || p_invoice_id || ')');
+
+  RETURN v_user_id;
+END;
+$$;
+
+-- =====================================================
+-- Function: Subscription created / updated / deleted
+-- Returns 'applied', 'stale' (a newer event was already applied), 'tie' (an event created in
+-- the same second was already applied - call again with the current state from Stripe and
+-- p_current_state = true), 'other_subscription' (deletion of a subscription the user has since
+-- replaced) or 'not_found' (no user has the Stripe customer yet).
+-- p_subscription_type NULL keeps the current plan (unknown price).
+-- =====================================================
+DROP FUNCTION IF EXISTS apply_stripe_subscription_event(TEXT, TEXT, TIMESTAMPTZ, VARCHAR, VARCHAR, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION apply_stripe_subscription_event(
+  p_customer_id TEXT,
+  p_subscription_id TEXT,
+  p_event_created_at TIMESTAMPTZ,
+  p_subscription_type VARCHAR,
+  p_subscription_status VARCHAR,
+  p_deleted BOOLEAN,
+  p_current_state BOOLEAN DEFAULT false
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user RECORD;
+BEGIN
+  SELECT id, stripe_subscription_id, stripe_subscription_event_at INTO v_user
+  FROM users
+  WHERE stripe_customer_id = p_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF p_deleted AND v_user.stripe_subscription_id IS NOT NULL AND v_user.stripe_subscription_id <> p_subscription_id THEN
+    RETURN 'other_subscription';
+  END IF;
+
+  IF v_user.stripe_subscription_event_at IS NOT NULL AND p_event_created_at < v_user.stripe_subscription_event_at THEN
+    RETURN 'stale';
+  END IF;
+
+  IF NOT p_current_state AND p_event_created_at = v_user.stripe_subscription_event_at THEN
+    RETURN 'tie';
+  END IF;
+
+  UPDATE users
+  SET
+    subscription_type = CASE WHEN p_deleted THEN 'free' ELSE COALESCE(p_subscription_type, subscription_type) END,
+    subscription_status = p_subscription_status,
+    stripe_subscription_id = CASE WHEN p_deleted THEN NULL ELSE p_subscription_id END,
+    stripe_subscription_event_at = p_event_created_at,
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = v_user.id;
+
+  RETURN 'applied';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_stripe_credit_purchase(TEXT, UUID, TEXT, TEXT, DECIMAL, TEXT, TEXT, INT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION record_stripe_invoice_payment(TEXT, TEXT, TEXT, TEXT, TEXT, DECIMAL, TEXT, TEXT, TEXT, INT, DATE, DATE, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION apply_stripe_subscription_event(TEXT, TEXT, TIMESTAMPTZ, VARCHAR, VARCHAR, BOOLEAN, BOOLEAN) TO service_role;
+
+COMMENT ON COLUMN users.purchased_credits IS 'Part of the credit balance bought as credit packs, kept when subscription credits renew';
+COMMENT ON FUNCTION record_stripe_invoice_payment(TEXT, TEXT, TEXT, TEXT, TEXT, DECIMAL, TEXT, TEXT, TEXT, INT, DATE, DATE, TEXT) IS 'Record a subscription invoice payment and renew plan credits (keeping purchased credits) in one transaction, once per Stripe event';
+COMMENT ON FUNCTION apply_stripe_subscription_event(TEXT, TEXT, TIMESTAMPTZ, VARCHAR, VARCHAR, BOOLEAN, BOOLEAN) IS 'Apply a subscription change unless a newer subscription event was already applied; same-second events must be re-applied from the current Stripe state';
@@ -0,0 +1,20 @@
+-- Migration: Relax Credits/Pages Checks
+-- Description: usage_logs and user_documents required credits_used = page_count (migration 007).
+-- Since credit reservations (migration 032), a failed or partial extraction is refunded and
+-- logged with credits_used 0 (or the part that was not refunded), which that check rejected.
+-- Credits used may now be anything from 0 up to the page count.
+
+ALTER TABLE usage_logs DROP CONSTRAINT IF EXISTS check_credits_match_pages;
+
+ALTER TABLE usage_logs ADD CONSTRAINT check_credits_match_pages CHECK (
+  credits_used BETWEEN 0 AND page_count
+);
+
+ALTER TABLE user_documents DROP CONSTRAINT IF EXISTS check_doc_credits_match_pages;
+
+ALTER TABLE user_documents ADD CONSTRAINT check_doc_credits_match_pages CHECK (
+  credits_used BETWEEN 0 AND page_count
+);
+
+COMMENT ON CONSTRAINT check_credits_match_pages ON usage_logs IS 'Credits used never exceed the page count; refunded processing uses fewer';
+COMMENT ON CONSTRAINT check_doc_credits_match_pages ON user_documents IS 'Credits used never exceed the page count; refunded processing uses fewer';
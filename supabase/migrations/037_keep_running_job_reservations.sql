@@ -0,0 +1,46 @@
+-- Migration: Keep Reservations of Running Jobs
+-- Description: release_expired_credit_reservations (migration 032) refunded every reservation
+-- older than p_older_than. A background extraction job can run - or be resumed - for longer than
+-- that, and settles its own reservation when it finishes, so refunding it early would let the
+-- job's credits be spent twice. Reservations of jobs updated within p_older_than are now kept.
+
+-- =====================================================
+-- Function: Release reservations left open by requests that crashed or timed out
+-- Reservations of extraction jobs updated within p_older_than are kept - the job is still
+-- running or being resumed, and settles its own reservation. Returns the number released.
+-- =====================================================
+CREATE OR REPLACE FUNCTION release_expired_credit_reservations(
+  p_older_than INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation_id UUID;
+  v_released INT := 0;
+BEGIN
+  FOR v_reservation_id IN
+    SELECT r.id FROM credit_reservations r
+    WHERE r.status = 'reserved' AND r.created_at < NOW() - p_older_than
+      AND NOT EXISTS (
+        SELECT 1 FROM user_documents d
+        WHERE d.credit_reservation_id = r.id
+          AND d.processing_status = 'processing'
+          AND d.updated_at > (NOW() AT TIME ZONE 'UTC') - p_older_than
+      )
+    ORDER BY r.created_at
+  LOOP
+    IF release_credit_reservation(v_reservation_id, 'Processing did not finish') > 0 THEN
+      v_released := v_released + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_released;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION release_expired_credit_reservations(INTERVAL) TO service_role;
+
+COMMENT ON FUNCTION release_expired_credit_reservations(INTERVAL) IS 'Refund reservations left open by requests that never finished, except jobs still making progress';